@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+// Never deployed from here. Importing external contracts includes them in the
+// build output, so that Ignition and the tests can deploy them by name.
+import { ERC1967Proxy } from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
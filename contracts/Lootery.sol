@@ -1,26 +1,24 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.27;
 
-import { ILootery } from "./interfaces/ILootery.sol";
+import { LooteryBase } from "./LooteryBase.sol";
+import { LooteryDrawExtension } from "./LooteryDrawExtension.sol";
 import { Pick } from "./lib/Pick.sol";
-import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import { IERC721Errors } from "@openzeppelin/contracts/interfaces/draft-IERC6093.sol";
 import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
 import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
-import { ReentrancyGuard } from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { Nonces } from "@openzeppelin/contracts/utils/Nonces.sol";
 import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
-import { IAnyrand } from "./interfaces/IAnyrand.sol";
-import { ITicketSVGRenderer } from "./interfaces/ITicketSVGRenderer.sol";
-import { RandomNumber } from "./ccip/RandomNumber.sol";
-import { IRandomNumber } from "./ccip/IRandomNumber.sol";
-import { CCIPReceiver } from "@chainlink/contracts-ccip/src/v0.8/ccip/applications/CCIPReceiver.sol";
+import { IRandomiserCallback } from "./interfaces/IRandomiserCallback.sol";
+import { IAny2EVMMessageReceiver } from "@chainlink/contracts-ccip/src/v0.8/ccip/interfaces/IAny2EVMMessageReceiver.sol";
 import { Client } from "@chainlink/contracts-ccip/src/v0.8/ccip/libraries/Client.sol";
 import { IRouterClient } from "@chainlink/contracts-ccip/src/v0.8/ccip/interfaces/IRouterClient.sol";
-import { OwnerIsCreator } from "@chainlink/contracts-ccip/src/v0.8/shared/access/OwnerIsCreator.sol";
-import { IReciever } from "./ccip/IReciever.sol";
-import { Ticket } from "./periphery/Ticket.sol";
+import { ConfirmedOwner } from "@chainlink/contracts-ccip/src/v0.8/shared/access/ConfirmedOwner.sol";
 
 /// @title Lootery
 /// @notice Lootery is a number lottery contract where players can pick a
@@ -45,168 +43,64 @@ import { Ticket } from "./periphery/Ticket.sol";
 ///     lottery contract may also distribute free tickets via the `ownerPick`
 ///     function.
 ///
+///     Tickets may also be purchased without a prior approval, with a permit
+///     for `prizeToken` (`purchaseWithPermit`), or without paying for gas at
+///     all, by signing a purchase order that a relayer submits
+///     (`purchaseBySig`).
+///
 ///     While the jackpot builds up over time, it is possible (and desirable)
 ///     to seed the jackpot at any time using the `seedJackpot` function.
-contract Lootery is ILootery, ReentrancyGuard, CCIPReceiver, OwnerIsCreator, IReciever {
+contract Lootery is LooteryBase, IRandomiserCallback, IAny2EVMMessageReceiver, IERC165, IERC721Errors, EIP712, Nonces {
     using SafeERC20 for IERC20;
     using Strings for uint256;
     using EnumerableSet for EnumerableSet.AddressSet;
-
-    /// @notice The protocol fee, taken from purchase fee, if switched on
-    uint256 public constant PROTOCOL_FEE_BPS = 500;
-
-    /// @notice How many numbers must be picked per draw (and per ticket)
-    ///     The range of this number should be something like 3-7
-    uint8 public pickLength;
-    /// @notice Maximum value of a ball (pick) s.t. value \in [1, maxBallValue]
-    uint8 public maxBallValue;
-    /// @notice How long a game lasts in seconds (before numbers are drawn)
-    uint256 public gamePeriod;
-    // /// @notice Trusted randomiser
-    // address public randomiser;
-    /// @notice Token used for prizes
-    address public prizeToken;
-    /// @notice Ticket price
-    uint256 public ticketPrice;
-    /// @notice Percentage of ticket price directed to the community
-    uint256 public communityFeeBps;
-    /// @notice Minimum seconds to wait between seeding jackpot
-    uint256 public seedJackpotDelay;
-    /// @notice Minimum value required when seeding jackpot
-    uint256 public seedJackpotMinValue;
-    /// @notice Ticket SVG renderer
-    address public ticketSVGRenderer;
-
-    /// @dev Total supply of tokens/tickets, also used to determine next tokenId
-
-    /// @notice Current state of the game
-    CurrentGame public currentGame;
-    /// @notice Running jackpot
-    uint256 public jackpot;
-    /// @notice Unclaimed jackpot payouts from previous game; will be rolled
-    ///     over if not claimed in current game
-    uint256 public unclaimedPayouts;
-
-    //----------- VRF variables -----------//
-    uint256 public s_subscriptionId;
-    uint256[] public requestIds;
-    uint256 public lastRequestId;
-    bytes32 public keyHash;
-
-    IRandomNumber public vrf;
-
-		IERC721 public ticket;
-
-    modifier onlyVrfContract() {
-        require(msg.sender == address(vrf), "Only VRF contract can call this function");
-        _;
-    }
-
-   
-
-    /// @notice Current random request details
-    RandomnessRequest public randomnessRequest;
-    /// @notice token id => purchased ticked details (gameId, pickId)
-    mapping(uint256 tokenId => PurchasedTicket) public purchasedTickets;
-    /// @notice Game data
-    mapping(uint256 gameId => Game) public gameData;
-    /// @notice Game id => pick identity => tokenIds
-    mapping(uint256 gameId => mapping(uint256 id => uint256[])) public tokenByPickIdentity;
-    /// @notice Game id => # of claimed winning tickets
-    mapping(uint256 gameId => uint256) public numClaimedWinningTickets;
-    /// @notice Whether a token id has been used to claim winnings
-    mapping(uint256 tokenId => bool) public isWinningsClaimed;
-    /// @notice Accrued community fee share (wei)
-    uint256 public accruedCommunityFees;
-    /// @notice When true, current game will be the last
-    bool public isApocalypseMode;
-    /// @notice Timestamp of when jackpot was last seeded
-    uint256 public jackpotLastSeededAt;
-    /// @notice Beneficiaries; these addresses may be selected during purchase
-    ///     to receive the community fee share.
-    EnumerableSet.AddressSet private _beneficiaries;
-    /// @notice Beneficiary display names for human readability
-    mapping(address beneficiary => string name) public beneficiaryDisplayNames;
-
-    // VRF mapping
-    mapping(uint256 => RequestStatus) public s_requests; /* requestId --> requestStatus */
-
-    constructor(InitConfig memory initConfig)
-        
-        CCIPReceiver(initConfig.ccipRouter)
-    {
-				
-				ticket = IERC721(address(new Ticket(initConfig.name, initConfig.symbol)));
-
-        // deploy RandomNumber contract
-        vrf = IRandomNumber(address(new RandomNumber(initConfig.subscriptionId, initConfig.keyHash, address(this))));
-
-        require(initConfig.subscriptionId != 0, INVALID_SUBSCRIPTION_ID(initConfig.subscriptionId));
-        s_subscriptionId = initConfig.subscriptionId;
-
-        require(initConfig.keyHash.length != 0, INVALID_KEY_HASH(initConfig.keyHash));
-        keyHash = initConfig.keyHash;
-
-        // Pick length of 0 doesn't make sense, pick length > 32 would consume
-        // too much gas. Also realistically, lottos usually pick 5-8 numbers.
-        if (initConfig.pickLength == 0 || initConfig.pickLength > 32) {
-            revert InvalidPickLength(initConfig.pickLength);
-        }
-        pickLength = initConfig.pickLength;
-
-        // If pick length > max ball value, then it's impossible to even
-        // purchase tickets. This is a configuration error.
-        if (initConfig.pickLength > initConfig.maxBallValue) {
-            revert InvalidMaxBallValue(initConfig.maxBallValue);
-        }
-        maxBallValue = initConfig.maxBallValue;
-
-        if (initConfig.gamePeriod < 10 minutes) {
-            revert InvalidGamePeriod(initConfig.gamePeriod);
-        }
-        gamePeriod = initConfig.gamePeriod;
-
-        if (initConfig.ticketPrice == 0) {
-            revert InvalidTicketPrice(initConfig.ticketPrice);
-        }
-        ticketPrice = initConfig.ticketPrice;
-
-        // Community fee + protocol fee should not overflow 100%
-        // 0% jackpot fee share is allowed
-        if (initConfig.communityFeeBps + PROTOCOL_FEE_BPS > 1e4) {
-            revert InvalidFeeShares();
-        }
-        communityFeeBps = initConfig.communityFeeBps;
-
-        // if (initConfig.randomiser == address(0)) {
-        //     revert InvalidRandomiser(initConfig.randomiser);
-        // }
-        // randomiser = initConfig.randomiser;
-
-        if (initConfig.prizeToken == address(0)) {
-            revert InvalidPrizeToken(initConfig.prizeToken);
-        }
-        prizeToken = initConfig.prizeToken;
-
-        seedJackpotDelay = initConfig.seedJackpotDelay;
-        seedJackpotMinValue = initConfig.seedJackpotMinValue;
-        if (seedJackpotDelay == 0 || seedJackpotMinValue == 0) {
-            revert InvalidSeedJackpotConfig(seedJackpotDelay, seedJackpotMinValue);
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /// @notice EIP-712 typehash of a ticket in a purchase order
+    bytes32 public constant TICKET_TYPEHASH = keccak256("Ticket(address whomst,uint8[] pick)");
+    /// @notice EIP-712 typehash of a purchase order
+    bytes32 public constant PURCHASE_ORDER_TYPEHASH = keccak256(
+        "PurchaseOrder(address payer,Ticket[] tickets,address beneficiary,uint256 deadline,uint256 nonce)"
+        "Ticket(address whomst,uint8[] pick)"
+    );
+
+    /// @notice CCIP router that delivers cross-chain purchases; address(0)
+    ///     if CCIP isn't available on this chain
+    address private immutable _ccipRouter;
+    /// @notice `LooteryDrawExtension` that implements the draws, claims,
+    ///     prize tiers and administration of this lottery, in its context;
+    ///     see {Lootery-_delegateTo}
+    address private immutable _drawExtension;
+    /// @notice `LooteryPurchaseExtension` that implements the purchases of
+    ///     this lottery with a permit, by subscription and from other chains,
+    ///     in its context; see {Lootery-_delegateTo}
+    address private immutable _purchaseExtension;
+
+    constructor(InitConfig memory initConfig) ConfirmedOwner(initConfig.owner) EIP712("Lootery", "1") {
+        _ccipRouter = initConfig.ccipRouter;
+
+        if (initConfig.drawExtension.code.length == 0) {
+            revert InvalidExtension(initConfig.drawExtension);
+        }
+        _drawExtension = initConfig.drawExtension;
+        if (initConfig.purchaseExtension.code.length == 0) {
+            revert InvalidExtension(initConfig.purchaseExtension);
+        }
+        _purchaseExtension = initConfig.purchaseExtension;
+
+        // The rest of the config is validated in the draw extension, which
+        // also starts the first game
+        (bool success, bytes memory result) =
+            initConfig.drawExtension.delegatecall(abi.encodeCall(LooteryDrawExtension.init, (initConfig)));
+        if (!success) {
+            assembly {
+                revert(add(result, 0x20), mload(result))
+            }
         }
-
-        _setTicketSVGRenderer(initConfig.ticketSVGRenderer);
-
-        currentGame.state = GameState.Purchase;
-        gameData[0] = Game({
-            ticketsSold: 0,
-            // The first game starts straight away
-            startedAt: uint64(block.timestamp),
-            winningPickId: 0
-        });
     }
 
     function typeAndVersion() external pure returns (string memory) {
-        return "Lootery 1.8.0";
+        return "Lootery 1.9.0";
     }
 
     /// @dev The contract should be able to receive Ether to pay for VRF.
@@ -214,15 +108,6 @@ contract Lootery is ILootery, ReentrancyGuard, CCIPReceiver, OwnerIsCreator, IRe
         emit Received(msg.sender, msg.value);
     }
 
-    /// @notice Only allow calls in the specified game state
-    /// @param state Required game state
-    modifier onlyInState(GameState state) {
-        if (currentGame.state != state) {
-            revert UnexpectedState(currentGame.state);
-        }
-        _;
-    }
-
     /// @notice Get all beneficiaries (shouldn't be such a huge list)
     function beneficiaries() external view returns (address[] memory addresses, string[] memory names) {
         addresses = _beneficiaries.values();
@@ -232,510 +117,308 @@ contract Lootery is ILootery, ReentrancyGuard, CCIPReceiver, OwnerIsCreator, IRe
         }
     }
 
-    /// @notice Add or remove a beneficiary
-    /// @param beneficiary Address to add/remove
-    /// @param displayName Display name for the beneficiary
-    /// @param isBeneficiary Whether to add or remove
-    /// @return didMutate Whether the beneficiary was added/removed
-    function setBeneficiary(
-        address beneficiary,
-        string calldata displayName,
-        bool isBeneficiary
-    )
-        external
-        onlyOwner
-        returns (bool didMutate)
-    {
-        if (isBeneficiary) {
-            if (bytes(displayName).length == 0) {
-                revert EmptyDisplayName();
-            }
-            // Set display name if it changed (or was unset)
-            bool didDisplayNameChange =
-                keccak256(bytes(beneficiaryDisplayNames[beneficiary])) != keccak256(bytes(displayName));
-            beneficiaryDisplayNames[beneficiary] = displayName;
-            // Upsert beneficiary
-            didMutate = _beneficiaries.add(beneficiary) || didDisplayNameChange;
-            if (didMutate) {
-                emit BeneficiarySet(beneficiary, displayName);
-            }
-        } else {
-            didMutate = _beneficiaries.remove(beneficiary);
-            if (didMutate) {
-                delete beneficiaryDisplayNames[beneficiary];
-                emit BeneficiaryRemoved(beneficiary);
-            }
-        }
+    /// @notice See {LooteryPurchaseExtension-setBeneficiary}
+    function setBeneficiary(address, string calldata, bool) external returns (bool) {
+        _delegateTo(_purchaseExtension);
     }
 
-    /// @notice Seed the jackpot.
-    /// @dev We allow seeding jackpot during purchase phase only, so we don't
-    ///     have to fuck around with accounting
-    /// @notice NB: This function is rate-limited by `jackpotLastSeededAt`!
-    /// @param value Amount of `prizeToken` to be taken from the caller and
-    ///     added to the jackpot.
-    function seedJackpot(uint256 value) external onlyInState(GameState.Purchase) {
-        // Disallow seeding the jackpot with zero value
-        if (value < seedJackpotMinValue) {
-            revert InsufficientJackpotSeed(value);
-        }
-
-        // Rate limit seeding the jackpot
-        if (block.timestamp < jackpotLastSeededAt + seedJackpotDelay) {
-            revert RateLimited(jackpotLastSeededAt + seedJackpotDelay - block.timestamp);
-        }
-        jackpotLastSeededAt = block.timestamp;
+    /// @notice See {LooteryDrawExtension-seedJackpot}
+    function seedJackpot(uint256) external {
+        _delegateTo(_drawExtension);
+    }
 
-        jackpot += value;
-        IERC20(prizeToken).safeTransferFrom(msg.sender, address(this), value);
-        emit JackpotSeeded(msg.sender, value);
+    /// @notice Purchase a ticket
+    /// @param tickets Tickets! Tickets!
+    /// @param beneficiary Beneficiary address to receive community fee share
+    function purchase(Ticket[] calldata tickets, address beneficiary) external {
+        _purchase(msg.sender, tickets, beneficiary);
     }
 
-    /// @notice Pick tickets and increase jackpot
-    /// @param tickets Tickets!
-    function _pickTickets(Ticket[] memory tickets) internal onlyInState(GameState.Purchase) {
-        CurrentGame memory currentGame_ = currentGame;
-        uint256 currentGameId = currentGame_.id;
+    /// @notice See {LooteryPurchaseExtension-purchaseWithPermit}
+    function purchaseWithPermit(Ticket[] calldata, address, uint256, uint8, bytes32, bytes32) external {
+        _delegateTo(_purchaseExtension);
+    }
 
-        uint256 ticketsCount = tickets.length;
-        Game memory game = gameData[currentGameId];
-        gameData[currentGameId].ticketsSold = game.ticketsSold + uint64(ticketsCount);
+    /// @notice Purchase tickets on behalf of the payer that signed an order,
+    ///     e.g. by a relayer, so that the payer doesn't pay for gas. The
+    ///     payer must have approved the payment, which can itself be done
+    ///     gaslessly with a permit.
+    /// @param order Purchase order
+    /// @param signature Payer's EIP-712 signature of the order, or an
+    ///     ERC-1271 signature if the payer is a contract
+    function purchaseBySig(PurchaseOrder calldata order, bytes calldata signature) external {
+        if (block.timestamp > order.deadline) {
+            revert PurchaseOrderExpired(order.deadline);
+        }
+        _useCheckedNonce(order.payer, order.nonce);
+        if (!SignatureChecker.isValidSignatureNow(order.payer, hashPurchaseOrder(order), signature)) {
+            revert InvalidPurchaseOrderSignature(order.payer);
+        }
+        _purchase(order.payer, order.tickets, order.beneficiary);
+    }
 
-        uint256 pickLength_ = pickLength;
-        uint256 maxBallValue_ = maxBallValue;
-        uint256 startingTokenId = totalSupply + 1;
+    /// @notice Compute the EIP-712 digest of a purchase order, which the
+    ///     payer signs
+    /// @param order Purchase order
+    function hashPurchaseOrder(PurchaseOrder calldata order) public view returns (bytes32) {
+        uint256 ticketsCount = order.tickets.length;
+        bytes32[] memory ticketHashes = new bytes32[](ticketsCount);
         for (uint256 t; t < ticketsCount; ++t) {
-            address whomst = tickets[t].whomst;
-            uint8[] memory pick = tickets[t].pick;
-
-            // Empty pick means this particular player does not wish to receive
-            // an entry to the lottery.
-            if (pick.length != pickLength_ && pick.length != 0) {
-                revert InvalidPickLength(pick.length);
-            }
+            Ticket calldata ticket_ = order.tickets[t];
+            ticketHashes[t] =
+                keccak256(abi.encode(TICKET_TYPEHASH, ticket_.whomst, keccak256(abi.encodePacked(ticket_.pick))));
+        }
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    PURCHASE_ORDER_TYPEHASH,
+                    order.payer,
+                    keccak256(abi.encodePacked(ticketHashes)),
+                    order.beneficiary,
+                    order.deadline,
+                    order.nonce
+                )
+            )
+        );
+    }
 
-            if (pick.length != 0) {
-                // Assert balls are ascendingly sorted, with no possibility of duplicates
-                uint8 lastBall;
-                for (uint256 i; i < pickLength_; ++i) {
-                    uint8 ball = pick[i];
-                    if (ball <= lastBall) revert UnsortedPick(pick);
-                    if (ball > maxBallValue_) revert InvalidBallValue(ball);
-                    lastBall = ball;
-                }
-            }
+    /// @notice See {LooteryDrawExtension-draw}
+    function draw() external payable {
+        _delegateTo(_drawExtension);
+    }
 
-            // Record picked numbers
-            uint256 tokenId = startingTokenId + t;
-            uint256 pickId = Pick.id(pick);
-            purchasedTickets[tokenId] = PurchasedTicket({ gameId: currentGameId, pickId: pickId });
+    /// @notice See {LooteryDrawExtension-forceRedraw}
+    function forceRedraw() external payable {
+        _delegateTo(_drawExtension);
+    }
 
-            // Account for this pick set
-            tokenByPickIdentity[currentGameId][pickId].push(tokenId);
-            emit TicketPurchased(currentGameId, whomst, tokenId, pick);
-        }
-        // Finally, mint NFTs
-        for (uint256 t; t < ticketsCount; ++t) {
-            address whomst = tickets[t].whomst;
-            ticket.safeMint(whomst, startingTokenId + t); // NB: Increases totalSupply
-        }
+    /// @notice See {LooteryDrawExtension-receiveRandomWords}
+    function receiveRandomWords(uint256, uint256[] calldata) external {
+        _delegateTo(_drawExtension);
     }
 
-    /// @notice Purchase a ticket
-    /// @param tickets Tickets! Tickets!
-    /// @param beneficiary Beneficiary address to receive community fee share
-    function purchase(Ticket[] calldata tickets, address beneficiary) external {
-        if (tickets.length == 0) {
-            revert NoTicketsSpecified();
-        }
+    /// @notice See {LooteryDrawExtension-claimWinnings}
+    function claimWinnings(uint256) external returns (uint256) {
+        _delegateTo(_drawExtension);
+    }
 
-        uint256 ticketsCount = tickets.length;
-        uint256 totalPrice = ticketPrice * ticketsCount;
-
-        IERC20(prizeToken).safeTransferFrom(msg.sender, address(this), totalPrice);
-
-        // Handle fee splits
-        uint256 communityFeeShare = (totalPrice * communityFeeBps) / 1e4;
-        // address protocolFeeRecipient = ILooteryFactory(factory).getFeeRecipient();
-        address protocolFeeRecipient = beneficiary;
-        uint256 protocolFeeShare = protocolFeeRecipient == address(0) ? 0 : (totalPrice * PROTOCOL_FEE_BPS) / 1e4;
-        uint256 jackpotShare = totalPrice - communityFeeShare - protocolFeeShare;
-        uint256 currentGameId = currentGame.id;
-
-        // Payout community/beneficiary fees
-        if (beneficiary == address(0)) {
-            accruedCommunityFees += communityFeeShare;
-        } else {
-            if (!_beneficiaries.contains(beneficiary)) {
-                revert UnknownBeneficiary(beneficiary);
-            }
-            if (communityFeeShare > 0) {
-                IERC20(prizeToken).safeTransfer(beneficiary, communityFeeShare);
-            }
-        }
-        emit BeneficiaryPaid(currentGameId, beneficiary == address(0) ? address(this) : beneficiary, communityFeeShare);
+    /// @notice See {LooteryDrawExtension-claimWinningsBatch}
+    function claimWinningsBatch(uint256[] calldata) external returns (ClaimResult[] memory) {
+        _delegateTo(_drawExtension);
+    }
 
-        // Payout protocol fees
-        if (protocolFeeShare > 0) {
-            IERC20(prizeToken).safeTransfer(protocolFeeRecipient, protocolFeeShare);
-            emit ProtocolFeePaid(protocolFeeRecipient, protocolFeeShare);
-        }
+    /// @notice See {LooteryDrawExtension-withdrawAccruedFees}
+    function withdrawAccruedFees() external {
+        _delegateTo(_drawExtension);
+    }
 
-        // Payout jackpot
-        jackpot += jackpotShare;
-        _pickTickets(tickets);
+    /// @notice See {LooteryDrawExtension-kill}
+    function kill() external {
+        _delegateTo(_drawExtension);
     }
 
-    /// @notice Helper to get the request price for VRF call
-    // function getRequestPrice() public view returns (uint256) {
-    //     return IAnyrand(randomiser).getRequestPrice(callbackGasLimit);
-    // }
+    /// @notice See {LooteryDrawExtension-rescueETH}
+    function rescueETH() external {
+        _delegateTo(_drawExtension);
+    }
 
-    /// @notice Draw numbers, picking potential jackpot winners and ending the
-    ///     current game. This should be automated by a keeper.
-    function draw() external onlyInState(GameState.Purchase) {
-        Game memory game = gameData[currentGame.id];
-        // Assert that the game is actually over
-        uint256 gameDeadline = (game.startedAt + gamePeriod);
-        if (block.timestamp < gameDeadline) {
-            revert WaitLonger(gameDeadline);
-        }
+    /// @notice See {LooteryDrawExtension-rescueTokens}
+    function rescueTokens(address) external {
+        _delegateTo(_drawExtension);
+    }
 
-        // Assert that there are actually tickets sold in this game
-        // slither-disable-next-line incorrect-equality
-        if (game.ticketsSold == 0) {
-            if (isApocalypseMode) {
-                // Case #0: Apocalypse mode is triggered, but there were no
-                // tickets sold and therefore nobody to distribute jackpot or
-                // prize to.
-                revert NoTicketsSold();
-            } else {
-                // Case #1: No tickets were sold, just skip the game
-                emit DrawSkipped(currentGame.id);
-            }
-            _setupNextGame();
-        } else {
-            // Case #2: Tickets were sold
-            _requestRandomness();
-        }
+    /// @notice Helper to parse a pick id into a pick array
+    /// @param pickId Pick id
+    function computePick(uint256 pickId) public view returns (uint8[] memory pick) {
+        return Pick.parse(pickLength, pickId);
     }
 
-    /// @notice This is an escape hatch to re-request randomness in case there
-    ///     is some issue with the VRF fulfiller.
-    function forceRedraw() external payable nonReentrant onlyInState(GameState.DrawPending) {
-        RandomnessRequest memory request = randomnessRequest;
-        if (request.timestamp == 0) {
-            revert NoRandomnessRequestInFlight();
+    /// @notice Helper to compute the winning bonus ball given a random seed.
+    /// @param randomSeed Seed that determines the bonus ball
+    /// @return Bonus ball, or 0 if the lottery has no bonus ball
+    function computeWinningBonusBall(uint256 randomSeed) public view returns (uint8) {
+        if (bonusBallMaxValue == 0) {
+            return 0;
         }
+        return Pick.drawBonusBall(bonusBallMaxValue, randomSeed);
+    }
 
-        // There is a pending request present: check if it's been waiting for a while
-        if (block.timestamp >= request.timestamp + 1 hours) {
-            // 30 minutes have passed since the request was made
-            _requestRandomness();
-        } else {
-            revert WaitLonger(request.timestamp + 1 hours);
-        }
+    /// @notice See {LooteryDrawExtension-changeTicketPrice}
+    function changeTicketPrice(uint256) external {
+        _delegateTo(_drawExtension);
     }
 
-    /// @notice Request randomness from VRF
-    function _requestRandomness() internal returns (uint256 requestId) {
-        currentGame.state = GameState.DrawPending;
-
-        // uint256 requestPrice = getRequestPrice();
-        // if (msg.value > requestPrice) {
-        //     // Refund excess to caller, if any
-        //     uint256 excess = msg.value - requestPrice;
-        //     (bool success, bytes memory data) = msg.sender.call{ value: excess }("");
-        //     if (!success) {
-        //         revert TransferFailure(msg.sender, excess, data);
-        //     }
-        //     emit ExcessRefunded(msg.sender, excess);
-        // }
-        // if (address(this).balance < requestPrice) {
-        //     revert InsufficientOperationalFunds(address(this).balance, requestPrice);
-        // }
-
-        // VRF call to trusted coordinator
-        // slither-disable-next-line reentrancy-eth,arbitrary-send-eth
-        requestId = vrf.requestRandomWords(false);
-        s_requests[requestId] = RequestStatus({ randomWords: new uint256[](0), exists: true, fulfilled: false });
-        requestIds.push(requestId);
-        lastRequestId = requestId;
-        emit RequestSent(requestId, 2);
-        return requestId;
-    }
-
-    /// @notice Callback for VRF fulfiller.
-    function receiveRandomWords(
-        // uint256 _requestId,
-        uint256[] calldata _randomWords
-    )
-        external
-        onlyVrfContract
-        onlyInState(GameState.DrawPending)
-    {
-        // if (msg.sender != randomiser) {
-        //     revert CallerNotRandomiser(msg.sender);
-        // }
-        // if (randomWords.length == 0) {
-        //     revert InsufficientRandomWords();
-        // }
-        // if (randomnessRequest.requestId != requestId) {
-        //     revert RequestIdMismatch(requestId, randomnessRequest.requestId);
-        // }
-        // randomnessRequest = RandomnessRequest({ requestId: 0, timestamp: 0 });
-        // Will revert if subscription is not set and funded.
-
-        // Pick winning numbers
-        uint8[] memory balls = computeWinningPick(_randomWords[0]);
-        uint248 gameId = currentGame.id;
-        emit GameFinalised(gameId, balls);
-
-        // Record winning pick bitset
-        uint256 winningPickId = Pick.id(balls);
-        gameData[gameId].winningPickId = winningPickId;
-
-        _setupNextGame();
-    }
-
-    /// @dev Transition to next game, locking and/or rolling over any jackpots
-    ///     as necessary.
-    function _setupNextGame() internal {
-        // Invariant: can't setup a next game if the lottery has been killed
-        assert(currentGame.state != GameState.Dead);
-
-        // Current game id, before the state transition
-        uint248 gameId = currentGame.id;
-
-        GameState nextState;
-        if (isApocalypseMode) {
-            // Apocalypse mode, kill game forever
-            nextState = GameState.Dead;
-        } else {
-            // Otherwise, ready for next game
-            nextState = GameState.Purchase;
-        }
+    /// @notice See {LooteryDrawExtension-setTicketSVGRenderer}
+    function setTicketSVGRenderer(address) external {
+        _delegateTo(_drawExtension);
+    }
 
-        // Initialise data for next game
-        currentGame = CurrentGame({ state: nextState, id: gameId + 1 });
-        gameData[gameId + 1].startedAt = uint64(block.timestamp);
-
-        // Jackpot accounting: rollover jackpot if no winner
-        uint256 winningPickId = gameData[gameId].winningPickId;
-        uint256 numWinners = tokenByPickIdentity[gameId][winningPickId].length;
-        uint256 currentUnclaimedPayouts = unclaimedPayouts;
-        uint256 currentJackpot = jackpot;
-
-        if (numWinners == 0 && nextState != GameState.Dead) {
-            // No winners, normal game transition, current jackpot and
-            // unclaimed payouts are rolled over to the next game
-            uint256 nextJackpot = currentUnclaimedPayouts + currentJackpot;
-            uint256 nextUnclaimedPayouts = 0;
-            jackpot = nextJackpot;
-            unclaimedPayouts = 0;
-            emit JackpotRollover(gameId, currentUnclaimedPayouts, currentJackpot, nextUnclaimedPayouts, nextJackpot);
-        } else {
-            // There are winners, or apocalypse mode has been triggered
-            // => jackpot+unclaimed goes into next game's unclaimed
-            uint256 nextJackpot = 0;
-            uint256 nextUnclaimedPayouts = currentUnclaimedPayouts + currentJackpot;
-            jackpot = 0;
-            unclaimedPayouts = nextUnclaimedPayouts;
-            emit JackpotRollover(gameId, currentUnclaimedPayouts, currentJackpot, nextUnclaimedPayouts, nextJackpot);
-        }
+    /// @notice Determine if game is active (in any playable state). If this
+    ///     returns `false`, it means that the lottery is no longer playable.
+    /// @dev This is a helper function exposed for frontend (also for legacy
+    ///     reasons). Check the game state directly in the contract.
+    function isGameActive() external view returns (bool) {
+        return currentGame.state != GameState.Dead;
     }
 
-    /// @notice Get the number of winners in a game
-    /// @param gameId Game id
-    /// @param pickId Pick id
-    /// @return Number of winners
-    function numWinnersInGame(uint256 gameId, uint256 pickId) public view returns (uint256) {
-        return tokenByPickIdentity[gameId][pickId].length;
-    }
-
-    /// @notice Claim a share of the jackpot with a winning ticket.
-    /// @param tokenId Token id of the ticket (will be burnt)
-    function claimWinnings(uint256 tokenId) external returns (uint256 prizeShare) {
-        // Only allow claims during Purchase state so we don't have to deal
-        // with intermediate states between gameIds.
-        // Dead state is also ok since the entire game has ended forever.
-        if (currentGame.state != GameState.Purchase && currentGame.state != GameState.Dead) {
-            revert UnexpectedState(currentGame.state);
-        }
+    /// @notice CCIP router; address(0) if CCIP isn't available on this chain
+    function getRouter() public view returns (address) {
+        return _ccipRouter;
+    }
 
-        address whomst = ticket.ownerOf(tokenId);
-        if (whomst == address(0)) {
-            revert IERC721.ERC721NonexistentToken(tokenId);
-        }
+    /// @notice See {IERC165-supportsInterface}. The CCIP router only delivers
+    ///     messages to receivers that support {IAny2EVMMessageReceiver}.
+    function supportsInterface(bytes4 interfaceId) public pure returns (bool) {
+        return interfaceId == type(IAny2EVMMessageReceiver).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
 
-        PurchasedTicket memory purchasedTicket = purchasedTickets[tokenId];
-        uint256 currentGameId = currentGame.id;
-        // Can only claim winnings from the last game
-        if (purchasedTicket.gameId != currentGameId - 1) {
-            revert ClaimWindowMissed(tokenId);
-        }
+    /// @notice See {LooteryPurchaseExtension-ccipReceive}
+    function ccipReceive(Client.Any2EVMMessage calldata) external {
+        _delegateTo(_purchaseExtension);
+    }
 
-        // Determine if the jackpot was won
-        Game memory game = gameData[purchasedTicket.gameId];
-        uint256 winningPickId = game.winningPickId;
-        uint256 numWinners = numWinnersInGame(purchasedTicket.gameId, winningPickId);
-
-        if (numWinners == 0 && currentGame.state == GameState.Dead) {
-            // No jackpot winners, and game is no longer active!
-            // Jackpot is shared between all tickets
-            // Invariant: `ticketsSold[gameId] > 0`
-            prizeShare = unclaimedPayouts / totalSupply;
-            // Decrease unclaimed payouts by the amount just claimed
-            unclaimedPayouts -= prizeShare;
-            // Burning the token is our "consolation prize claim nullifier"
-            ticket.burn(tokenId); // NB: decreases totalSupply
-            // Transfer share of jackpot to ticket holder
-            IERC20(prizeToken).safeTransfer(whomst, prizeShare);
-            emit ConsolationClaimed(tokenId, purchasedTicket.gameId, whomst, prizeShare);
-        } else if (winningPickId == purchasedTicket.pickId) {
-            assert(numWinners > 0);
-            // This ticket did have the winning numbers; just check it hasn't
-            // been used to claim a prize already
-            if (isWinningsClaimed[tokenId]) {
-                revert AlreadyClaimed(tokenId);
-            }
-            // OK - compute the prize share to transfer
-            uint256 numClaimedWinningTickets_ = numClaimedWinningTickets[purchasedTicket.gameId];
-            prizeShare = unclaimedPayouts / (numWinners - numClaimedWinningTickets_);
-            // Decrease unclaimed payouts by the amount just claimed
-            unclaimedPayouts -= prizeShare;
-            // Record that this ticket has claimed its winnings, but don't burn
-            isWinningsClaimed[tokenId] = true;
-            numClaimedWinningTickets[purchasedTicket.gameId] += 1;
-            // Transfer share of jackpot to ticket holder
-            IERC20(prizeToken).safeTransfer(whomst, prizeShare);
-
-            emit WinningsClaimed(tokenId, purchasedTicket.gameId, whomst, prizeShare);
-        } else {
-            revert NoWin(purchasedTicket.pickId, winningPickId);
+    /// @notice CCIP router, for sending messages to other chains
+    function _getRouterClient() internal view returns (IRouterClient) {
+        if (_ccipRouter == address(0)) {
+            revert CcipUnavailable();
         }
+        return IRouterClient(_ccipRouter);
     }
 
-    /// @notice Withdraw accrued community fees.
-    function withdrawAccruedFees() external onlyOwner {
-        uint256 totalAccrued = accruedCommunityFees;
-        accruedCommunityFees = 0;
-        IERC20(prizeToken).safeTransfer(msg.sender, totalAccrued);
-        emit AccruedCommunityFeesWithdrawn(msg.sender, totalAccrued);
+    /// @notice See {LooteryPurchaseExtension-setAllowlistedSender}
+    function setAllowlistedSender(uint64, address, bool) external {
+        _delegateTo(_purchaseExtension);
     }
 
-    /// @notice Set this game as the last game of the lottery.
-    ///     aka invoke apocalypse mode.
-    function kill() external onlyOwner onlyInState(GameState.Purchase) {
-        if (isApocalypseMode) {
-            // Already set
-            revert GameInactive();
-        }
-        isApocalypseMode = true;
-        emit ApocalypseModeActivated(currentGame.id);
+    /// @notice See {LooteryPurchaseExtension-withdrawRefundCredit}
+    function withdrawRefundCredit(address) external returns (uint256) {
+        _delegateTo(_purchaseExtension);
     }
 
-    /// @notice Withdraw any ETH (used for VRF requests).
-    function rescueETH() external onlyOwner {
-        uint256 amount = address(this).balance;
-        (bool success, bytes memory data) = msg.sender.call{ value: amount }("");
-        if (!success) {
-            revert TransferFailure(msg.sender, amount, data);
-        }
-        emit OperationalFundsWithdrawn(msg.sender, amount);
+    /// @notice See {LooteryPurchaseExtension-executeEscrowedPurchase}
+    function executeEscrowedPurchase(bytes32) external {
+        _delegateTo(_purchaseExtension);
     }
 
-    /// @notice Allow owner to rescue any tokens sent to the contract;
-    ///     excluding jackpot and accrued fees.
-    /// @param tokenAddress Address of token to withdraw
-    function rescueTokens(address tokenAddress) external onlyOwner {
-        if (tokenAddress == prizeToken) {
-            revert PrizeTokenWithdrawalNotAllowed();
-        }
+    /// @notice See {LooteryPurchaseExtension-refundEscrowedPurchase}
+    function refundEscrowedPurchase(bytes32) external {
+        _delegateTo(_purchaseExtension);
+    }
 
-        uint256 amount = IERC20(tokenAddress).balanceOf(address(this));
-        IERC20(tokenAddress).safeTransfer(msg.sender, amount);
+    /// @notice Fee, in native currency, to push the ticket price to a
+    ///     `Sender` on another chain
+    /// @param destinationChainSelector CCIP chain selector of the Sender's chain
+    /// @param sender Sender contract on the destination chain
+    function getTicketPriceSyncFee(uint64 destinationChainSelector, address sender) external view returns (uint256) {
+        return _getRouterClient().getFee(destinationChainSelector, _buildTicketPriceMessage(sender));
     }
 
-    /// @notice Helper to parse a pick id into a pick array
-    /// @param pickId Pick id
-    function computePick(uint256 pickId) public view returns (uint8[] memory pick) {
-        return Pick.parse(pickLength, pickId);
+    /// @notice See {LooteryPurchaseExtension-syncTicketPrice}
+    function syncTicketPrice(uint64, address) external payable returns (bytes32) {
+        _delegateTo(_purchaseExtension);
     }
 
-    /// @notice Helper to compute the winning numbers/balls given a random seed.
-    /// @param randomSeed Seed that determines the permutation of BALLS
-    /// @return balls Ordered set of winning numbers
-    function computeWinningPick(uint256 randomSeed) public view returns (uint8[] memory balls) {
-        return Pick.draw(pickLength, maxBallValue, randomSeed);
+    /// @notice Get all prize tiers
+    function getPrizeTiers() external view returns (PrizeTier[] memory) {
+        return prizeTiers;
     }
 
-    function changeTicketPrice(uint256 _newPrice) external onlyOwner {
-        require(_newPrice > 0, InvalidTicketPrice(_newPrice));
-        ticketPrice = _newPrice;
-        emit TicketPriceUpdated(_newPrice);
+    /// @notice Get the number of distinct picks in a game
+    /// @param gameId Game id
+    function numDistinctPicks(uint256 gameId) external view returns (uint256) {
+        return gamePickIds[gameId].length;
     }
 
-    /// @notice Set the SVG renderer for tickets (privileged)
-    /// @param renderer Address of renderer contract
-    function _setTicketSVGRenderer(address renderer) internal view {
-        if (renderer == address(0)) {
-            revert InvalidTicketSVGRenderer(renderer);
-        }
+    /// @notice Count how many winning balls a pick matched, not counting
+    ///     the bonus ball
+    /// @param gameId Game id, which must have been drawn
+    /// @param pickId Pick identity
+    function countMatches(uint256 gameId, uint256 pickId) public view returns (uint256 matches) {
+        (matches,) = _countMatches(pickId, gameData[gameId].winningPickId);
+    }
 
-        try IERC165(renderer).supportsInterface(type(ITicketSVGRenderer).interfaceId) returns (bool isSupported) {
-            if (!isSupported) {
-                revert InvalidTicketSVGRenderer(renderer);
-            }
-        } catch {
-            revert InvalidTicketSVGRenderer(renderer);
-        }
+    /// @notice See {LooteryDrawExtension-setPrizeTiers}
+    function setPrizeTiers(PrizeTier[] calldata) external {
+        _delegateTo(_drawExtension);
     }
-    /// @notice Set the SVG renderer for tickets
-    /// @param renderer Address of renderer contract
 
-    function setTicketSVGRenderer(address renderer) external view onlyOwner {
-        _setTicketSVGRenderer(renderer);
+    /// @notice See {LooteryDrawExtension-tallyPrizeTiers}
+    function tallyPrizeTiers(uint256, uint256) external returns (bool) {
+        _delegateTo(_drawExtension);
     }
 
-    /// @notice Determine if game is active (in any playable state). If this
-    ///     returns `false`, it means that the lottery is no longer playable.
-    /// @dev This is a helper function exposed for frontend (also for legacy
-    ///     reasons). Check the game state directly in the contract.
-    function isGameActive() external view returns (bool) {
-        return currentGame.state != GameState.Dead;
+    /// @notice Whether a pick matched the winning bonus ball
+    /// @param gameId Game id, which must have been drawn
+    /// @param pickId Pick identity
+    function matchedBonusBall(uint256 gameId, uint256 pickId) external view returns (bool isMatched) {
+        (, isMatched) = _countMatches(pickId, gameData[gameId].winningPickId);
     }
 
+    /// @notice See {LooteryDrawExtension-setClaimWindow}
+    function setClaimWindow(uint256, uint256) external {
+        _delegateTo(_drawExtension);
+    }
 
-    // Storage variables.
-    bytes32[] public receivedMessages; // Array to keep track of the IDs of received messages.
-    mapping(bytes32 => MessageIn) public messageDetail; // Mapping from message ID to MessageIn struct, storing details
-        // of the message.
+    /// @notice See {LooteryDrawExtension-sweepExpiredPayouts}
+    function sweepExpiredPayouts() external returns (uint256) {
+        _delegateTo(_drawExtension);
+    }
 
-    function _ccipReceive(Client.Any2EVMMessage memory any2EvmMessage) internal override {
-        bytes32 messageId = any2EvmMessage.messageId; // fetch the messageId
-        uint64 sourceChainSelector = any2EvmMessage.sourceChainSelector; // fetch the source chain identifier (aka
-            // selector)
-        address sender = abi.decode(any2EvmMessage.sender, (address)); // abi-decoding of the sender address
-        (bytes memory encodedTicket) = abi.decode(any2EvmMessage.data, (bytes)); // abi-decoding tuple
+    /// @notice Get a subscription
+    /// @param subscriptionId Subscription id
+    function getSubscription(uint256 subscriptionId) external view returns (Subscription memory) {
+        return _subscriptions[subscriptionId];
+    }
 
-        // abi-decoding of the encoded ticket
-        (Ticket[] memory tickets) = abi.decode(encodedTicket, (Ticket[]));
+    /// @notice Get the ids of all subscriptions that are still entered into
+    ///     each game
+    function activeSubscriptionIds() external view returns (uint256[] memory subscriptionIds) {
+        // Skip cancelled subscriptions that haven't been removed yet
+        uint256[] memory candidates = _activeSubscriptionIds.values();
+        uint256 count;
+        for (uint256 i; i < candidates.length; ++i) {
+            if (_subscriptions[candidates[i]].gamesRemaining > 0) ++count;
+        }
+        subscriptionIds = new uint256[](count);
+        count = 0;
+        for (uint256 i; i < candidates.length; ++i) {
+            if (_subscriptions[candidates[i]].gamesRemaining > 0) {
+                subscriptionIds[count++] = candidates[i];
+            }
+        }
+    }
 
-        // Collect tokens transferred. This increases this contract's balance for that Token.
-        Client.EVMTokenAmount[] memory tokenAmounts = any2EvmMessage.destTokenAmounts;
-        address token = tokenAmounts[0].token;
-        uint256 amount = tokenAmounts[0].amount;
+    /// @notice See {LooteryPurchaseExtension-subscribe}
+    function subscribe(address, uint8[] calldata, uint256) external returns (uint256) {
+        _delegateTo(_purchaseExtension);
+    }
 
-        receivedMessages.push(messageId);
-        MessageIn memory detail = MessageIn(sourceChainSelector, sender, token, amount, encodedTicket);
-        messageDetail[messageId] = detail;
+    /// @notice See {LooteryPurchaseExtension-cancelSubscription}
+    function cancelSubscription(uint256) external returns (uint256) {
+        _delegateTo(_purchaseExtension);
+    }
 
-        emit MessageReceived(messageId, sourceChainSelector, sender, tokenAmounts[0], encodedTicket);
+    /// @notice See {LooteryPurchaseExtension-enterSubscriptions}
+    function enterSubscriptions(uint256) external returns (uint256) {
+        _delegateTo(_purchaseExtension);
+    }
 
-        jackpot += amount;
+    /// @notice See {LooteryPurchaseExtension-enterSubscription}
+    function enterSubscription(uint256) external {
+        _delegateTo(_purchaseExtension);
+    }
 
-        // mint ticket
-        _pickTickets(tickets);
+    /// @notice Run the function that was called in an extension, in the
+    ///     context of this lottery, and return (or revert with) whatever it
+    ///     does. Never returns to the caller.
+    /// @param extension `LooteryDrawExtension` or `LooteryPurchaseExtension`
+    function _delegateTo(address extension) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), extension, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            if iszero(success) { revert(0, returndatasize()) }
+            return(0, returndatasize())
+        }
     }
 }
@@ -0,0 +1,540 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { ILootery } from "./interfaces/ILootery.sol";
+import { ILooteryFactory } from "./interfaces/ILooteryFactory.sol";
+import { Pick } from "./lib/Pick.sol";
+import { IERC721Metadata } from "@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { ReentrancyGuard } from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { IRandomnessAdapter } from "./interfaces/IRandomnessAdapter.sol";
+import { ITicketSVGRenderer } from "./interfaces/ITicketSVGRenderer.sol";
+import { ITicket } from "./interfaces/ITicket.sol";
+import { ConfirmedOwner } from "@chainlink/contracts-ccip/src/v0.8/shared/access/ConfirmedOwner.sol";
+import { IReciever } from "./ccip/IReciever.sol";
+import { Client } from "@chainlink/contracts-ccip/src/v0.8/ccip/libraries/Client.sol";
+
+/// @title LooteryBase
+/// @notice State of a lottery, and the logic that is shared by `Lootery` and
+///     its extensions, `LooteryDrawExtension` and `LooteryPurchaseExtension`.
+///     The extensions run in the context of the lottery (with delegatecall),
+///     so all of them inherit this to share its storage layout. None may
+///     declare state of its own besides immutables, other than what `Lootery`
+///     inherits after this, which the extensions never touch.
+abstract contract LooteryBase is ILootery, ReentrancyGuard, ConfirmedOwner, IReciever {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /// @notice The protocol fee, taken from purchase fee, if switched on
+    uint256 public constant PROTOCOL_FEE_BPS = 500;
+    /// @notice Maximum number of subscriptions with games remaining that a
+    ///     single subscriber may have
+    uint256 public constant MAX_ACTIVE_SUBSCRIPTIONS_PER_SUBSCRIBER = 100;
+    /// @notice Gas forwarded to enter each subscription into a game, so that
+    ///     a ticket recipient can't consume the gas of a whole batch
+    uint256 public constant SUBSCRIPTION_ENTRY_GAS_LIMIT = 500_000;
+    /// @notice Seconds a randomness request must be in flight before it may
+    ///     be superseded with `forceRedraw`
+    uint256 public constant REDRAW_TIMEOUT = 1 hours;
+    /// @notice Destination gas for a `Sender` to apply a pushed ticket price
+    uint256 public constant TICKET_PRICE_SYNC_GAS_LIMIT = 100_000;
+    /// @notice How many numbers must be picked per draw (and per ticket)
+    ///     The range of this number should be something like 3-7
+    uint8 public pickLength;
+    /// @notice Maximum value of a ball (pick) s.t. value \in [1, maxBallValue]
+    uint8 public maxBallValue;
+    /// @notice Maximum value of the bonus ball, which is drawn from its own
+    ///     pool s.t. value \in [1, bonusBallMaxValue]; 0 if there's no bonus
+    ///     ball
+    uint8 public bonusBallMaxValue;
+    /// @notice How long a game lasts in seconds (before numbers are drawn)
+    uint256 public gamePeriod;
+    /// @notice Trusted randomiser, adapting the randomness provider that
+    ///     was selected at creation
+    IRandomnessAdapter public randomiser;
+    /// @notice Token used for prizes
+    address public prizeToken;
+    /// @notice Ticket price
+    uint256 public ticketPrice;
+    /// @notice Percentage of ticket price directed to the community
+    uint256 public communityFeeBps;
+    /// @notice Minimum seconds to wait between seeding jackpot
+    uint256 public seedJackpotDelay;
+    /// @notice Minimum value required when seeding jackpot
+    uint256 public seedJackpotMinValue;
+    /// @notice Ticket SVG renderer
+    address public ticketSVGRenderer;
+    /// @notice Current state of the game
+    CurrentGame public currentGame;
+    /// @notice Running jackpot
+    uint256 public jackpot;
+    /// @notice Total payouts reserved for games whose claim window hasn't
+    ///     been swept yet; see {Lootery-gameUnclaimedPayouts}
+    uint256 public unclaimedPayouts;
+    /// @notice Ticket NFT, which this lottery is the sole minter of
+    ITicket public ticket;
+    /// @notice Game id => latest randomness request made to draw the game
+    mapping(uint256 gameId => RandomnessRequest) public randomnessRequests;
+    /// @notice token id => purchased ticked details (gameId, pickId, bonusBall)
+    mapping(uint256 tokenId => PurchasedTicket) public purchasedTickets;
+    /// @notice Game data
+    mapping(uint256 gameId => Game) public gameData;
+    /// @notice Game id => winning bonus ball
+    mapping(uint256 gameId => uint8) public winningBonusBalls;
+    /// @notice Game id => pick identity => tokenIds
+    mapping(uint256 gameId => mapping(uint256 id => uint256[])) public tokenByPickIdentity;
+    /// @notice Game id => # of claimed winning tickets
+    mapping(uint256 gameId => uint256) public numClaimedWinningTickets;
+    /// @notice Whether a token id has been used to claim winnings
+    mapping(uint256 tokenId => bool) public isWinningsClaimed;
+    /// @notice Accrued community fee share (wei)
+    uint256 public accruedCommunityFees;
+    /// @notice When true, current game will be the last
+    bool public isApocalypseMode;
+    /// @notice Timestamp of when jackpot was last seeded
+    uint256 public jackpotLastSeededAt;
+    /// @notice Beneficiaries; these addresses may be selected during purchase
+    ///     to receive the community fee share.
+    EnumerableSet.AddressSet internal _beneficiaries;
+    /// @notice Beneficiary display names for human readability
+    mapping(address beneficiary => string name) public beneficiaryDisplayNames;
+    /// @notice Prize tiers applied to games as they're drawn, from highest
+    ///     to lowest; empty if the jackpot is winner-takes-all
+    PrizeTier[] public prizeTiers;
+    /// @notice Game id => distinct (non-empty) pick ids, for tallying prize tiers
+    mapping(uint256 gameId => uint256[]) public gamePickIds;
+    /// @notice Whether a game was drawn with prize tiers
+    mapping(uint256 gameId => bool) public isTieredGame;
+    /// @notice Game id => # of matching balls => payout of the tier that
+    ///     doesn't require the bonus ball
+    mapping(uint256 gameId => mapping(uint256 matches => TierPayout)) public tierPayouts;
+    /// @notice Game id => # of matching balls => payout of the tier that
+    ///     also requires the bonus ball
+    mapping(uint256 gameId => mapping(uint256 matches => TierPayout)) public bonusTierPayouts;
+    /// @notice Game id => # of distinct picks tallied so far
+    mapping(uint256 gameId => uint256) public numTalliedPicks;
+    /// @notice Whether all of a game's picks have been tallied
+    mapping(uint256 gameId => bool) public isPrizeTiersTallied;
+    /// @notice Number of drawn games (including the last) that can be
+    ///     claimed; see {Lootery-isClaimWindowOpen}
+    uint256 public claimWindowGames;
+    /// @notice Seconds after its draw that a game can be claimed, even once
+    ///     it's older than `claimWindowGames`
+    uint256 public claimWindowDuration;
+    /// @notice Game id => payouts reserved for that game's claims
+    mapping(uint256 gameId => uint256) public gameUnclaimedPayouts;
+    /// @notice Number of games whose claim window has been swept, i.e. the
+    ///     id of the oldest game that may still be claimable
+    uint256 public numSweptGames;
+    /// @notice Subscription id => subscription; ids start at 1
+    mapping(uint256 subscriptionId => Subscription) internal _subscriptions;
+    /// @notice Number of subscriptions created so far
+    uint256 public numSubscriptions;
+    /// @notice Subscriptions that are entered into each game. Cancelled
+    ///     subscriptions are only removed once `enterSubscriptions` gets to
+    ///     them, so that those left to enter stay in place.
+    EnumerableSet.UintSet internal _activeSubscriptionIds;
+    /// @notice Total prepaid for games that subscriptions haven't been
+    ///     entered into yet; this is neither jackpot nor fees
+    uint256 public subscriptionDeposits;
+    /// @notice Subscriber => number of their subscriptions with games remaining
+    mapping(address subscriber => uint256) public numActiveSubscriptions;
+    /// @notice Number of active subscriptions that are yet to be entered into
+    ///     the current game; these are the first of `_activeSubscriptionIds`
+    uint256 public numSubscriptionsToEnter;
+    // Storage variables.
+    bytes32[] public receivedMessages; // Array to keep track of the IDs of received messages.
+    mapping(bytes32 => MessageIn) public messageDetail; // Mapping from message ID to MessageIn struct, storing details
+        // of the message.
+    /// @notice Source chain => sender => whether the sender may purchase
+    ///     tickets via CCIP
+    mapping(uint64 sourceChainSelector => mapping(address sender => bool)) public isAllowlistedSender;
+    /// @notice Whether a message's payment is held until its tickets can be
+    ///     picked (or refunded)
+    mapping(bytes32 messageId => bool) public isEscrowed;
+    /// @notice Total payment held for escrowed messages; this is neither
+    ///     jackpot nor fees
+    uint256 public escrowedPayments;
+    /// @notice Account => token => payment from cross-chain purchases that
+    ///     couldn't be made, which the account may withdraw
+    mapping(address account => mapping(address token => uint256)) public refundCredits;
+    /// @notice Token => total refund credits; this is neither jackpot nor
+    ///     fees, and can't be rescued
+    mapping(address token => uint256) public totalRefundCredits;
+    /// @notice Factory that launched this lottery, whose fee recipient is
+    ///     paid protocol fees; address(0) if no protocol fees are taken
+    address public factory;
+
+    /// @notice Only allow calls in the specified game state
+    /// @param state Required game state
+    modifier onlyInState(GameState state) {
+        if (currentGame.state != state) {
+            revert UnexpectedState(currentGame.state);
+        }
+        _;
+    }
+
+    /// @notice Take payment for tickets, split it into fees and jackpot,
+    ///     then pick the tickets
+    /// @param payer Who pays for the tickets
+    /// @param tickets Tickets! Tickets!
+    /// @param beneficiary Beneficiary address to receive community fee share
+    function _purchase(address payer, Ticket[] calldata tickets, address beneficiary) internal {
+        if (tickets.length == 0) {
+            revert NoTicketsSpecified();
+        }
+
+        uint256 ticketsCount = tickets.length;
+        uint256 totalPrice = ticketPrice * ticketsCount;
+
+        IERC20(prizeToken).safeTransferFrom(payer, address(this), totalPrice);
+
+        // Handle fee splits
+        uint256 communityFeeShare = (totalPrice * communityFeeBps) / 1e4;
+        address protocolFeeRecipient = factory == address(0) ? address(0) : ILooteryFactory(factory).getFeeRecipient();
+        uint256 protocolFeeShare = protocolFeeRecipient == address(0) ? 0 : (totalPrice * PROTOCOL_FEE_BPS) / 1e4;
+        uint256 jackpotShare = totalPrice - communityFeeShare - protocolFeeShare;
+        uint256 currentGameId = currentGame.id;
+
+        // Payout community/beneficiary fees
+        if (beneficiary == address(0)) {
+            accruedCommunityFees += communityFeeShare;
+        } else {
+            if (!_beneficiaries.contains(beneficiary)) {
+                revert UnknownBeneficiary(beneficiary);
+            }
+            if (communityFeeShare > 0) {
+                IERC20(prizeToken).safeTransfer(beneficiary, communityFeeShare);
+            }
+        }
+        emit BeneficiaryPaid(currentGameId, beneficiary == address(0) ? address(this) : beneficiary, communityFeeShare);
+
+        // Payout protocol fees
+        if (protocolFeeShare > 0) {
+            IERC20(prizeToken).safeTransfer(protocolFeeRecipient, protocolFeeShare);
+            emit ProtocolFeePaid(protocolFeeRecipient, protocolFeeShare);
+        }
+
+        // Payout jackpot
+        jackpot += jackpotShare;
+        _pickTickets(tickets);
+    }
+
+    /// @notice Pick tickets and increase jackpot
+    /// @param tickets Tickets!
+    function _pickTickets(Ticket[] memory tickets) internal onlyInState(GameState.Purchase) {
+        CurrentGame memory currentGame_ = currentGame;
+        uint256 currentGameId = currentGame_.id;
+
+        uint256 ticketsCount = tickets.length;
+        Game memory game = gameData[currentGameId];
+        gameData[currentGameId].ticketsSold = game.ticketsSold + uint64(ticketsCount);
+
+        uint256 startingTokenId = ticket.totalMinted() + 1;
+        address[] memory recipients = new address[](ticketsCount);
+        for (uint256 t; t < ticketsCount; ++t) {
+            address whomst = tickets[t].whomst;
+            recipients[t] = whomst;
+            uint8[] memory pick = tickets[t].pick;
+            (uint256 pickId, uint8 bonusBall) = _computeTicketPickId(pick);
+
+            // Record picked numbers
+            uint256 tokenId = startingTokenId + t;
+            purchasedTickets[tokenId] =
+                PurchasedTicket({ gameId: currentGameId, pickId: pickId, bonusBall: bonusBall });
+
+            // Account for this pick set, and record distinct picks so that
+            // they can be tallied for prize tiers
+            if (pickId != 0 && tokenByPickIdentity[currentGameId][pickId].length == 0) {
+                gamePickIds[currentGameId].push(pickId);
+            }
+            tokenByPickIdentity[currentGameId][pickId].push(tokenId);
+            emit TicketPurchased(currentGameId, whomst, tokenId, pick);
+        }
+        // Finally, mint NFTs in one batch, with the token ids recorded above
+        ticket.mintBatch(recipients);
+    }
+
+    /// @notice Validate a ticket's pick and compute its identity
+    /// @param pick Balls, followed by the bonus ball if the lottery has one
+    /// @return pickId Pick identity, including the bonus ball
+    /// @return bonusBall Bonus ball, or 0 if there is none
+    function _computeTicketPickId(uint8[] memory pick) internal view returns (uint256 pickId, uint8 bonusBall) {
+        uint256 pickLength_ = pickLength;
+        uint8 maxBallValue_ = maxBallValue;
+        uint8 bonusBallMaxValue_ = bonusBallMaxValue;
+
+        // Empty pick means this particular player does not wish to receive
+        // an entry to the lottery.
+        uint256 ticketPickLength = bonusBallMaxValue_ == 0 ? pickLength_ : pickLength_ + 1;
+        if (pick.length != ticketPickLength && pick.length != 0) {
+            revert InvalidPickLength(pick.length);
+        }
+        if (pick.length == 0) {
+            return (0, 0);
+        }
+
+        // Assert balls are ascendingly sorted, with no possibility of duplicates
+        uint8 lastBall;
+        for (uint256 i; i < pickLength_; ++i) {
+            uint8 ball = pick[i];
+            if (ball <= lastBall) revert UnsortedPick(pick);
+            if (ball > maxBallValue_) revert InvalidBallValue(ball);
+            lastBall = ball;
+        }
+
+        if (bonusBallMaxValue_ == 0) {
+            return (Pick.id(pick), 0);
+        }
+        // The bonus ball is drawn from its own pool, so it may equal any ball
+        bonusBall = pick[pickLength_];
+        if (bonusBall == 0 || bonusBall > bonusBallMaxValue_) {
+            revert InvalidBonusBall(bonusBall);
+        }
+        pickId = Pick.idWithBonusBall(pick, maxBallValue_);
+    }
+
+    /// @notice Helper to get the request price for VRF call
+    function getRequestPrice() public view returns (uint256) {
+        return randomiser.getRequestPrice();
+    }
+
+    /// @dev Transition to next game, locking and/or rolling over any jackpots
+    ///     as necessary.
+    function _setupNextGame() internal {
+        // Invariant: can't setup a next game if the lottery has been killed
+        assert(currentGame.state != GameState.Dead);
+
+        // Current game id, before the state transition
+        uint248 gameId = currentGame.id;
+
+        GameState nextState;
+        if (isApocalypseMode) {
+            // Apocalypse mode, kill game forever
+            nextState = GameState.Dead;
+        } else {
+            // Otherwise, ready for next game
+            nextState = GameState.Purchase;
+        }
+
+        // Initialise data for next game
+        currentGame = CurrentGame({ state: nextState, id: gameId + 1 });
+        gameData[gameId + 1].startedAt = uint64(block.timestamp);
+
+        // Jackpot accounting: rollover jackpot if no winner
+        uint256 winningPickId = gameData[gameId].winningPickId;
+        uint256 numWinners = tokenByPickIdentity[gameId][winningPickId].length;
+        // Payouts of games whose claim window has now closed are rolled over
+        // along with the jackpot
+        uint256 currentUnclaimedPayouts = _sweepExpiredPayouts();
+        uint256 currentJackpot = jackpot;
+
+        uint256 nextUnclaimedPayouts;
+        if (nextState != GameState.Dead && prizeTiers.length > 0) {
+            // Prize tiers: each tier's share of jackpot+unclaimed is reserved
+            // for its winners, and the rest is rolled over
+            nextUnclaimedPayouts = _reserveTierPayouts(gameId, numWinners, currentUnclaimedPayouts + currentJackpot);
+        } else if (numWinners == 0 && nextState != GameState.Dead) {
+            // No winners, normal game transition, current jackpot and
+            // unclaimed payouts are rolled over to the next game
+            nextUnclaimedPayouts = 0;
+        } else {
+            // There are winners, or apocalypse mode has been triggered
+            // => jackpot+unclaimed is reserved for this game's claims
+            nextUnclaimedPayouts = currentUnclaimedPayouts + currentJackpot;
+        }
+        uint256 nextJackpot = currentUnclaimedPayouts + currentJackpot - nextUnclaimedPayouts;
+        jackpot = nextJackpot;
+        gameUnclaimedPayouts[gameId] = nextUnclaimedPayouts;
+        unclaimedPayouts += nextUnclaimedPayouts;
+        emit JackpotRollover(gameId, currentUnclaimedPayouts, currentJackpot, nextUnclaimedPayouts, nextJackpot);
+
+        // Subscriptions are entered into the next game, if there is one, in
+        // batches with `enterSubscriptions`
+        if (nextState == GameState.Purchase) {
+            numSubscriptionsToEnter = _activeSubscriptionIds.length();
+        }
+    }
+
+    /// @notice Get the number of winners in a game
+    /// @param gameId Game id
+    /// @param pickId Pick id
+    /// @return Number of winners
+    function numWinnersInGame(uint256 gameId, uint256 pickId) public view returns (uint256) {
+        return tokenByPickIdentity[gameId][pickId].length;
+    }
+
+    /// @notice See {ILootery-ticketTokenURI}
+    function ticketTokenURI(uint256 tokenId) external view returns (string memory) {
+        PurchasedTicket memory purchasedTicket = purchasedTickets[tokenId];
+        return ITicketSVGRenderer(ticketSVGRenderer).renderTokenURI(
+            IERC721Metadata(address(ticket)).name(),
+            tokenId,
+            maxBallValue,
+            Pick.parse(pickLength, purchasedTicket.pickId),
+            bonusBallMaxValue,
+            purchasedTicket.bonusBall
+        );
+    }
+
+    /// @notice Helper to compute the winning numbers/balls given a random seed.
+    /// @param randomSeed Seed that determines the permutation of BALLS
+    /// @return balls Ordered set of winning numbers
+    function computeWinningPick(uint256 randomSeed) public view returns (uint8[] memory balls) {
+        return Pick.draw(pickLength, maxBallValue, randomSeed);
+    }
+
+    /// @notice Set the SVG renderer for tickets (privileged)
+    /// @param renderer Address of renderer contract
+    function _setTicketSVGRenderer(address renderer) internal {
+        if (renderer == address(0)) {
+            revert InvalidTicketSVGRenderer(renderer);
+        }
+
+        try IERC165(renderer).supportsInterface(type(ITicketSVGRenderer).interfaceId) returns (bool isSupported) {
+            if (!isSupported) {
+                revert InvalidTicketSVGRenderer(renderer);
+            }
+        } catch {
+            revert InvalidTicketSVGRenderer(renderer);
+        }
+
+        ticketSVGRenderer = renderer;
+        emit TicketSVGRendererSet(renderer);
+    }
+
+    /// @notice Split a payment made elsewhere (e.g. on another chain, or
+    ///     prepaid by subscriptions) as a purchase without a beneficiary
+    ///     would, then pick the tickets
+    /// @param amount Amount of `prizeToken` paid for the tickets
+    /// @param tickets Tickets! Tickets!
+    function _pickPaidTickets(uint256 amount, Ticket[] memory tickets) internal {
+        uint256 communityFeeShare = (amount * communityFeeBps) / 1e4;
+        accruedCommunityFees += communityFeeShare;
+        emit BeneficiaryPaid(currentGame.id, address(this), communityFeeShare);
+        jackpot += amount - communityFeeShare;
+        _pickTickets(tickets);
+    }
+
+    /// @notice Reserve each prize tier's share of the pot for a game that
+    ///     has just been drawn
+    /// @param gameId Game id
+    /// @param numJackpotWinners Number of tickets that matched every ball
+    /// @param pot Jackpot + unclaimed payouts
+    /// @return reserved Total reserved for prize tiers
+    function _reserveTierPayouts(
+        uint256 gameId,
+        uint256 numJackpotWinners,
+        uint256 pot
+    )
+        internal
+        returns (uint256 reserved)
+    {
+        isTieredGame[gameId] = true;
+        uint256 tiersCount = prizeTiers.length;
+        for (uint256 i; i < tiersCount; ++i) {
+            PrizeTier memory tier = prizeTiers[i];
+            TierPayout storage payout =
+                tier.bonusBall ? bonusTierPayouts[gameId][tier.matches] : tierPayouts[gameId][tier.matches];
+            // The first tier is always the jackpot
+            if (i == 0) {
+                // An unwon jackpot tier is rolled over straight away
+                if (numJackpotWinners == 0) continue;
+                payout.numWinners = numJackpotWinners;
+            }
+            uint256 tierPot = (pot * tier.shareBps) / 1e4;
+            payout.pot = tierPot;
+            reserved += tierPot;
+        }
+    }
+
+    /// @notice Count the main balls that a pick matched, and whether it
+    ///     matched the bonus ball
+    /// @param pickId Pick identity
+    /// @param winningPickId Winning pick identity
+    function _countMatches(
+        uint256 pickId,
+        uint256 winningPickId
+    )
+        internal
+        view
+        returns (uint256 matches, bool isBonusBallMatched)
+    {
+        if (bonusBallMaxValue == 0) {
+            return (Pick.countMatches(pickId, winningPickId), false);
+        }
+        return Pick.countMatchesWithBonusBall(pickId, winningPickId, maxBallValue);
+    }
+
+    /// @notice Whether a game's winnings can (still) be claimed. Once the
+    ///     lottery is dead, games that were claimable at the final draw stay
+    ///     claimable, since there's no jackpot to sweep into.
+    /// @param gameId Game id
+    function isClaimWindowOpen(uint256 gameId) public view returns (bool) {
+        uint256 currentGameId = currentGame.id;
+        // Game hasn't been drawn yet, or has already been swept
+        if (gameId >= currentGameId || gameId < numSweptGames) {
+            return false;
+        }
+        if (currentGameId - gameId <= claimWindowGames) {
+            return true;
+        }
+        // A game was drawn when the game after it started
+        uint256 drawnAt = gameData[gameId + 1].startedAt;
+        uint256 asOf = currentGame.state == GameState.Dead ? gameData[currentGameId].startedAt : block.timestamp;
+        return asOf < drawnAt + claimWindowDuration;
+    }
+
+    /// @notice Release the unclaimed payouts of games whose claim window has
+    ///     closed, oldest first. NB: The caller must add the released amount
+    ///     to the jackpot.
+    /// @return swept Total amount released
+    function _sweepExpiredPayouts() internal returns (uint256 swept) {
+        uint256 gameId = numSweptGames;
+        uint256 currentGameId = currentGame.id;
+        // Claim windows close in game order, so stop at the first open one
+        for (; gameId < currentGameId && !isClaimWindowOpen(gameId); ++gameId) {
+            uint256 value = gameUnclaimedPayouts[gameId];
+            if (value == 0) continue;
+            gameUnclaimedPayouts[gameId] = 0;
+            swept += value;
+            emit UnclaimedPayoutsSwept(gameId, value);
+        }
+        numSweptGames = gameId;
+        unclaimedPayouts -= swept;
+    }
+
+    /// @notice Deduct a claimed (or rolled over) amount from a game's
+    ///     unclaimed payouts
+    /// @param gameId Game id
+    /// @param value Amount to deduct
+    function _deductUnclaimedPayout(uint256 gameId, uint256 value) internal {
+        gameUnclaimedPayouts[gameId] -= value;
+        unclaimedPayouts -= value;
+    }
+
+    /// @notice Validate every ticket's pick, reverting as a purchase would
+    ///     if any of them is invalid
+    /// @param tickets Tickets! Tickets!
+    function validateTickets(Ticket[] calldata tickets) external view {
+        for (uint256 t; t < tickets.length; ++t) {
+            _computeTicketPickId(tickets[t].pick);
+        }
+    }
+
+    /// @notice Build a message carrying the current ticket price to `sender`
+    /// @param sender Sender contract on the destination chain
+    function _buildTicketPriceMessage(address sender) internal view returns (Client.EVM2AnyMessage memory) {
+        return Client.EVM2AnyMessage({
+            receiver: abi.encode(sender),
+            data: abi.encode(ticketPrice),
+            tokenAmounts: new Client.EVMTokenAmount[](0),
+            extraArgs: Client._argsToBytes(Client.EVMExtraArgsV1({ gasLimit: TICKET_PRICE_SYNC_GAS_LIMIT })),
+            feeToken: address(0)
+        });
+    }
+}
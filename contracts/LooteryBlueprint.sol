@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { Lootery } from "./Lootery.sol";
+
+/// @title LooteryBlueprint
+/// @notice ERC-5202 blueprint of `Lootery`: the deployed code of this contract
+///     is the creation code of `Lootery`, prefixed with the blueprint preamble
+///     so that it can't be called. `LooteryFactory` copies the creation code
+///     from here instead of embedding it, which would push the factory over
+///     the contract size limit.
+contract LooteryBlueprint {
+    constructor() {
+        // 0xfe: invalid opcode; 0x71: ERC-5202 identifier; 0x00: version 0, no data
+        bytes memory blueprint = abi.encodePacked(hex"fe7100", type(Lootery).creationCode);
+        assembly {
+            return(add(blueprint, 0x20), mload(blueprint))
+        }
+    }
+}
@@ -0,0 +1,638 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { LooteryBase } from "./LooteryBase.sol";
+import { Pick } from "./lib/Pick.sol";
+import { IERC721Errors } from "@openzeppelin/contracts/interfaces/draft-IERC6093.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { ConfirmedOwner } from "@chainlink/contracts-ccip/src/v0.8/shared/access/ConfirmedOwner.sol";
+import { IRandomnessAdapter } from "./interfaces/IRandomnessAdapter.sol";
+import { ITicket } from "./interfaces/ITicket.sol";
+
+/// @title LooteryDrawExtension
+/// @notice Implements the initialisation, draws, claims, prize tiers and
+///     administration of `Lootery`, which delegates calls to these functions
+///     here, since it would otherwise exceed the contract size limit
+///     (EIP-170). One extension is shared by every lottery of the same
+///     version; it's only ever called with delegatecall, and holds no funds
+///     of its own.
+contract LooteryDrawExtension is LooteryBase {
+    using SafeERC20 for IERC20;
+
+    /// @dev The deployer owns the extension itself, which is meaningless:
+    ///     when delegated to, `onlyOwner` checks the lottery's own owner
+    constructor() ConfirmedOwner(msg.sender) { }
+
+    function typeAndVersion() external pure returns (string memory) {
+        return "LooteryDrawExtension 1.9.0";
+    }
+
+    /// @notice Validate the lottery's config and start its first game
+    /// @dev Only delegated to from the constructor of `Lootery`, while the
+    ///     lottery is still uninitialised
+    /// @param initConfig Initial configuration of the lottery
+    function init(InitConfig calldata initConfig) external onlyInState(GameState.Uninitialised) {
+        // The ticket NFT is deployed before this lottery, as its minter
+        if (initConfig.ticket.code.length == 0 || address(ITicket(initConfig.ticket).lootery()) != address(this)) {
+            revert InvalidTicket(initConfig.ticket);
+        }
+        ticket = ITicket(initConfig.ticket);
+
+        // Pick length of 0 doesn't make sense, pick length > 32 would consume
+        // too much gas. Also realistically, lottos usually pick 5-8 numbers.
+        if (initConfig.pickLength == 0 || initConfig.pickLength > 32) {
+            revert InvalidPickLength(initConfig.pickLength);
+        }
+        pickLength = initConfig.pickLength;
+
+        // If pick length > max ball value, then it's impossible to even
+        // purchase tickets. This is a configuration error.
+        if (initConfig.pickLength > initConfig.maxBallValue) {
+            revert InvalidMaxBallValue(initConfig.maxBallValue);
+        }
+        maxBallValue = initConfig.maxBallValue;
+
+        // The bonus ball is recorded above the main balls in a pick's
+        // identity, so both pools must fit in 256 bits
+        if (initConfig.bonusBallMaxValue > 0 && initConfig.bonusBallMaxValue > 255 - initConfig.maxBallValue) {
+            revert InvalidBonusBallMaxValue(initConfig.bonusBallMaxValue);
+        }
+        bonusBallMaxValue = initConfig.bonusBallMaxValue;
+
+        if (initConfig.gamePeriod < 10 minutes) {
+            revert InvalidGamePeriod(initConfig.gamePeriod);
+        }
+        gamePeriod = initConfig.gamePeriod;
+
+        if (initConfig.ticketPrice == 0) {
+            revert InvalidTicketPrice(initConfig.ticketPrice);
+        }
+        ticketPrice = initConfig.ticketPrice;
+
+        // Community fee + protocol fee should not overflow 100%
+        // 0% jackpot fee share is allowed
+        if (initConfig.communityFeeBps + PROTOCOL_FEE_BPS > 1e4) {
+            revert InvalidFeeShares();
+        }
+        communityFeeBps = initConfig.communityFeeBps;
+
+        if (initConfig.randomiser == address(0)) {
+            revert InvalidRandomiser(initConfig.randomiser);
+        }
+        randomiser = IRandomnessAdapter(initConfig.randomiser);
+
+        if (initConfig.prizeToken == address(0)) {
+            revert InvalidPrizeToken(initConfig.prizeToken);
+        }
+        prizeToken = initConfig.prizeToken;
+
+        seedJackpotDelay = initConfig.seedJackpotDelay;
+        seedJackpotMinValue = initConfig.seedJackpotMinValue;
+        if (seedJackpotDelay == 0 || seedJackpotMinValue == 0) {
+            revert InvalidSeedJackpotConfig(seedJackpotDelay, seedJackpotMinValue);
+        }
+
+        _setTicketSVGRenderer(initConfig.ticketSVGRenderer);
+        factory = initConfig.factory;
+
+        // By default, only the last game can be claimed
+        claimWindowGames = 1;
+
+        currentGame.state = GameState.Purchase;
+        gameData[0] = Game({
+            ticketsSold: 0,
+            // The first game starts straight away
+            startedAt: uint64(block.timestamp),
+            winningPickId: 0
+        });
+    }
+
+    /// @notice Seed the jackpot.
+    /// @dev We allow seeding jackpot during purchase phase only, so we don't
+    ///     have to fuck around with accounting
+    /// @notice NB: This function is rate-limited by `jackpotLastSeededAt`!
+    /// @param value Amount of `prizeToken` to be taken from the caller and
+    ///     added to the jackpot.
+    function seedJackpot(uint256 value) external onlyInState(GameState.Purchase) {
+        // Disallow seeding the jackpot with zero value
+        if (value < seedJackpotMinValue) {
+            revert InsufficientJackpotSeed(value);
+        }
+
+        // Rate limit seeding the jackpot
+        if (block.timestamp < jackpotLastSeededAt + seedJackpotDelay) {
+            revert RateLimited(jackpotLastSeededAt + seedJackpotDelay - block.timestamp);
+        }
+        jackpotLastSeededAt = block.timestamp;
+
+        jackpot += value;
+        IERC20(prizeToken).safeTransferFrom(msg.sender, address(this), value);
+        emit JackpotSeeded(msg.sender, value);
+    }
+
+    /// @notice Draw numbers, picking potential jackpot winners and ending the
+    ///     current game. This should be automated by a keeper.
+    function draw() external payable nonReentrant onlyInState(GameState.Purchase) {
+        Game memory game = gameData[currentGame.id];
+        // Assert that the game is actually over
+        uint256 gameDeadline = (game.startedAt + gamePeriod);
+        if (block.timestamp < gameDeadline) {
+            revert WaitLonger(gameDeadline);
+        }
+        // Subscriptions have paid for this game, so they must be entered
+        // into it (with `enterSubscriptions`) before it's drawn
+        if (numSubscriptionsToEnter > 0) {
+            revert SubscriptionsNotEntered(numSubscriptionsToEnter);
+        }
+
+        // Assert that there are actually tickets sold in this game
+        // slither-disable-next-line incorrect-equality
+        if (game.ticketsSold == 0) {
+            if (isApocalypseMode) {
+                // Case #0: Apocalypse mode is triggered, but there were no
+                // tickets sold and therefore nobody to distribute jackpot or
+                // prize to.
+                revert NoTicketsSold();
+            } else {
+                // Case #1: No tickets were sold, just skip the game
+                emit DrawSkipped(currentGame.id);
+            }
+            _setupNextGame();
+        } else {
+            // Case #2: Tickets were sold
+            _requestRandomness();
+        }
+    }
+
+    /// @notice This is an escape hatch to re-request randomness in case there
+    ///     is some issue with the VRF fulfiller.
+    function forceRedraw() external payable nonReentrant onlyInState(GameState.DrawPending) {
+        RandomnessRequest memory request = randomnessRequests[currentGame.id];
+        if (!request.isInFlight) {
+            revert NoRandomnessRequestInFlight();
+        }
+
+        // There is a pending request present: check if it's been waiting for a while
+        uint256 redrawAt = request.timestamp + REDRAW_TIMEOUT;
+        if (block.timestamp < redrawAt) {
+            revert WaitLonger(redrawAt);
+        }
+        // Supersedes the pending request; a late fulfilment of it will be
+        // rejected in `receiveRandomWords`
+        _requestRandomness();
+    }
+
+    /// @notice Request randomness from VRF
+    function _requestRandomness() internal returns (uint256 requestId) {
+        currentGame.state = GameState.DrawPending;
+
+        uint256 requestPrice = getRequestPrice();
+        if (msg.value > requestPrice) {
+            // Refund excess to caller, if any
+            uint256 excess = msg.value - requestPrice;
+            (bool success, bytes memory data) = msg.sender.call{ value: excess }("");
+            if (!success) {
+                revert TransferFailure(msg.sender, excess, data);
+            }
+            emit ExcessRefunded(msg.sender, excess);
+        }
+        if (address(this).balance < requestPrice) {
+            revert InsufficientOperationalFunds(address(this).balance, requestPrice);
+        }
+
+        // Call to trusted randomiser
+        // slither-disable-next-line reentrancy-eth,arbitrary-send-eth
+        requestId = randomiser.requestRandomness{ value: requestPrice }();
+        randomnessRequests[currentGame.id] =
+            RandomnessRequest({ requestId: requestId, timestamp: uint48(block.timestamp), isInFlight: true });
+        emit RandomnessRequested(currentGame.id, requestId);
+    }
+
+    /// @notice Callback for VRF fulfiller.
+    ///     See {IRandomiserCallback-receiveRandomWords}
+    function receiveRandomWords(
+        uint256 requestId,
+        uint256[] calldata randomWords
+    )
+        external
+        onlyInState(GameState.DrawPending)
+    {
+        if (msg.sender != address(randomiser)) {
+            revert CallerNotRandomiser(msg.sender);
+        }
+        if (randomWords.length == 0) {
+            revert InsufficientRandomWords();
+        }
+        uint248 gameId = currentGame.id;
+        RandomnessRequest storage request = randomnessRequests[gameId];
+        if (!request.isInFlight) {
+            revert NoRandomnessRequestInFlight();
+        }
+        // Only the game's latest request may finalise it; any earlier request
+        // was superseded by `forceRedraw`
+        if (request.requestId != requestId) {
+            revert RequestIdMismatch(requestId, request.requestId);
+        }
+        request.isInFlight = false;
+
+        // Pick winning numbers
+        uint8[] memory balls = computeWinningPick(randomWords[0]);
+        emit GameFinalised(gameId, balls);
+
+        // Record winning pick bitset
+        uint256 winningPickId = Pick.id(balls);
+        uint8 bonusBallMaxValue_ = bonusBallMaxValue;
+        if (bonusBallMaxValue_ > 0) {
+            uint8 bonusBall = Pick.drawBonusBall(bonusBallMaxValue_, randomWords[0]);
+            winningBonusBalls[gameId] = bonusBall;
+            winningPickId |= Pick.bonusBallId(maxBallValue, bonusBall);
+            emit BonusBallDrawn(gameId, bonusBall);
+        }
+        gameData[gameId].winningPickId = winningPickId;
+
+        _setupNextGame();
+    }
+
+    /// @notice Claim a share of the jackpot with a winning ticket.
+    /// @param tokenId Token id of the ticket (will be burnt)
+    function claimWinnings(uint256 tokenId) external returns (uint256 prizeShare) {
+        ClaimStatus status;
+        address whomst;
+        (status, whomst, prizeShare) = _claimWinnings(tokenId);
+        if (status != ClaimStatus.Claimed) {
+            _revertClaim(tokenId, status);
+        }
+        // Transfer prize to ticket holder
+        IERC20(prizeToken).safeTransfer(whomst, prizeShare);
+    }
+
+    /// @notice Claim winnings for many tickets at once, paying each ticket
+    ///     holder with a single transfer. Tickets that can't be claimed (e.g.
+    ///     that didn't win, or were already claimed) are skipped instead of
+    ///     reverting.
+    /// @param tokenIds Token ids of the tickets
+    /// @return results Outcome of each ticket's claim, in the same order
+    function claimWinningsBatch(uint256[] calldata tokenIds) external returns (ClaimResult[] memory results) {
+        results = new ClaimResult[](tokenIds.length);
+        // Prizes are aggregated per ticket holder
+        address[] memory recipients = new address[](tokenIds.length);
+        uint256[] memory amounts = new uint256[](tokenIds.length);
+        uint256 numRecipients;
+        for (uint256 i; i < tokenIds.length; ++i) {
+            (ClaimStatus status, address whomst, uint256 prizeShare) = _claimWinnings(tokenIds[i]);
+            results[i] = ClaimResult({ status: status, value: prizeShare });
+            if (status != ClaimStatus.Claimed) {
+                continue;
+            }
+            uint256 r;
+            while (r < numRecipients && recipients[r] != whomst) {
+                ++r;
+            }
+            if (r == numRecipients) {
+                recipients[r] = whomst;
+                ++numRecipients;
+            }
+            amounts[r] += prizeShare;
+        }
+
+        IERC20 prizeToken_ = IERC20(prizeToken);
+        for (uint256 r; r < numRecipients; ++r) {
+            if (amounts[r] > 0) {
+                prizeToken_.safeTransfer(recipients[r], amounts[r]);
+            }
+        }
+    }
+
+    /// @notice Record a ticket's claim of its winnings (or consolation
+    ///     prize), without transferring the prize. Doesn't revert if the
+    ///     ticket can't be claimed; see {Lootery-_revertClaim}.
+    /// @param tokenId Token id of the ticket
+    /// @return status Whether the ticket was claimed, or why not
+    /// @return whomst Ticket holder, who the prize must be transferred to
+    /// @return prizeShare Amount to transfer
+    function _claimWinnings(uint256 tokenId) internal returns (ClaimStatus status, address whomst, uint256 prizeShare) {
+        try ticket.ownerOf(tokenId) returns (address owner) {
+            whomst = owner;
+        } catch {
+            return (ClaimStatus.NonexistentToken, address(0), 0);
+        }
+        if (whomst == address(0)) {
+            return (ClaimStatus.NonexistentToken, address(0), 0);
+        }
+
+        // Each drawn game's payouts are reserved separately, so claims are
+        // possible in any state, for as long as the game's claim window is
+        // open.
+        PurchasedTicket memory purchasedTicket = purchasedTickets[tokenId];
+        if (!isClaimWindowOpen(purchasedTicket.gameId)) {
+            return (ClaimStatus.ClaimWindowMissed, whomst, 0);
+        }
+
+        // Determine if the jackpot was won
+        uint256 winningPickId = gameData[purchasedTicket.gameId].winningPickId;
+        uint256 numWinners = numWinnersInGame(purchasedTicket.gameId, winningPickId);
+
+        if (numWinners == 0 && currentGame.state == GameState.Dead && purchasedTicket.gameId == currentGame.id - 1) {
+            // No jackpot winners in the last game, and game is no longer
+            // active! Jackpot is shared between all tickets
+            // Invariant: `ticketsSold[gameId] > 0`
+            prizeShare = gameUnclaimedPayouts[purchasedTicket.gameId] / ticket.totalSupply();
+            // Decrease unclaimed payouts by the amount just claimed
+            _deductUnclaimedPayout(purchasedTicket.gameId, prizeShare);
+            // Burning the token is our "consolation prize claim nullifier"
+            ticket.burn(tokenId); // NB: decreases `ticket.totalSupply`
+            emit ConsolationClaimed(tokenId, purchasedTicket.gameId, whomst, prizeShare);
+        } else if (isTieredGame[purchasedTicket.gameId]) {
+            (status, prizeShare) = _claimTierPrize(tokenId, purchasedTicket, winningPickId);
+            if (status != ClaimStatus.Claimed) {
+                return (status, whomst, 0);
+            }
+            emit WinningsClaimed(tokenId, purchasedTicket.gameId, whomst, prizeShare);
+        } else if (winningPickId == purchasedTicket.pickId) {
+            assert(numWinners > 0);
+            // This ticket did have the winning numbers; just check it hasn't
+            // been used to claim a prize already
+            if (isWinningsClaimed[tokenId]) {
+                return (ClaimStatus.AlreadyClaimed, whomst, 0);
+            }
+            // OK - compute the prize share to transfer
+            uint256 numClaimedWinningTickets_ = numClaimedWinningTickets[purchasedTicket.gameId];
+            prizeShare = gameUnclaimedPayouts[purchasedTicket.gameId] / (numWinners - numClaimedWinningTickets_);
+            // Decrease unclaimed payouts by the amount just claimed
+            _deductUnclaimedPayout(purchasedTicket.gameId, prizeShare);
+            // Record that this ticket has claimed its winnings, but don't burn
+            isWinningsClaimed[tokenId] = true;
+            numClaimedWinningTickets[purchasedTicket.gameId] += 1;
+            emit WinningsClaimed(tokenId, purchasedTicket.gameId, whomst, prizeShare);
+        } else {
+            return (ClaimStatus.NoWin, whomst, 0);
+        }
+        status = ClaimStatus.Claimed;
+    }
+
+    /// @notice Revert with the error that explains why a ticket couldn't be
+    ///     claimed
+    /// @param tokenId Token id of the ticket
+    /// @param status Outcome of the ticket's claim; see {Lootery-_claimWinnings}
+    function _revertClaim(uint256 tokenId, ClaimStatus status) internal view {
+        PurchasedTicket memory purchasedTicket = purchasedTickets[tokenId];
+        if (status == ClaimStatus.NonexistentToken) {
+            revert IERC721Errors.ERC721NonexistentToken(tokenId);
+        } else if (status == ClaimStatus.ClaimWindowMissed) {
+            revert ClaimWindowMissed(tokenId);
+        } else if (status == ClaimStatus.AlreadyClaimed) {
+            revert AlreadyClaimed(tokenId);
+        } else if (status == ClaimStatus.PrizeTiersNotTallied) {
+            revert PrizeTiersNotTallied(purchasedTicket.gameId);
+        }
+        revert NoWin(purchasedTicket.pickId, gameData[purchasedTicket.gameId].winningPickId);
+    }
+
+    /// @notice Withdraw accrued community fees.
+    function withdrawAccruedFees() external onlyOwner {
+        uint256 totalAccrued = accruedCommunityFees;
+        accruedCommunityFees = 0;
+        IERC20(prizeToken).safeTransfer(msg.sender, totalAccrued);
+        emit AccruedCommunityFeesWithdrawn(msg.sender, totalAccrued);
+    }
+
+    /// @notice Set this game as the last game of the lottery.
+    ///     aka invoke apocalypse mode.
+    function kill() external onlyOwner onlyInState(GameState.Purchase) {
+        if (isApocalypseMode) {
+            // Already set
+            revert GameInactive();
+        }
+        isApocalypseMode = true;
+        emit ApocalypseModeActivated(currentGame.id);
+    }
+
+    /// @notice Withdraw any ETH (used for VRF requests).
+    function rescueETH() external onlyOwner {
+        uint256 amount = address(this).balance;
+        (bool success, bytes memory data) = msg.sender.call{ value: amount }("");
+        if (!success) {
+            revert TransferFailure(msg.sender, amount, data);
+        }
+        emit OperationalFundsWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Allow owner to rescue any tokens sent to the contract;
+    ///     excluding jackpot, accrued fees and refund credits.
+    /// @param tokenAddress Address of token to withdraw
+    function rescueTokens(address tokenAddress) external onlyOwner {
+        if (tokenAddress == prizeToken) {
+            revert PrizeTokenWithdrawalNotAllowed();
+        }
+
+        uint256 amount = IERC20(tokenAddress).balanceOf(address(this)) - totalRefundCredits[tokenAddress];
+        IERC20(tokenAddress).safeTransfer(msg.sender, amount);
+    }
+
+    function changeTicketPrice(uint256 _newPrice) external onlyOwner {
+        require(_newPrice > 0, InvalidTicketPrice(_newPrice));
+        ticketPrice = _newPrice;
+        emit TicketPriceUpdated(_newPrice);
+    }
+
+    /// @notice Set the SVG renderer for tickets
+    /// @param renderer Address of renderer contract
+    function setTicketSVGRenderer(address renderer) external onlyOwner {
+        _setTicketSVGRenderer(renderer);
+    }
+
+    /// @notice Set the prize tiers that games are drawn with. The first tier
+    ///     must be the jackpot (all balls matched, including the bonus ball
+    ///     if there is one), followed by strictly lower tiers: tiers with
+    ///     fewer matches are lower, and for the same matches, a tier that
+    ///     doesn't require the bonus ball is lower than one that does.
+    ///     Shares must not exceed 100%, and whatever isn't shared is rolled
+    ///     over. An empty list restores the winner-takes-all jackpot. The
+    ///     last game (in apocalypse mode) is always winner-takes-all.
+    /// @param tiers Prize tiers
+    function setPrizeTiers(PrizeTier[] calldata tiers) external onlyOwner onlyInState(GameState.Purchase) {
+        delete prizeTiers;
+        uint256 pickLength_ = pickLength;
+        bool hasBonusBall = bonusBallMaxValue > 0;
+        uint256 lastRank;
+        uint256 totalShareBps;
+        for (uint256 i; i < tiers.length; ++i) {
+            PrizeTier calldata tier = tiers[i];
+            uint256 rank = 2 * uint256(tier.matches) + (tier.bonusBall ? 1 : 0);
+            bool isOrdered =
+                i == 0 ? tier.matches == pickLength_ && tier.bonusBall == hasBonusBall : rank < lastRank;
+            if (
+                !isOrdered || (tier.bonusBall && !hasBonusBall) || (tier.matches == 0 && !tier.bonusBall)
+                    || tier.shareBps == 0
+            ) {
+                revert InvalidPrizeTiers();
+            }
+            lastRank = rank;
+            totalShareBps += tier.shareBps;
+            prizeTiers.push(tier);
+        }
+        if (totalShareBps > 1e4) {
+            revert InvalidPrizeTiers();
+        }
+        emit PrizeTiersSet(tiers);
+    }
+
+    /// @notice Count the winners of a drawn game's prize tiers, in batches
+    ///     of distinct picks. Jackpot winners are counted at the draw, but
+    ///     other tiers can't be claimed until every pick has been tallied.
+    ///     Once tallied, the pots of tiers without winners are rolled over
+    ///     into the jackpot or, once the lottery is dead, into the final
+    ///     game's payouts.
+    /// @param gameId Game id, which must still be claimable
+    /// @param maxPicks Maximum number of distinct picks to tally
+    /// @return isComplete Whether every pick has now been tallied
+    function tallyPrizeTiers(uint256 gameId, uint256 maxPicks) external returns (bool isComplete) {
+        GameState state = currentGame.state;
+        // Tallying moves funds into the jackpot, which is settled by the draw
+        if (state == GameState.DrawPending) {
+            revert UnexpectedState(state);
+        }
+        if (!isTieredGame[gameId]) {
+            revert NoPrizeTiers(gameId);
+        }
+        if (!isClaimWindowOpen(gameId)) {
+            revert TallyWindowMissed(gameId);
+        }
+        if (isPrizeTiersTallied[gameId]) {
+            revert PrizeTiersAlreadyTallied(gameId);
+        }
+
+        uint256[] storage pickIds = gamePickIds[gameId];
+        uint256 winningPickId = gameData[gameId].winningPickId;
+        uint256 cursor = numTalliedPicks[gameId];
+        // Invariant: `cursor <= pickIds.length`
+        uint256 end = maxPicks < pickIds.length - cursor ? cursor + maxPicks : pickIds.length;
+        for (; cursor < end; ++cursor) {
+            uint256 pickId = pickIds[cursor];
+            // Jackpot winners were already counted at the draw
+            if (pickId == winningPickId) continue;
+            (uint256 matches, bool isBonusBallMatched) = _countMatches(pickId, winningPickId);
+            TierPayout storage payout = _tierPayout(gameId, matches, isBonusBallMatched);
+            if (payout.pot > 0) {
+                payout.numWinners += tokenByPickIdentity[gameId][pickId].length;
+            }
+        }
+        numTalliedPicks[gameId] = cursor;
+
+        isComplete = cursor == pickIds.length;
+        if (isComplete) {
+            isPrizeTiersTallied[gameId] = true;
+            // Roll over the pots of tiers that nobody won
+            uint256 rolledOver;
+            uint256 pickLength_ = pickLength;
+            for (uint256 matches; matches <= pickLength_; ++matches) {
+                rolledOver += _releaseUnwonTier(tierPayouts[gameId][matches]);
+                rolledOver += _releaseUnwonTier(bonusTierPayouts[gameId][matches]);
+            }
+            _deductUnclaimedPayout(gameId, rolledOver);
+            if (state == GameState.Dead) {
+                // There's no next jackpot, so the final game's claimants
+                // (winners, or everyone if nobody won) get it instead
+                uint256 finalGameId = currentGame.id - 1;
+                gameUnclaimedPayouts[finalGameId] += rolledOver;
+                unclaimedPayouts += rolledOver;
+            } else {
+                jackpot += rolledOver;
+            }
+            emit PrizeTiersTallied(gameId, rolledOver);
+        }
+    }
+
+    /// @notice Record a ticket's claim of its prize tier's payout
+    /// @param tokenId Token id of the ticket
+    /// @param purchasedTicket Ticket details
+    /// @param winningPickId Winning pick identity of the ticket's game
+    /// @return status Whether the ticket was claimed, or why not
+    /// @return prizeShare Amount to pay out
+    function _claimTierPrize(
+        uint256 tokenId,
+        PurchasedTicket memory purchasedTicket,
+        uint256 winningPickId
+    )
+        internal
+        returns (ClaimStatus status, uint256 prizeShare)
+    {
+        uint256 gameId = purchasedTicket.gameId;
+        (uint256 matches, bool isBonusBallMatched) = _countMatches(purchasedTicket.pickId, winningPickId);
+        TierPayout memory payout = _tierPayout(gameId, matches, isBonusBallMatched);
+        if (payout.pot == 0) {
+            return (ClaimStatus.NoWin, 0);
+        }
+        // Jackpot winners were counted at the draw
+        if (purchasedTicket.pickId != winningPickId && !isPrizeTiersTallied[gameId]) {
+            return (ClaimStatus.PrizeTiersNotTallied, 0);
+        }
+        if (isWinningsClaimed[tokenId]) {
+            return (ClaimStatus.AlreadyClaimed, 0);
+        }
+        isWinningsClaimed[tokenId] = true;
+        // Every winner in a tier gets an equal share; dust is rolled over
+        prizeShare = payout.pot / payout.numWinners;
+        _deductUnclaimedPayout(gameId, prizeShare);
+        status = ClaimStatus.Claimed;
+    }
+
+    /// @notice Find the tier payout that a pick is eligible for. If it
+    ///     matched the bonus ball, the tier that requires the bonus ball is
+    ///     preferred over the one that doesn't.
+    /// @param gameId Game id
+    /// @param matches Number of main balls matched
+    /// @param isBonusBallMatched Whether the bonus ball was matched
+    function _tierPayout(
+        uint256 gameId,
+        uint256 matches,
+        bool isBonusBallMatched
+    )
+        internal
+        view
+        returns (TierPayout storage payout)
+    {
+        if (isBonusBallMatched) {
+            payout = bonusTierPayouts[gameId][matches];
+            if (payout.pot > 0) {
+                return payout;
+            }
+        }
+        return tierPayouts[gameId][matches];
+    }
+
+    /// @notice Release the pot of a tier that nobody won
+    /// @param payout Tier payout
+    /// @return released Amount released from the tier
+    function _releaseUnwonTier(TierPayout storage payout) internal returns (uint256 released) {
+        if (payout.pot > 0 && payout.numWinners == 0) {
+            released = payout.pot;
+            payout.pot = 0;
+        }
+    }
+
+    /// @notice Set how long drawn games can be claimed for: a game can be
+    ///     claimed while it's one of the last `numGames` games drawn, OR for
+    ///     `duration` seconds after its draw, whichever is longer. Games that
+    ///     have already been swept stay closed.
+    /// @param numGames Number of drawn games that can be claimed; at least 1
+    /// @param duration Seconds after the draw; 0 to only count games
+    function setClaimWindow(uint256 numGames, uint256 duration) external onlyOwner onlyInState(GameState.Purchase) {
+        if (numGames == 0) {
+            revert InvalidClaimWindow(numGames, duration);
+        }
+        claimWindowGames = numGames;
+        claimWindowDuration = duration;
+        emit ClaimWindowSet(numGames, duration);
+    }
+
+    /// @notice Roll over the unclaimed payouts of games whose claim window
+    ///     has closed into the jackpot. This also happens on every draw.
+    /// @return swept Total amount rolled over
+    function sweepExpiredPayouts() external onlyInState(GameState.Purchase) returns (uint256 swept) {
+        swept = _sweepExpiredPayouts();
+        jackpot += swept;
+    }
+}
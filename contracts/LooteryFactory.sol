@@ -0,0 +1,434 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import { Errors } from "@openzeppelin/contracts/utils/Errors.sol";
+import { ILooteryFactory } from "./interfaces/ILooteryFactory.sol";
+import { ILootery } from "./interfaces/ILootery.sol";
+import { AnyrandAdapter } from "./randomness/AnyrandAdapter.sol";
+import { VRFAdapter } from "./randomness/VRFAdapter.sol";
+import { Ticket } from "./periphery/Ticket.sol";
+
+/// @title LooteryFactory
+/// @notice Launch a lotto to support your charity or public good.
+///     Lotteries are deployed from a `LooteryBlueprint` (the "master copy"),
+///     which holds the creation code of `Lootery`, and share the extensions
+///     that `Lootery` delegates to. Each lottery is owned by its deployer, and
+///     gets its own ticket NFT and randomness adapter for the provider chosen
+///     at creation.
+contract LooteryFactory is ILooteryFactory, Initializable, UUPSUpgradeable, AccessControlUpgradeable {
+    /// @notice Length of the ERC-5202 blueprint preamble (0xfe7100)
+    uint256 private constant BLUEPRINT_PREAMBLE_LENGTH = 3;
+    /// @notice ERC-5202 blueprint preamble: version 0, no data
+    bytes3 private constant BLUEPRINT_PREAMBLE = 0xfe7100;
+
+    /// @custom:storage-location erc7201:lootery.storage.LooteryFactory
+    struct LooteryFactoryStorage {
+        /// @notice `LooteryBlueprint` that new lotteries are deployed from
+        address looteryMasterCopy;
+        /// @notice Mirrors the account nonce of this contract, which
+        ///     determines the address of the next lottery
+        uint256 nonce;
+        /// @notice Anyrand beacon; address(0) if unavailable on this chain
+        address randomiser;
+        /// @notice Ticket SVG renderer passed to new lotteries
+        address ticketSVGRenderer;
+        /// @notice Protocol fee recipient
+        address feeRecipient;
+        // Added in 1.8.0. Members may only be appended, never inserted or
+        // reordered, since proxies of earlier versions hold their state here.
+        /// @notice Number of lotteries launched by this factory since 1.8.0
+        uint256 looteryCount;
+        /// @notice Whether an address is a lottery launched by this factory
+        ///     since 1.8.0
+        mapping(address lootery => bool) isLootery;
+        /// @notice Lotteries launched by each deployer since 1.8.0
+        mapping(address deployer => address[]) looteriesByDeployer;
+        /// @notice CCIP router that lotteries receive cross-chain purchases
+        ///     from; address(0) if unavailable on this chain
+        address ccipRouter;
+        /// @notice VRF v2.5 coordinator; address(0) if unavailable on this chain
+        address vrfCoordinator;
+        /// @notice `LooteryDrawExtension` passed to new lotteries
+        address looteryDrawExtension;
+        /// @notice `LooteryPurchaseExtension` passed to new lotteries
+        address looteryPurchaseExtension;
+    }
+
+    /// @notice keccak256(abi.encode(uint256(keccak256("lootery.storage.LooteryFactory")) - 1))
+    ///     & ~bytes32(uint256(0xff))
+    bytes32 private constant LooteryFactoryStorageLocation =
+        0x7e79b86f7f7a80adf0e220b69e5b55b0521b078c2753a63c7ed8f36b02589d00;
+
+    function _getStorage() private pure returns (LooteryFactoryStorage storage $) {
+        assembly {
+            $.slot := LooteryFactoryStorageLocation
+        }
+    }
+
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initialise the factory
+    /// @param looteryMasterCopy `LooteryBlueprint` to deploy lotteries from
+    /// @param looteryDrawExtension `LooteryDrawExtension` passed to new lotteries
+    /// @param looteryPurchaseExtension `LooteryPurchaseExtension` passed to new lotteries
+    /// @param randomiser Anyrand beacon; address(0) if unavailable
+    /// @param vrfCoordinator VRF v2.5 coordinator; address(0) if unavailable
+    /// @param ccipRouter CCIP router passed to new lotteries; address(0) if unavailable
+    /// @param ticketSVGRenderer Ticket SVG renderer passed to new lotteries
+    function init(
+        address looteryMasterCopy,
+        address looteryDrawExtension,
+        address looteryPurchaseExtension,
+        address randomiser,
+        address vrfCoordinator,
+        address ccipRouter,
+        address ticketSVGRenderer
+    )
+        public
+        initializer
+    {
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+
+        LooteryFactoryStorage storage $ = _getStorage();
+        // Contract accounts start at nonce 1 (EIP-161)
+        $.nonce = 1;
+        _setLooteryMasterCopy(looteryMasterCopy);
+        _setLooteryExtensions(looteryDrawExtension, looteryPurchaseExtension);
+        $.randomiser = randomiser;
+        $.vrfCoordinator = vrfCoordinator;
+        $.ccipRouter = ccipRouter;
+        $.ticketSVGRenderer = ticketSVGRenderer;
+    }
+
+    function typeAndVersion() external pure returns (string memory) {
+        return "LooteryFactory 1.8.0";
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(DEFAULT_ADMIN_ROLE) { }
+
+    /// @notice Set the `LooteryBlueprint` that new lotteries are deployed from
+    /// @param looteryMasterCopy Address of the blueprint
+    function setLooteryMasterCopy(address looteryMasterCopy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _setLooteryMasterCopy(looteryMasterCopy);
+    }
+
+    function _setLooteryMasterCopy(address looteryMasterCopy) internal {
+        if (looteryMasterCopy.code.length <= BLUEPRINT_PREAMBLE_LENGTH) {
+            revert InvalidLooteryMasterCopy(looteryMasterCopy);
+        }
+        bytes3 preamble;
+        assembly {
+            let ptr := mload(0x40)
+            extcodecopy(looteryMasterCopy, ptr, 0, BLUEPRINT_PREAMBLE_LENGTH)
+            preamble := and(mload(ptr), shl(232, 0xffffff))
+        }
+        if (preamble != BLUEPRINT_PREAMBLE) {
+            revert InvalidLooteryMasterCopy(looteryMasterCopy);
+        }
+
+        LooteryFactoryStorage storage $ = _getStorage();
+        address oldLooteryMasterCopy = $.looteryMasterCopy;
+        $.looteryMasterCopy = looteryMasterCopy;
+        emit LooteryMasterCopyUpdated(oldLooteryMasterCopy, looteryMasterCopy);
+    }
+
+    function getLooteryMasterCopy() external view returns (address) {
+        return _getStorage().looteryMasterCopy;
+    }
+
+    /// @notice Set the extensions passed to new lotteries, which must be of
+    ///     the same version as the `LooteryBlueprint`
+    /// @param looteryDrawExtension Address of the `LooteryDrawExtension`
+    /// @param looteryPurchaseExtension Address of the `LooteryPurchaseExtension`
+    function setLooteryExtensions(
+        address looteryDrawExtension,
+        address looteryPurchaseExtension
+    )
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        _setLooteryExtensions(looteryDrawExtension, looteryPurchaseExtension);
+    }
+
+    function _setLooteryExtensions(address looteryDrawExtension, address looteryPurchaseExtension) internal {
+        if (looteryDrawExtension.code.length == 0) {
+            revert InvalidLooteryExtension(looteryDrawExtension);
+        }
+        if (looteryPurchaseExtension.code.length == 0) {
+            revert InvalidLooteryExtension(looteryPurchaseExtension);
+        }
+
+        LooteryFactoryStorage storage $ = _getStorage();
+        address oldLooteryDrawExtension = $.looteryDrawExtension;
+        address oldLooteryPurchaseExtension = $.looteryPurchaseExtension;
+        $.looteryDrawExtension = looteryDrawExtension;
+        $.looteryPurchaseExtension = looteryPurchaseExtension;
+        emit LooteryExtensionsUpdated(
+            oldLooteryDrawExtension, oldLooteryPurchaseExtension, looteryDrawExtension, looteryPurchaseExtension
+        );
+    }
+
+    function getLooteryExtensions()
+        external
+        view
+        returns (address looteryDrawExtension, address looteryPurchaseExtension)
+    {
+        LooteryFactoryStorage storage $ = _getStorage();
+        return ($.looteryDrawExtension, $.looteryPurchaseExtension);
+    }
+
+    /// @notice Set the Anyrand beacon used by new lotteries
+    /// @param randomiser Address of Anyrand; address(0) to disable
+    function setRandomiser(address randomiser) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        LooteryFactoryStorage storage $ = _getStorage();
+        address oldRandomiser = $.randomiser;
+        $.randomiser = randomiser;
+        emit RandomiserUpdated(oldRandomiser, randomiser);
+    }
+
+    function getRandomiser() external view returns (address) {
+        return _getStorage().randomiser;
+    }
+
+    /// @notice Set the VRF v2.5 coordinator used by new lotteries
+    /// @param vrfCoordinator Address of the coordinator; address(0) to disable
+    function setVrfCoordinator(address vrfCoordinator) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        LooteryFactoryStorage storage $ = _getStorage();
+        address oldVrfCoordinator = $.vrfCoordinator;
+        $.vrfCoordinator = vrfCoordinator;
+        emit VrfCoordinatorUpdated(oldVrfCoordinator, vrfCoordinator);
+    }
+
+    function getVrfCoordinator() external view returns (address) {
+        return _getStorage().vrfCoordinator;
+    }
+
+    /// @notice Set the CCIP router passed to new lotteries
+    /// @param ccipRouter Address of the CCIP router; address(0) to disable
+    function setCcipRouter(address ccipRouter) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        LooteryFactoryStorage storage $ = _getStorage();
+        address oldCcipRouter = $.ccipRouter;
+        $.ccipRouter = ccipRouter;
+        emit CcipRouterUpdated(oldCcipRouter, ccipRouter);
+    }
+
+    function getCcipRouter() external view returns (address) {
+        return _getStorage().ccipRouter;
+    }
+
+    /// @notice Set the ticket SVG renderer passed to new lotteries
+    /// @param ticketSVGRenderer Address of the renderer
+    function setTicketSVGRenderer(address ticketSVGRenderer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        LooteryFactoryStorage storage $ = _getStorage();
+        address oldTicketSVGRenderer = $.ticketSVGRenderer;
+        $.ticketSVGRenderer = ticketSVGRenderer;
+        emit TicketSVGRendererUpdated(oldTicketSVGRenderer, ticketSVGRenderer);
+    }
+
+    function getTicketSVGRenderer() external view returns (address) {
+        return _getStorage().ticketSVGRenderer;
+    }
+
+    /// @notice Set the protocol fee recipient
+    /// @param feeRecipient Address of the fee recipient
+    function setFeeRecipient(address feeRecipient) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        LooteryFactoryStorage storage $ = _getStorage();
+        address oldFeeRecipient = $.feeRecipient;
+        $.feeRecipient = feeRecipient;
+        emit FeeRecipientSet(oldFeeRecipient, feeRecipient);
+    }
+
+    function getFeeRecipient() external view returns (address) {
+        return _getStorage().feeRecipient;
+    }
+
+    /// @notice Compute the address of the next lottery to be launched
+    function computeNextAddress() external view returns (address) {
+        // The randomness adapter and the ticket NFT are deployed first
+        return _computeCreateAddress(address(this), _getStorage().nonce + 2);
+    }
+
+    /// @notice Whether `lootery` was launched by this factory. Lotteries
+    ///     launched before 1.8.0 aren't registered.
+    /// @param lootery Address to check
+    function isLootery(address lootery) external view returns (bool) {
+        return _getStorage().isLootery[lootery];
+    }
+
+    /// @notice Number of lotteries launched by this factory since 1.8.0
+    function getLooteryCount() external view returns (uint256) {
+        return _getStorage().looteryCount;
+    }
+
+    /// @notice Get all lotteries launched by a deployer since 1.8.0, in
+    ///     launch order
+    /// @param deployer Address that launched the lotteries
+    function getLooteriesByDeployer(address deployer) external view returns (address[] memory) {
+        return _getStorage().looteriesByDeployer[deployer];
+    }
+
+    /// @notice Launch your own lotto. The caller will own the lottery. If
+    ///     the lottery uses Chainlink VRF, the caller must add its randomiser
+    ///     (`Lootery.randomiser()`) as a consumer of the subscription; if it
+    ///     uses Anyrand, the lottery must be funded to pay for requests.
+    /// @param name Name of the lotto (also used for ticket NFTs)
+    /// @param symbol Symbol of the lotto (used for ticket NFTs)
+    /// @param pickLength Number of balls that must be picked per draw
+    /// @param maxBallValue Maximum value of a picked ball
+    /// @param bonusBallMaxValue Maximum value of the bonus ball, which is
+    ///     picked from its own pool; 0 for no bonus ball
+    /// @param gamePeriod Number of seconds that must pass before a draw can be
+    ///     initiated.
+    /// @param ticketPrice Price per ticket
+    /// @param communityFeeBps The percentage of the ticket price that should
+    ///     be taken and accrued for the lotto owner.
+    /// @param prizeToken The ERC-20 token that will be used as the prize token,
+    ///     and also the token that will be used to pay for tickets.
+    /// @param seedJackpotDelay The number of seconds that must pass before
+    ///     the jackpot can be seeded again.
+    /// @param seedJackpotMinValue The minimum value that the jackpot can be
+    ///     seeded with.
+    /// @param randomness Randomness provider, and its configuration
+    function create(
+        string memory name,
+        string memory symbol,
+        uint8 pickLength,
+        uint8 maxBallValue,
+        uint8 bonusBallMaxValue,
+        uint256 gamePeriod,
+        uint256 ticketPrice,
+        uint256 communityFeeBps,
+        address prizeToken,
+        uint256 seedJackpotDelay,
+        uint256 seedJackpotMinValue,
+        RandomnessConfig memory randomness
+    )
+        external
+        returns (address)
+    {
+        // Assigned field by field to avoid stack too deep
+        ILootery.InitConfig memory config;
+        config.owner = msg.sender;
+        config.name = name;
+        config.symbol = symbol;
+        config.pickLength = pickLength;
+        config.maxBallValue = maxBallValue;
+        config.bonusBallMaxValue = bonusBallMaxValue;
+        config.gamePeriod = gamePeriod;
+        config.ticketPrice = ticketPrice;
+        config.communityFeeBps = communityFeeBps;
+        config.prizeToken = prizeToken;
+        config.seedJackpotDelay = seedJackpotDelay;
+        config.seedJackpotMinValue = seedJackpotMinValue;
+        return _create(config, randomness);
+    }
+
+    function _create(
+        ILootery.InitConfig memory config,
+        RandomnessConfig memory randomness
+    )
+        internal
+        returns (address lootery)
+    {
+        LooteryFactoryStorage storage $ = _getStorage();
+        config.ticketSVGRenderer = $.ticketSVGRenderer;
+        config.ccipRouter = $.ccipRouter;
+        config.drawExtension = $.looteryDrawExtension;
+        config.purchaseExtension = $.looteryPurchaseExtension;
+        config.factory = address(this);
+        // The adapter and the ticket NFT are bound to the lottery, so they're
+        // deployed first with the lottery's address precomputed.
+        address expectedLootery = _computeCreateAddress(address(this), $.nonce + 2);
+        config.randomiser = _deployRandomnessAdapter(randomness, expectedLootery);
+        $.nonce += 1;
+        config.ticket = address(new Ticket(config.name, config.symbol, expectedLootery));
+        $.nonce += 1;
+
+        address looteryMasterCopy = $.looteryMasterCopy;
+        bytes memory initCode = abi.encodePacked(_readCreationCode(looteryMasterCopy), abi.encode(config));
+        assembly {
+            lootery := create(0, add(initCode, 0x20), mload(initCode))
+        }
+        if (lootery == address(0)) {
+            // Bubble up the revert reason from the Lootery constructor
+            assembly {
+                let size := returndatasize()
+                if size {
+                    returndatacopy(0, 0, size)
+                    revert(0, size)
+                }
+            }
+            revert Errors.FailedDeployment();
+        }
+        assert(lootery == expectedLootery);
+        $.nonce += 1;
+
+        $.looteryCount += 1;
+        $.isLootery[lootery] = true;
+        $.looteriesByDeployer[msg.sender].push(lootery);
+        emit LooteryLaunched(lootery, looteryMasterCopy, msg.sender, config.name);
+    }
+
+    /// @notice Deploy a randomness adapter for a lottery
+    /// @param randomness Randomness provider, and its configuration
+    /// @param lootery Address of the lottery that will consume randomness
+    function _deployRandomnessAdapter(
+        RandomnessConfig memory randomness,
+        address lootery
+    )
+        internal
+        returns (address)
+    {
+        LooteryFactoryStorage storage $ = _getStorage();
+        if (randomness.provider == RandomnessProvider.Anyrand) {
+            if ($.randomiser == address(0)) {
+                revert RandomnessProviderNotConfigured(randomness.provider);
+            }
+            return address(new AnyrandAdapter($.randomiser, lootery));
+        } else {
+            if ($.vrfCoordinator == address(0)) {
+                revert RandomnessProviderNotConfigured(randomness.provider);
+            }
+            return address(
+                new VRFAdapter($.vrfCoordinator, randomness.subscriptionId, randomness.keyHash, lootery)
+            );
+        }
+    }
+
+    /// @notice Read the creation code from a blueprint, without the preamble
+    /// @param blueprint Address of the blueprint
+    function _readCreationCode(address blueprint) internal view returns (bytes memory creationCode) {
+        uint256 size = blueprint.code.length - BLUEPRINT_PREAMBLE_LENGTH;
+        creationCode = new bytes(size);
+        assembly {
+            extcodecopy(blueprint, add(creationCode, 0x20), BLUEPRINT_PREAMBLE_LENGTH, size)
+        }
+    }
+
+    /// @notice Compute the address of a contract deployed with CREATE
+    /// @param deployer Address of the deployer
+    /// @param nonce Account nonce of the deployer at the time of deployment
+    function _computeCreateAddress(address deployer, uint256 nonce) internal pure returns (address) {
+        // RLP encoding of [deployer, nonce]
+        bytes memory data;
+        if (nonce <= 0x7f) {
+            data = abi.encodePacked(bytes1(0xd6), bytes1(0x94), deployer, uint8(nonce));
+        } else if (nonce <= type(uint8).max) {
+            data = abi.encodePacked(bytes1(0xd7), bytes1(0x94), deployer, bytes1(0x81), uint8(nonce));
+        } else if (nonce <= type(uint16).max) {
+            data = abi.encodePacked(bytes1(0xd8), bytes1(0x94), deployer, bytes1(0x82), uint16(nonce));
+        } else if (nonce <= type(uint24).max) {
+            data = abi.encodePacked(bytes1(0xd9), bytes1(0x94), deployer, bytes1(0x83), uint24(nonce));
+        } else {
+            data = abi.encodePacked(bytes1(0xda), bytes1(0x94), deployer, bytes1(0x84), uint32(nonce));
+        }
+        return address(uint160(uint256(keccak256(data))));
+    }
+}
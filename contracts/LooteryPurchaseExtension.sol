@@ -0,0 +1,446 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { LooteryBase } from "./LooteryBase.sol";
+import { Lootery } from "./Lootery.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { IERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { Client } from "@chainlink/contracts-ccip/src/v0.8/ccip/libraries/Client.sol";
+import { IRouterClient } from "@chainlink/contracts-ccip/src/v0.8/ccip/interfaces/IRouterClient.sol";
+import { ConfirmedOwner } from "@chainlink/contracts-ccip/src/v0.8/shared/access/ConfirmedOwner.sol";
+
+/// @title LooteryPurchaseExtension
+/// @notice Implements the purchases of `Lootery` other than plain ones:
+///     with a permit, by subscription and from other chains, as well as the
+///     beneficiaries that purchases pay community fees to. `Lootery`
+///     delegates calls to these functions here, since it would otherwise
+///     exceed the contract size limit (EIP-170).
+///     One extension is shared by every lottery of the same version; it's
+///     only ever called with delegatecall, and holds no funds of its own.
+contract LooteryPurchaseExtension is LooteryBase {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /// @dev The deployer owns the extension itself, which is meaningless:
+    ///     when delegated to, `onlyOwner` checks the lottery's own owner
+    constructor() ConfirmedOwner(msg.sender) { }
+
+    function typeAndVersion() external pure returns (string memory) {
+        return "LooteryPurchaseExtension 1.9.0";
+    }
+
+    /// @notice Add or remove a beneficiary
+    /// @param beneficiary Address to add/remove
+    /// @param displayName Display name for the beneficiary
+    /// @param isBeneficiary Whether to add or remove
+    /// @return didMutate Whether the beneficiary was added/removed
+    function setBeneficiary(
+        address beneficiary,
+        string calldata displayName,
+        bool isBeneficiary
+    )
+        external
+        onlyOwner
+        returns (bool didMutate)
+    {
+        if (isBeneficiary) {
+            if (bytes(displayName).length == 0) {
+                revert EmptyDisplayName();
+            }
+            // Set display name if it changed (or was unset)
+            bool didDisplayNameChange =
+                keccak256(bytes(beneficiaryDisplayNames[beneficiary])) != keccak256(bytes(displayName));
+            beneficiaryDisplayNames[beneficiary] = displayName;
+            // Upsert beneficiary
+            didMutate = _beneficiaries.add(beneficiary) || didDisplayNameChange;
+            if (didMutate) {
+                emit BeneficiarySet(beneficiary, displayName);
+            }
+        } else {
+            didMutate = _beneficiaries.remove(beneficiary);
+            if (didMutate) {
+                delete beneficiaryDisplayNames[beneficiary];
+                emit BeneficiaryRemoved(beneficiary);
+            }
+        }
+    }
+
+    /// @notice Purchase tickets, approving payment with an EIP-2612 permit
+    ///     for `prizeToken` instead of a prior `approve`
+    /// @param tickets Tickets! Tickets!
+    /// @param beneficiary Beneficiary address to receive community fee share
+    /// @param deadline Deadline of the permit
+    /// @param v Permit signature
+    /// @param r Permit signature
+    /// @param s Permit signature
+    function purchaseWithPermit(
+        Ticket[] calldata tickets,
+        address beneficiary,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    )
+        external
+    {
+        // Anyone can submit a permit that they've seen in the mempool, so a
+        // failed permit is ignored; the transfer fails if there's no allowance
+        uint256 totalPrice = ticketPrice * tickets.length;
+        try IERC20Permit(prizeToken).permit(msg.sender, address(this), totalPrice, deadline, v, r, s) { } catch { }
+        _purchase(msg.sender, tickets, beneficiary);
+    }
+
+    /// @notice Allow or disallow a sender on a source chain to purchase
+    ///     tickets via CCIP
+    /// @param sourceChainSelector CCIP chain selector of the source chain
+    /// @param sender Sender contract on the source chain
+    /// @param isAllowed Whether to allow or disallow
+    function setAllowlistedSender(uint64 sourceChainSelector, address sender, bool isAllowed) external onlyOwner {
+        if (sender == address(0)) {
+            revert InvalidAllowlistedSender(sender);
+        }
+        isAllowlistedSender[sourceChainSelector][sender] = isAllowed;
+        emit AllowlistedSenderSet(sourceChainSelector, sender, isAllowed);
+    }
+
+    /// @notice Deliver a cross-chain purchase; only callable by the CCIP router
+    /// @param message CCIP message
+    function ccipReceive(Client.Any2EVMMessage calldata message) external {
+        // Never true without a router, since the caller can't be address(0)
+        if (msg.sender != Lootery(payable(address(this))).getRouter()) {
+            revert InvalidRouter(msg.sender);
+        }
+        _ccipReceive(message);
+    }
+
+    /// @notice Pick tickets that were paid for on another chain. Reverts if
+    ///     the message isn't from an allowlisted sender, since a failed
+    ///     message can only be retried manually. Messages that don't pay for
+    ///     their tickets at the current ticket price (or pay with the wrong
+    ///     token), or that have invalid picks, are credited to the tickets'
+    ///     recipients instead; those that arrive while tickets can't be
+    ///     picked are escrowed.
+    function _ccipReceive(Client.Any2EVMMessage memory any2EvmMessage) internal {
+        bytes32 messageId = any2EvmMessage.messageId; // fetch the messageId
+        uint64 sourceChainSelector = any2EvmMessage.sourceChainSelector; // fetch the source chain identifier (aka
+            // selector)
+        address sender = abi.decode(any2EvmMessage.sender, (address)); // abi-decoding of the sender address
+        if (!isAllowlistedSender[sourceChainSelector][sender]) {
+            revert SenderNotAllowlisted(sourceChainSelector, sender);
+        }
+        // The router should never deliver a message twice, but don't rely on it
+        if (messageDetail[messageId].sender != address(0)) {
+            revert MessageAlreadyReceived(messageId);
+        }
+
+        // `Sender` encodes the tickets directly as the message data
+        bytes memory encodedTicket = any2EvmMessage.data;
+        (Ticket[] memory tickets) = abi.decode(encodedTicket, (Ticket[]));
+        if (tickets.length == 0) {
+            revert NoTicketsSpecified();
+        }
+
+        // Collect tokens transferred. This increases this contract's balance for that Token.
+        // `Sender` always transfers exactly one token amount.
+        Client.EVMTokenAmount[] memory tokenAmounts = any2EvmMessage.destTokenAmounts;
+        if (tokenAmounts.length != 1) {
+            revert InvalidTokenAmounts();
+        }
+        address token = tokenAmounts[0].token;
+        uint256 amount = tokenAmounts[0].amount;
+
+        receivedMessages.push(messageId);
+        MessageIn memory detail = MessageIn(sourceChainSelector, sender, token, amount, encodedTicket);
+        messageDetail[messageId] = detail;
+
+        emit MessageReceived(messageId, sourceChainSelector, sender, tokenAmounts[0], encodedTicket);
+
+        // Validate the purchase up front, so that escrowed messages can
+        // always be executed later
+        uint256 totalPrice = ticketPrice * tickets.length;
+        bool isValidPurchase = token == prizeToken && amount >= totalPrice;
+        if (isValidPurchase) {
+            try this.validateTickets(tickets) { }
+            catch {
+                isValidPurchase = false;
+            }
+        }
+        if (!isValidPurchase) {
+            _creditRefund(messageId, token, amount, tickets);
+        } else if (currentGame.state == GameState.Purchase) {
+            _pickPaidTickets(amount, tickets);
+        } else {
+            // Hold the payment until the next game, or refund it if the
+            // lottery has ended
+            isEscrowed[messageId] = true;
+            escrowedPayments += amount;
+            emit PurchaseEscrowed(messageId, amount);
+        }
+    }
+
+    /// @notice Credit a message's payment to its tickets' recipients, split
+    ///     equally as refunds of escrowed messages are
+    /// @param messageId Id of the message
+    /// @param token Token that was paid
+    /// @param amount Amount that was paid
+    /// @param tickets Tickets of the message
+    function _creditRefund(bytes32 messageId, address token, uint256 amount, Ticket[] memory tickets) internal {
+        uint256 ticketsCount = tickets.length;
+        uint256 refundPerTicket = amount / ticketsCount;
+        for (uint256 t; t < ticketsCount; ++t) {
+            // Last recipient also receives the remainder
+            uint256 refund = t == ticketsCount - 1 ? amount - refundPerTicket * t : refundPerTicket;
+            refundCredits[tickets[t].whomst][token] += refund;
+            emit RefundCredited(messageId, tickets[t].whomst, token, refund);
+        }
+        totalRefundCredits[token] += amount;
+    }
+
+    /// @notice Push the current ticket price to a `Sender` on another chain,
+    ///     so that cross-chain buyers keep paying the right price after
+    ///     `changeTicketPrice`. The CCIP fee is paid from `msg.value`, and any
+    ///     excess is refunded.
+    /// @param destinationChainSelector CCIP chain selector of the Sender's chain
+    /// @param sender Sender contract on the destination chain
+    function syncTicketPrice(
+        uint64 destinationChainSelector,
+        address sender
+    )
+        external
+        payable
+        onlyOwner
+        returns (bytes32 messageId)
+    {
+        IRouterClient router = _getRouterClient();
+        Client.EVM2AnyMessage memory message = _buildTicketPriceMessage(sender);
+        uint256 fees = router.getFee(destinationChainSelector, message);
+        if (msg.value < fees) {
+            revert IncorrectPaymentAmount(msg.value, fees);
+        }
+        messageId = router.ccipSend{ value: fees }(destinationChainSelector, message);
+        emit TicketPriceSyncSent(messageId, destinationChainSelector, sender, ticketPrice);
+
+        uint256 excess = msg.value - fees;
+        if (excess > 0) {
+            (bool success, bytes memory data) = msg.sender.call{ value: excess }("");
+            if (!success) {
+                revert TransferFailure(msg.sender, excess, data);
+            }
+            emit ExcessRefunded(msg.sender, excess);
+        }
+    }
+
+    /// @notice CCIP router, for sending messages to other chains. Only the
+    ///     lottery knows its router, so this asks it.
+    function _getRouterClient() internal view returns (IRouterClient) {
+        address router = Lootery(payable(address(this))).getRouter();
+        if (router == address(0)) {
+            revert CcipUnavailable();
+        }
+        return IRouterClient(router);
+    }
+
+    /// @notice Withdraw the caller's refund credit
+    /// @param token Token to withdraw
+    /// @return amount Amount withdrawn
+    function withdrawRefundCredit(address token) external nonReentrant returns (uint256 amount) {
+        amount = refundCredits[msg.sender][token];
+        if (amount == 0) {
+            revert NoRefundCredit(msg.sender, token);
+        }
+        refundCredits[msg.sender][token] = 0;
+        totalRefundCredits[token] -= amount;
+        IERC20(token).safeTransfer(msg.sender, amount);
+        emit RefundCreditWithdrawn(msg.sender, token, amount);
+    }
+
+    /// @notice Pick tickets in the current game for an escrowed message
+    /// @param messageId Id of the escrowed message
+    function executeEscrowedPurchase(bytes32 messageId) external onlyInState(GameState.Purchase) {
+        MessageIn memory detail = _releaseEscrow(messageId);
+        _pickPaidTickets(detail.amount, abi.decode(detail.encodedTicket, (Ticket[])));
+        emit EscrowedPurchaseExecuted(messageId);
+    }
+
+    /// @notice Refund an escrowed message once the lottery has ended; the
+    ///     payment is split equally between the tickets' recipients
+    /// @param messageId Id of the escrowed message
+    function refundEscrowedPurchase(bytes32 messageId) external nonReentrant onlyInState(GameState.Dead) {
+        MessageIn memory detail = _releaseEscrow(messageId);
+        Ticket[] memory tickets = abi.decode(detail.encodedTicket, (Ticket[]));
+        uint256 ticketsCount = tickets.length;
+        uint256 refundPerTicket = detail.amount / ticketsCount;
+        for (uint256 t; t < ticketsCount; ++t) {
+            // Last recipient also receives the remainder
+            uint256 refund = t == ticketsCount - 1 ? detail.amount - refundPerTicket * t : refundPerTicket;
+            IERC20(prizeToken).safeTransfer(tickets[t].whomst, refund);
+        }
+        emit EscrowedPurchaseRefunded(messageId, detail.amount);
+    }
+
+    /// @notice Remove a message from escrow
+    /// @param messageId Id of the escrowed message
+    /// @return detail Details of the message
+    function _releaseEscrow(bytes32 messageId) internal returns (MessageIn memory detail) {
+        if (!isEscrowed[messageId]) {
+            revert PurchaseNotEscrowed(messageId);
+        }
+        isEscrowed[messageId] = false;
+        detail = messageDetail[messageId];
+        escrowedPayments -= detail.amount;
+    }
+
+    /// @notice Enter a pick into the current game and the `numGames - 1`
+    ///     games after it, prepaying the ticket price for every game. The
+    ///     remaining games are entered with `enterSubscriptions` once each
+    ///     game has been set up, without a beneficiary.
+    /// @param whomst For whomst each game's ticket shall be made out
+    /// @param pick Lotto numbers; see {ILootery-Ticket}
+    /// @param numGames Number of games to enter, including the current one
+    /// @return subscriptionId Id of the new subscription
+    function subscribe(
+        address whomst,
+        uint8[] calldata pick,
+        uint256 numGames
+    )
+        external
+        onlyInState(GameState.Purchase)
+        returns (uint256 subscriptionId)
+    {
+        if (numGames == 0) {
+            revert InvalidSubscriptionLength(numGames);
+        }
+        // Empty picks don't enter the draw, so there's nothing to subscribe
+        if (pick.length == 0) {
+            revert InvalidPickLength(pick.length);
+        }
+        if (numGames > 1 && numActiveSubscriptions[msg.sender] >= MAX_ACTIVE_SUBSCRIPTIONS_PER_SUBSCRIBER) {
+            revert TooManySubscriptions();
+        }
+
+        uint256 pricePerGame = ticketPrice;
+        IERC20(prizeToken).safeTransferFrom(msg.sender, address(this), pricePerGame * numGames);
+
+        subscriptionId = ++numSubscriptions;
+        Subscription storage subscription = _subscriptions[subscriptionId];
+        subscription.subscriber = msg.sender;
+        subscription.whomst = whomst;
+        subscription.pick = pick;
+        subscription.pricePerGame = pricePerGame;
+        subscription.gamesRemaining = numGames - 1;
+        if (numGames > 1) {
+            // Added after those left to enter, since it enters the current
+            // game below
+            _activeSubscriptionIds.add(subscriptionId);
+            numActiveSubscriptions[msg.sender] += 1;
+            subscriptionDeposits += pricePerGame * (numGames - 1);
+        }
+        emit SubscriptionCreated(subscriptionId, msg.sender, whomst, numGames);
+
+        // Enter the current game straight away, which also validates the
+        // pick, so that entering later games can't fail because of it
+        Ticket[] memory tickets = new Ticket[](1);
+        tickets[0] = Ticket({ whomst: whomst, pick: pick });
+        _pickPaidTickets(pricePerGame, tickets);
+        emit SubscriptionEntered(subscriptionId, currentGame.id, numGames - 1);
+    }
+
+    /// @notice Cancel a subscription, refunding the games that it hasn't
+    ///     been entered into yet. This is possible in any state, e.g. to
+    ///     recover the deposit once the lottery has ended, or once the
+    ///     subscription has been suspended.
+    /// @param subscriptionId Subscription id
+    /// @return refund Amount refunded to the subscriber
+    function cancelSubscription(uint256 subscriptionId) external nonReentrant returns (uint256 refund) {
+        Subscription storage subscription = _subscriptions[subscriptionId];
+        if (subscription.subscriber != msg.sender) {
+            revert NotSubscriber(subscriptionId, msg.sender);
+        }
+        uint256 gamesRemaining = subscription.gamesRemaining;
+        if (gamesRemaining == 0) {
+            revert SubscriptionInactive(subscriptionId);
+        }
+        // Suspended subscriptions have already been removed
+        if (_activeSubscriptionIds.contains(subscriptionId)) {
+            numActiveSubscriptions[msg.sender] -= 1;
+        }
+        refund = subscription.pricePerGame * gamesRemaining;
+        subscription.gamesRemaining = 0;
+        subscriptionDeposits -= refund;
+        IERC20(prizeToken).safeTransfer(msg.sender, refund);
+        emit SubscriptionCancelled(subscriptionId, refund);
+    }
+
+    /// @notice Enter active subscriptions into the current game, paying for
+    ///     each game out of its deposit. Anyone may call this, in as many
+    ///     batches as necessary, once a game has been set up; the game can't
+    ///     be drawn until every subscription has been entered. A
+    ///     subscription whose ticket can't be minted is suspended, and its
+    ///     deposit can be recovered by cancelling it.
+    /// @param maxCount Maximum number of subscriptions to process
+    /// @return numRemaining Number of subscriptions left to enter
+    function enterSubscriptions(
+        uint256 maxCount
+    )
+        external
+        nonReentrant
+        onlyInState(GameState.Purchase)
+        returns (uint256 numRemaining)
+    {
+        uint256 gameId = currentGame.id;
+        numRemaining = numSubscriptionsToEnter;
+        uint256 end = maxCount < numRemaining ? numRemaining - maxCount : 0;
+        // Subscriptions are processed from the last one left to enter, since
+        // removing one moves the last of the set (which has been entered
+        // already) into its place
+        while (numRemaining > end) {
+            uint256 subscriptionId = _activeSubscriptionIds.at(--numRemaining);
+            Subscription storage subscription = _subscriptions[subscriptionId];
+            if (subscription.gamesRemaining == 0) {
+                // Cancelled
+                _activeSubscriptionIds.remove(subscriptionId);
+                continue;
+            }
+            // Make sure that the entry gets all of its gas, so that it can only
+            // fail because of the subscription itself
+            uint256 minGas = (SUBSCRIPTION_ENTRY_GAS_LIMIT * 64) / 63 + 10_000;
+            if (gasleft() < minGas) {
+                revert InsufficientGas(gasleft(), minGas);
+            }
+            try this.enterSubscription{ gas: SUBSCRIPTION_ENTRY_GAS_LIMIT }(subscriptionId) {
+                if (subscription.gamesRemaining == 0) {
+                    _activeSubscriptionIds.remove(subscriptionId);
+                    numActiveSubscriptions[subscription.subscriber] -= 1;
+                }
+            } catch {
+                // e.g. `whomst` no longer accepts tickets
+                _activeSubscriptionIds.remove(subscriptionId);
+                numActiveSubscriptions[subscription.subscriber] -= 1;
+                emit SubscriptionSuspended(subscriptionId, gameId);
+            }
+        }
+        numSubscriptionsToEnter = numRemaining;
+    }
+
+    /// @notice Enter a subscription into the current game. Only callable by
+    ///     this contract, so that `enterSubscriptions` can undo a failed
+    ///     entry without reverting the whole batch.
+    /// @param subscriptionId Subscription id, which must have games remaining
+    function enterSubscription(uint256 subscriptionId) external {
+        if (msg.sender != address(this)) {
+            revert CallerNotSelf(msg.sender);
+        }
+        Subscription storage subscription = _subscriptions[subscriptionId];
+        uint256 pricePerGame = subscription.pricePerGame;
+        uint256 gamesRemaining = subscription.gamesRemaining - 1;
+        subscription.gamesRemaining = gamesRemaining;
+        subscriptionDeposits -= pricePerGame;
+        Ticket[] memory tickets = new Ticket[](1);
+        tickets[0] = Ticket({ whomst: subscription.whomst, pick: subscription.pick });
+        _pickPaidTickets(pricePerGame, tickets);
+        emit SubscriptionEntered(subscriptionId, currentGame.id, gamesRemaining);
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import { LooteryFactory } from "./LooteryFactory.sol";
+
+/// @title StorageLayouts
+/// @notice Never deployed. solc only reports the layout of types that back a
+///     state variable, which ERC-7201 namespaced storage structs never do.
+///     Declaring them here includes their member layouts in the build output,
+///     where `scripts/storageLayout.ts` looks them up to check upgrades.
+///     Every namespaced struct of an upgradeable contract must be listed.
+abstract contract StorageLayouts {
+    LooteryFactory.LooteryFactoryStorage internal looteryFactory;
+    AccessControlUpgradeable.AccessControlStorage internal accessControl;
+    Initializable.InitializableStorage internal initializable;
+}
@@ -1,119 +0,0 @@
-// SPDX-License-Identifier: MIT
-pragma solidity ^0.8.20;
-
-import { VRFConsumerBaseV2Plus } from "@chainlink-vrf/v0.8/vrf/dev/VRFConsumerBaseV2Plus.sol";
-import { VRFV2PlusClient } from "@chainlink-vrf/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
-import { ILootery } from "../interfaces/ILootery.sol";
-
-// BASE Sepolia testnet
-/**
- * Request testnet LINK and ETH here: https://faucets.chain.link/
- * Find information on LINK Token Contracts and get the latest ETH and LINK faucets here:
- * https://docs.chain.link/docs/link-token-contracts/
- */
-
-/**
- * THIS IS AN EXAMPLE CONTRACT THAT USES HARDCODED VALUES FOR CLARITY.
- * THIS IS AN EXAMPLE CONTRACT THAT USES UN-AUDITED CODE.
- * DO NOT USE THIS CODE IN PRODUCTION.
- */
-contract RandomNumber is VRFConsumerBaseV2Plus {
-    event RequestSent(uint256 requestId, uint32 numWords);
-    event RequestFulfilled(uint256 requestId, uint256[] randomWords);
-
-    struct RequestStatus {
-        bool fulfilled; // whether the request has been successfully fulfilled
-        bool exists; // whether a requestId exists
-        uint256[] randomWords;
-    }
-
-    mapping(uint256 => RequestStatus) public s_requests; /* requestId --> requestStatus */
-
-    // Your subscription ID.
-    uint256 public s_subscriptionId;
-
-    // Past request IDs.
-    uint256[] public requestIds;
-    uint256 public lastRequestId;
-
-    // The gas lane to use, which specifies the maximum gas price to bump to.
-    // For a list of available gas lanes on each network,
-    // see https://docs.chain.link/vrf/v2-5/supported-networks
-    bytes32 public keyHash;
-
-    // Depends on the number of requested values that you want sent to the
-    // fulfillRandomWords() function. Storing each word costs about 20,000 gas,
-    // so 100,000 is a safe default for this example contract. Test and adjust
-    // this limit based on the network that you select, the size of the request,
-    // and the processing of the callback request in the fulfillRandomWords()
-    // function.
-    uint32 public callbackGasLimit = 500_000;
-
-    // The default is 3, but you can set this higher.
-    uint16 public requestConfirmations = 3;
-
-    // For this example, retrieve 2 random values in one request.
-    // Cannot exceed VRFCoordinatorV2_5.MAX_NUM_WORDS.
-    uint32 public numWords = 2;
-
-    ILootery public lottery;
-
-    /**
-     * HARDCODED FOR BASE SEPOLIA
-     * COORDINATOR: 0x5C210eF41CD1a72de73bF76eC39637bB0d3d7BEE
-     */
-    constructor(
-        uint256 subscriptionId,
-        bytes32 _keyHash,
-        address _lottery
-    )
-        VRFConsumerBaseV2Plus(0x5C210eF41CD1a72de73bF76eC39637bB0d3d7BEE)
-    {
-        s_subscriptionId = subscriptionId;
-        keyHash = _keyHash;
-        lottery = ILootery(_lottery);
-        // keyHash = 0x9e1344a1247c8a1785d0a4681a27152bffdb43666ae5bf7d14d24a5efd44bf71;
-    }
-
-    // Assumes the subscription is funded sufficiently.
-    // @param enableNativePayment: Set to `true` to enable payment in native tokens, or
-    // `false` to pay in LINK
-    function requestRandomWords(bool enableNativePayment) external returns (uint256 requestId) {
-        // Will revert if subscription is not set and funded.
-        requestId = s_vrfCoordinator.requestRandomWords(
-            VRFV2PlusClient.RandomWordsRequest({
-                keyHash: keyHash,
-                subId: s_subscriptionId,
-                requestConfirmations: requestConfirmations,
-                callbackGasLimit: callbackGasLimit,
-                numWords: numWords,
-                extraArgs: VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({ nativePayment: enableNativePayment }))
-            })
-        );
-        s_requests[requestId] = RequestStatus({ randomWords: new uint256[](0), exists: true, fulfilled: false });
-        requestIds.push(requestId);
-        lastRequestId = requestId;
-        emit RequestSent(requestId, numWords);
-        return requestId;
-    }
-
-    // This function is callbacked by the VRF Coordinator
-    function fulfillRandomWords(uint256 _requestId, uint256[] calldata _randomWords) internal override {
-        require(s_requests[_requestId].exists, "request not found");
-        s_requests[_requestId].fulfilled = true;
-        s_requests[_requestId].randomWords = _randomWords;
-        emit RequestFulfilled(_requestId, _randomWords);
-        // call the lottery contract to fulfill the randomness, and finish the lottery
-        ILootery(lottery).receiveRandomWords(_randomWords);
-    }
-
-    function getRequestStatus(uint256 _requestId)
-        external
-        view
-        returns (bool fulfilled, uint256[] memory randomWords)
-    {
-        require(s_requests[_requestId].exists, "request not found");
-        RequestStatus memory request = s_requests[_requestId];
-        return (request.fulfilled, request.randomWords);
-    }
-}
@@ -7,105 +7,150 @@ import { CCIPReceiver } from "@chainlink/contracts-ccip/src/v0.8/ccip/applicatio
 import { Client } from "@chainlink/contracts-ccip/src/v0.8/ccip/libraries/Client.sol";
 import { IRouterClient } from "@chainlink/contracts-ccip/src/v0.8/ccip/interfaces/IRouterClient.sol";
 import { OwnerIsCreator } from "@chainlink/contracts-ccip/src/v0.8/shared/access/OwnerIsCreator.sol";
-import { LinkTokenInterface } from "@chainlink/contracts/src/v0.8/interfaces/LinkTokenInterface.sol";
 import { IReciever } from "./IReciever.sol";
 import { ILootery } from "../interfaces/ILootery.sol";
 
-contract Sender is OwnerIsCreator, IReciever {
+contract Sender is OwnerIsCreator, CCIPReceiver, IReciever {
     using SafeERC20 for IERC20;
 
     error NoFundsLocked(address msgSender, bool locked);
     error NoMessageReceived(); // Used when trying to access a message but no messages have been received.
     error IndexOutOfBound(uint256 providedIndex, uint256 maxIndex); // Used when the provided index is out of bounds.
     error MessageIdNotExist(bytes32 messageId); // Used when the provided message ID does not exist.
-    error NotEnoughBalance(uint256, uint256);
+    error InsufficientFee(uint256 paid, uint256 fees); // Used when the caller doesn't pay the CCIP fee.
     error NothingToWithdraw(); // Used when trying to withdraw Ether but there's nothing to withdraw.
     error FailedToWithdrawEth(address owner, uint256 value); // Used when the withdrawal of Ether fails.
+    error FailedToRefundEth(address to, uint256 value); // Used when refunding an overpaid CCIP fee fails.
+    error DestinationNotConfigured(uint64 destinationChainSelector, address receiver);
+    error InvalidTicketPrice(uint256 ticketPrice);
+
+    event DestinationConfigSet(
+        uint64 indexed destinationChainSelector,
+        address indexed receiver,
+        uint256 ticketPrice,
+        uint256 baseGasLimit,
+        uint256 gasLimitPerTicket
+    );
+    event DestinationRemoved(uint64 indexed destinationChainSelector, address indexed receiver);
+    event TicketPriceSynced(
+        bytes32 indexed messageId, uint64 indexed sourceChainSelector, address indexed receiver, uint256 ticketPrice
+    );
 
     struct Deposit {
         uint256 amount;
         bool locked;
     }
 
+    /// @notice How tickets are sold to a Lootery on another chain
+    struct DestinationConfig {
+        /// @notice Price per ticket in `usdc`, which must cover the
+        ///     destination Lootery's ticket price
+        uint256 ticketPrice;
+        /// @notice Destination gas for receiving a message, excluding tickets
+        uint256 baseGasLimit;
+        /// @notice Destination gas for storing and minting each ticket
+        uint256 gasLimitPerTicket;
+    }
+
     // Storage variables.
     bytes32[] public receivedMessages; // Array to keep track of the IDs of received messages.
     mapping(bytes32 => MessageIn) public messageDetail; // Mapping from message ID to MessageIn struct, storing details
         // of each received message.
     mapping(address => Deposit) public deposits;
+    /// @notice Destination chain => Lootery => how tickets are sold to it
+    mapping(uint64 destinationChainSelector => mapping(address receiver => DestinationConfig)) public
+        destinationConfigs;
 
-    address router;
-
-    // variables from Looteery
-    uint256 communityFeeBps = 0.5e4;
-    uint256 public constant PROTOCOL_FEE_BPS = 500;
+    /// @notice Default destination gas for receiving a message, excluding tickets
+    uint256 public constant BASE_GAS_LIMIT = 500_000;
+    /// @notice Default destination gas for storing and minting each ticket
+    uint256 public constant GAS_LIMIT_PER_TICKET = 400_000;
 
     IERC20 public usdc;
 
-    constructor(address _router, address _usdc) {
+    constructor(address _router, address _usdc) CCIPReceiver(_router) {
         require(_usdc != address(0), "USDC address cannot be 0");
-        require(_router != address(0), "Router address cannot be 0");
-        
-				router = _router;
+
         usdc = IERC20(_usdc);
     }
 
+    /// @notice Configure how tickets are sold to a Lootery on another chain
+    /// @param destinationChainSelector CCIP chain selector of the destination chain
+    /// @param receiver Lootery on the destination chain
+    /// @param ticketPrice Price per ticket in `usdc`
+    /// @param baseGasLimit Destination gas excluding tickets; 0 for the default
+    /// @param gasLimitPerTicket Destination gas per ticket; 0 for the default
+    function setDestinationConfig(
+        uint64 destinationChainSelector,
+        address receiver,
+        uint256 ticketPrice,
+        uint256 baseGasLimit,
+        uint256 gasLimitPerTicket
+    )
+        external
+        onlyOwner
+    {
+        require(ticketPrice > 0, InvalidTicketPrice(ticketPrice));
+        if (baseGasLimit == 0) baseGasLimit = BASE_GAS_LIMIT;
+        if (gasLimitPerTicket == 0) gasLimitPerTicket = GAS_LIMIT_PER_TICKET;
+        destinationConfigs[destinationChainSelector][receiver] = DestinationConfig({
+            ticketPrice: ticketPrice,
+            baseGasLimit: baseGasLimit,
+            gasLimitPerTicket: gasLimitPerTicket
+        });
+        emit DestinationConfigSet(destinationChainSelector, receiver, ticketPrice, baseGasLimit, gasLimitPerTicket);
+    }
+
+    /// @notice Stop selling tickets to a Lootery on another chain
+    /// @param destinationChainSelector CCIP chain selector of the destination chain
+    /// @param receiver Lootery on the destination chain
+    function removeDestination(uint64 destinationChainSelector, address receiver) external onlyOwner {
+        delete destinationConfigs[destinationChainSelector][receiver];
+        emit DestinationRemoved(destinationChainSelector, receiver);
+    }
+
+    /// @notice Purchase tickets from a Lootery on another chain, at the
+    ///     price configured for it. The CCIP fee is paid by the caller, either
+    ///     in native currency from `msg.value` (any excess is refunded), or in
+    ///     a fee token supported by the router (e.g. LINK), pulled from the
+    ///     caller like the ticket payment.
+    /// @param destinationChainSelector CCIP chain selector of the destination chain
+    /// @param receiver Lootery on the destination chain
+    /// @param tickets Tickets to purchase
+    /// @param feeToken Token to pay the CCIP fee with; 0 for native currency
     function sendMessage(
         uint64 destinationChainSelector,
         address receiver,
         ILootery.Ticket[] calldata tickets,
-        address beneficiary
+        address feeToken
     )
         external
+        payable
         returns (bytes32 messageId)
     {
-        uint256 ticketsCount = tickets.length;
-        uint256 totalPrice = 1 * 10 ** 6 * ticketsCount; // 1USDC for each ticket
-
-        usdc.safeTransferFrom(msg.sender, address(this), totalPrice);
-
-        // Handle fee splits
-        uint256 communityFeeShare = (totalPrice * communityFeeBps) / 1e4;
-        // address protocolFeeRecipient = ILooteryFactory(factory).getFeeRecipient();
-        address protocolFeeRecipient = beneficiary;
-        uint256 protocolFeeShare = protocolFeeRecipient == address(0) ? 0 : (totalPrice * PROTOCOL_FEE_BPS) / 1e4;
-        uint256 jackpotShare = totalPrice - communityFeeShare - protocolFeeShare;
-
-        // encode the depositor's EOA as  data to be sent in the message.
-        bytes memory data = abi.encode(tickets);
-        // Compose the EVMTokenAmountStruct. This struct describes the tokens being transferred using CCIP.
-        Client.EVMTokenAmount memory tokenAmount = Client.EVMTokenAmount({ token: address(usdc), amount: jackpotShare });
-
-        Client.EVMTokenAmount[] memory tokenAmounts = new Client.EVMTokenAmount[](1);
-        tokenAmounts[0] = tokenAmount;
-
-        Client.EVM2AnyMessage memory evm2AnyMessage = Client.EVM2AnyMessage({
-            receiver: abi.encode(receiver), // ABI-encoded receiver contract address
-            data: data,
-            tokenAmounts: tokenAmounts,
-            extraArgs: Client._argsToBytes(
-                Client.EVMExtraArgsV1({ gasLimit: 200_000 }) // Additional arguments, setting gas limit and
-                    // non-strict sequency mode
-            ),
-            feeToken: address(0) // Setting feeToken to LinkToken address, indicating LINK will be used for fees
-         });
+        Client.EVM2AnyMessage memory evm2AnyMessage =
+            _buildTicketMessage(destinationChainSelector, receiver, tickets, feeToken);
+        Client.EVMTokenAmount memory tokenAmount = evm2AnyMessage.tokenAmounts[0];
+        usdc.safeTransferFrom(msg.sender, address(this), tokenAmount.amount);
 
         // Initialize a router client instance to interact with cross-chain router
-        IRouterClient routerClient = IRouterClient(router);
+        IRouterClient routerClient = IRouterClient(getRouter());
 
-        // Get the fee required to send the message. Fee paid in LINK.
+        // Get the fee required to send the message, and collect it from the caller
         uint256 fees = routerClient.getFee(destinationChainSelector, evm2AnyMessage);
-
-        require(address(this).balance > fees, NotEnoughBalance(address(this).balance, fees));
+        uint256 nativeFees = _collectFees(feeToken, fees);
 
         // Approve the Router to transfer the tokens on contract's behalf.
-        usdc.approve(address(router), jackpotShare);
+        usdc.forceApprove(address(routerClient), tokenAmount.amount);
 
         // Send the message through the router and store the returned message ID
-        messageId = routerClient.ccipSend(destinationChainSelector, evm2AnyMessage);
+        messageId = routerClient.ccipSend{ value: nativeFees }(destinationChainSelector, evm2AnyMessage);
 
         // Emit an event with message details
         emit MessageSent(messageId, destinationChainSelector, receiver, msg.sender, tokenAmount, fees);
 
+        _refundExcessFees(nativeFees);
+
         // Return the message ID
         return messageId;
     }
@@ -132,31 +177,151 @@ contract Sender is OwnerIsCreator, IReciever {
     }
 
     function isChainSupported(uint64 destChainSelector) external view returns (bool supported) {
-        return IRouterClient(router).isChainSupported(destChainSelector);
+        return IRouterClient(getRouter()).isChainSupported(destChainSelector);
     }
 
+    /// @notice Gas limit for executing a message with `ticketsCount` tickets
+    ///     on the destination chain
+    /// @param destinationChainSelector CCIP chain selector of the destination chain
+    /// @param receiver Lootery on the destination chain
+    /// @param ticketsCount Number of tickets
+    function getGasLimit(
+        uint64 destinationChainSelector,
+        address receiver,
+        uint256 ticketsCount
+    )
+        public
+        view
+        returns (uint256)
+    {
+        return _computeGasLimit(_getDestinationConfig(destinationChainSelector, receiver), ticketsCount);
+    }
+
+    /// @notice Quote the cost of purchasing tickets from a Lootery on another
+    ///     chain, for exactly the message that `sendMessage` would send
+    /// @param destinationChainSelector CCIP chain selector of the destination chain
+    /// @param receiver Lootery on the destination chain
+    /// @param tickets Tickets to purchase
+    /// @param feeToken Token to pay the CCIP fee with; 0 for native currency
+    /// @return ticketCost Amount of `usdc` paid for the tickets
+    /// @return fees CCIP fee in `feeToken`
     function getSendFees(
         uint64 destinationChainSelector,
-        address receiver
+        address receiver,
+        ILootery.Ticket[] calldata tickets,
+        address feeToken
     )
         public
         view
-        returns (uint256 fees, Client.EVM2AnyMessage memory message)
+        returns (uint256 ticketCost, uint256 fees)
+    {
+        Client.EVM2AnyMessage memory message =
+            _buildTicketMessage(destinationChainSelector, receiver, tickets, feeToken);
+        ticketCost = message.tokenAmounts[0].amount;
+        fees = IRouterClient(getRouter()).getFee(destinationChainSelector, message);
+    }
+
+    /// @notice Apply a ticket price pushed by a configured destination
+    ///     Lootery via `Lootery.syncTicketPrice`
+    function _ccipReceive(Client.Any2EVMMessage memory any2EvmMessage) internal override {
+        uint64 sourceChainSelector = any2EvmMessage.sourceChainSelector;
+        address lootery = abi.decode(any2EvmMessage.sender, (address));
+        DestinationConfig storage config = destinationConfigs[sourceChainSelector][lootery];
+        if (config.ticketPrice == 0) {
+            revert DestinationNotConfigured(sourceChainSelector, lootery);
+        }
+        uint256 ticketPrice = abi.decode(any2EvmMessage.data, (uint256));
+        require(ticketPrice > 0, InvalidTicketPrice(ticketPrice));
+        config.ticketPrice = ticketPrice;
+        emit TicketPriceSynced(any2EvmMessage.messageId, sourceChainSelector, lootery, ticketPrice);
+    }
+
+    function _getDestinationConfig(
+        uint64 destinationChainSelector,
+        address receiver
+    )
+        internal
+        view
+        returns (DestinationConfig memory config)
+    {
+        config = destinationConfigs[destinationChainSelector][receiver];
+        if (config.ticketPrice == 0) {
+            revert DestinationNotConfigured(destinationChainSelector, receiver);
+        }
+    }
+
+    /// @notice Collect the CCIP fee from the caller
+    /// @param feeToken Token to pay the CCIP fee with; 0 for native currency
+    /// @param fees CCIP fee in `feeToken`
+    /// @return nativeFees Amount of `msg.value` to forward to the router
+    function _collectFees(address feeToken, uint256 fees) internal returns (uint256 nativeFees) {
+        if (feeToken == address(0)) {
+            nativeFees = fees;
+        } else {
+            IERC20(feeToken).safeTransferFrom(msg.sender, address(this), fees);
+            IERC20(feeToken).forceApprove(getRouter(), fees);
+        }
+        require(msg.value >= nativeFees, InsufficientFee(msg.value, nativeFees));
+    }
+
+    /// @notice Refund any native currency paid in excess of the CCIP fee
+    /// @param nativeFees Amount of `msg.value` forwarded to the router
+    function _refundExcessFees(uint256 nativeFees) internal {
+        uint256 excess = msg.value - nativeFees;
+        if (excess == 0) return;
+        (bool sent,) = msg.sender.call{ value: excess }("");
+        if (!sent) revert FailedToRefundEth(msg.sender, excess);
+    }
+
+    function _computeGasLimit(DestinationConfig memory config, uint256 ticketsCount) internal pure returns (uint256) {
+        return config.baseGasLimit + config.gasLimitPerTicket * ticketsCount;
+    }
+
+    /// @notice Build the message that purchases tickets from a Lootery on
+    ///     another chain, at the price configured for it
+    /// @param destinationChainSelector CCIP chain selector of the destination chain
+    /// @param receiver Lootery on the destination chain
+    /// @param tickets Tickets to purchase
+    /// @param feeToken Token to pay the CCIP fee with; 0 for native currency
+    function _buildTicketMessage(
+        uint64 destinationChainSelector,
+        address receiver,
+        ILootery.Ticket[] calldata tickets,
+        address feeToken
+    )
+        internal
+        view
+        returns (Client.EVM2AnyMessage memory)
     {
-        message = Client.EVM2AnyMessage({
+        DestinationConfig memory config = _getDestinationConfig(destinationChainSelector, receiver);
+        // The whole payment is forwarded; the destination Lootery checks
+        // it against its ticket price and splits off its community fee
+        Client.EVMTokenAmount[] memory tokenAmounts = new Client.EVMTokenAmount[](1);
+        tokenAmounts[0] =
+            Client.EVMTokenAmount({ token: address(usdc), amount: config.ticketPrice * tickets.length });
+        return _buildMessage(
+            receiver, abi.encode(tickets), tokenAmounts, _computeGasLimit(config, tickets.length), feeToken
+        );
+    }
+
+    function _buildMessage(
+        address receiver,
+        bytes memory data,
+        Client.EVMTokenAmount[] memory tokenAmounts,
+        uint256 gasLimit,
+        address feeToken
+    )
+        internal
+        pure
+        returns (Client.EVM2AnyMessage memory)
+    {
+        return Client.EVM2AnyMessage({
             receiver: abi.encode(receiver), // ABI-encoded receiver contract address
-            data: abi.encode(msg.sender),
-            tokenAmounts: new Client.EVMTokenAmount[](0),
-            extraArgs: Client._argsToBytes(
-                Client.EVMExtraArgsV1({ gasLimit: 200_000 }) // Additional arguments, setting gas limit and
-                    // non-strict sequency mode
-            ),
-            feeToken: address(0) // Setting feeToken to zero address, indicating native asset will be used for fees
+            data: data,
+            tokenAmounts: tokenAmounts,
+            extraArgs: Client._argsToBytes(Client.EVMExtraArgsV1({ gasLimit: gasLimit })),
+            feeToken: feeToken // Zero address for native currency, otherwise e.g. LINK
          });
-
-        // Get the fee required to send the message
-        fees = IRouterClient(router).getFee(destinationChainSelector, message);
-        return (fees, message);
     }
 
     /// @notice Fallback function to allow the contract to receive Ether.
@@ -2,12 +2,11 @@
 pragma solidity ^0.8;
 
 import { ITypeAndVersion } from "./ITypeAndVersion.sol";
-import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
 
 /// @title ILootery
-/// @custom:version 1.3.0
+/// @custom:version 1.12.0
 /// @notice Lootery contract interface
-interface ILootery is ITypeAndVersion, IERC721 {
+interface ILootery is ITypeAndVersion {
     /// @notice Initial configuration of Lootery
     struct InitConfig {
         address owner;
@@ -18,14 +17,25 @@ interface ILootery is ITypeAndVersion, IERC721 {
         uint256 gamePeriod;
         uint256 ticketPrice;
         uint256 communityFeeBps;
-        // address vrf;
-        uint256 subscriptionId;
-        bytes32 keyHash;
+        address randomiser;
         address prizeToken;
         uint256 seedJackpotDelay;
         uint256 seedJackpotMinValue;
         address ticketSVGRenderer;
+        /// @notice address(0) if CCIP isn't available on this chain, in which
+        ///     case tickets can't be purchased from other chains
         address ccipRouter;
+        uint8 bonusBallMaxValue;
+        /// @notice Ticket NFT, which must have been deployed for this lottery
+        address ticket;
+        /// @notice `LooteryDrawExtension`, which implements part of the lottery
+        address drawExtension;
+        /// @notice `LooteryPurchaseExtension`, which implements part of the
+        ///     lottery
+        address purchaseExtension;
+        /// @notice `LooteryFactory` whose fee recipient is paid protocol fees;
+        ///     address(0) if no protocol fees are taken
+        address factory;
     }
 
     /// @notice Current state of the lootery
@@ -53,7 +63,8 @@ interface ILootery is ITypeAndVersion, IERC721 {
         /// @notice For whomst shall this purchase be made out
         address whomst;
         /// @notice Lotto numbers, pick wisely! Picks must be ASCENDINGLY
-        ///     ORDERED, with NO DUPLICATES!
+        ///     ORDERED, with NO DUPLICATES! If the lottery has a bonus ball,
+        ///     it's picked from its own pool and appended after these.
         uint8[] pick;
     }
 
@@ -72,20 +83,92 @@ interface ILootery is ITypeAndVersion, IERC721 {
         uint256 gameId;
         /// @notice Pick identity - see {Lootery-computePickIdentity}
         uint256 pickId;
+        /// @notice Bonus ball, or 0 if the lottery has no bonus ball
+        uint8 bonusBall;
     }
 
-    /// @notice Describes an inflight randomness request
-    /// TODO: Don't rely on requestId not being 0, add a flag or something
-    struct RandomnessRequest {
-        uint208 requestId;
-        uint48 timestamp;
+    /// @notice A prize tier, paying a share of the pot to tickets that match
+    ///     some number of the winning balls
+    struct PrizeTier {
+        /// @notice Number of balls that a ticket must match
+        uint8 matches;
+        /// @notice Whether a ticket must also match the bonus ball
+        bool bonusBall;
+        /// @notice Share of the pot that is split between this tier's winners
+        uint16 shareBps;
+    }
+
+    /// @notice A prize tier's payout in a drawn game
+    struct TierPayout {
+        /// @notice Amount reserved for this tier's winners
+        uint256 pot;
+        /// @notice Number of winning tickets in this tier
+        uint256 numWinners;
+    }
+
+    /// @notice Outcome of claiming a ticket's winnings
+    enum ClaimStatus {
+        /// @notice Prize (or consolation prize) was paid out
+        Claimed,
+        /// @notice Ticket doesn't exist, or was burnt by a consolation claim
+        NonexistentToken,
+        /// @notice Ticket's game can no longer be claimed
+        ClaimWindowMissed,
+        /// @notice Ticket didn't win anything
+        NoWin,
+        /// @notice Ticket's prize was already claimed
+        AlreadyClaimed,
+        /// @notice Ticket won a prize tier that hasn't been tallied yet
+        PrizeTiersNotTallied
+    }
+
+    /// @notice Outcome of one ticket's claim in a batch
+    struct ClaimResult {
+        ClaimStatus status;
+        /// @notice Prize paid out; 0 unless claimed
+        uint256 value;
+    }
+
+    /// @notice A purchase signed by the payer (EIP-712), which anyone may
+    ///     submit on their behalf
+    struct PurchaseOrder {
+        /// @notice Who pays for the tickets, and signs the order
+        address payer;
+        /// @notice Tickets! Tickets!
+        Ticket[] tickets;
+        /// @notice Beneficiary address to receive community fee share
+        address beneficiary;
+        /// @notice Timestamp after which the order can no longer be submitted
+        uint256 deadline;
+        /// @notice Payer's next nonce; see {Nonces-nonces}
+        uint256 nonce;
     }
 
-    // VRF struct
-    struct RequestStatus {
-        bool fulfilled; // whether the request has been successfully fulfilled
-        bool exists; // whether a requestId exists
-        uint256[] randomWords;
+    /// @notice A pick that is entered into a number of consecutive games,
+    ///     prepaid at the ticket price when subscribed
+    struct Subscription {
+        /// @notice Who paid for the subscription, and may cancel it
+        address subscriber;
+        /// @notice For whomst each game's ticket shall be made out
+        address whomst;
+        /// @notice Lotto numbers, entered into every game; see {Ticket}
+        uint8[] pick;
+        /// @notice Ticket price when subscribed, paid for each game
+        uint256 pricePerGame;
+        /// @notice Games that have been paid for, but not entered yet; these
+        ///     aren't entered anymore if the subscription has been suspended
+        uint256 gamesRemaining;
+    }
+
+    /// @notice Describes a game's latest randomness request
+    struct RandomnessRequest {
+        /// @notice Id assigned by the randomness provider, which may be any
+        ///     value (including 0)
+        uint256 requestId;
+        /// @notice When the request was made
+        uint48 timestamp;
+        /// @notice Whether the request is yet to be fulfilled
+        bool isInFlight;
     }
 
     event TicketPurchased(uint256 indexed gameId, address indexed whomst, uint256 indexed tokenId, uint8[] pick);
@@ -95,7 +178,7 @@ interface ILootery is ITypeAndVersion, IERC721 {
     event WinningsClaimed(uint256 indexed tokenId, uint256 indexed gameId, address whomst, uint256 value);
     event ConsolationClaimed(uint256 indexed tokenId, uint256 indexed gameId, address whomst, uint256 value);
     event DrawSkipped(uint256 indexed gameId);
-    event RandomnessRequested(uint208 requestId);
+    event RandomnessRequested(uint256 indexed gameId, uint256 requestId);
     event Received(address sender, uint256 amount);
     event JackpotSeeded(address indexed whomst, uint256 amount);
     event JackpotRollover(
@@ -116,14 +199,31 @@ interface ILootery is ITypeAndVersion, IERC721 {
     event ApocalypseModeActivated(uint256 indexed gameId);
 
     event TicketPriceUpdated(uint256 newPrice);
-
-    // VRF events
-    event RequestSent(uint256 requestId, uint32 numWords);
-    event RequestFulfilled(uint256 requestId, uint256[] randomWords);
+    event AllowlistedSenderSet(uint64 indexed sourceChainSelector, address indexed sender, bool isAllowed);
+    event PurchaseEscrowed(bytes32 indexed messageId, uint256 amount);
+    event EscrowedPurchaseExecuted(bytes32 indexed messageId);
+    event EscrowedPurchaseRefunded(bytes32 indexed messageId, uint256 amount);
+    event RefundCredited(bytes32 indexed messageId, address indexed whomst, address token, uint256 amount);
+    event RefundCreditWithdrawn(address indexed whomst, address indexed token, uint256 amount);
+    event PrizeTiersSet(PrizeTier[] tiers);
+    event PrizeTiersTallied(uint256 indexed gameId, uint256 rolledOver);
+    event BonusBallDrawn(uint256 indexed gameId, uint8 bonusBall);
+    event ClaimWindowSet(uint256 numGames, uint256 duration);
+    event UnclaimedPayoutsSwept(uint256 indexed gameId, uint256 value);
+    event SubscriptionCreated(
+        uint256 indexed subscriptionId, address indexed subscriber, address indexed whomst, uint256 numGames
+    );
+    event SubscriptionEntered(uint256 indexed subscriptionId, uint256 indexed gameId, uint256 gamesRemaining);
+    event SubscriptionCancelled(uint256 indexed subscriptionId, uint256 refund);
+    event SubscriptionSuspended(uint256 indexed subscriptionId, uint256 indexed gameId);
+    event TicketPriceSyncSent(
+        bytes32 indexed messageId, uint64 indexed destinationChainSelector, address indexed sender, uint256 ticketPrice
+    );
 
     error TransferFailure(address to, uint256 value, bytes reason);
     error InvalidPickLength(uint256 pickLength);
     error InvalidMaxBallValue(uint256 maxBallValue);
+    error InvalidBonusBallMaxValue(uint256 bonusBallMaxValue);
     error InvalidGamePeriod(uint256 gamePeriod);
     error InvalidTicketPrice(uint256 ticketPrice);
     error InvalidFeeShares();
@@ -132,13 +232,15 @@ interface ILootery is ITypeAndVersion, IERC721 {
     error InvalidSeedJackpotConfig(uint256 delay, uint256 minValue);
     error IncorrectPaymentAmount(uint256 paid, uint256 expected);
     error InvalidTicketSVGRenderer(address renderer);
+    error InvalidTicket(address ticket);
+    error InvalidExtension(address extension);
     error UnsortedPick(uint8[] pick);
     error InvalidBallValue(uint256 ballValue);
+    error InvalidBonusBall(uint256 bonusBall);
     error GameAlreadyDrawn();
     error UnexpectedState(GameState actual);
-    error RequestIdOverflow(uint256 requestId);
     error CallerNotRandomiser(address caller);
-    error RequestIdMismatch(uint256 actual, uint208 expected);
+    error RequestIdMismatch(uint256 actual, uint256 expected);
     error InsufficientRandomWords();
     error WaitLonger(uint256 deadline);
     error InsufficientOperationalFunds(uint256 have, uint256 want);
@@ -154,10 +256,32 @@ interface ILootery is ITypeAndVersion, IERC721 {
     error AlreadyClaimed(uint256 tokenId);
     error NoWin(uint256 pickId, uint256 winningPickId);
     error NoTicketsSold();
+    error InvalidAllowlistedSender(address sender);
+    error SenderNotAllowlisted(uint64 sourceChainSelector, address sender);
+    error MessageAlreadyReceived(bytes32 messageId);
+    error InvalidRouter(address router);
+    error CcipUnavailable();
+    error InvalidTokenAmounts();
+    error PurchaseNotEscrowed(bytes32 messageId);
+    error NoRefundCredit(address whomst, address token);
+    error InvalidPrizeTiers();
+    error NoPrizeTiers(uint256 gameId);
+    error PrizeTiersAlreadyTallied(uint256 gameId);
+    error PrizeTiersNotTallied(uint256 gameId);
+    error TallyWindowMissed(uint256 gameId);
+    error InvalidClaimWindow(uint256 numGames, uint256 duration);
+    error InvalidSubscriptionLength(uint256 numGames);
+    error TooManySubscriptions();
+    error NotSubscriber(uint256 subscriptionId, address caller);
+    error SubscriptionInactive(uint256 subscriptionId);
+    error CallerNotSelf(address caller);
+    error InsufficientGas(uint256 have, uint256 want);
+    error SubscriptionsNotEntered(uint256 numRemaining);
+    error PurchaseOrderExpired(uint256 deadline);
+    error InvalidPurchaseOrderSignature(address payer);
 
-    // VRF errors
-    error INVALID_KEY_HASH(bytes32 keyHash);
-    error INVALID_SUBSCRIPTION_ID(uint256 subscriptionId);
-
-    function receiveRandomWords(uint256[] calldata _randomWords) external;
+    /// @notice Render a ticket's metadata with the configured renderer; the
+    ///     ticket NFT defers its `tokenURI` to this
+    /// @param tokenId Token id of the ticket
+    function ticketTokenURI(uint256 tokenId) external view returns (string memory);
 }
@@ -4,26 +4,80 @@ pragma solidity 0.8.27;
 import { ITypeAndVersion } from "./ITypeAndVersion.sol";
 
 /// @title ILooteryFactory
-/// @custom:version 1.2.0
+/// @custom:version 1.8.0
 /// @notice Launch a lotto to support your charity or public good.
 interface ILooteryFactory is ITypeAndVersion {
+    /// @notice Source of randomness for a lotto's draws
+    enum RandomnessProvider {
+        /// @notice Anyrand beacon, paid per request from the lotto's balance
+        Anyrand,
+        /// @notice Chainlink VRF v2.5, paid by the deployer's subscription
+        ChainlinkVRF
+    }
+
+    /// @notice Randomness configuration of a lotto, chosen at creation
+    struct RandomnessConfig {
+        RandomnessProvider provider;
+        /// @notice VRF subscription id; ignored for Anyrand
+        uint256 subscriptionId;
+        /// @notice VRF gas lane key hash; ignored for Anyrand
+        bytes32 keyHash;
+    }
+
     event LooteryLaunched(
         address indexed looteryProxy, address indexed looteryImplementation, address indexed deployer, string name
     );
     event LooteryMasterCopyUpdated(address oldLooteryMasterCopy, address newLooteryMasterCopy);
+    event LooteryExtensionsUpdated(
+        address oldLooteryDrawExtension,
+        address oldLooteryPurchaseExtension,
+        address newLooteryDrawExtension,
+        address newLooteryPurchaseExtension
+    );
     event RandomiserUpdated(address oldRandomiser, address newRandomiser);
+    event VrfCoordinatorUpdated(address oldVrfCoordinator, address newVrfCoordinator);
+    event CcipRouterUpdated(address oldCcipRouter, address newCcipRouter);
     event TicketSVGRendererUpdated(address oldTicketSVGRenderer, address newTicketSVGRenderer);
+    event FeeRecipientSet(address oldFeeRecipient, address newFeeRecipient);
+
+    error InvalidLooteryMasterCopy(address looteryMasterCopy);
+    error InvalidLooteryExtension(address looteryExtension);
+    error RandomnessProviderNotConfigured(RandomnessProvider provider);
 
-    function init(address looteryMasterCopy, address randomiser, address ticketSVGRenderer) external;
+    function init(
+        address looteryMasterCopy,
+        address looteryDrawExtension,
+        address looteryPurchaseExtension,
+        address randomiser,
+        address vrfCoordinator,
+        address ccipRouter,
+        address ticketSVGRenderer
+    )
+        external;
 
     function setLooteryMasterCopy(address looteryMasterCopy) external;
 
     function getLooteryMasterCopy() external view returns (address);
 
+    function setLooteryExtensions(address looteryDrawExtension, address looteryPurchaseExtension) external;
+
+    function getLooteryExtensions()
+        external
+        view
+        returns (address looteryDrawExtension, address looteryPurchaseExtension);
+
     function setRandomiser(address randomiser) external;
 
     function getRandomiser() external view returns (address);
 
+    function setVrfCoordinator(address vrfCoordinator) external;
+
+    function getVrfCoordinator() external view returns (address);
+
+    function setCcipRouter(address ccipRouter) external;
+
+    function getCcipRouter() external view returns (address);
+
     function setTicketSVGRenderer(address ticketSVGRenderer) external;
 
     function getTicketSVGRenderer() external view returns (address);
@@ -34,19 +88,25 @@ interface ILooteryFactory is ITypeAndVersion {
 
     function computeNextAddress() external view returns (address);
 
+    function isLootery(address lootery) external view returns (bool);
+
+    function getLooteryCount() external view returns (uint256);
+
+    function getLooteriesByDeployer(address deployer) external view returns (address[] memory);
+
     function create(
         string memory name,
         string memory symbol,
         uint8 pickLength,
         uint8 maxBallValue,
+        uint8 bonusBallMaxValue,
         uint256 gamePeriod,
         uint256 ticketPrice,
         uint256 communityFeeBps,
         address prizeToken,
         uint256 seedJackpotDelay,
         uint256 seedJackpotMinValue,
-        uint256 subscriptionId,
-        bytes32 keyHash
+        RandomnessConfig memory randomness
     )
         external
         returns (address);
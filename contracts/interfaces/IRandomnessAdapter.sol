@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+import { ITypeAndVersion } from "./ITypeAndVersion.sol";
+
+/// @title IRandomnessAdapter
+/// @notice Uniform interface over randomness providers. An adapter serves a
+///     single consumer, which it calls back via
+///     {IRandomiserCallback-receiveRandomWords} once randomness is fulfilled.
+interface IRandomnessAdapter is ITypeAndVersion {
+    error CallerNotConsumer(address caller);
+    error IncorrectPayment(uint256 paid, uint256 expected);
+
+    /// @notice Consumer that may request randomness and receives callbacks
+    function consumer() external view returns (address);
+
+    /// @notice Amount of native token that must be sent with
+    ///     `requestRandomness`; 0 if the provider is paid some other way
+    function getRequestPrice() external view returns (uint256);
+
+    /// @notice Request randomness; only callable by the consumer
+    /// @return requestId Identifier that the callback will be made with
+    function requestRandomness() external payable returns (uint256 requestId);
+}
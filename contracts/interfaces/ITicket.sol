@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+import { IERC721 } from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import { ILootery } from "./ILootery.sol";
+
+/// @title ITicket
+/// @notice Lottery ticket NFT, minted and burnt by its lottery, which holds
+///     the minter role
+interface ITicket is IERC721 {
+    /// @notice Lottery that the tickets are for, which is their only minter
+    function lootery() external view returns (ILootery);
+
+    /// @notice Number of tickets that haven't been burnt
+    function totalSupply() external view returns (uint256);
+
+    /// @notice Number of tickets ever minted; token ids are assigned
+    ///     sequentially from 1, so the next token id is `totalMinted + 1`
+    function totalMinted() external view returns (uint256);
+
+    /// @notice Mint one ticket to each recipient, with sequential token ids
+    ///     starting from `totalMinted + 1` (minter only)
+    /// @param to Recipients
+    /// @return startingTokenId Token id of the first ticket minted
+    function mintBatch(address[] calldata to) external returns (uint256 startingTokenId);
+
+    /// @notice Burn a ticket, regardless of who holds it (minter only)
+    /// @param tokenId Token id of the ticket
+    function burn(uint256 tokenId) external;
+}
@@ -12,17 +12,32 @@ interface ITicketSVGRenderer is IERC165 {
     /// @param name Name/title of the ticket
     /// @param pick Picks must be sorted ascendingly
     /// @param maxPick Maximum pick number
-    function renderSVG(string memory name, uint8 maxPick, uint8[] memory pick) external view returns (string memory);
+    /// @param maxBonusBall Maximum bonus ball number; 0 if there's no bonus ball
+    /// @param bonusBall Picked bonus ball; 0 if there's none
+    function renderSVG(
+        string memory name,
+        uint8 maxPick,
+        uint8[] memory pick,
+        uint8 maxBonusBall,
+        uint8 bonusBall
+    )
+        external
+        view
+        returns (string memory);
 
     /// @notice Render Base64-encoded JSON metadata
     /// @param name Name/title of the ticket
     /// @param pick Picks must be sorted ascendingly
     /// @param maxPick Maximum pick number
+    /// @param maxBonusBall Maximum bonus ball number; 0 if there's no bonus ball
+    /// @param bonusBall Picked bonus ball; 0 if there's none
     function renderTokenURI(
         string memory name,
         uint256 tokenId,
         uint8 maxPick,
-        uint8[] memory pick
+        uint8[] memory pick,
+        uint8 maxBonusBall,
+        uint8 bonusBall
     )
         external
         view
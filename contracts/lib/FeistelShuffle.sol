@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.23;
+
+/// @title FeistelShuffle
+/// @notice Lazily compute single elements of a pseudorandom permutation of
+///     [0, domain) with a generalised Feistel cipher. Computes the same
+///     permutation as solshuffle's `FeistelShuffleOptimised` and the SDK's
+///     `shuffle`.
+library FeistelShuffle {
+    /// @notice Index is not in the domain, or the domain is empty
+    error InvalidShuffleIndex(uint256 x, uint256 domain);
+
+    /// @notice Compute the index of `x` in the permutation of [0, domain)
+    ///     determined by `seed`.
+    /// @param x Index to permute, in [0, domain)
+    /// @param domain Size of the list being permuted
+    /// @param seed Random seed that determines the permutation
+    /// @param rounds Number of Feistel rounds
+    /// @return Shuffled index of `x`
+    function shuffle(uint256 x, uint256 domain, uint256 seed, uint256 rounds) internal pure returns (uint256) {
+        if (domain == 0 || x >= domain) {
+            revert InvalidShuffleIndex(x, domain);
+        }
+        // The cipher permutes [0, h^2), where h^2 is the next perfect square
+        // of the domain, so indices outside of the domain are cycled through it
+        uint256 h = _sqrt(domain);
+        if (h * h != domain) {
+            ++h;
+        }
+        do {
+            uint256 L = x % h;
+            uint256 R = x / h;
+            for (uint256 i; i < rounds; ++i) {
+                uint256 nextR;
+                unchecked {
+                    // NB: the addition is meant to wrap
+                    nextR = (L + uint256(keccak256(abi.encodePacked(R, i, seed, domain)))) % h;
+                }
+                L = R;
+                R = nextR;
+            }
+            x = h * R + L;
+        } while (x >= domain);
+        return x;
+    }
+
+    /// @notice Integer square root, rounded down (Babylonian method)
+    function _sqrt(uint256 s) private pure returns (uint256 z) {
+        if (s < 2) return s;
+        z = s;
+        uint256 x = s / 2 + 1;
+        while (x < z) {
+            z = x;
+            x = (s / x + x) / 2;
+        }
+    }
+}
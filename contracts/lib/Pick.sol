@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.23;
 
-import { FeistelShuffleOptimised } from "solshuffle/contracts/FeistelShuffleOptimised.sol";
+import { FeistelShuffle } from "./FeistelShuffle.sol";
 import { Sort } from "./Sort.sol";
 
 library Pick {
@@ -19,20 +19,71 @@ library Pick {
         return id_;
     }
 
+    /// @notice Compute the identity of a bonus ball, which is drawn from its
+    ///     own pool. It's recorded above the main balls, so that it can be
+    ///     combined with a pick's identity.
+    /// @param maxBallValue Maximum value of a main ball
+    /// @param bonusBall Bonus ball
+    function bonusBallId(uint8 maxBallValue, uint8 bonusBall) internal pure returns (uint256) {
+        return uint256(1) << (uint256(maxBallValue) + bonusBall);
+    }
+
+    /// @notice Compute the identity of a pick that's followed by a bonus ball
+    /// @dev NB: DOES NOT check ordering of `pick`!
+    /// @param pick *Set* of numbers, followed by the bonus ball
+    /// @param maxBallValue Maximum value of a main ball
+    /// @return id_ Identity of the set and the bonus ball
+    function idWithBonusBall(uint8[] memory pick, uint8 maxBallValue) internal pure returns (uint256 id_) {
+        uint256 pickLength = pick.length - 1;
+        for (uint256 i; i < pickLength; ++i) {
+            id_ |= uint256(1) << pick[i];
+        }
+        id_ |= bonusBallId(maxBallValue, pick[pickLength]);
+    }
+
+    /// @notice Count the balls that two picks have in common, i.e. the
+    ///     popcount of the intersection of their identities.
+    /// @param pickId Pick identity
+    /// @param otherPickId Other pick identity
+    function countMatches(uint256 pickId, uint256 otherPickId) internal pure returns (uint256 matches) {
+        // Clear the lowest set bit until none are left
+        for (uint256 common = pickId & otherPickId; common != 0; common &= common - 1) {
+            ++matches;
+        }
+    }
+
+    /// @notice Count the main balls that two picks with bonus balls have in
+    ///     common, and whether their bonus balls match.
+    /// @dev `maxBallValue` must be < 255, which is always the case when
+    ///     there's a bonus ball
+    /// @param pickId Pick identity, including its bonus ball
+    /// @param otherPickId Other pick identity, including its bonus ball
+    /// @param maxBallValue Maximum value of a main ball
+    function countMatchesWithBonusBall(
+        uint256 pickId,
+        uint256 otherPickId,
+        uint8 maxBallValue
+    )
+        internal
+        pure
+        returns (uint256 matches, bool isBonusBallMatched)
+    {
+        uint256 mainBallsMask = (uint256(1) << (uint256(maxBallValue) + 1)) - 1;
+        matches = countMatches(pickId & mainBallsMask, otherPickId);
+        isBonusBallMatched = (pickId & otherPickId) > mainBallsMask;
+    }
+
     /// @notice Pick bitvector => pick array
     /// @param pickLength Number of elements in the pick array
     /// @param pickId Bitvector representing the pick
     function parse(uint8 pickLength, uint256 pickId) internal pure returns (uint8[] memory pick) {
         pick = new uint8[](pickLength);
         uint256 p;
-        for (uint256 i; i < 256; ++i) {
+        for (uint256 i; i < 256 && p < pickLength; ++i) {
             bool isSet = (pickId >> i) & 1 == 1;
             if (isSet) {
                 pick[p++] = uint8(i);
             }
-            if (p == pickLength) {
-                break;
-            }
         }
     }
 
@@ -50,8 +101,19 @@ library Pick {
     {
         balls = new uint8[](pickLength);
         for (uint256 i; i < pickLength; ++i) {
-            balls[i] = uint8(1 + FeistelShuffleOptimised.shuffle(i, maxBallValue, randomSeed, 12));
+            balls[i] = uint8(1 + FeistelShuffle.shuffle(i, maxBallValue, randomSeed, 12));
         }
         balls = balls.sort();
     }
+
+    /// @notice Compute the winning bonus ball given a random seed. The seed
+    ///     is rehashed, so that the bonus ball is independent of the main
+    ///     balls drawn with the same seed.
+    /// @param bonusBallMaxValue Maximum value of the bonus ball
+    /// @param randomSeed Seed that determines the bonus ball
+    /// @return Bonus ball, in [1, bonusBallMaxValue]
+    function drawBonusBall(uint8 bonusBallMaxValue, uint256 randomSeed) internal pure returns (uint8) {
+        uint256 bonusBallSeed = uint256(keccak256(abi.encodePacked(randomSeed)));
+        return uint8(1 + FeistelShuffle.shuffle(0, bonusBallMaxValue, bonusBallSeed, 12));
+    }
 }
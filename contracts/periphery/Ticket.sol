@@ -2,38 +2,66 @@
 pragma solidity 0.8.27;
 
 import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { AccessControl } from "@openzeppelin/contracts/access/AccessControl.sol";
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { ITicket } from "../interfaces/ITicket.sol";
 import { ILootery } from "../interfaces/ILootery.sol";
-import { ITicketSVGRenderer } from "../interfaces/ITicketSVGRenderer.sol";
-import { Pick } from "../lib/Pick.sol";
 
-contract Ticket is ERC721 {
-    ILootery public lootery;
-/// @dev Total supply of tokens/tickets, also used to determine next tokenId
-    uint256 public totalSupply;
+/// @title Ticket
+/// @notice Lottery ticket NFT. Only holders of `MINTER_ROLE` may mint and
+///     burn tickets, and the role is granted to the lottery alone at
+///     construction. As nobody holds the admin role, it can never be granted
+///     to anyone else; otherwise minting could dilute consolation prizes,
+///     which are shared by `totalSupply`.
+///
+///     Ticket metadata is rendered by the lottery, which knows each ticket's
+///     pick and which renderer is configured.
+contract Ticket is ITicket, ERC721, AccessControl {
+    /// @notice Role allowed to mint and burn tickets
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER");
 
-    constructor(string memory name, string memory symbol, address _lootery) ERC721(name, symbol) {
-        lootery = ILootery(_lootery);
-    }
-		    /// @notice See {ERC721-tokenURI}
-    function tokenURI(uint256 tokenId) public view override returns (string memory) {
-        
-        return ITicketSVGRenderer(lootery.ticketSVGRenderer()).renderTokenURI(
-            name(), tokenId, lootery.maxBallValue(), Pick.parse(lootery.pickLength(), lootery.purchasedTickets[tokenId].pickId)
-        );
+    /// @notice Lottery that the tickets are for
+    ILootery public immutable lootery;
+    /// @notice Number of tickets ever minted, which is also the last token id
+    uint256 public totalMinted;
+    /// @notice Number of tickets burnt
+    uint256 public totalBurnt;
+
+    constructor(string memory name, string memory symbol, address lootery_) ERC721(name, symbol) {
+        lootery = ILootery(lootery_);
+        _grantRole(MINTER_ROLE, lootery_);
     }
 
-    /// @notice Overrides {ERC721-_update} to track totalSupply
-    function _update(address to, uint256 tokenId, address auth) internal virtual override returns (address) {
-        address previousOwner = super._update(to, tokenId, auth);
+    /// @notice See {ITicket-totalSupply}
+    function totalSupply() external view returns (uint256) {
+        return totalMinted - totalBurnt;
+    }
 
-        if (previousOwner == address(0)) {
-            totalSupply += 1;
-        }
-        if (to == address(0)) {
-            totalSupply -= 1;
+    /// @notice See {ITicket-mintBatch}
+    function mintBatch(address[] calldata to) external onlyRole(MINTER_ROLE) returns (uint256 startingTokenId) {
+        uint256 totalMinted_ = totalMinted;
+        startingTokenId = totalMinted_ + 1;
+        // Supply is written once for the whole batch, rather than per ticket
+        totalMinted = totalMinted_ + to.length;
+        for (uint256 i; i < to.length; ++i) {
+            _safeMint(to[i], startingTokenId + i);
         }
+    }
 
-        return previousOwner;
+    /// @notice See {ITicket-burn}
+    function burn(uint256 tokenId) external onlyRole(MINTER_ROLE) {
+        _burn(tokenId);
+        totalBurnt += 1;
     }
 
+    /// @notice See {ERC721-tokenURI}
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        return lootery.ticketTokenURI(tokenId);
+    }
+
+    /// @notice See {IERC165-supportsInterface}
+    function supportsInterface(bytes4 interfaceId) public view override(IERC165, ERC721, AccessControl) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
 }
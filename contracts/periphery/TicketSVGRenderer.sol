@@ -18,11 +18,75 @@ contract TicketSVGRenderer is ITicketSVGRenderer, ERC165 {
     }
 
     /// @notice See {ITicketSVGRenderer-renderSVG}.
-    function renderSVG(string memory name, uint8 maxPick, uint8[] memory pick) public pure returns (string memory) {
+    function renderSVG(
+        string memory name,
+        uint8 maxPick,
+        uint8[] memory pick,
+        uint8 maxBonusBall,
+        uint8 bonusBall
+    )
+        public
+        pure
+        returns (string memory)
+    {
+        (string memory gridSVG, uint256 height) = _renderGrid(maxPick, pick, 75);
+        if (maxBonusBall > 0) {
+            uint8[] memory bonusPick = new uint8[](bonusBall == 0 ? 0 : 1);
+            if (bonusBall != 0) {
+                bonusPick[0] = bonusBall;
+            }
+            // Bonus balls get their own labelled grid, below the main one
+            gridSVG = string(
+                abi.encodePacked(
+                    gridSVG,
+                    "<text x='150' y='",
+                    height.toString(),
+                    "' text-anchor='middle' font-family='Arial' font-size='16' font-weight='bold' fill='black'>",
+                    "BONUS BALL</text>"
+                )
+            );
+            string memory bonusGridSVG;
+            (bonusGridSVG, height) = _renderGrid(maxBonusBall, bonusPick, height + ROW_HEIGHT);
+            gridSVG = string(abi.encodePacked(gridSVG, bonusGridSVG));
+        }
+
+        string memory svgHeader = string(
+            abi.encodePacked(
+                "<svg xmlns='http://www.w3.org/2000/svg' version='1.1' width='300' height='", height.toString(), "'>"
+            )
+        );
+        string memory svgFooter = "</svg>";
+        string memory svgBody = string(
+            abi.encodePacked(
+                "<rect width='300' height='",
+                height.toString(),
+                "' fill='white' stroke='black' />",
+                "<text x='150' y='30' text-anchor='middle' font-family='Arial' font-size='20' font-weight='bold' fill='black'>",
+                name,
+                "</text>",
+                gridSVG
+            )
+        );
+        return string(abi.encodePacked(svgHeader, svgBody, svgFooter));
+    }
+
+    /// @notice Render a grid of numbers in [1, maxPick], circling the picks
+    /// @param maxPick Maximum pick number
+    /// @param pick Picks must be sorted ascendingly
+    /// @param positionY Baseline of the first row
+    /// @return gridSVG Rendered grid
+    /// @return nextPositionY Baseline of the row after the grid
+    function _renderGrid(
+        uint8 maxPick,
+        uint8[] memory pick,
+        uint256 positionY
+    )
+        internal
+        pure
+        returns (string memory gridSVG, uint256 nextPositionY)
+    {
         uint256 rows = (maxPick / NUMBERS_PER_ROW) + (maxPick % NUMBERS_PER_ROW == 0 ? 0 : 1);
-        uint256 positionY = 75;
         uint256 p; // pointer for picks
-        string memory gridSVG;
         for (uint256 r; r < rows; ++r) {
             uint256 positionX = 30;
             uint256 cols = r * NUMBERS_PER_ROW + NUMBERS_PER_ROW > maxPick ? maxPick % 5 : NUMBERS_PER_ROW;
@@ -58,26 +122,7 @@ contract TicketSVGRenderer is ITicketSVGRenderer, ERC165 {
             }
             positionY += ROW_HEIGHT;
         }
-
-        uint256 height = (75 + (rows * ROW_HEIGHT));
-        string memory svgHeader = string(
-            abi.encodePacked(
-                "<svg xmlns='http://www.w3.org/2000/svg' version='1.1' width='300' height='", height.toString(), "'>"
-            )
-        );
-        string memory svgFooter = "</svg>";
-        string memory svgBody = string(
-            abi.encodePacked(
-                "<rect width='300' height='",
-                height.toString(),
-                "' fill='white' stroke='black' />",
-                "<text x='150' y='30' text-anchor='middle' font-family='Arial' font-size='20' font-weight='bold' fill='black'>",
-                name,
-                "</text>",
-                gridSVG
-            )
-        );
-        return string(abi.encodePacked(svgHeader, svgBody, svgFooter));
+        nextPositionY = positionY;
     }
 
     /// @notice See {ITicketSVGRenderer-renderTokenURI}.
@@ -85,12 +130,16 @@ contract TicketSVGRenderer is ITicketSVGRenderer, ERC165 {
         string memory name,
         uint256 tokenId,
         uint8 maxPick,
-        uint8[] memory pick
+        uint8[] memory pick,
+        uint8 maxBonusBall,
+        uint8 bonusBall
     )
         external
         pure
         returns (string memory)
     {
+        // Rendered up front to avoid stack too deep
+        string memory image = Base64.encode(bytes(renderSVG(name, maxPick, pick, maxBonusBall, bonusBall)));
         return string(
             abi.encodePacked(
                 "data:application/json;base64,",
@@ -103,7 +152,7 @@ contract TicketSVGRenderer is ITicketSVGRenderer, ERC165 {
                             tokenId.toString(),
                             '", "description":"POWERBALD LOL", "image": "',
                             "data:image/svg+xml;base64,",
-                            Base64.encode(bytes(renderSVG(name, maxPick, pick))),
+                            image,
                             '"}'
                         )
                     )
@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { IAnyrand } from "../interfaces/IAnyrand.sol";
+import { IRandomiserCallback } from "../interfaces/IRandomiserCallback.sol";
+import { IRandomnessAdapter } from "../interfaces/IRandomnessAdapter.sol";
+
+/// @title AnyrandAdapter
+/// @notice Requests randomness from Anyrand on behalf of a single consumer.
+///     Requests are paid for in native token, forwarded from the consumer.
+contract AnyrandAdapter is IRandomnessAdapter, IRandomiserCallback {
+    /// @notice Gas limit for the callback from Anyrand, which includes the
+    ///     callback to the consumer
+    uint256 public constant CALLBACK_GAS_LIMIT = 500_000;
+    /// @notice Seconds from the request until the beacon round to use
+    uint256 public constant REQUEST_DEADLINE = 30;
+
+    /// @notice Anyrand randomness beacon
+    address public immutable anyrand;
+    /// @notice Consumer that may request randomness and receives callbacks
+    address public immutable consumer;
+
+    error CallerNotAnyrand(address caller);
+
+    constructor(address anyrand_, address consumer_) {
+        anyrand = anyrand_;
+        consumer = consumer_;
+    }
+
+    function typeAndVersion() external pure returns (string memory) {
+        return "AnyrandAdapter 1.0.0";
+    }
+
+    /// @notice See {IRandomnessAdapter-getRequestPrice}
+    function getRequestPrice() public view returns (uint256) {
+        return IAnyrand(anyrand).getRequestPrice(CALLBACK_GAS_LIMIT);
+    }
+
+    /// @notice See {IRandomnessAdapter-requestRandomness}
+    function requestRandomness() external payable returns (uint256 requestId) {
+        if (msg.sender != consumer) {
+            revert CallerNotConsumer(msg.sender);
+        }
+        uint256 requestPrice = getRequestPrice();
+        if (msg.value != requestPrice) {
+            revert IncorrectPayment(msg.value, requestPrice);
+        }
+        // slither-disable-next-line arbitrary-send-eth
+        requestId = IAnyrand(anyrand).requestRandomness{ value: requestPrice }(
+            block.timestamp + REQUEST_DEADLINE, CALLBACK_GAS_LIMIT
+        );
+    }
+
+    /// @notice Callback from Anyrand; forwarded to the consumer
+    /// @param requestId Anyrand request id
+    /// @param randomWords Random words
+    function receiveRandomWords(uint256 requestId, uint256[] calldata randomWords) external {
+        if (msg.sender != anyrand) {
+            revert CallerNotAnyrand(msg.sender);
+        }
+        IRandomiserCallback(consumer).receiveRandomWords(requestId, randomWords);
+    }
+}
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { VRFConsumerBaseV2Plus } from "@chainlink-vrf/v0.8/vrf/dev/VRFConsumerBaseV2Plus.sol";
+import { VRFV2PlusClient } from "@chainlink-vrf/v0.8/vrf/dev/libraries/VRFV2PlusClient.sol";
+import { IRandomiserCallback } from "../interfaces/IRandomiserCallback.sol";
+import { IRandomnessAdapter } from "../interfaces/IRandomnessAdapter.sol";
+
+/// @title VRFAdapter
+/// @notice Requests randomness from Chainlink VRF v2.5 on behalf of a single
+///     consumer. Requests are paid for (in LINK) by the subscription, which
+///     must have this adapter added as a consumer.
+contract VRFAdapter is IRandomnessAdapter, VRFConsumerBaseV2Plus {
+    /// @notice Gas limit for the VRF callback, which includes the callback to
+    ///     the consumer
+    uint32 public constant CALLBACK_GAS_LIMIT = 500_000;
+    /// @notice Block confirmations before the request is fulfilled
+    uint16 public constant REQUEST_CONFIRMATIONS = 3;
+
+    /// @notice Consumer that may request randomness and receives callbacks
+    address public immutable consumer;
+    /// @notice VRF subscription that pays for requests
+    uint256 public immutable subscriptionId;
+    /// @notice VRF gas lane, which specifies the maximum gas price to bump to
+    bytes32 public immutable keyHash;
+
+    error InvalidSubscriptionId(uint256 subscriptionId);
+    error InvalidKeyHash(bytes32 keyHash);
+
+    constructor(
+        address coordinator,
+        uint256 subscriptionId_,
+        bytes32 keyHash_,
+        address consumer_
+    )
+        VRFConsumerBaseV2Plus(coordinator)
+    {
+        if (subscriptionId_ == 0) {
+            revert InvalidSubscriptionId(subscriptionId_);
+        }
+        if (keyHash_ == bytes32(0)) {
+            revert InvalidKeyHash(keyHash_);
+        }
+        subscriptionId = subscriptionId_;
+        keyHash = keyHash_;
+        consumer = consumer_;
+    }
+
+    function typeAndVersion() external pure returns (string memory) {
+        return "VRFAdapter 1.0.0";
+    }
+
+    /// @notice See {IRandomnessAdapter-getRequestPrice}
+    /// @dev Always 0; requests are paid for by the subscription
+    function getRequestPrice() external pure returns (uint256) {
+        return 0;
+    }
+
+    /// @notice See {IRandomnessAdapter-requestRandomness}
+    function requestRandomness() external payable returns (uint256 requestId) {
+        if (msg.sender != consumer) {
+            revert CallerNotConsumer(msg.sender);
+        }
+        if (msg.value != 0) {
+            revert IncorrectPayment(msg.value, 0);
+        }
+        // Will revert if the subscription is not funded, or this adapter is
+        // not a consumer of it.
+        requestId = s_vrfCoordinator.requestRandomWords(
+            VRFV2PlusClient.RandomWordsRequest({
+                keyHash: keyHash,
+                subId: subscriptionId,
+                requestConfirmations: REQUEST_CONFIRMATIONS,
+                callbackGasLimit: CALLBACK_GAS_LIMIT,
+                numWords: 1,
+                extraArgs: VRFV2PlusClient._argsToBytes(VRFV2PlusClient.ExtraArgsV1({ nativePayment: false }))
+            })
+        );
+    }
+
+    /// @notice Callback from the VRF coordinator; forwarded to the consumer
+    function fulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) internal override {
+        IRandomiserCallback(consumer).receiveRandomWords(requestId, randomWords);
+    }
+}
@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+// Imported so that Hardhat compiles the simulator and generates its typings
+import { CCIPLocalSimulator } from "@chainlink-ccip/local/src/ccip/CCIPLocalSimulator.sol";
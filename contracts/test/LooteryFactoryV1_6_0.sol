@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { Initializable } from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import { AccessControlUpgradeable } from "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+
+/// @notice Stand-in for `LooteryFactory` 1.6.0 with its exact storage layout,
+///     for testing upgrades from it. Lotteries of that version can't be built
+///     anymore, so `create` is replaced by `launch`, which deploys an empty
+///     account instead and bumps the nonce the way `create` did.
+contract LooteryFactoryV1_6_0 is Initializable, UUPSUpgradeable, AccessControlUpgradeable {
+    /// @custom:storage-location erc7201:lootery.storage.LooteryFactory
+    struct LooteryFactoryStorage {
+        address looteryMasterCopy;
+        uint256 nonce;
+        address randomiser;
+        address ticketSVGRenderer;
+        address feeRecipient;
+    }
+
+    /// @notice keccak256(abi.encode(uint256(keccak256("lootery.storage.LooteryFactory")) - 1))
+    ///     & ~bytes32(uint256(0xff))
+    bytes32 private constant LooteryFactoryStorageLocation =
+        0x7e79b86f7f7a80adf0e220b69e5b55b0521b078c2753a63c7ed8f36b02589d00;
+
+    function _getStorage() private pure returns (LooteryFactoryStorage storage $) {
+        assembly {
+            $.slot := LooteryFactoryStorageLocation
+        }
+    }
+
+    constructor() {
+        _disableInitializers();
+    }
+
+    function init(address looteryMasterCopy, address randomiser, address ticketSVGRenderer) public initializer {
+        __AccessControl_init();
+        __UUPSUpgradeable_init();
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+
+        LooteryFactoryStorage storage $ = _getStorage();
+        $.nonce = 1;
+        $.looteryMasterCopy = looteryMasterCopy;
+        $.randomiser = randomiser;
+        $.ticketSVGRenderer = ticketSVGRenderer;
+    }
+
+    function typeAndVersion() external pure returns (string memory) {
+        return "LooteryFactory 1.6.0";
+    }
+
+    function _authorizeUpgrade(address newImplementation) internal override onlyRole(DEFAULT_ADMIN_ROLE) { }
+
+    function setFeeRecipient(address feeRecipient) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _getStorage().feeRecipient = feeRecipient;
+    }
+
+    function launch() external returns (address lootery) {
+        assembly {
+            lootery := create(0, 0, 0)
+        }
+        _getStorage().nonce += 1;
+    }
+}
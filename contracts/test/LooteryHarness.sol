@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { Lootery } from "../Lootery.sol";
+
+/// @notice Exposes the internal functions and state of {Lootery} for testing
+contract LooteryHarness is Lootery {
+    constructor(InitConfig memory initConfig) Lootery(initConfig) { }
+
+    function pickTickets(Ticket[] calldata tickets) external {
+        _pickTickets(tickets);
+    }
+
+    function setupNextGame() external {
+        _setupNextGame();
+    }
+
+    function setGameState(GameState state) external {
+        currentGame.state = state;
+    }
+
+    function setGameData(uint256 gameId, Game calldata game) external {
+        gameData[gameId] = game;
+    }
+
+    function setJackpot(uint256 value) external {
+        jackpot = value;
+    }
+
+    /// @notice Set a game's unclaimed payouts, keeping the total in sync
+    function setGameUnclaimedPayouts(uint256 gameId, uint256 value) external {
+        unclaimedPayouts = unclaimedPayouts - gameUnclaimedPayouts[gameId] + value;
+        gameUnclaimedPayouts[gameId] = value;
+    }
+
+    function setAccruedCommunityFees(uint256 value) external {
+        accruedCommunityFees = value;
+    }
+
+    function setRandomnessRequest(uint256 gameId, RandomnessRequest calldata request) external {
+        randomnessRequests[gameId] = request;
+    }
+}
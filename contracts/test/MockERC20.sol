@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @notice Prize token that the owner can mint freely
+contract MockERC20 is ERC20, Ownable {
+    constructor(address owner) ERC20("Mock ERC20", "MOCK") Ownable(owner) { }
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        _mint(to, amount);
+    }
+}
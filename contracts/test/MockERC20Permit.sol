@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/// @notice Freely mintable prize token that supports EIP-2612 permits, like
+///     USDC does
+contract MockERC20Permit is ERC20, ERC20Permit {
+    constructor() ERC20("Mock USD Coin", "mUSDC") ERC20Permit("Mock USD Coin") { }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { Ownable } from "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @notice NFT that the owner can mint freely; implements ERC-165, but
+///     nothing else that the lottery looks for
+contract MockERC721 is ERC721, Ownable {
+    constructor(address owner) ERC721("Mock ERC721", "MOCK") Ownable(owner) { }
+
+    function mint(address to, uint256 tokenId) external onlyOwner {
+        _mint(to, tokenId);
+    }
+}
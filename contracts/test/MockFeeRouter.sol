@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { IRouterClient } from "@chainlink/contracts-ccip/src/v0.8/ccip/interfaces/IRouterClient.sol";
+import { Client } from "@chainlink/contracts-ccip/src/v0.8/ccip/libraries/Client.sol";
+
+/// @notice Stand-in for the CCIP router whose fee depends on every field of
+///     the message, so that a quote only matches the fee actually charged if
+///     it was made for exactly the same message
+contract MockFeeRouter is IRouterClient {
+    uint256 public nonce;
+
+    function isChainSupported(uint64) external pure returns (bool) {
+        return true;
+    }
+
+    function getSupportedTokens(uint64) external pure returns (address[] memory) {
+        return new address[](0);
+    }
+
+    function getFee(
+        uint64 destinationChainSelector,
+        Client.EVM2AnyMessage memory message
+    )
+        public
+        pure
+        returns (uint256)
+    {
+        return uint256(keccak256(abi.encode(destinationChainSelector, message))) % 1 ether;
+    }
+
+    function ccipSend(
+        uint64 destinationChainSelector,
+        Client.EVM2AnyMessage calldata message
+    )
+        external
+        payable
+        returns (bytes32)
+    {
+        uint256 fee = getFee(destinationChainSelector, message);
+        if (message.feeToken == address(0) && msg.value < fee) {
+            revert InsufficientFeeTokenAmount();
+        }
+        return keccak256(abi.encode(address(this), nonce++));
+    }
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { IAnyrand } from "../interfaces/IAnyrand.sol";
+import { IRandomiserCallback } from "../interfaces/IRandomiserCallback.sol";
+
+/// @notice Stand-in for Anyrand that is fulfilled manually in tests
+contract MockRandomiser is IAnyrand {
+    uint256 public requestPrice = 0.001 ether;
+    uint256 public nextRequestId = 1;
+    mapping(uint256 requestId => address requester) public requests;
+
+    event RandomnessRequested(uint256 indexed requestId, address indexed requester, uint256 deadline);
+
+    error IncorrectPayment(uint256 paid, uint256 expected);
+    error UnknownRequest(uint256 requestId);
+
+    function setRequestPrice(uint256 price) external {
+        requestPrice = price;
+    }
+
+    function setNextRequestId(uint256 requestId) external {
+        nextRequestId = requestId;
+    }
+
+    /// @notice Register a request without going through `requestRandomness`
+    function setRequest(uint256 requestId, address requester) external {
+        requests[requestId] = requester;
+    }
+
+    function getRequestPrice(uint256) external view returns (uint256) {
+        return requestPrice;
+    }
+
+    function requestRandomness(uint256 deadline, uint256) external payable returns (uint256 requestId) {
+        if (msg.value != requestPrice) {
+            revert IncorrectPayment(msg.value, requestPrice);
+        }
+        requestId = nextRequestId++;
+        requests[requestId] = msg.sender;
+        emit RandomnessRequested(requestId, msg.sender, deadline);
+    }
+
+    /// @notice Fulfil a pending request with the given random words
+    function fulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) external {
+        address requester = requests[requestId];
+        if (requester == address(0)) {
+            revert UnknownRequest(requestId);
+        }
+        delete requests[requestId];
+        IRandomiserCallback(requester).receiveRandomWords(requestId, randomWords);
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { Pick } from "../lib/Pick.sol";
+
+/// @notice Exposes the internal functions of {Pick} for testing
+contract PickConsumer {
+    function id(uint8[] memory pick) external pure returns (uint256) {
+        return Pick.id(pick);
+    }
+
+    function countMatches(uint256 pickId, uint256 otherPickId) external pure returns (uint256) {
+        return Pick.countMatches(pickId, otherPickId);
+    }
+
+    function idWithBonusBall(uint8[] memory pick, uint8 maxBallValue) external pure returns (uint256) {
+        return Pick.idWithBonusBall(pick, maxBallValue);
+    }
+
+    function countMatchesWithBonusBall(
+        uint256 pickId,
+        uint256 otherPickId,
+        uint8 maxBallValue
+    )
+        external
+        pure
+        returns (uint256 matches, bool isBonusBallMatched)
+    {
+        return Pick.countMatchesWithBonusBall(pickId, otherPickId, maxBallValue);
+    }
+
+    function parse(uint8 pickLength, uint256 pickId) external pure returns (uint8[] memory) {
+        return Pick.parse(pickLength, pickId);
+    }
+
+    function draw(uint8 pickLength, uint8 maxBallValue, uint256 randomSeed) external pure returns (uint8[] memory) {
+        return Pick.draw(pickLength, maxBallValue, randomSeed);
+    }
+
+    function drawBonusBall(uint8 bonusBallMaxValue, uint256 randomSeed) external pure returns (uint8) {
+        return Pick.drawBonusBall(bonusBallMaxValue, randomSeed);
+    }
+}
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+/// @notice Account that refuses all ETH transfers
+contract RevertingETHReceiver {
+    error ETHRejected();
+
+    receive() external payable {
+        revert ETHRejected();
+    }
+}
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { Sort } from "../lib/Sort.sol";
+
+/// @notice Exposes the internal functions of {Sort} for testing
+contract SortConsumer {
+    function sort(uint8[] memory unsorted) external pure returns (uint8[] memory) {
+        return Sort.sort(unsorted);
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+import { IERC721Receiver } from "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+
+/// @notice Account that accepts ERC-721 tokens until told otherwise, after
+///     which it either rejects them or burns all the gas it's given
+contract ToggleableERC721Receiver is IERC721Receiver {
+    enum Mode {
+        Accept,
+        Reject,
+        ExhaustGas
+    }
+
+    Mode public mode;
+
+    error ERC721Rejected();
+
+    function setMode(Mode mode_) external {
+        mode = mode_;
+    }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external view returns (bytes4) {
+        if (mode == Mode.Reject) {
+            revert ERC721Rejected();
+        }
+        if (mode == Mode.ExhaustGas) {
+            // Nothing can be written in a static context, so just spin
+            while (true) { }
+        }
+        return IERC721Receiver.onERC721Received.selector;
+    }
+}
@@ -0,0 +1,5 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.27;
+
+// Imported so that Hardhat compiles the mock and generates its typings
+import { VRFCoordinatorV2_5Mock } from "@chainlink-vrf/v0.8/vrf/mocks/VRFCoordinatorV2_5Mock.sol";
@@ -0,0 +1,5 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('LooteryFactoryImplV1_8_0', (m) => ({
+    looteryFactoryImpl: m.contract('LooteryFactory', []),
+}))
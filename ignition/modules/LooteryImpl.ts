@@ -1,5 +1,7 @@
 import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
 
 export default buildModule('LooteryImpl', (m) => ({
-    looteryImpl: m.contract('Lootery', []),
+    looteryImpl: m.contract('LooteryBlueprint', []),
+    looteryDrawExtension: m.contract('LooteryDrawExtension', []),
+    looteryPurchaseExtension: m.contract('LooteryPurchaseExtension', []),
 }))
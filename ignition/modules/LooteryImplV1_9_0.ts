@@ -0,0 +1,7 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules'
+
+export default buildModule('LooteryImplV1_9_0', (m) => ({
+    looteryImpl: m.contract('LooteryBlueprint', []),
+    looteryDrawExtension: m.contract('LooteryDrawExtension', []),
+    looteryPurchaseExtension: m.contract('LooteryPurchaseExtension', []),
+}))
@@ -7,33 +7,31 @@ import { Upgrades } from "openzeppelin-foundry-upgrades/Upgrades.sol";
 
 import { Lootery } from "../contracts/Lootery.sol";
 import { TicketSVGRenderer } from "../contracts/periphery/TicketSVGRenderer.sol";
+import { VRFAdapter } from "../contracts/randomness/VRFAdapter.sol";
 import { ILootery } from "../contracts/interfaces/ILootery.sol";
 
 contract DeployLootery is Script {
     address public admin = 0xc3593524E2744E547f013E17E6b0776Bc27Fc614;
     address ticketSVGRenderer;
+    address vrfCoordinator;
     uint256 subscriptionId;
     bytes32 keyhash;
     address usdc;
     address ccipRouter;
 
+    /// @notice Read chain configuration from the shared registry in
+    ///     config/chains.json; reverts on chains that aren't configured.
     function configureChain() internal {
-        if (block.chainid == 11_155_111) {
-            ticketSVGRenderer = address(new TicketSVGRenderer());
-            subscriptionId = 43496336248804612174642751826186552389683956767381157664797245801801686583677;
-            keyhash = 0x474e34a077df58807dbe9c96d3c009b23b3c6d0cce433e59bbf5b34f823bc56c;
-            usdc = 0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238;
-            ccipRouter = 0x0BF3dE8c5D3e8A2B34D2BEeB17ABfCeBaf363A59;
-        } else if (block.chainid == 84532) {
-            ticketSVGRenderer = address(new TicketSVGRenderer());
-            subscriptionId =
-                52_583_392_386_139_978_788_287_834_954_922_830_646_012_130_925_743_222_032_793_193_524_782_781_572_502;
-            keyhash = 0x9e1344a1247c8a1785d0a4681a27152bffdb43666ae5bf7d14d24a5efd44bf71;
-            usdc = 0x036CbD53842c5426634e7929541eC2318f3dCF7e;
-            ccipRouter = 0xD3b06cEbF099CE7DA4AcCf578aaebFDBd6e88a93;
-        } else {
-            revert("Chain not supported");
-        }
+        string memory json = vm.readFile(string.concat(vm.projectRoot(), "/config/chains.json"));
+        string memory key = string.concat(".", vm.toString(block.chainid));
+        require(vm.keyExistsJson(json, key), "Chain not supported");
+
+        ticketSVGRenderer = address(new TicketSVGRenderer());
+        vrfCoordinator = vm.parseJsonAddress(json, string.concat(key, ".vrf.coordinator"));
+        subscriptionId = vm.parseJsonUint(json, string.concat(key, ".vrf.subscriptionId"));
+        keyhash = vm.parseJsonBytes32(json, string.concat(key, ".vrf.keyHash"));
+        usdc = vm.parseJsonAddress(json, string.concat(key, ".usdc"));
+        ccipRouter = vm.parseJsonAddress(json, string.concat(key, ".ccipRouter"));
     }
 
     function run() public {
@@ -41,6 +39,11 @@ contract DeployLootery is Script {
 
         vm.startBroadcast();
 
+        // The adapter is bound to its consumer, so deploy it at the nonce
+        // before the lotto's
+        address expectedLootery = vm.computeCreateAddress(msg.sender, vm.getNonce(msg.sender) + 1);
+        VRFAdapter randomiser = new VRFAdapter(vrfCoordinator, subscriptionId, keyhash, expectedLootery);
+
         // Create the init config struct
         ILootery.InitConfig memory config = ILootery.InitConfig({
             owner: admin,
@@ -51,17 +54,20 @@ contract DeployLootery is Script {
             gamePeriod: 10 minutes,
             ticketPrice: 1 * 10 ** 6,
             communityFeeBps: 0.5e4,
-            subscriptionId: subscriptionId,
-            keyHash: keyhash,
+            randomiser: address(randomiser),
             prizeToken: usdc,
             seedJackpotDelay: 10 minutes,
             seedJackpotMinValue: 1 * 10 ** 6,
             ticketSVGRenderer: ticketSVGRenderer,
-            ccipRouter: ccipRouter
+            ccipRouter: ccipRouter,
+            bonusBallMaxValue: 0 // No bonus ball
         });
 
         Lootery lootery = new Lootery(config);
+        require(address(lootery) == expectedLootery, "Unexpected Lootery address");
         console.log("Deployed Lootery at", address(lootery));
+        console.log("Deployed VRFAdapter at", address(randomiser));
+        console.log("Add the VRFAdapter as a consumer of VRF subscription", subscriptionId);
         vm.stopBroadcast();
     }
 }
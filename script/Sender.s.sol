@@ -14,23 +14,35 @@ contract DeploySender is Script {
     address usdc;
     address ccipRouter;
 
+    /// @notice Read chain configuration from the shared registry in
+    ///     config/chains.json; reverts on chains that aren't configured.
     function configureChain() internal {
-        if (block.chainid == 11_155_111) {
-            usdc = 0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238;
-            ccipRouter = 0x0BF3dE8c5D3e8A2B34D2BEeB17ABfCeBaf363A59;
-        } else if (block.chainid == 84532) {
-            usdc = 0x036CbD53842c5426634e7929541eC2318f3dCF7e;
-            ccipRouter = 0xD3b06cEbF099CE7DA4AcCf578aaebFDBd6e88a93;
-        } else {
-            revert("Chain not supported");
-        }
+        string memory json = vm.readFile(string.concat(vm.projectRoot(), "/config/chains.json"));
+        string memory key = string.concat(".", vm.toString(block.chainid));
+        require(vm.keyExistsJson(json, key), "Chain not supported");
+
+        usdc = vm.parseJsonAddress(json, string.concat(key, ".usdc"));
+        ccipRouter = vm.parseJsonAddress(json, string.concat(key, ".ccipRouter"));
     }
 
     function run() public {
         configureChain();
 
+        // Optionally start selling tickets for a Lootery on another chain
+        address destinationLootery = vm.envOr("DESTINATION_LOOTERY", address(0));
+
         vm.startBroadcast();
-				new Sender(usdc, ccipRouter);
+        Sender sender = new Sender(ccipRouter, usdc);
+        if (destinationLootery != address(0)) {
+            // Zero gas limits select the Sender's defaults
+            sender.setDestinationConfig(
+                uint64(vm.envUint("DESTINATION_CHAIN_SELECTOR")), destinationLootery, vm.envUint("TICKET_PRICE"), 0, 0
+            );
+        }
         vm.stopBroadcast();
+
+        if (destinationLootery != address(0)) {
+            console.log("Allowlist Sender %s on the destination Lootery", address(sender));
+        }
     }
 }
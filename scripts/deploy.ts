@@ -1,6 +1,7 @@
 import { ethers, ignition, run } from 'hardhat'
 import { LooteryFactory__factory } from '../typechain-types'
-import { config } from './config'
+import { ZeroAddress } from 'ethers'
+import { getChainConfig } from './registry'
 import LooteryImplModule from '../ignition/modules/LooteryImpl'
 import LooteryFactoryModule from '../ignition/modules/LooteryFactory'
 import LooteryETHAdapterModule from '../ignition/modules/LooteryETHAdapter'
@@ -8,13 +9,23 @@ import TicketSVGRendererModule from '../ignition/modules/TicketSVGRenderer'
 
 async function main() {
     const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
-    const { anyrand, weth } = config[chainId.toString() as keyof typeof config]
+    // Lottos may use either randomness provider that's available on this chain. CCIP and the
+    // ETH adapter are optional: without them, tickets can't be bought cross-chain or with ETH.
+    const { anyrand, vrf, ccipRouter, weth } = getChainConfig(chainId)
+    if (!anyrand && !vrf) {
+        throw new Error(`No randomness provider configured for chain ${chainId}`)
+    }
 
     const { ticketSVGRenderer } = await ignition.deploy(TicketSVGRendererModule)
-    const { looteryImpl } = await ignition.deploy(LooteryImplModule)
+    const { looteryImpl, looteryDrawExtension, looteryPurchaseExtension } =
+        await ignition.deploy(LooteryImplModule)
     const factoryInitData = LooteryFactory__factory.createInterface().encodeFunctionData('init', [
         await looteryImpl.getAddress(),
-        anyrand,
+        await looteryDrawExtension.getAddress(),
+        await looteryPurchaseExtension.getAddress(),
+        anyrand ?? ZeroAddress,
+        vrf?.coordinator ?? ZeroAddress,
+        ccipRouter ?? ZeroAddress,
         await ticketSVGRenderer.getAddress(),
     ])
     const { looteryFactoryProxy } = await ignition.deploy(LooteryFactoryModule, {
@@ -27,14 +38,18 @@ async function main() {
     console.log(`LooteryFactory deployed at: ${await looteryFactoryProxy.getAddress()}`)
 
     // Periphery
-    const { looteryEthAdapter } = await ignition.deploy(LooteryETHAdapterModule, {
-        parameters: {
-            LooteryETHAdapter: {
-                weth,
+    if (weth) {
+        const { looteryEthAdapter } = await ignition.deploy(LooteryETHAdapterModule, {
+            parameters: {
+                LooteryETHAdapter: {
+                    weth,
+                },
             },
-        },
-    })
-    console.log(`LooteryETHAdapter deployed at: ${await looteryEthAdapter.getAddress()}`)
+        })
+        console.log(`LooteryETHAdapter deployed at: ${await looteryEthAdapter.getAddress()}`)
+    } else {
+        console.log(`No WETH configured for chain ${chainId}; skipping LooteryETHAdapter`)
+    }
 
     // Verify all
     await run(
@@ -0,0 +1,48 @@
+import { ethers } from 'hardhat'
+import { isAddress } from 'ethers'
+import path from 'node:path'
+import { JsonFileIndexerStore, LooteryIndexer } from '../sdk/indexer'
+
+// Index a lottery's events into a local JSON file, then print per-game
+// summaries. Re-running resumes from the last indexed block.
+//
+// Configured via env:
+//  LOOTERY_ADDRESS         Lottery to index (required)
+//  INDEXER_START_BLOCK     Block to start indexing from (default: 0)
+//  INDEXER_CONFIRMATIONS   Blocks to stay behind head (default: 5)
+//  INDEXER_STORE           Path of the JSON store (default: ./lootery-<address>.json)
+async function main() {
+    const lootery = process.env.LOOTERY_ADDRESS
+    if (!lootery || !isAddress(lootery)) {
+        throw new Error(`Invalid LOOTERY_ADDRESS: ${lootery}`)
+    }
+    const storePath =
+        process.env.INDEXER_STORE || path.resolve(process.cwd(), `lootery-${lootery}.json`)
+    const indexer = new LooteryIndexer({
+        lootery,
+        provider: ethers.provider,
+        store: new JsonFileIndexerStore(storePath),
+        startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+        confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 5),
+    })
+    const ingested = await indexer.sync()
+    console.log(
+        `Ingested ${ingested} events up to block ${await indexer.getLastIndexedBlock()} (${storePath})`,
+    )
+    for (const game of await indexer.getGameSummaries()) {
+        console.log(
+            JSON.stringify(game, (_, value) =>
+                typeof value === 'bigint' ? value.toString() : value,
+            ),
+        )
+    }
+}
+
+main()
+    .then(() => {
+        process.exit(0)
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
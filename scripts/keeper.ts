@@ -0,0 +1,49 @@
+import { ethers } from 'hardhat'
+import { isAddress } from 'ethers'
+import { LooteryKeeper } from '../sdk/keeper'
+
+// Long-running keeper that draws lotteries once their game period has elapsed,
+// and forces a redraw when a randomness request goes stale.
+//
+// Configured via env:
+//  LOOTERY_ADDRESSES   Comma-separated list of lottery addresses (required)
+//  KEEPER_INTERVAL_MS  Milliseconds between ticks (default: 60000)
+//  KEEPER_DRY_RUN      Set to "true" to simulate transactions without sending
+//  KEEPER_RUN_ONCE     Set to "true" to tick once and exit
+async function main() {
+    const looteries = (process.env.LOOTERY_ADDRESSES || '')
+        .split(',')
+        .map((address) => address.trim())
+        .filter(Boolean)
+    if (looteries.length === 0) {
+        throw new Error('LOOTERY_ADDRESSES must be set')
+    }
+    for (const address of looteries) {
+        if (!isAddress(address)) throw new Error(`Invalid lottery address: ${address}`)
+    }
+    const intervalMs = Number(process.env.KEEPER_INTERVAL_MS || 60_000)
+    const dryRun = process.env.KEEPER_DRY_RUN === 'true'
+
+    const [signer] = await ethers.getSigners()
+    const keeper = new LooteryKeeper({
+        looteries,
+        runner: signer,
+        dryRun,
+    })
+    if (process.env.KEEPER_RUN_ONCE === 'true') {
+        await keeper.tick()
+        return
+    }
+    process.once('SIGINT', () => keeper.stop())
+    process.once('SIGTERM', () => keeper.stop())
+    await keeper.run(intervalMs)
+}
+
+main()
+    .then(() => {
+        process.exit(0)
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
@@ -0,0 +1,91 @@
+import { ethers } from 'hardhat'
+import { JsonRpcProvider, ZeroAddress, formatEther, formatUnits, isAddress } from 'ethers'
+import { ERC20__factory, Lootery__factory, Sender__factory } from '../typechain-types'
+import { quoteCrossChainPurchase, withFeeBuffer } from '../sdk/crossChain'
+import type { TicketOrder } from '../sdk/LooteryClient'
+
+// Quote the all-in cost of buying tickets from a lottery on another chain,
+// i.e. the ticket cost plus the CCIP fee, before buying. Run against the
+// source chain's network.
+//
+// Configured via env:
+//  SENDER_ADDRESS              Sender on the source chain (required)
+//  DESTINATION_CHAIN_SELECTOR  CCIP chain selector of the destination chain (required)
+//  DESTINATION_LOOTERY         Lootery on the destination chain (required)
+//  TICKETS                     Tickets as JSON, e.g. [{"whomst":"0x...","pick":[1,2,3,4,5]}]
+//                              (required, since the CCIP fee depends on the exact message)
+//  FEE_TOKEN                   Token to pay the CCIP fee with, e.g. LINK (default: native)
+//  DESTINATION_RPC_URL         If set, the Sender's price is checked against the destination's
+async function main() {
+    const senderAddress = process.env.SENDER_ADDRESS || ''
+    const receiver = process.env.DESTINATION_LOOTERY || ''
+    if (!isAddress(senderAddress)) throw new Error('SENDER_ADDRESS must be set')
+    if (!isAddress(receiver)) throw new Error('DESTINATION_LOOTERY must be set')
+    if (!process.env.DESTINATION_CHAIN_SELECTOR) {
+        throw new Error('DESTINATION_CHAIN_SELECTOR must be set')
+    }
+    const destinationChainSelector = BigInt(process.env.DESTINATION_CHAIN_SELECTOR)
+    if (!process.env.TICKETS) throw new Error('TICKETS must be set')
+    const tickets: TicketOrder[] = JSON.parse(process.env.TICKETS)
+    const feeToken = process.env.FEE_TOKEN || ZeroAddress
+    if (!isAddress(feeToken)) throw new Error(`Invalid fee token: ${feeToken}`)
+
+    const [signer] = await ethers.getSigners()
+    const sender = Sender__factory.connect(senderAddress, signer)
+    const quote = await quoteCrossChainPurchase(
+        sender,
+        destinationChainSelector,
+        receiver,
+        tickets,
+        feeToken,
+    )
+    const paymentToken = ERC20__factory.connect(quote.paymentToken, signer)
+    const [paymentSymbol, paymentDecimals] = await Promise.all([
+        paymentToken.symbol(),
+        paymentToken.decimals(),
+    ])
+    const formatPayment = (amount: bigint) =>
+        `${formatUnits(amount, paymentDecimals)} ${paymentSymbol}`
+    const formatFee =
+        feeToken === ZeroAddress
+            ? async (fee: bigint) => `${formatEther(fee)} (native)`
+            : async (fee: bigint) => {
+                  const token = ERC20__factory.connect(feeToken, signer)
+                  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()])
+                  return `${formatUnits(fee, decimals)} ${symbol}`
+              }
+
+    console.log(`Tickets:       ${tickets.length}`)
+    console.log(`Ticket price:  ${formatPayment(quote.ticketPrice)}`)
+    console.log(`Ticket cost:   ${formatPayment(quote.ticketCost)}`)
+    console.log(`CCIP fee:      ${await formatFee(quote.ccipFee)}`)
+    console.log(`Max CCIP fee:  ${await formatFee(withFeeBuffer(quote.ccipFee))}`)
+
+    if (process.env.DESTINATION_RPC_URL) {
+        const lootery = Lootery__factory.connect(
+            receiver,
+            new JsonRpcProvider(process.env.DESTINATION_RPC_URL),
+        )
+        const destinationTicketPrice = await lootery.ticketPrice()
+        if (quote.ticketPrice < destinationTicketPrice) {
+            const price = formatPayment(destinationTicketPrice)
+            console.warn(
+                `WARNING: the destination's ticket price is ${price}, ` +
+                    'so the payment would be refunded on the destination. ' +
+                    'Push the new price with Lootery.syncTicketPrice.',
+            )
+            process.exitCode = 1
+        } else {
+            console.log('Sender price covers the destination ticket price')
+        }
+    }
+}
+
+main()
+    .then(() => {
+        process.exit()
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
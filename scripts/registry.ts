@@ -0,0 +1,189 @@
+import z from 'zod'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import chainsJson from '../config/chains.json'
+
+export const AddressSchema = z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{40}$/, 'Invalid address')
+    .transform((value) => value as `0x${string}`)
+
+export const Bytes32Schema = z
+    .string()
+    .regex(/^0x[0-9a-fA-F]{64}$/, 'Invalid bytes32')
+    .transform((value) => value as `0x${string}`)
+
+/** uint256 as a decimal string, since JSON numbers lose precision */
+export const Uint256Schema = z
+    .string()
+    .regex(/^\d+$/, 'Invalid uint256')
+    .transform((value) => BigInt(value))
+
+export const VrfConfigSchema = z.object({
+    /** VRF v2.5 coordinator */
+    coordinator: AddressSchema,
+    keyHash: Bytes32Schema,
+    subscriptionId: Uint256Schema,
+})
+export type VrfConfig = z.TypeOf<typeof VrfConfigSchema>
+
+export const ChainConfigSchema = z.object({
+    name: z.string(),
+    /** Anyrand randomness beacon */
+    anyrand: AddressSchema.optional(),
+    /** Wrapped native token */
+    weth: AddressSchema.optional(),
+    vrf: VrfConfigSchema.optional(),
+    usdc: AddressSchema.optional(),
+    ccipRouter: AddressSchema.optional(),
+})
+export type ChainConfig = z.TypeOf<typeof ChainConfigSchema>
+
+export const ChainRegistrySchema = z.record(z.string().regex(/^\d+$/), ChainConfigSchema)
+export type ChainRegistry = z.TypeOf<typeof ChainRegistrySchema>
+
+/** Ignition's deployed_addresses.json: future id => address */
+export const DeployedAddressesSchema = z.record(z.string(), AddressSchema)
+export type DeployedAddresses = z.TypeOf<typeof DeployedAddressesSchema>
+
+/** All known chains, validated */
+export const chains: ChainRegistry = ChainRegistrySchema.parse(chainsJson)
+
+export class UnknownChainError extends Error {
+    constructor(public readonly chainId: bigint) {
+        super(
+            `Unknown chain ${chainId}; known chains: ${Object.entries(chains)
+                .map(([id, { name }]) => `${name} (${id})`)
+                .join(', ')}`,
+        )
+    }
+}
+
+export class MissingConfigError extends Error {}
+
+/**
+ * Get the configuration for a chain
+ * @param chainId Chain id
+ * @throws {UnknownChainError} if the chain isn't in the registry
+ */
+export function getChainConfig(chainId: bigint | number | string): ChainConfig {
+    const config = chains[chainId.toString()]
+    if (!config) throw new UnknownChainError(BigInt(chainId))
+    return config
+}
+
+/**
+ * Get a required configuration value for a chain
+ * @param chainId Chain id
+ * @param key Configuration key
+ * @throws {MissingConfigError} if the chain doesn't configure `key`
+ */
+export function requireChainConfig<K extends keyof ChainConfig>(
+    chainId: bigint | number | string,
+    key: K,
+): NonNullable<ChainConfig[K]> {
+    const config = getChainConfig(chainId)
+    const value = config[key]
+    if (typeof value === 'undefined' || value === null) {
+        throw new MissingConfigError(`Chain ${config.name} (${chainId}) has no ${key} configured`)
+    }
+    return value as NonNullable<ChainConfig[K]>
+}
+
+/**
+ * Path to Ignition's deployed addresses file for a chain
+ * @param chainId Chain id
+ */
+export function getDeployedAddressesPath(chainId: bigint | number | string) {
+    return path.resolve(
+        __dirname,
+        `../ignition/deployments/chain-${chainId.toString()}/deployed_addresses.json`,
+    )
+}
+
+/**
+ * Read and validate the addresses deployed by Ignition on a chain
+ * @param chainId Chain id
+ * @throws {UnknownChainError} if the chain isn't in the registry
+ */
+export async function getDeployedAddresses(
+    chainId: bigint | number | string,
+): Promise<DeployedAddresses> {
+    getChainConfig(chainId)
+    const file = getDeployedAddressesPath(chainId)
+    const json = await fs.readFile(file, { encoding: 'utf-8' }).catch((err) => {
+        if (err.code === 'ENOENT') {
+            throw new MissingConfigError(`No Ignition deployments found for chain ${chainId}`)
+        }
+        throw err
+    })
+    return DeployedAddressesSchema.parse(JSON.parse(json))
+}
+
+/**
+ * Get the address of a contract deployed by Ignition
+ * @param chainId Chain id
+ * @param futureId Ignition future id, e.g. `LooteryFactory#ERC1967Proxy`
+ */
+export async function getDeployedAddress(
+    chainId: bigint | number | string,
+    futureId: string,
+): Promise<`0x${string}`> {
+    const addresses = await getDeployedAddresses(chainId)
+    const address = addresses[futureId]
+    if (!address) {
+        throw new MissingConfigError(`${futureId} has not been deployed on chain ${chainId}`)
+    }
+    return address
+}
+
+export interface DeployedVersion {
+    /** Ignition future id */
+    futureId: string
+    address: `0x${string}`
+    /** Semver parsed from the module id, e.g. `1.8.0` from `LooteryImplV1_8_0` */
+    version: string
+}
+
+/**
+ * Parse the version from a versioned Ignition module id
+ * @param moduleId Module or future id, e.g. `LooteryImplV1_8_0#Lootery`
+ * @returns Semver string, or undefined if the module isn't versioned
+ */
+export function parseModuleVersion(moduleId: string) {
+    const match = moduleId.split('#')[0].match(/V(\d+)_(\d+)_(\d+)$/)
+    return match ? `${match[1]}.${match[2]}.${match[3]}` : undefined
+}
+
+/**
+ * List versioned deployments of a contract on a chain, latest first
+ * @param chainId Chain id
+ * @param modulePrefix Versioned module prefix, e.g. `LooteryImpl` for `LooteryImplV1_8_0`
+ */
+export async function getDeployedVersions(
+    chainId: bigint | number | string,
+    modulePrefix: string,
+): Promise<DeployedVersion[]> {
+    const addresses = await getDeployedAddresses(chainId)
+    return Object.entries(addresses)
+        .filter(([futureId]) => futureId.match(new RegExp(`^${modulePrefix}V\\d+_\\d+_\\d+#`)))
+        .map(([futureId, address]) => ({
+            futureId,
+            address,
+            version: parseModuleVersion(futureId)!,
+        }))
+        .sort((a, b) => compareVersions(b.version, a.version))
+}
+
+/**
+ * Compare two semver strings (major.minor.patch only)
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareVersions(a: string, b: string) {
+    const pa = a.split('.').map(Number)
+    const pb = b.split('.').map(Number)
+    for (let i = 0; i < 3; i++) {
+        if (pa[i] !== pb[i]) return pa[i] - pb[i]
+    }
+    return 0
+}
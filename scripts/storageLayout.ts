@@ -0,0 +1,249 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import z from 'zod'
+
+export const StorageEntrySchema = z.object({
+    label: z.string(),
+    offset: z.number(),
+    slot: z.string(),
+    type: z.string(),
+})
+export type StorageEntry = z.TypeOf<typeof StorageEntrySchema>
+
+export const StorageTypeSchema = z.object({
+    label: z.string(),
+    numberOfBytes: z.string(),
+    /** Struct members; slots are relative to the start of the struct */
+    members: z.array(StorageEntrySchema).optional(),
+    /** Mapping key type */
+    key: z.string().optional(),
+    /** Mapping value type */
+    value: z.string().optional(),
+    /** Array element type */
+    base: z.string().optional(),
+})
+export type StorageType = z.TypeOf<typeof StorageTypeSchema>
+
+/**
+ * Storage layout, as output by solc, plus the members of ERC-7201 namespaced
+ * storage structs keyed by namespace id; see {getStorageLayout}
+ */
+export const StorageLayoutSchema = z.object({
+    storage: z.array(StorageEntrySchema),
+    types: z.record(z.string(), StorageTypeSchema).nullable(),
+    namespaces: z.record(z.string(), z.array(StorageEntrySchema)).optional(),
+})
+export type StorageLayout = z.TypeOf<typeof StorageLayoutSchema>
+
+/** Contract that declares every namespaced storage struct as a state variable */
+const NAMESPACED_LAYOUTS_CONTRACT = 'StorageLayouts'
+
+/** Minimal shape of the solc AST nodes that are walked for namespaces */
+interface AstNode {
+    id: number
+    nodeType: string
+    name?: string
+    nodes?: AstNode[]
+    linearizedBaseContracts?: number[]
+    documentation?: { text?: string } | null
+}
+
+async function readBuildOutput(hre: HardhatRuntimeEnvironment, contractName: string) {
+    const artifact = await hre.artifacts.readArtifact(contractName)
+    const fqn = `${artifact.sourceName}:${artifact.contractName}`
+    const buildInfo = await hre.artifacts.getBuildInfo(fqn)
+    const storageLayout = (
+        buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName] as
+            | { storageLayout?: unknown }
+            | undefined
+    )?.storageLayout
+    if (!buildInfo || !storageLayout) {
+        throw new Error(`No storage layout in build output for ${fqn}`)
+    }
+    return {
+        artifact,
+        sources: buildInfo.output.sources as Record<string, { ast: AstNode }>,
+        layout: StorageLayoutSchema.parse(storageLayout),
+    }
+}
+
+/**
+ * Find the ERC-7201 namespaced storage structs of a contract and the
+ * contracts it inherits from
+ * @returns Canonical struct names (e.g. `LooteryFactory.LooteryFactoryStorage`),
+ *  keyed by namespace id
+ */
+function findNamespaces(sources: Record<string, { ast: AstNode }>, contractName: string) {
+    const contracts = new Map<number, AstNode>()
+    for (const { ast } of Object.values(sources)) {
+        for (const node of ast.nodes ?? []) {
+            if (node.nodeType === 'ContractDefinition') contracts.set(node.id, node)
+        }
+    }
+    const contract = [...contracts.values()].find((node) => node.name === contractName)
+    const namespaces: Record<string, string> = {}
+    for (const baseId of contract?.linearizedBaseContracts ?? []) {
+        const base = contracts.get(baseId)
+        for (const node of base?.nodes ?? []) {
+            if (node.nodeType !== 'StructDefinition') continue
+            const id = node.documentation?.text?.match(/@custom:storage-location erc7201:(\S+)/)
+            if (id) namespaces[id[1]] = `${base!.name}.${node.name}`
+        }
+    }
+    return namespaces
+}
+
+/** Copy a type, and every type it refers to, from one layout's types to another's */
+function copyType(key: string, from: Record<string, StorageType>, to: Record<string, StorageType>) {
+    const type = from[key]
+    if (!type || to[key]) return
+    to[key] = type
+    const refs = [type.key, type.value, type.base, ...(type.members ?? []).map((m) => m.type)]
+    for (const ref of refs) {
+        if (ref) copyType(ref, from, to)
+    }
+}
+
+/**
+ * Get the storage layout of a compiled contract. Requires the storageLayout
+ * output selection, which is added by `hardhat-storage-layout`.
+ *
+ * ERC-7201 namespaced storage isn't part of the layout that solc outputs, so
+ * the members of each namespaced struct of the contract (including inherited
+ * ones, e.g. OpenZeppelin's) are looked up in the layout of `StorageLayouts`,
+ * which declares them as state variables.
+ * @param hre Hardhat runtime
+ * @param contractName Contract name
+ */
+export async function getStorageLayout(
+    hre: HardhatRuntimeEnvironment,
+    contractName: string,
+): Promise<StorageLayout> {
+    const { sources, layout } = await readBuildOutput(hre, contractName)
+    const namespaces = findNamespaces(sources, contractName)
+    if (Object.keys(namespaces).length === 0) return layout
+
+    const { layout: namespacedLayout } = await readBuildOutput(hre, NAMESPACED_LAYOUTS_CONTRACT)
+    const types = { ...layout.types }
+    const namespaceMembers: Record<string, StorageEntry[]> = {}
+    for (const [id, structName] of Object.entries(namespaces)) {
+        const key = Object.keys(namespacedLayout.types ?? {}).find(
+            (key) => namespacedLayout.types![key].label === `struct ${structName}`,
+        )
+        const members = key && namespacedLayout.types![key].members
+        if (!members) {
+            throw new Error(
+                `No layout for namespace ${id} of ${contractName}; ` +
+                    `declare ${structName} in ${NAMESPACED_LAYOUTS_CONTRACT}`,
+            )
+        }
+        copyType(key, namespacedLayout.types!, types)
+        namespaceMembers[id] = members
+    }
+    return { ...layout, types, namespaces: namespaceMembers }
+}
+
+/**
+ * Path of the storage layout baseline for a contract, i.e. the layout of the
+ * implementation that's currently deployed. Each chain has its own baseline,
+ * since implementations are upgraded on each chain separately.
+ * @param hre Hardhat runtime
+ * @param chainId Chain that the contract is deployed on
+ * @param contractName Contract name
+ */
+export function getStorageLayoutBaselinePath(
+    hre: HardhatRuntimeEnvironment,
+    chainId: bigint,
+    contractName: string,
+) {
+    const storageLayoutsDir = (hre.config.paths as { storageLayouts?: string }).storageLayouts
+    return path.resolve(
+        hre.config.paths.root,
+        storageLayoutsDir || '.storage-layouts',
+        chainId.toString(),
+        `${contractName}.json`,
+    )
+}
+
+export async function readStorageLayoutBaseline(
+    hre: HardhatRuntimeEnvironment,
+    chainId: bigint,
+    contractName: string,
+): Promise<StorageLayout | undefined> {
+    const json = await fs
+        .readFile(getStorageLayoutBaselinePath(hre, chainId, contractName), { encoding: 'utf-8' })
+        .catch((err) => {
+            if (err.code === 'ENOENT') return undefined
+            throw err
+        })
+    return typeof json === 'undefined' ? undefined : StorageLayoutSchema.parse(JSON.parse(json))
+}
+
+export async function writeStorageLayoutBaseline(
+    hre: HardhatRuntimeEnvironment,
+    chainId: bigint,
+    contractName: string,
+    layout: StorageLayout,
+) {
+    const file = getStorageLayoutBaselinePath(hre, chainId, contractName)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(file, JSON.stringify(layout, null, 2) + '\n', { encoding: 'utf-8' })
+}
+
+/**
+ * Check that `next` only appends to `prev`: every variable in the previous
+ * layout must keep its name, slot, offset and type. The same goes for the
+ * members of every namespaced storage struct in the previous layout.
+ * @param prev Layout of the current implementation
+ * @param next Layout of the new implementation
+ * @returns Human-readable list of incompatibilities; empty if compatible
+ */
+export function compareStorageLayouts(prev: StorageLayout, next: StorageLayout): string[] {
+    const errors = compareEntries(prev, next, prev.storage, next.storage)
+    for (const [id, members] of Object.entries(prev.namespaces ?? {})) {
+        const nextMembers = next.namespaces?.[id]
+        if (!nextMembers) {
+            errors.push(`namespace ${id} was removed`)
+            continue
+        }
+        errors.push(...compareEntries(prev, next, members, nextMembers, `namespace ${id}: `))
+    }
+    return errors
+}
+
+function compareEntries(
+    prevLayout: StorageLayout,
+    nextLayout: StorageLayout,
+    prev: StorageEntry[],
+    next: StorageEntry[],
+    prefix = '',
+): string[] {
+    const typeOf = (layout: StorageLayout, type: string) => layout.types?.[type]
+    const errors: string[] = []
+    for (let i = 0; i < prev.length; i++) {
+        const a = prev[i]
+        const b = next[i]
+        const where = `slot ${a.slot}, offset ${a.offset}`
+        if (!b) {
+            errors.push(`${prefix}${a.label} (${where}) was removed`)
+            continue
+        }
+        if (a.slot !== b.slot || a.offset !== b.offset) {
+            errors.push(
+                `${prefix}${a.label} moved from ${where} to slot ${b.slot}, offset ${b.offset}`,
+            )
+        }
+        if (a.label !== b.label) {
+            errors.push(`${prefix}${a.label} (${where}) was renamed to ${b.label}`)
+        }
+        const typeA = typeOf(prevLayout, a.type)
+        const typeB = typeOf(nextLayout, b.type)
+        if (typeA?.label !== typeB?.label || typeA?.numberOfBytes !== typeB?.numberOfBytes) {
+            const from = typeA?.label ?? a.type
+            const to = typeB?.label ?? b.type
+            errors.push(`${prefix}${a.label} (${where}) changed type from ${from} to ${to}`)
+        }
+    }
+    return errors
+}
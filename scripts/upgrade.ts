@@ -0,0 +1,264 @@
+import hre, { ethers, ignition, run } from 'hardhat'
+import { ITypeAndVersion__factory, LooteryFactory__factory } from '../typechain-types'
+import type { IgnitionModule } from '@nomicfoundation/ignition-core'
+import yesno from 'yesno'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { getAddress, getBytes, hexlify } from 'ethers'
+import { compareVersions, getDeployedAddress, parseModuleVersion } from './registry'
+import {
+    compareStorageLayouts,
+    getStorageLayout,
+    getStorageLayoutBaselinePath,
+    readStorageLayoutBaseline,
+    writeStorageLayoutBaseline,
+} from './storageLayout'
+
+/** keccak256('eip1967.proxy.implementation') - 1 */
+const ERC1967_IMPLEMENTATION_SLOT =
+    '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc'
+
+interface UpgradeTarget {
+    contractName: string
+    /** Versioned Ignition module prefix, e.g. `LooteryImpl` for `LooteryImplV1_8_0` */
+    modulePrefix: string
+    /** Name of the implementation future returned by the module */
+    futureName: string
+    /**
+     * Whether the module deploys an ERC-5202 blueprint of the contract, which
+     * holds its creation code and can't be called. Blueprints only deploy new
+     * lotteries and never upgrade existing ones, so their storage layout isn't
+     * checked.
+     */
+    isBlueprint: boolean
+}
+
+const targets: Record<string, UpgradeTarget> = {
+    lootery: {
+        contractName: 'Lootery',
+        modulePrefix: 'LooteryImpl',
+        futureName: 'looteryImpl',
+        isBlueprint: true,
+    },
+    factory: {
+        contractName: 'LooteryFactory',
+        modulePrefix: 'LooteryFactoryImpl',
+        futureName: 'looteryFactoryImpl',
+        isBlueprint: false,
+    },
+}
+
+const modulesDir = path.resolve(__dirname, '../ignition/modules')
+
+/** ERC-5202 blueprint preamble: version 0, no data */
+const BLUEPRINT_PREAMBLE = '0xfe7100'
+
+/**
+ * Find the latest versioned Ignition module for a target
+ * @param modulePrefix Versioned module prefix
+ */
+async function getLatestModuleVersion(modulePrefix: string) {
+    const versions = (await fs.readdir(modulesDir))
+        .map((file) => path.basename(file, '.ts'))
+        .filter((moduleId) => moduleId.match(new RegExp(`^${modulePrefix}V\\d+_\\d+_\\d+$`)))
+        .map((moduleId) => parseModuleVersion(moduleId)!)
+        .sort((a, b) => compareVersions(b, a))
+    if (versions.length === 0) {
+        throw new Error(`No versioned modules found for ${modulePrefix}`)
+    }
+    return versions[0]
+}
+
+async function loadModule(modulePrefix: string, version: string) {
+    const moduleId = `${modulePrefix}V${version.replace(/\./g, '_')}`
+    const file = path.join(modulesDir, `${moduleId}.ts`)
+    await fs.access(file).catch(() => {
+        throw new Error(`Ignition module ${moduleId} not found; create ${file} first`)
+    })
+    const { default: ignitionModule } = (await import(file)) as { default: IgnitionModule }
+    return ignitionModule
+}
+
+/**
+ * Read the semver of a deployed contract from `typeAndVersion()`
+ * @returns Semver, or undefined if the contract doesn't implement it (or is a blueprint)
+ */
+async function getContractVersion(address: string) {
+    const typeAndVersion = await ITypeAndVersion__factory.connect(address, ethers.provider)
+        .typeAndVersion()
+        .catch(() => undefined)
+    return typeAndVersion?.match(/(\d+\.\d+\.\d+)$/)?.[1]
+}
+
+// Deploy a new Lootery or LooteryFactory implementation, then point the factory at it.
+// Lootery implementations are deployed as blueprints and set as the factory's master copy;
+// factory implementations are upgraded via UUPS. The new factory storage layout is checked against
+// the chain's baseline in `.storage-layouts/<chainId>`, which is updated after a successful upgrade.
+// Note: upgrade periphery contracts required for deploying lotteries, such as the
+//  TicketSVGRenderer before upgrading the Lootery implementation.
+//
+// Configured via env:
+//  UPGRADE_TARGET       "lootery" or "factory" (required)
+//  UPGRADE_VERSION      Version to deploy, e.g. "1.8.0" (default: latest Ignition module)
+//  UPGRADE_YES          Set to "true" to skip confirmation (non-interactive)
+//  UPGRADE_SKIP_VERIFY  Set to "true" to skip block explorer verification
+//  UPGRADE_ALLOW_MISSING_LAYOUT_BASELINE
+//                       Set to "true" to upgrade the factory even if the chain has no storage
+//                       layout baseline to check against (e.g. the first upgrade on a new chain)
+async function main() {
+    const targetName = process.env.UPGRADE_TARGET || ''
+    const target = targets[targetName]
+    if (!target) {
+        throw new Error(`UPGRADE_TARGET must be one of: ${Object.keys(targets).join(', ')}`)
+    }
+    const { contractName, modulePrefix, futureName, isBlueprint } = target
+    const version = process.env.UPGRADE_VERSION || (await getLatestModuleVersion(modulePrefix))
+    const ignitionModule = await loadModule(modulePrefix, version)
+    const isNonInteractive = process.env.UPGRADE_YES === 'true'
+
+    const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
+    const looteryFactoryAddress = await getDeployedAddress(chainId, 'LooteryFactory#ERC1967Proxy')
+    const [deployer] = await ethers.getSigners()
+    const looteryFactoryProxy = await LooteryFactory__factory.connect(
+        looteryFactoryAddress,
+        deployer,
+    ).waitForDeployment()
+    const getCurrentImplementation = async () =>
+        targetName === 'lootery'
+            ? looteryFactoryProxy.getLooteryMasterCopy()
+            : getAddress(
+                  hexlify(
+                      getBytes(
+                          await ethers.provider.getStorage(
+                              looteryFactoryAddress,
+                              ERC1967_IMPLEMENTATION_SLOT,
+                          ),
+                      ).slice(-20),
+                  ),
+              )
+    const currentImplAddress = await getCurrentImplementation()
+    const currentVersion = await getContractVersion(currentImplAddress)
+    console.log(`\x1B[33;1mUsing LooteryFactory deployed at: ${looteryFactoryAddress}\x1B[0m`)
+    console.log(`\x1B[33;1mUsing signer: ${deployer.address}\x1B[0m`)
+    console.log(
+        `Current ${contractName} implementation: ${currentImplAddress} (${currentVersion ?? 'unknown version'})`,
+    )
+    console.log(`Target ${contractName} version: ${version}`)
+    if (currentVersion && compareVersions(version, currentVersion) < 0) {
+        throw new Error(
+            `Refusing to downgrade ${contractName} from ${currentVersion} to ${version}`,
+        )
+    }
+
+    // Storage layout check
+    await run('compile')
+    const storageLayout = isBlueprint ? undefined : await getStorageLayout(hre, contractName)
+    const baseline = storageLayout && (await readStorageLayoutBaseline(hre, chainId, contractName))
+    if (storageLayout && baseline) {
+        const errors = compareStorageLayouts(baseline, storageLayout)
+        if (errors.length > 0) {
+            throw new Error(
+                `Storage layout of ${contractName} is incompatible with the deployed implementation:\n` +
+                    errors.map((error) => `  - ${error}`).join('\n'),
+            )
+        }
+        console.log(`\x1B[32;1mStorage layout of ${contractName} is compatible\x1B[0m`)
+    } else if (storageLayout) {
+        const baselinePath = getStorageLayoutBaselinePath(hre, chainId, contractName)
+        if (process.env.UPGRADE_ALLOW_MISSING_LAYOUT_BASELINE !== 'true') {
+            throw new Error(
+                `No storage layout baseline for ${contractName} at ${baselinePath}; commit the layout ` +
+                    `of the deployed implementation there, or set ` +
+                    `UPGRADE_ALLOW_MISSING_LAYOUT_BASELINE=true to upgrade without checking it`,
+            )
+        }
+        console.log(
+            `\x1B[33;1mNo storage layout baseline for ${contractName}; skipping layout check\x1B[0m`,
+        )
+    }
+
+    if (!isNonInteractive) {
+        const shouldContinue = await yesno({
+            question: 'Continue?',
+        })
+        if (!shouldContinue) {
+            console.log('\x1B[31;1mAborted\x1B[0m')
+            process.exit(0)
+        }
+    }
+    const {
+        [futureName]: newImpl,
+        looteryDrawExtension,
+        looteryPurchaseExtension,
+    } = await ignition.deploy(ignitionModule, {})
+    const newImplAddress = await newImpl.getAddress()
+    console.log(`Deployed ${contractName} implementation at: ${newImplAddress}`)
+    if (isBlueprint) {
+        // Blueprints can't be called, so check that they hold the compiled creation code
+        const { bytecode } = await hre.artifacts.readArtifact(contractName)
+        const expectedCode = BLUEPRINT_PREAMBLE + bytecode.slice(2)
+        if ((await ethers.provider.getCode(newImplAddress)) !== expectedCode) {
+            throw new Error(`Deployed ${contractName} blueprint does not match the compiled code`)
+        }
+    } else {
+        const deployedVersion = await getContractVersion(newImplAddress)
+        if (deployedVersion !== version) {
+            throw new Error(
+                `Deployed ${contractName} reports version ${deployedVersion ?? 'unknown'}, expected ${version}; did you bump typeAndVersion()?`,
+            )
+        }
+    }
+
+    if (newImplAddress !== currentImplAddress) {
+        if (targetName === 'lootery') {
+            // New lotteries delegate to the extensions of their own version, so
+            // they're set right before the blueprint that depends on them
+            const extensionsTx = await looteryFactoryProxy.setLooteryExtensions(
+                looteryDrawExtension,
+                looteryPurchaseExtension,
+            )
+            await extensionsTx.wait()
+            console.log(`Set new Lootery extensions: ${extensionsTx.hash}`)
+        }
+        const tx =
+            targetName === 'lootery'
+                ? await looteryFactoryProxy.setLooteryMasterCopy(newImplAddress)
+                : await looteryFactoryProxy.upgradeToAndCall(newImplAddress, '0x')
+        await tx.wait()
+        if ((await getCurrentImplementation()) !== newImplAddress) {
+            throw new Error(`Factory does not point to the new ${contractName} implementation`)
+        }
+        console.log(`\x1B[32;1mSet new ${contractName} implementation: ${tx.hash}\x1B[0m`)
+    } else {
+        console.log(
+            `\x1B[33;1mNothing to do; factory already points to the new ${contractName} implementation\x1B[0m`,
+        )
+    }
+    if (storageLayout) {
+        await writeStorageLayoutBaseline(hre, chainId, contractName, storageLayout)
+    }
+
+    if (process.env.UPGRADE_SKIP_VERIFY !== 'true') {
+        // Verify all
+        await run(
+            {
+                scope: 'ignition',
+                task: 'verify',
+            },
+            {
+                // Not sure this is stable, but works for now
+                deploymentId: `chain-${chainId.toString()}`,
+            },
+        )
+    }
+}
+
+main()
+    .then(() => {
+        console.log('Done')
+        process.exit(0)
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
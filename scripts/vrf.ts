@@ -0,0 +1,125 @@
+import { ethers } from 'hardhat'
+import { formatEther, isAddress, parseEther } from 'ethers'
+import {
+    VrfFundingCurrency,
+    addVrfConsumers,
+    connectVrfCoordinator,
+    createVrfSubscription,
+    fundVrfSubscription,
+    getVrfSubscriptionStatus,
+    removeVrfConsumers,
+} from '../sdk/vrf'
+import { getChainConfig } from './registry'
+
+// Manage the Chainlink VRF v2.5 subscription that pays for lotteries'
+// randomness. Lotteries randomised by VRF each have their own consumer (a
+// VRFAdapter), which must be added to the subscription before they can draw.
+//
+// Configured via env:
+//  VRF_COMMAND          create, fund, add-consumers, remove-consumers or status (default: status)
+//  VRF_COORDINATOR      VRF coordinator, e.g. a local mock (default: the chain's, per the registry)
+//  VRF_SUBSCRIPTION_ID  Subscription to manage (default: the chain's, from the registry)
+//  VRF_FUND_AMOUNT      Amount to fund the subscription with, in ether units (fund)
+//  VRF_FUND_CURRENCY    link or native (default: link)
+//  LOOTERY_ADDRESSES    Comma-separated lotteries whose consumers to add, remove or check
+async function main() {
+    const command = process.env.VRF_COMMAND || 'status'
+    const looteries = (process.env.LOOTERY_ADDRESSES || '')
+        .split(',')
+        .map((address) => address.trim())
+        .filter(Boolean)
+    for (const address of looteries) {
+        if (!isAddress(address)) throw new Error(`Invalid lottery address: ${address}`)
+    }
+
+    const [signer] = await ethers.getSigners()
+    const chainId = await ethers.provider.getNetwork().then((network) => network.chainId)
+    // Locally, there's no registry entry; pass the mock coordinator instead
+    const vrf = process.env.VRF_COORDINATOR ? undefined : getChainConfig(chainId).vrf
+    const coordinatorAddress = process.env.VRF_COORDINATOR || vrf?.coordinator
+    if (!coordinatorAddress || !isAddress(coordinatorAddress)) {
+        throw new Error(`VRF_COORDINATOR must be set; chain ${chainId} has no VRF configured`)
+    }
+    const coordinator = connectVrfCoordinator(coordinatorAddress, signer)
+
+    if (command === 'create') {
+        const subscriptionId = await createVrfSubscription(coordinator)
+        console.log(`Created subscription ${subscriptionId}`)
+        return
+    }
+
+    const subscriptionId = process.env.VRF_SUBSCRIPTION_ID
+        ? BigInt(process.env.VRF_SUBSCRIPTION_ID)
+        : vrf?.subscriptionId
+    if (typeof subscriptionId === 'undefined') {
+        throw new Error('VRF_SUBSCRIPTION_ID must be set')
+    }
+
+    switch (command) {
+        case 'fund': {
+            if (!process.env.VRF_FUND_AMOUNT) throw new Error('VRF_FUND_AMOUNT must be set')
+            const amount = parseEther(process.env.VRF_FUND_AMOUNT)
+            const currency = (process.env.VRF_FUND_CURRENCY || 'link') as VrfFundingCurrency
+            if (currency !== 'link' && currency !== 'native') {
+                throw new Error(`Invalid VRF_FUND_CURRENCY: ${currency}`)
+            }
+            await fundVrfSubscription(coordinator, subscriptionId, amount, currency)
+            console.log(
+                `Funded subscription ${subscriptionId} with ${formatEther(amount)} ${currency}`,
+            )
+            break
+        }
+        case 'add-consumers': {
+            const added = await addVrfConsumers(coordinator, subscriptionId, looteries)
+            for (const { lootery, consumer } of added) {
+                console.log(`Added consumer ${consumer} of lottery ${lootery}`)
+            }
+            console.log(`Added ${added.length} consumer(s) to subscription ${subscriptionId}`)
+            break
+        }
+        case 'remove-consumers': {
+            const removed = await removeVrfConsumers(coordinator, subscriptionId, looteries)
+            for (const { lootery, consumer } of removed) {
+                console.log(`Removed consumer ${consumer} of lottery ${lootery}`)
+            }
+            console.log(`Removed ${removed.length} consumer(s) from subscription ${subscriptionId}`)
+            break
+        }
+        case 'status': {
+            const status = await getVrfSubscriptionStatus(coordinator, subscriptionId, looteries)
+            console.log(`Subscription:    ${status.subscriptionId}`)
+            console.log(`Owner:           ${status.owner}`)
+            console.log(`LINK balance:    ${formatEther(status.balance)}`)
+            console.log(`Native balance:  ${formatEther(status.nativeBalance)}`)
+            console.log(`Requests:        ${status.requestCount}`)
+            console.log(`Consumers:       ${status.consumers.join(', ') || '(none)'}`)
+            for (const { lootery, consumer, isRegistered, pendingRequestId } of status.looteries) {
+                const pending =
+                    typeof pendingRequestId === 'undefined'
+                        ? 'no pending request'
+                        : `pending request ${pendingRequestId}`
+                console.log(`Lottery ${lootery}: consumer ${consumer}, ${pending}`)
+                if (!isRegistered) {
+                    console.warn(
+                        `WARNING: the consumer of lottery ${lootery} isn't registered with ` +
+                            `subscription ${subscriptionId}, so it can't be drawn. ` +
+                            'Add it with VRF_COMMAND=add-consumers.',
+                    )
+                    process.exitCode = 1
+                }
+            }
+            break
+        }
+        default:
+            throw new Error(`Unknown VRF_COMMAND: ${command}`)
+    }
+}
+
+main()
+    .then(() => {
+        process.exit()
+    })
+    .catch((err) => {
+        console.error(err)
+        process.exit(1)
+    })
@@ -0,0 +1,6 @@
+export enum GameState {
+    Uninitialised,
+    Purchase,
+    DrawPending,
+    Dead,
+}
@@ -0,0 +1,513 @@
+import { ERC20__factory, IERC721__factory, Lootery, Lootery__factory } from '../typechain-types'
+import { BigNumberish, ContractRunner, Signer, ZeroAddress, type TransactionResponse } from 'ethers'
+import { GameState } from './GameState'
+import { LooteryEvent, filterLooteryEvents, parseLooteryReceipt } from './events'
+import { validatePick } from './pick'
+import {
+    CLAIMABLE_STATUSES,
+    TicketClaimInfo,
+    claimTickets,
+    claimTicketsBatched,
+    getClaimedValue,
+    scanTickets,
+} from './claims'
+import { SignedPurchase, getSignatureDeadline, signPermit, signPurchaseOrder } from './gasless'
+
+/** A ticket to be purchased */
+export interface TicketOrder {
+    /** Who the ticket NFT is minted to */
+    whomst: string
+    /**
+     * Ascendingly ordered balls, followed by the bonus ball if the lottery
+     * has one; an empty pick mints a non-playing ticket
+     */
+    pick: BigNumberish[]
+}
+
+/** Lottery parameters that are fixed at construction */
+export interface LooteryConfig {
+    pickLength: bigint
+    maxBallValue: bigint
+    /** 0 if the lottery has no bonus ball */
+    bonusBallMaxValue: bigint
+    gamePeriod: bigint
+    prizeToken: string
+    ticket: string
+}
+
+/**
+ * How long drawn games can be claimed for; the owner may change this, so it
+ * isn't part of {LooteryConfig}
+ */
+export interface ClaimWindow {
+    /** Number of drawn games (including the last) that can be claimed */
+    numGames: bigint
+    /** Seconds after its draw that a game can be claimed, even if older */
+    duration: bigint
+}
+
+/** Snapshot of the current game */
+export interface CurrentGameInfo {
+    id: bigint
+    state: GameState
+    ticketsSold: bigint
+    startedAt: bigint
+    /** Timestamp after which `draw` may be called */
+    drawableAt: bigint
+    jackpot: bigint
+    unclaimedPayouts: bigint
+    ticketPrice: bigint
+}
+
+export interface TransactionResult {
+    tx: TransactionResponse
+    events: LooteryEvent[]
+}
+
+export interface PurchaseResult extends TransactionResult {
+    tokenIds: bigint[]
+}
+
+export interface ClaimResult extends TransactionResult {
+    tokenId: bigint
+    /** Amount of prize token paid out */
+    value: bigint
+}
+
+/** A pick that is entered into a number of consecutive games */
+export interface SubscriptionInfo {
+    subscriptionId: bigint
+    /** Who paid for the subscription, and may cancel it */
+    subscriber: string
+    /** Who each game's ticket NFT is minted to */
+    whomst: string
+    pick: bigint[]
+    /** Ticket price when subscribed, paid for each game */
+    pricePerGame: bigint
+    /** Games that have been paid for, but not entered yet */
+    gamesRemaining: bigint
+    /** Amount refunded if the subscription is cancelled now */
+    refundable: bigint
+}
+
+export interface SubscribeResult extends TransactionResult {
+    subscriptionId: bigint
+    /** Ticket minted for the current game */
+    tokenId: bigint
+}
+
+export interface CancelSubscriptionResult extends TransactionResult {
+    /** Amount of prize token refunded to the subscriber */
+    refund: bigint
+}
+
+/**
+ * High-level wrapper around a deployed Lootery, exposing the purchase, draw
+ * and claim flows with typed, decoded events.
+ */
+export class LooteryClient {
+    private config?: LooteryConfig
+
+    constructor(public readonly lootery: Lootery) {}
+
+    /**
+     * Connect to a deployed Lootery
+     * @param address Address of the Lootery
+     * @param runner Signer (for transactions) or provider (read-only)
+     */
+    static connect(address: string, runner: ContractRunner) {
+        return new LooteryClient(Lootery__factory.connect(address, runner))
+    }
+
+    async getAddress() {
+        return this.lootery.getAddress()
+    }
+
+    /** Fetch (and cache) the lottery's immutable parameters */
+    async getConfig(): Promise<LooteryConfig> {
+        if (this.config) return this.config
+        const [pickLength, maxBallValue, bonusBallMaxValue, gamePeriod, prizeToken, ticket] =
+            await Promise.all([
+                this.lootery.pickLength(),
+                this.lootery.maxBallValue(),
+                this.lootery.bonusBallMaxValue(),
+                this.lootery.gamePeriod(),
+                this.lootery.prizeToken(),
+                this.lootery.ticket(),
+            ])
+        this.config = {
+            pickLength,
+            maxBallValue,
+            bonusBallMaxValue,
+            gamePeriod,
+            prizeToken,
+            ticket,
+        }
+        return this.config
+    }
+
+    /** Read the current claim window */
+    async getClaimWindow(): Promise<ClaimWindow> {
+        const [numGames, duration] = await Promise.all([
+            this.lootery.claimWindowGames(),
+            this.lootery.claimWindowDuration(),
+        ])
+        return { numGames, duration }
+    }
+
+    /** Read the current game, along with its jackpot and deadline */
+    async getCurrentGame(): Promise<CurrentGameInfo> {
+        const { gamePeriod } = await this.getConfig()
+        const { id, state } = await this.lootery.currentGame()
+        const [game, jackpot, unclaimedPayouts, ticketPrice] = await Promise.all([
+            this.lootery.gameData(id),
+            this.lootery.jackpot(),
+            this.lootery.unclaimedPayouts(),
+            this.lootery.ticketPrice(),
+        ])
+        return {
+            id,
+            state: Number(state) as GameState,
+            ticketsSold: game.ticketsSold,
+            startedAt: game.startedAt,
+            drawableAt: game.startedAt + gamePeriod,
+            jackpot,
+            unclaimedPayouts,
+            ticketPrice,
+        }
+    }
+
+    /**
+     * Check a pick against the same rules that `purchase` enforces, so that
+     * invalid picks are caught before sending a transaction.
+     * @param pick Balls, ascendingly ordered, followed by the bonus ball if any
+     * @throws {PickError}
+     */
+    async assertValidPick(pick: BigNumberish[]) {
+        validatePick(pick, await this.getConfig())
+    }
+
+    /**
+     * Approve the lottery to spend the signer's prize tokens, if the current
+     * allowance is insufficient.
+     * @param amount Minimum allowance required
+     * @returns Approval tx, or undefined if no approval was necessary
+     */
+    async approvePrizeToken(amount: bigint) {
+        const signer = this.getSigner()
+        const { prizeToken } = await this.getConfig()
+        const token = ERC20__factory.connect(prizeToken, signer)
+        const owner = await signer.getAddress()
+        const spender = await this.getAddress()
+        const allowance = await token.allowance(owner, spender)
+        if (allowance >= amount) return
+        const tx = await token.approve(spender, amount)
+        await tx.wait()
+        return tx
+    }
+
+    /**
+     * Purchase tickets, approving the prize token first if necessary.
+     * @param tickets Tickets to purchase
+     * @param beneficiary Beneficiary to receive the community fee share
+     */
+    async purchase(
+        tickets: TicketOrder[],
+        {
+            beneficiary,
+            shouldSkipApproval,
+        }: {
+            beneficiary?: string
+            shouldSkipApproval?: boolean
+        } = {},
+    ): Promise<PurchaseResult> {
+        if (tickets.length === 0) throw new Error('No tickets specified')
+        for (const { pick } of tickets) {
+            await this.assertValidPick(pick)
+        }
+        if (!shouldSkipApproval) {
+            const ticketPrice = await this.lootery.ticketPrice()
+            await this.approvePrizeToken(ticketPrice * BigInt(tickets.length))
+        }
+        const tx = await this.lootery
+            .connect(this.getSigner())
+            .purchase(tickets, beneficiary || ZeroAddress)
+        const events = await this.waitForEvents(tx)
+        const tokenIds = filterLooteryEvents(events, 'TicketPurchased').map(
+            (event) => event.args.tokenId,
+        )
+        return { tx, events, tokenIds }
+    }
+
+    /**
+     * Purchase tickets, approving the payment with a signed permit rather
+     * than a separate `approve` tx. The prize token must support EIP-2612.
+     * @param tickets Tickets to purchase
+     * @param beneficiary Beneficiary to receive the community fee share
+     * @param deadline Timestamp after which the permit is invalid
+     */
+    async purchaseWithPermit(
+        tickets: TicketOrder[],
+        { beneficiary, deadline }: { beneficiary?: string; deadline?: bigint } = {},
+    ): Promise<PurchaseResult> {
+        if (tickets.length === 0) throw new Error('No tickets specified')
+        for (const { pick } of tickets) {
+            await this.assertValidPick(pick)
+        }
+        const signer = this.getSigner()
+        const { prizeToken } = await this.getConfig()
+        const ticketPrice = await this.lootery.ticketPrice()
+        const { v, r, s, ...permit } = await signPermit(
+            signer,
+            prizeToken,
+            await this.getAddress(),
+            ticketPrice * BigInt(tickets.length),
+            deadline ?? (await getSignatureDeadline(signer)),
+        )
+        const tx = await this.lootery
+            .connect(signer)
+            .purchaseWithPermit(tickets, beneficiary || ZeroAddress, permit.deadline, v, r, s)
+        const events = await this.waitForEvents(tx)
+        const tokenIds = filterLooteryEvents(events, 'TicketPurchased').map(
+            (event) => event.args.tokenId,
+        )
+        return { tx, events, tokenIds }
+    }
+
+    /**
+     * Sign a purchase for a relayer to submit with `purchaseBySig`, so that
+     * the signer doesn't pay for gas. Unless the lottery has already been
+     * approved, a permit for the payment is signed along with the order.
+     * @param tickets Tickets to purchase
+     * @param beneficiary Beneficiary to receive the community fee share
+     * @param deadline Timestamp after which the order (and permit) is invalid
+     */
+    async signPurchase(
+        tickets: TicketOrder[],
+        { beneficiary, deadline }: { beneficiary?: string; deadline?: bigint } = {},
+    ): Promise<SignedPurchase> {
+        if (tickets.length === 0) throw new Error('No tickets specified')
+        for (const { pick } of tickets) {
+            await this.assertValidPick(pick)
+        }
+        const signer = this.getSigner()
+        const lootery = await this.getAddress()
+        const { prizeToken } = await this.getConfig()
+        const value = (await this.lootery.ticketPrice()) * BigInt(tickets.length)
+        deadline ??= await getSignatureDeadline(signer)
+        const allowance = await ERC20__factory.connect(prizeToken, signer).allowance(
+            await signer.getAddress(),
+            lootery,
+        )
+        const permit =
+            allowance < value
+                ? await signPermit(signer, prizeToken, lootery, value, deadline)
+                : undefined
+        const { order, signature } = await signPurchaseOrder(this.lootery, signer, {
+            tickets,
+            beneficiary,
+            deadline,
+        })
+        return { lootery, order, signature, permit }
+    }
+
+    /**
+     * Subscribe a pick to the current game and the `numGames - 1` games
+     * after it, prepaying the ticket price for every game and approving the
+     * prize token first if necessary.
+     * @param ticket Ticket to enter into every game
+     * @param numGames Number of games to enter, including the current one
+     */
+    async subscribe(
+        { whomst, pick }: TicketOrder,
+        numGames: bigint,
+        { shouldSkipApproval }: { shouldSkipApproval?: boolean } = {},
+    ): Promise<SubscribeResult> {
+        if (numGames < 1n) throw new Error(`Invalid number of games: ${numGames}`)
+        if (pick.length === 0) throw new Error('Empty picks cannot be subscribed')
+        await this.assertValidPick(pick)
+        if (!shouldSkipApproval) {
+            const ticketPrice = await this.lootery.ticketPrice()
+            await this.approvePrizeToken(ticketPrice * numGames)
+        }
+        const tx = await this.lootery.connect(this.getSigner()).subscribe(whomst, pick, numGames)
+        const events = await this.waitForEvents(tx)
+        const [created] = filterLooteryEvents(events, 'SubscriptionCreated')
+        const [purchased] = filterLooteryEvents(events, 'TicketPurchased')
+        return {
+            tx,
+            events,
+            subscriptionId: created.args.subscriptionId,
+            tokenId: purchased.args.tokenId,
+        }
+    }
+
+    /**
+     * Cancel a subscription, refunding the games that it hasn't been entered
+     * into yet. Only the subscriber may cancel.
+     * @param subscriptionId Subscription id
+     */
+    async cancelSubscription(subscriptionId: bigint): Promise<CancelSubscriptionResult> {
+        const tx = await this.lootery.connect(this.getSigner()).cancelSubscription(subscriptionId)
+        const events = await this.waitForEvents(tx)
+        const [cancelled] = filterLooteryEvents(events, 'SubscriptionCancelled')
+        return { tx, events, refund: cancelled.args.refund }
+    }
+
+    /**
+     * Read a subscription
+     * @param subscriptionId Subscription id
+     */
+    async getSubscription(subscriptionId: bigint): Promise<SubscriptionInfo> {
+        const { subscriber, whomst, pick, pricePerGame, gamesRemaining } =
+            await this.lootery.getSubscription(subscriptionId)
+        if (subscriber === ZeroAddress) {
+            throw new Error(`Subscription ${subscriptionId} does not exist`)
+        }
+        return {
+            subscriptionId,
+            subscriber,
+            whomst,
+            pick: pick.map(BigInt),
+            pricePerGame,
+            gamesRemaining,
+            refundable: pricePerGame * gamesRemaining,
+        }
+    }
+
+    /**
+     * Find all subscriptions paid for by `subscriber`, including those that
+     * have ended or were cancelled.
+     * @param subscriber Subscriber
+     * @param fromBlock Block to start scanning subscriptions from
+     */
+    async getSubscriptions(subscriber: string, fromBlock: number = 0): Promise<SubscriptionInfo[]> {
+        const created = await this.lootery.queryFilter(
+            this.lootery.filters.SubscriptionCreated(undefined, subscriber),
+            fromBlock,
+        )
+        return Promise.all(created.map((event) => this.getSubscription(event.args.subscriptionId)))
+    }
+
+    /**
+     * Draw the current game; reverts if the game period hasn't elapsed. The
+     * randomness request is paid for by the sender rather than the lottery's
+     * own balance, unless the draw is skipped because no tickets were sold.
+     */
+    async draw(): Promise<TransactionResult> {
+        const { id } = await this.lootery.currentGame()
+        const { ticketsSold } = await this.lootery.gameData(id)
+        const value = ticketsSold > 0n ? await this.lootery.getRequestPrice() : 0n
+        const tx = await this.lootery.connect(this.getSigner()).draw({ value })
+        const events = await this.waitForEvents(tx)
+        return { tx, events }
+    }
+
+    /**
+     * Roll over the unclaimed payouts of games whose claim window has closed
+     * into the jackpot. Draws do this too, so this is only needed to grow the
+     * jackpot before the next draw.
+     */
+    async sweepExpiredPayouts(): Promise<TransactionResult> {
+        const tx = await this.lootery.connect(this.getSigner()).sweepExpiredPayouts()
+        const events = await this.waitForEvents(tx)
+        return { tx, events }
+    }
+
+    /**
+     * Claim winnings (or a consolation prize) for a ticket. The prize is
+     * always paid to the ticket owner, regardless of who sends the tx.
+     * @param tokenId Ticket token id
+     */
+    async claimWinnings(tokenId: bigint): Promise<ClaimResult> {
+        const tx = await this.lootery.connect(this.getSigner()).claimWinnings(tokenId)
+        const events = await this.waitForEvents(tx)
+        return { tx, events, tokenId, value: getClaimedValue(events, tokenId) }
+    }
+
+    /**
+     * Find all ticket token ids currently held by `owner`.
+     * @param owner Ticket holder
+     * @param fromBlock Block to start scanning transfers from
+     */
+    async getOwnedTokenIds(owner: string, fromBlock: number = 0): Promise<bigint[]> {
+        const { ticket: ticketAddress } = await this.getConfig()
+        const ticket = IERC721__factory.connect(ticketAddress, this.lootery.runner)
+        const transfers = await ticket.queryFilter(
+            ticket.filters.Transfer(undefined, owner),
+            fromBlock,
+        )
+        const candidates = [...new Set(transfers.map((transfer) => transfer.args.tokenId))]
+        const tokenIds: bigint[] = []
+        for (const tokenId of candidates) {
+            // Token may have been transferred away or burnt since
+            const currentOwner = await ticket.ownerOf(tokenId).catch(() => ZeroAddress)
+            if (currentOwner.toLowerCase() === owner.toLowerCase()) {
+                tokenIds.push(tokenId)
+            }
+        }
+        return tokenIds.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    }
+
+    /**
+     * Classify every ticket held by `owner` (winning, consolation, expired,
+     * pending draw), along with its expected payout.
+     * @param owner Ticket holder
+     * @param fromBlock Block to start scanning transfers from
+     */
+    async scanTickets(owner: string, fromBlock?: number): Promise<TicketClaimInfo[]> {
+        return scanTickets(this, owner, fromBlock)
+    }
+
+    /**
+     * Claim every claimable ticket held by `owner`. Claim transactions are
+     * sent back to back, and tickets that aren't claimable are skipped.
+     * @param owner Ticket holder
+     * @param fromBlock Block to start scanning transfers from
+     */
+    async claimAll(owner: string, fromBlock?: number): Promise<ClaimResult[]> {
+        const claimable = (await this.scanTickets(owner, fromBlock)).filter((ticket) =>
+            CLAIMABLE_STATUSES.has(ticket.status),
+        )
+        return claimTickets(
+            this,
+            claimable.map((ticket) => ticket.tokenId),
+        )
+    }
+
+    /**
+     * Claim every claimable ticket held by `owner` with `claimWinningsBatch`,
+     * chunking the tickets so that each transaction stays within a gas limit.
+     * @param owner Ticket holder
+     * @param gasLimit Gas limit per transaction
+     * @param fromBlock Block to start scanning transfers from
+     */
+    async claimAllBatched(
+        owner: string,
+        { gasLimit, fromBlock }: { gasLimit?: bigint; fromBlock?: number } = {},
+    ): Promise<ClaimResult[]> {
+        const claimable = (await this.scanTickets(owner, fromBlock)).filter((ticket) =>
+            CLAIMABLE_STATUSES.has(ticket.status),
+        )
+        return claimTicketsBatched(
+            this,
+            claimable.map((ticket) => ticket.tokenId),
+            gasLimit,
+        )
+    }
+
+    /** Signer this client is connected to; throws if it's read-only */
+    getSigner() {
+        const runner = this.lootery.runner
+        if (!runner || typeof (runner as Signer).sendTransaction !== 'function') {
+            throw new Error('LooteryClient must be connected to a signer to send transactions')
+        }
+        return runner as Signer
+    }
+
+    private async waitForEvents(tx: TransactionResponse) {
+        const receipt = await tx.wait()
+        if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`)
+        return parseLooteryReceipt(receipt, await this.getAddress())
+    }
+}
@@ -0,0 +1,5 @@
+/** Mirrors `ILooteryFactory.RandomnessProvider` */
+export enum RandomnessProvider {
+    Anyrand,
+    ChainlinkVRF,
+}
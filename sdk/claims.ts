@@ -0,0 +1,277 @@
+import { Lootery, Ticket__factory } from '../typechain-types'
+import type { LooteryClient, ClaimResult } from './LooteryClient'
+import { GameState } from './GameState'
+import { LooteryEvent, filterLooteryEvents, parseLooteryReceipt } from './events'
+import { countMatches, countMatchesWithBonusBall } from './pick'
+import { computeTierPrize } from './prizeTiers'
+
+/** Claim status of a ticket, as determined by the rules in `claimWinnings` */
+export enum TicketClaimStatus {
+    /** Ticket is in the current game, which hasn't been drawn yet */
+    PendingDraw = 'PendingDraw',
+    /** Ticket won and can be claimed now */
+    WinningClaimable = 'WinningClaimable',
+    /** Ticket won a prize tier, which can't be claimed until it's been tallied */
+    PendingTally = 'PendingTally',
+    /** Ticket won and has already been claimed */
+    WinningClaimed = 'WinningClaimed',
+    /** Lottery is dead with no winners; ticket can claim an equal share */
+    ConsolationClaimable = 'ConsolationClaimable',
+    /** Ticket's game was drawn, and the ticket didn't win */
+    NoWin = 'NoWin',
+    /** Ticket's claim window has passed; see `Lootery.isClaimWindowOpen` */
+    Expired = 'Expired',
+}
+
+export interface TicketClaimInfo {
+    tokenId: bigint
+    gameId: bigint
+    pickId: bigint
+    status: TicketClaimStatus
+    /** Whether the ticket matched its game's winning pick, or won a prize tier */
+    isWinner: boolean
+    /** Number of winning balls that the ticket matched, once drawn */
+    matches: number
+    /** Whether the ticket matched the winning bonus ball, once drawn */
+    isBonusBallMatched: boolean
+    /** Payout if claimed right now; 0 if not claimable */
+    expectedPayout: bigint
+}
+
+/** Statuses for which `claimWinnings` would succeed */
+export const CLAIMABLE_STATUSES: ReadonlySet<TicketClaimStatus> = new Set([
+    TicketClaimStatus.WinningClaimable,
+    TicketClaimStatus.ConsolationClaimable,
+])
+
+/**
+ * Classify tickets held by `owner`, and compute the expected payout of each
+ * exactly as `claimWinnings` would.
+ * @param client Lootery client
+ * @param owner Ticket holder
+ * @param fromBlock Block to start scanning ticket transfers from
+ */
+export async function scanTickets(
+    client: LooteryClient,
+    owner: string,
+    fromBlock?: number,
+): Promise<TicketClaimInfo[]> {
+    const tokenIds = await client.getOwnedTokenIds(owner, fromBlock)
+    return classifyTickets(client, tokenIds)
+}
+
+/**
+ * Classify tickets by token id, and compute the expected payout of each
+ * exactly as `claimWinnings` would.
+ * @param client Lootery client
+ * @param tokenIds Ticket token ids
+ */
+export async function classifyTickets(
+    client: LooteryClient,
+    tokenIds: bigint[],
+): Promise<TicketClaimInfo[]> {
+    const { lootery } = client
+    const { ticket, maxBallValue, bonusBallMaxValue } = await client.getConfig()
+    const [{ id: currentGameId, state }, totalSupply] = await Promise.all([
+        lootery.currentGame(),
+        Ticket__factory.connect(ticket, lootery.runner).totalSupply(),
+    ])
+    const currentState = Number(state) as GameState
+
+    const results: TicketClaimInfo[] = []
+    for (const tokenId of tokenIds) {
+        const { gameId, pickId } = await lootery.purchasedTickets(tokenId)
+        const info: TicketClaimInfo = {
+            tokenId,
+            gameId,
+            pickId,
+            status: TicketClaimStatus.PendingDraw,
+            isWinner: false,
+            matches: 0,
+            isBonusBallMatched: false,
+            expectedPayout: 0n,
+        }
+        results.push(info)
+        if (gameId >= currentGameId) {
+            // Not drawn yet (either still purchasing, or awaiting randomness)
+            continue
+        }
+
+        const { winningPickId } = await lootery.gameData(gameId)
+        const [numWinners, isTieredGame] = await Promise.all([
+            lootery.numWinnersInGame(gameId, winningPickId),
+            lootery.isTieredGame(gameId),
+        ])
+        if (bonusBallMaxValue > 0n) {
+            const match = countMatchesWithBonusBall(pickId, winningPickId, maxBallValue)
+            info.matches = match.matches
+            info.isBonusBallMatched = match.isBonusBallMatched
+        } else {
+            info.matches = countMatches(pickId, winningPickId)
+        }
+        const tierPayout = isTieredGame
+            ? await getTierPayout(lootery, gameId, info.matches, info.isBonusBallMatched)
+            : { pot: 0n, numWinners: 0n }
+        info.isWinner = isTieredGame
+            ? tierPayout.pot > 0n
+            : numWinners > 0n && pickId === winningPickId
+        // Each game's payouts are reserved separately, and can be claimed in
+        // any state until the game's claim window closes
+        if (!(await lootery.isClaimWindowOpen(gameId))) {
+            info.status = TicketClaimStatus.Expired
+            continue
+        }
+
+        const unclaimedPayouts = await lootery.gameUnclaimedPayouts(gameId)
+        if (numWinners === 0n && currentState === GameState.Dead && gameId === currentGameId - 1n) {
+            // Only the final game's tickets share the consolation prize
+            info.status = TicketClaimStatus.ConsolationClaimable
+            info.expectedPayout = unclaimedPayouts / totalSupply
+        } else if (isTieredGame && info.isWinner) {
+            // Only the jackpot tier is counted at the draw
+            if (await lootery.isWinningsClaimed(tokenId)) {
+                info.status = TicketClaimStatus.WinningClaimed
+            } else if (pickId !== winningPickId && !(await lootery.isPrizeTiersTallied(gameId))) {
+                info.status = TicketClaimStatus.PendingTally
+            } else {
+                info.status = TicketClaimStatus.WinningClaimable
+                info.expectedPayout = computeTierPrize(tierPayout)
+            }
+        } else if (info.isWinner) {
+            if (await lootery.isWinningsClaimed(tokenId)) {
+                info.status = TicketClaimStatus.WinningClaimed
+            } else {
+                const numClaimed = await lootery.numClaimedWinningTickets(gameId)
+                info.status = TicketClaimStatus.WinningClaimable
+                info.expectedPayout = unclaimedPayouts / (numWinners - numClaimed)
+            }
+        } else {
+            info.status = TicketClaimStatus.NoWin
+        }
+    }
+    return results
+}
+
+/**
+ * Find the payout of the prize tier that a ticket is eligible for, as
+ * `Lootery._tierPayout` does: if it matched the bonus ball, the tier that
+ * requires the bonus ball is preferred.
+ * @param lootery Lootery contract
+ * @param gameId Game id
+ * @param matches Number of main balls matched
+ * @param isBonusBallMatched Whether the bonus ball was matched
+ */
+async function getTierPayout(
+    lootery: Lootery,
+    gameId: bigint,
+    matches: number,
+    isBonusBallMatched: boolean,
+) {
+    if (isBonusBallMatched) {
+        const bonusTierPayout = await lootery.bonusTierPayouts(gameId, matches)
+        if (bonusTierPayout.pot > 0n) return bonusTierPayout
+    }
+    return lootery.tierPayouts(gameId, matches)
+}
+
+/**
+ * Find the amount paid out to a ticket in a list of decoded events
+ * @param events Decoded events
+ * @param tokenId Ticket token id
+ */
+export function getClaimedValue(events: LooteryEvent[], tokenId: bigint) {
+    const claim = [
+        ...filterLooteryEvents(events, 'WinningsClaimed'),
+        ...filterLooteryEvents(events, 'ConsolationClaimed'),
+    ].find((event) => event.args.tokenId === tokenId)
+    return claim?.args.value ?? 0n
+}
+
+/**
+ * Send a claim transaction for every ticket, one after another, waiting for
+ * each to be mined before sending the next. If a claim fails, the tickets
+ * after it aren't claimed.
+ * @param client Lootery client, connected to a signer
+ * @param tokenIds Ticket token ids; these should all be claimable
+ */
+export async function claimTickets(
+    client: LooteryClient,
+    tokenIds: bigint[],
+): Promise<ClaimResult[]> {
+    const lootery = client.lootery.connect(client.getSigner())
+    const looteryAddress = await client.getAddress()
+    const results: ClaimResult[] = []
+    for (const tokenId of tokenIds) {
+        const tx = await lootery.claimWinnings(tokenId)
+        const receipt = await tx.wait()
+        if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`)
+        const events = parseLooteryReceipt(receipt, looteryAddress)
+        results.push({ tx, events, tokenId, value: getClaimedValue(events, tokenId) })
+    }
+    return results
+}
+
+/** Default gas limit for each `claimWinningsBatch` transaction */
+export const DEFAULT_BATCH_CLAIM_GAS_LIMIT = 10_000_000n
+
+/**
+ * Split tickets into chunks that can each be claimed by `claimWinningsBatch`
+ * within a gas limit. The gas of each claim is estimated once, on its own,
+ * and a chunk's gas is the sum of its claims' on top of the gas of an empty
+ * batch; a ticket that exceeds the limit by itself gets its own chunk.
+ * @param lootery Lootery contract, connected to the claiming signer
+ * @param tokenIds Ticket token ids
+ * @param gasLimit Gas limit per transaction
+ */
+export async function chunkClaimsByGas(
+    lootery: Lootery,
+    tokenIds: bigint[],
+    gasLimit: bigint,
+): Promise<bigint[][]> {
+    // Claims in the same batch share the tx overhead and their transfers are
+    // aggregated, so this overestimates, which is the safe direction
+    const baseGas = await lootery.claimWinningsBatch.estimateGas([])
+    const chunks: bigint[][] = []
+    let chunk: bigint[] = []
+    let chunkGas = baseGas
+    for (const tokenId of tokenIds) {
+        const claimGas = (await lootery.claimWinningsBatch.estimateGas([tokenId])) - baseGas
+        if (chunkGas + claimGas > gasLimit && chunk.length > 0) {
+            chunks.push(chunk)
+            chunk = []
+            chunkGas = baseGas
+        }
+        chunk.push(tokenId)
+        chunkGas += claimGas
+    }
+    if (chunk.length > 0) chunks.push(chunk)
+    return chunks
+}
+
+/**
+ * Claim tickets with `claimWinningsBatch`, in as few transactions as fit
+ * within the gas limit. Tickets that can't be claimed are skipped on-chain,
+ * and their results have a value of 0.
+ * @param client Lootery client, connected to a signer
+ * @param tokenIds Ticket token ids
+ * @param gasLimit Gas limit per transaction
+ */
+export async function claimTicketsBatched(
+    client: LooteryClient,
+    tokenIds: bigint[],
+    gasLimit: bigint = DEFAULT_BATCH_CLAIM_GAS_LIMIT,
+): Promise<ClaimResult[]> {
+    const lootery = client.lootery.connect(client.getSigner())
+    const looteryAddress = await client.getAddress()
+    const results: ClaimResult[] = []
+    for (const chunk of await chunkClaimsByGas(lootery, tokenIds, gasLimit)) {
+        const tx = await lootery.claimWinningsBatch(chunk)
+        const receipt = await tx.wait()
+        if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`)
+        const events = parseLooteryReceipt(receipt, looteryAddress)
+        for (const tokenId of chunk) {
+            results.push({ tx, events, tokenId, value: getClaimedValue(events, tokenId) })
+        }
+    }
+    return results
+}
@@ -0,0 +1,402 @@
+import { ERC20__factory, Lootery, Sender } from '../typechain-types'
+import {
+    AbiCoder,
+    BigNumberish,
+    Log,
+    Signer,
+    ZeroAddress,
+    type TransactionReceipt,
+    type TransactionResponse,
+} from 'ethers'
+import type { TicketOrder } from './LooteryClient'
+import { PickRules, validatePick } from './pick'
+import { filterLooteryEvents, parseLooteryLogs } from './events'
+
+/** ABI type of `ILootery.Ticket[]`, which is the data of a ticket message */
+const TICKETS_ABI_TYPE = 'tuple(address whomst, uint8[] pick)[]'
+
+/**
+ * Quoted CCIP fees may rise before the message is sent (e.g. with gas prices),
+ * so pay this much more (in bps); the Sender refunds any excess native currency
+ */
+const FEE_BUFFER_BPS = 1000n
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+export class UnsupportedChainError extends Error {
+    constructor(public readonly chainSelector: bigint) {
+        super(`Destination chain ${chainSelector} is not supported by the CCIP router`)
+        this.name = 'UnsupportedChain'
+    }
+}
+
+/** Mirrors `Sender.DestinationNotConfigured(uint64 destinationChainSelector, address receiver)` */
+export class DestinationNotConfiguredError extends Error {
+    constructor(
+        public readonly destinationChainSelector: bigint,
+        public readonly receiver: string,
+    ) {
+        super(`DestinationNotConfigured(${destinationChainSelector},${receiver})`)
+        this.name = 'DestinationNotConfigured'
+    }
+}
+
+/** The buyer can't pay the CCIP fee in the chosen fee token */
+export class NotEnoughBalanceError extends Error {
+    constructor(
+        public readonly balance: bigint,
+        public readonly fees: bigint,
+    ) {
+        super(`NotEnoughBalance(${balance},${fees})`)
+        this.name = 'NotEnoughBalance'
+    }
+}
+
+/** Mirrors `ILootery.IncorrectPaymentAmount(uint256 paid, uint256 expected)` */
+export class IncorrectPaymentAmountError extends Error {
+    constructor(
+        public readonly paid: bigint,
+        public readonly expected: bigint,
+    ) {
+        super(`IncorrectPaymentAmount(${paid},${expected})`)
+        this.name = 'IncorrectPaymentAmount'
+    }
+}
+
+export class DeliveryTimeoutError extends Error {
+    constructor(public readonly messageId: string) {
+        super(`Timed out waiting for CCIP message ${messageId} to be delivered`)
+        this.name = 'DeliveryTimeout'
+    }
+}
+
+/**
+ * ABI-encode tickets into the data of a ticket message, as `Sender` does
+ * @param tickets Tickets to purchase
+ * @param rules If specified, picks are validated against the destination
+ *  lottery's rules, since invalid picks are refunded on the destination
+ *  chain rather than picked
+ * @throws {PickError}
+ */
+export function encodeTicketPayload(tickets: TicketOrder[], rules?: PickRules) {
+    return AbiCoder.defaultAbiCoder().encode(
+        [TICKETS_ABI_TYPE],
+        [
+            tickets.map(({ whomst, pick }) => ({
+                whomst,
+                pick: rules ? validatePick(pick, rules) : pick,
+            })),
+        ],
+    )
+}
+
+/**
+ * Decode the data of a ticket message
+ * @param data ABI-encoded `ILootery.Ticket[]`
+ */
+export function decodeTicketPayload(data: string): TicketOrder[] {
+    const [tickets] = AbiCoder.defaultAbiCoder().decode([TICKETS_ABI_TYPE], data)
+    return tickets.map(([whomst, pick]: [string, bigint[]]) => ({ whomst, pick: [...pick] }))
+}
+
+export interface CrossChainPurchaseQuote {
+    /** Token that the buyer pays for tickets with */
+    paymentToken: string
+    /** Price per ticket configured on the Sender for the destination lottery */
+    ticketPrice: bigint
+    /** Amount of `paymentToken` pulled from the buyer */
+    ticketCost: bigint
+    /** Token that the buyer pays the CCIP fee with; `ZeroAddress` for native currency */
+    feeToken: string
+    /** CCIP fee in `feeToken`, which is paid by the buyer */
+    ccipFee: bigint
+}
+
+/**
+ * Add a margin to a quoted CCIP fee, since it may rise before the message is
+ * sent
+ * @param fee Quoted CCIP fee
+ */
+export function withFeeBuffer(fee: bigint) {
+    return fee + (fee * FEE_BUFFER_BPS) / 10_000n
+}
+
+/**
+ * Quote a cross-chain ticket purchase, at the ticket price configured on the
+ * Sender for the destination lottery. The CCIP fee is quoted by
+ * `Sender.getSendFees` for exactly the message that `sendMessage` would send.
+ * @param sender Sender on the source chain
+ * @param destinationChainSelector CCIP chain selector of the destination chain
+ * @param receiver Lootery on the destination chain
+ * @param tickets Tickets to purchase
+ * @param feeToken Token to pay the CCIP fee with (e.g. LINK); defaults to
+ *  native currency
+ * @throws {DestinationNotConfiguredError}
+ */
+export async function quoteCrossChainPurchase(
+    sender: Sender,
+    destinationChainSelector: BigNumberish,
+    receiver: string,
+    tickets: TicketOrder[],
+    feeToken: string = ZeroAddress,
+): Promise<CrossChainPurchaseQuote> {
+    const { ticketPrice } = await sender.destinationConfigs(destinationChainSelector, receiver)
+    if (ticketPrice === 0n) {
+        throw new DestinationNotConfiguredError(BigInt(destinationChainSelector), receiver)
+    }
+    const [paymentToken, [ticketCost, ccipFee]] = await Promise.all([
+        sender.usdc(),
+        sender.getSendFees(destinationChainSelector, receiver, tickets, feeToken),
+    ])
+    return {
+        paymentToken,
+        ticketPrice,
+        ticketCost,
+        feeToken,
+        ccipFee,
+    }
+}
+
+export interface CrossChainPurchaseRequest {
+    /** CCIP chain selector of the destination chain */
+    destinationChainSelector: bigint
+    /** Lootery on the destination chain */
+    receiver: string
+    tickets: TicketOrder[]
+    /** Destination lottery's rules; if specified, picks are validated before sending */
+    rules?: PickRules
+    /** Token to pay the CCIP fee with (e.g. LINK); defaults to native currency */
+    feeToken?: string
+}
+
+export interface SentCrossChainPurchase {
+    tx: TransactionResponse
+    receipt: TransactionReceipt
+    messageId: string
+    destinationChainSelector: bigint
+    receiver: string
+    /** Amount of payment token bridged to the destination lottery, i.e. the full ticket cost */
+    bridgedAmount: bigint
+    /** CCIP fee paid by the buyer, in the fee token */
+    fees: bigint
+}
+
+async function approveIfNeeded(owner: Signer, token: string, spender: string, amount: bigint) {
+    const erc20 = ERC20__factory.connect(token, owner)
+    if ((await erc20.allowance(await owner.getAddress(), spender)) < amount) {
+        await erc20.approve(spender, amount).then((tx) => tx.wait())
+    }
+}
+
+/**
+ * Send tickets to a lottery on another chain via `Sender.sendMessage`,
+ * approving the Sender to spend the payment (and fee) token first if
+ * necessary. The buyer pays the CCIP fee, with a margin in case the quote is
+ * short; excess native currency is refunded by the Sender.
+ * @param sender Sender on the source chain, connected to the buyer
+ * @param request Purchase request
+ * @throws {PickError} if `rules` are specified and a pick is invalid
+ * @throws {UnsupportedChainError}
+ * @throws {DestinationNotConfiguredError}
+ * @throws {NotEnoughBalanceError} if the buyer can't pay the CCIP fee
+ */
+export async function sendCrossChainPurchase(
+    sender: Sender,
+    {
+        destinationChainSelector,
+        receiver,
+        tickets,
+        rules,
+        feeToken = ZeroAddress,
+    }: CrossChainPurchaseRequest,
+): Promise<SentCrossChainPurchase> {
+    // Validate tickets before touching the chain
+    encodeTicketPayload(tickets, rules)
+    if (!(await sender.isChainSupported(destinationChainSelector))) {
+        throw new UnsupportedChainError(destinationChainSelector)
+    }
+    const { paymentToken, ticketCost, ccipFee } = await quoteCrossChainPurchase(
+        sender,
+        destinationChainSelector,
+        receiver,
+        tickets,
+        feeToken,
+    )
+    const fees = withFeeBuffer(ccipFee)
+
+    const buyer = sender.runner as Signer
+    const buyerAddress = await buyer.getAddress()
+    const senderAddress = await sender.getAddress()
+    const isNativeFee = feeToken === ZeroAddress
+    const feeBalance = isNativeFee
+        ? await buyer.provider!.getBalance(buyerAddress)
+        : await ERC20__factory.connect(feeToken, buyer).balanceOf(buyerAddress)
+    if (feeBalance < fees) {
+        throw new NotEnoughBalanceError(feeBalance, fees)
+    }
+
+    await approveIfNeeded(buyer, paymentToken, senderAddress, ticketCost)
+    if (!isNativeFee) {
+        await approveIfNeeded(buyer, feeToken, senderAddress, fees)
+    }
+
+    const tx = await sender.sendMessage(destinationChainSelector, receiver, tickets, feeToken, {
+        value: isNativeFee ? fees : 0n,
+    })
+    const receipt = await tx.wait()
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`)
+    const messageSent = receipt.logs
+        .filter((log) => log.address === senderAddress)
+        .map((log) => sender.interface.parseLog(log))
+        .find((log) => log?.name === 'MessageSent')
+    if (!messageSent) throw new Error(`Transaction ${tx.hash} did not send a CCIP message`)
+    const [messageId, , , , tokenAmount, feesPaid] = messageSent.args
+    return {
+        tx,
+        receipt,
+        messageId,
+        destinationChainSelector,
+        receiver,
+        bridgedAmount: tokenAmount.amount,
+        fees: feesPaid,
+    }
+}
+
+export interface DeliveredCrossChainPurchase {
+    messageId: string
+    sourceChainSelector: bigint
+    /** Receipt of the destination tx that executed the message */
+    receipt: TransactionReceipt
+    /** Amount of payment token received by the destination lottery */
+    receivedAmount: bigint
+    /**
+     * Ticket token ids minted on the destination chain; none if the payment
+     * was escrowed, or credited to the recipients as a refund
+     */
+    tokenIds: bigint[]
+}
+
+export interface DeliveryOptions {
+    /** Destination block to start searching from */
+    fromBlock?: number
+    /** Delay between searches */
+    pollingIntervalMs?: number
+    /** Give up after this long */
+    timeoutMs?: number
+}
+
+/**
+ * Find the tickets minted by a message. A single destination tx may execute
+ * several messages, so only `TicketPurchased` events emitted after this
+ * message's `MessageReceived`, and before the next one, are considered.
+ * @param lootery Destination lottery
+ * @param logs Logs of the destination tx
+ * @param looteryAddress Address of the destination lottery
+ * @param messageReceivedIndex Log index of this message's `MessageReceived`
+ */
+function getMintedTokenIds(
+    lootery: Lootery,
+    logs: readonly Log[],
+    looteryAddress: string,
+    messageReceivedIndex: number,
+) {
+    const messageReceivedTopic = lootery.interface.getEvent('MessageReceived').topicHash
+    const nextMessageIndex = logs.find(
+        (log) =>
+            log.index > messageReceivedIndex &&
+            log.address === looteryAddress &&
+            log.topics[0] === messageReceivedTopic,
+    )?.index
+    const messageLogs = logs.filter(
+        (log) =>
+            log.index > messageReceivedIndex &&
+            (nextMessageIndex === undefined || log.index < nextMessageIndex),
+    )
+    const events = parseLooteryLogs(messageLogs, looteryAddress)
+    return filterLooteryEvents(events, 'TicketPurchased').map((event) => event.args.tokenId)
+}
+
+/**
+ * Wait for a ticket message to be executed on the destination chain, i.e.
+ * for the destination lottery to emit `MessageReceived` with the same
+ * message id as the source `MessageSent`.
+ * @param lootery Lootery on the destination chain
+ * @param messageId CCIP message id
+ * @param options Polling options
+ * @throws {DeliveryTimeoutError}
+ */
+export async function waitForCrossChainDelivery(
+    lootery: Lootery,
+    messageId: string,
+    { fromBlock, pollingIntervalMs = 10_000, timeoutMs = 60 * 60 * 1000 }: DeliveryOptions = {},
+): Promise<DeliveredCrossChainPurchase> {
+    const looteryAddress = await lootery.getAddress()
+    const deadline = Date.now() + timeoutMs
+    for (;;) {
+        const [messageReceived] = await lootery.queryFilter(
+            lootery.filters.MessageReceived(messageId),
+            fromBlock,
+        )
+        if (messageReceived) {
+            const receipt = await messageReceived.getTransactionReceipt()
+            return {
+                messageId,
+                sourceChainSelector: messageReceived.args.sourceChainSelector,
+                receipt,
+                receivedAmount: messageReceived.args.tokenAmount.amount,
+                tokenIds: getMintedTokenIds(
+                    lootery,
+                    receipt.logs,
+                    looteryAddress,
+                    messageReceived.index,
+                ),
+            }
+        }
+        if (Date.now() + pollingIntervalMs > deadline) {
+            throw new DeliveryTimeoutError(messageId)
+        }
+        await sleep(pollingIntervalMs)
+    }
+}
+
+/**
+ * Purchase tickets on another chain, and wait until they've been minted
+ * @param sender Sender on the source chain, connected to the buyer
+ * @param lootery Lootery on the destination chain
+ * @param request Purchase request; `receiver` defaults to `lootery`
+ * @param options Polling options for delivery
+ * @throws {IncorrectPaymentAmountError} if the Sender's price doesn't cover
+ *  the destination lottery's ticket price, as the payment would be refunded
+ *  rather than buying tickets
+ * @throws {DestinationNotConfiguredError}
+ */
+export async function purchaseCrossChain(
+    sender: Sender,
+    lootery: Lootery,
+    request: Omit<CrossChainPurchaseRequest, 'receiver'> & { receiver?: string },
+    options: DeliveryOptions = {},
+) {
+    const receiver = request.receiver ?? (await lootery.getAddress())
+    const { ticketPrice: senderTicketPrice } = await sender.destinationConfigs(
+        request.destinationChainSelector,
+        receiver,
+    )
+    if (senderTicketPrice === 0n) {
+        throw new DestinationNotConfiguredError(request.destinationChainSelector, receiver)
+    }
+    const ticketPrice = await lootery.ticketPrice()
+    if (senderTicketPrice < ticketPrice) {
+        const ticketsCount = BigInt(request.tickets.length)
+        throw new IncorrectPaymentAmountError(
+            senderTicketPrice * ticketsCount,
+            ticketPrice * ticketsCount,
+        )
+    }
+    const fromBlock = options.fromBlock ?? (await lootery.runner!.provider!.getBlockNumber())
+    const sent = await sendCrossChainPurchase(sender, { ...request, receiver })
+    const delivered = await waitForCrossChainDelivery(lootery, sent.messageId, {
+        ...options,
+        fromBlock,
+    })
+    return { sent, delivered }
+}
@@ -0,0 +1,91 @@
+import { BigNumberish, MaxUint256, solidityPackedKeccak256 } from 'ethers'
+
+/** Number of Feistel rounds used by {Pick-draw} */
+export const FEISTEL_ROUNDS = 12n
+
+/** Round function of {FeistelShuffle} */
+const roundFn = (R: bigint, i: bigint, seed: bigint, domain: bigint) => {
+    return BigInt(
+        solidityPackedKeccak256(['uint256', 'uint256', 'uint256', 'uint256'], [R, i, seed, domain]),
+    )
+}
+
+/** Integer square root, rounded down */
+function sqrt(s: bigint) {
+    if (s < 2n) return s
+    // Babylonian method
+    let z = s
+    let x = s / 2n + 1n
+    while (x < z) {
+        z = x
+        x = (s / x + x) / 2n
+    }
+    return z
+}
+
+/**
+ * Compute the shuffled index of `i` in a permutation of [0, domain), as
+ * computed by {FeistelShuffle-shuffle}.
+ * @param i Index to permute
+ * @param domain Size of the list being permuted
+ * @param seed Random seed
+ * @param rounds Number of Feistel rounds
+ */
+export function shuffle(i: bigint, domain: bigint, seed: bigint, rounds: bigint) {
+    if (i >= domain) throw new Error(`Index ${i} is out of bounds of domain ${domain}`)
+    // The cipher permutes [0, h^2), where h^2 is the next perfect square of
+    // the domain, so indices outside of the domain are cycled through it
+    let h = sqrt(domain)
+    if (h * h !== domain) h += 1n
+    let x = i
+    do {
+        let L = x % h
+        let R = x / h
+        for (let round = 0n; round < rounds; round++) {
+            // NB: the addition wraps, as it's done in assembly on-chain
+            const nextR = ((L + roundFn(R, round, seed, domain)) & MaxUint256) % h
+            L = R
+            R = nextR
+        }
+        x = h * R + L
+    } while (x >= domain)
+    return x
+}
+
+/**
+ * Compute the winning numbers/balls given a random seed, exactly as
+ * {Pick-draw} (and therefore `Lootery.computeWinningPick`) does.
+ * @param pickLength Number of balls drawn
+ * @param maxBallValue Maximum value of a ball
+ * @param randomSeed Seed that determines the permutation of balls
+ * @return Ascendingly ordered set of winning balls
+ */
+export function computeWinningPick(
+    pickLength: BigNumberish,
+    maxBallValue: BigNumberish,
+    randomSeed: BigNumberish,
+) {
+    const domain = BigInt(maxBallValue)
+    const seed = BigInt(randomSeed)
+    const balls: bigint[] = []
+    for (let i = 0n; i < BigInt(pickLength); i++) {
+        // NB: balls are uint8 on-chain
+        balls.push((1n + shuffle(i, domain, seed, FEISTEL_ROUNDS)) & 0xffn)
+    }
+    return balls.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+}
+
+/**
+ * Compute the winning bonus ball given a random seed, exactly as
+ * `Lootery.computeWinningBonusBall` does (see {Pick-drawBonusBall}).
+ * @param bonusBallMaxValue Maximum value of the bonus ball
+ * @param randomSeed Seed that determines the bonus ball
+ * @return Bonus ball, or 0 if the lottery has no bonus ball
+ */
+export function computeWinningBonusBall(bonusBallMaxValue: BigNumberish, randomSeed: BigNumberish) {
+    const domain = BigInt(bonusBallMaxValue)
+    if (domain === 0n) return 0n
+    // The seed is rehashed so that the bonus ball is independent of the main balls
+    const seed = BigInt(solidityPackedKeccak256(['uint256'], [randomSeed]))
+    return (1n + shuffle(0n, domain, seed, FEISTEL_ROUNDS)) & 0xffn
+}
@@ -0,0 +1,120 @@
+import { Lootery__factory } from '../typechain-types'
+import type {
+    ApocalypseModeActivatedEvent,
+    BonusBallDrawnEvent,
+    ConsolationClaimedEvent,
+    DrawSkippedEvent,
+    GameFinalisedEvent,
+    JackpotRolloverEvent,
+    JackpotSeededEvent,
+    PrizeTiersSetEvent,
+    PrizeTiersTalliedEvent,
+    SubscriptionCancelledEvent,
+    SubscriptionCreatedEvent,
+    SubscriptionEnteredEvent,
+    SubscriptionSuspendedEvent,
+    TicketPurchasedEvent,
+    UnclaimedPayoutsSweptEvent,
+    WinningsClaimedEvent,
+} from '../typechain-types/contracts/Lootery'
+import type { Log, TransactionReceipt } from 'ethers'
+
+/** Lootery events that are decoded into typed objects */
+export interface LooteryEventArgs {
+    TicketPurchased: TicketPurchasedEvent.OutputObject
+    GameFinalised: GameFinalisedEvent.OutputObject
+    BonusBallDrawn: BonusBallDrawnEvent.OutputObject
+    JackpotRollover: JackpotRolloverEvent.OutputObject
+    JackpotSeeded: JackpotSeededEvent.OutputObject
+    WinningsClaimed: WinningsClaimedEvent.OutputObject
+    ConsolationClaimed: ConsolationClaimedEvent.OutputObject
+    DrawSkipped: DrawSkippedEvent.OutputObject
+    UnclaimedPayoutsSwept: UnclaimedPayoutsSweptEvent.OutputObject
+    PrizeTiersSet: PrizeTiersSetEvent.OutputObject
+    PrizeTiersTallied: PrizeTiersTalliedEvent.OutputObject
+    ApocalypseModeActivated: ApocalypseModeActivatedEvent.OutputObject
+    SubscriptionCreated: SubscriptionCreatedEvent.OutputObject
+    SubscriptionEntered: SubscriptionEnteredEvent.OutputObject
+    SubscriptionCancelled: SubscriptionCancelledEvent.OutputObject
+    SubscriptionSuspended: SubscriptionSuspendedEvent.OutputObject
+}
+
+export type LooteryEventName = keyof LooteryEventArgs
+
+/** A decoded Lootery event, discriminated by `name` */
+export type LooteryEvent = {
+    [K in LooteryEventName]: {
+        name: K
+        args: LooteryEventArgs[K]
+        log: Log
+    }
+}[LooteryEventName]
+
+const looteryInterface = Lootery__factory.createInterface()
+const looteryEventNames = new Set<string>([
+    'TicketPurchased',
+    'GameFinalised',
+    'BonusBallDrawn',
+    'JackpotRollover',
+    'JackpotSeeded',
+    'WinningsClaimed',
+    'ConsolationClaimed',
+    'DrawSkipped',
+    'UnclaimedPayoutsSwept',
+    'PrizeTiersSet',
+    'PrizeTiersTallied',
+    'ApocalypseModeActivated',
+    'SubscriptionCreated',
+    'SubscriptionEntered',
+    'SubscriptionCancelled',
+    'SubscriptionSuspended',
+] satisfies LooteryEventName[])
+
+/**
+ * Decode Lootery logs into typed events. Logs emitted by other contracts,
+ * or events that aren't in {LooteryEventArgs}, are skipped.
+ * @param logs Raw logs
+ * @param looteryAddress If specified, only logs from this address are decoded
+ */
+export function parseLooteryLogs(logs: readonly Log[], looteryAddress?: string): LooteryEvent[] {
+    const events: LooteryEvent[] = []
+    for (const log of logs) {
+        if (looteryAddress && log.address.toLowerCase() !== looteryAddress.toLowerCase()) {
+            continue
+        }
+        const parsed = looteryInterface.parseLog({
+            topics: log.topics as string[],
+            data: log.data,
+        })
+        if (!parsed || !looteryEventNames.has(parsed.name)) continue
+        events.push({
+            name: parsed.name,
+            args: parsed.args.toObject(),
+            log,
+        } as LooteryEvent)
+    }
+    return events
+}
+
+/**
+ * Decode Lootery events from a transaction receipt
+ * @param receipt Transaction receipt
+ * @param looteryAddress If specified, only logs from this address are decoded
+ */
+export function parseLooteryReceipt(receipt: TransactionReceipt, looteryAddress?: string) {
+    return parseLooteryLogs(receipt.logs, looteryAddress)
+}
+
+/**
+ * Narrow a list of decoded events down to a single event type
+ * @param events Decoded events
+ * @param name Event name
+ */
+export function filterLooteryEvents<K extends LooteryEventName>(
+    events: LooteryEvent[],
+    name: K,
+): Extract<LooteryEvent, { name: K }>[] {
+    return events.filter(
+        (event): event is Extract<LooteryEvent, { name: K }> => event.name === name,
+    )
+}
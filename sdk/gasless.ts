@@ -0,0 +1,262 @@
+import {
+    ERC20__factory,
+    IERC20Permit__factory,
+    IERC5267__factory,
+    Lootery,
+    Lootery__factory,
+} from '../typechain-types'
+import {
+    ContractRunner,
+    Signature,
+    Signer,
+    TypedDataDomain,
+    TypedDataEncoder,
+    ZeroAddress,
+} from 'ethers'
+import type { PurchaseResult, TicketOrder } from './LooteryClient'
+import { filterLooteryEvents, parseLooteryReceipt } from './events'
+
+/** How long signatures are valid for by default, in seconds */
+export const DEFAULT_SIGNATURE_TTL = 3600n
+
+/** EIP-712 types of `ILootery.PurchaseOrder` */
+export const PURCHASE_ORDER_TYPES = {
+    PurchaseOrder: [
+        { name: 'payer', type: 'address' },
+        { name: 'tickets', type: 'Ticket[]' },
+        { name: 'beneficiary', type: 'address' },
+        { name: 'deadline', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+    ],
+    Ticket: [
+        { name: 'whomst', type: 'address' },
+        { name: 'pick', type: 'uint8[]' },
+    ],
+}
+
+/** EIP-712 types of an EIP-2612 permit */
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+}
+
+/**
+ * Permit domain versions to try for tokens that don't expose their EIP-712
+ * domain (ERC-5267), e.g. USDC is "2"
+ */
+const PERMIT_DOMAIN_VERSIONS = ['1', '2']
+
+/** Mirrors `ILootery.PurchaseOrder` */
+export interface PurchaseOrder {
+    /** Who pays for the tickets, and signs the order */
+    payer: string
+    tickets: TicketOrder[]
+    /** Beneficiary to receive the community fee share; `ZeroAddress` for none */
+    beneficiary: string
+    /** Timestamp after which the order can no longer be submitted */
+    deadline: bigint
+    /** Payer's next nonce on the lottery */
+    nonce: bigint
+}
+
+/** An EIP-2612 permit, signed by the token owner */
+export interface PermitSignature {
+    owner: string
+    spender: string
+    value: bigint
+    deadline: bigint
+    v: number
+    r: string
+    s: string
+}
+
+/** A purchase order that a relayer can submit on the payer's behalf */
+export interface SignedPurchase {
+    /** Lootery that the order is for */
+    lootery: string
+    order: PurchaseOrder
+    signature: string
+    /** Permit for the payment, if the payer hasn't approved the lottery */
+    permit?: PermitSignature
+}
+
+export class UnknownPermitDomainError extends Error {
+    constructor(public readonly token: string) {
+        super(`Could not determine the EIP-712 permit domain of token ${token}`)
+        this.name = 'UnknownPermitDomain'
+    }
+}
+
+/**
+ * Timestamp that a signature is valid until, relative to the latest block
+ * @param runner Provider, or signer connected to one
+ * @param ttl Seconds that the signature is valid for
+ */
+export async function getSignatureDeadline(
+    runner: ContractRunner,
+    ttl: bigint = DEFAULT_SIGNATURE_TTL,
+) {
+    const block = await runner.provider!.getBlock('latest')
+    if (!block) throw new Error('Latest block not found')
+    return BigInt(block.timestamp) + ttl
+}
+
+/**
+ * Read a contract's EIP-712 domain via ERC-5267
+ * @param address Contract address
+ * @param runner Provider, or signer connected to one
+ */
+export async function getEip712Domain(
+    address: string,
+    runner: ContractRunner,
+): Promise<TypedDataDomain> {
+    const erc5267 = IERC5267__factory.connect(address, runner)
+    const { name, version, chainId, verifyingContract } = await erc5267.eip712Domain()
+    return { name, version, chainId, verifyingContract }
+}
+
+/**
+ * Determine a token's EIP-712 permit domain. Tokens that don't implement
+ * ERC-5267 are matched against their `DOMAIN_SEPARATOR` with common versions.
+ * @param token Token address
+ * @param runner Provider, or signer connected to one
+ * @throws {UnknownPermitDomainError}
+ */
+export async function getPermitDomain(
+    token: string,
+    runner: ContractRunner,
+): Promise<TypedDataDomain> {
+    const domain = await getEip712Domain(token, runner).catch(() => undefined)
+    if (domain) return domain
+
+    const [name, domainSeparator, network] = await Promise.all([
+        ERC20__factory.connect(token, runner).name(),
+        IERC20Permit__factory.connect(token, runner).DOMAIN_SEPARATOR(),
+        runner.provider!.getNetwork(),
+    ])
+    for (const version of PERMIT_DOMAIN_VERSIONS) {
+        const candidate = { name, version, chainId: network.chainId, verifyingContract: token }
+        if (TypedDataEncoder.hashDomain(candidate) === domainSeparator) return candidate
+    }
+    throw new UnknownPermitDomainError(token)
+}
+
+/**
+ * Sign an EIP-2612 permit for `spender` to spend the signer's tokens
+ * @param signer Token owner
+ * @param token Token address, which must support EIP-2612
+ * @param spender Spender, e.g. the lottery
+ * @param value Amount to permit
+ * @param deadline Timestamp after which the permit is invalid
+ * @throws {UnknownPermitDomainError}
+ */
+export async function signPermit(
+    signer: Signer,
+    token: string,
+    spender: string,
+    value: bigint,
+    deadline: bigint,
+): Promise<PermitSignature> {
+    const owner = await signer.getAddress()
+    const [domain, nonce] = await Promise.all([
+        getPermitDomain(token, signer),
+        IERC20Permit__factory.connect(token, signer).nonces(owner),
+    ])
+    const { v, r, s } = Signature.from(
+        await signer.signTypedData(domain, PERMIT_TYPES, {
+            owner,
+            spender,
+            value,
+            nonce,
+            deadline,
+        }),
+    )
+    return { owner, spender, value, deadline, v, r, s }
+}
+
+/**
+ * Sign an order for a relayer to purchase tickets on the signer's behalf
+ * with `purchaseBySig`; the signer pays for the tickets.
+ * @param lootery Lootery to purchase from
+ * @param signer Payer
+ * @param tickets Tickets to purchase
+ * @param beneficiary Beneficiary to receive the community fee share
+ * @param deadline Timestamp after which the order can no longer be submitted
+ * @param nonce Payer's next nonce on the lottery; read from the lottery if
+ *  not specified
+ */
+export async function signPurchaseOrder(
+    lootery: Lootery,
+    signer: Signer,
+    {
+        tickets,
+        beneficiary,
+        deadline,
+        nonce,
+    }: {
+        tickets: TicketOrder[]
+        beneficiary?: string
+        deadline: bigint
+        nonce?: bigint
+    },
+): Promise<{ order: PurchaseOrder; signature: string }> {
+    const payer = await signer.getAddress()
+    const order: PurchaseOrder = {
+        payer,
+        tickets: tickets.map(({ whomst, pick }) => ({ whomst, pick: pick.map(BigInt) })),
+        beneficiary: beneficiary || ZeroAddress,
+        deadline,
+        nonce: nonce ?? (await lootery.nonces(payer)),
+    }
+    const domain = await getEip712Domain(await lootery.getAddress(), signer)
+    const signature = await signer.signTypedData(domain, PURCHASE_ORDER_TYPES, order)
+    return { order, signature }
+}
+
+/**
+ * Stand-in for a relayer service, which submits signed purchases from its
+ * own account so that payers don't need native currency for gas.
+ */
+export class LocalRelayer {
+    constructor(public readonly signer: Signer) {}
+
+    /**
+     * Submit a signed purchase, submitting its permit first unless the payer
+     * has already approved the payment.
+     * @param signedPurchase Signed purchase
+     */
+    async relay({
+        lootery: looteryAddress,
+        order,
+        signature,
+        permit,
+    }: SignedPurchase): Promise<PurchaseResult> {
+        const lootery = Lootery__factory.connect(looteryAddress, this.signer)
+        if (permit) {
+            const token = await lootery.prizeToken()
+            const allowance = await ERC20__factory.connect(token, this.signer).allowance(
+                order.payer,
+                looteryAddress,
+            )
+            if (allowance < permit.value) {
+                const { owner, spender, value, deadline, v, r, s } = permit
+                await IERC20Permit__factory.connect(token, this.signer)
+                    .permit(owner, spender, value, deadline, v, r, s)
+                    .then((tx) => tx.wait())
+            }
+        }
+        const tx = await lootery.purchaseBySig(order, signature)
+        const receipt = await tx.wait()
+        if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`)
+        const events = parseLooteryReceipt(receipt, looteryAddress)
+        const tokenIds = filterLooteryEvents(events, 'TicketPurchased').map(
+            (event) => event.args.tokenId,
+        )
+        return { tx, events, tokenIds }
+    }
+}
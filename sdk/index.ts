@@ -0,0 +1,13 @@
+export * from './GameState'
+export * from './RandomnessProvider'
+export * from './events'
+export * from './LooteryClient'
+export * from './pick'
+export * from './prizeTiers'
+export * from './draw'
+export * from './keeper'
+export * from './indexer'
+export * from './claims'
+export * from './crossChain'
+export * from './gasless'
+export * from './vrf'
@@ -0,0 +1,415 @@
+import fs from 'node:fs/promises'
+import type { Provider } from 'ethers'
+import { LooteryEvent, LooteryEventArgs, LooteryEventName, parseLooteryLogs } from './events'
+import { PrizeTier, computeTierPots, findTierPot } from './prizeTiers'
+
+/** A Lootery event as persisted by the indexer */
+export type IndexedEvent = {
+    [K in LooteryEventName]: {
+        name: K
+        args: LooteryEventArgs[K]
+        blockNumber: number
+        blockHash: string
+        transactionHash: string
+        logIndex: number
+    }
+}[LooteryEventName]
+
+export interface IndexerState {
+    /** Last block whose logs have been fully ingested */
+    lastIndexedBlock: number
+    /** Known block hashes, used to detect reorgs: block number => hash */
+    checkpoints: Record<number, string>
+    events: IndexedEvent[]
+}
+
+/** Persistence for indexer state */
+export interface IndexerStore {
+    load(): Promise<IndexerState | undefined>
+    save(state: IndexerState): Promise<void>
+}
+
+/** JSON replacer/reviver pair that round-trips bigints as "<n>n" strings */
+const bigintReplacer = (_: string, value: unknown) =>
+    typeof value === 'bigint' ? `${value}n` : value
+const bigintReviver = (_: string, value: unknown) =>
+    typeof value === 'string' && /^-?\d+n$/.test(value) ? BigInt(value.slice(0, -1)) : value
+
+export class MemoryIndexerStore implements IndexerStore {
+    private state?: IndexerState
+
+    async load() {
+        return this.state && structuredClone(this.state)
+    }
+
+    async save(state: IndexerState) {
+        this.state = structuredClone(state)
+    }
+}
+
+/** Persists indexer state as a JSON file; bigints are encoded as "<n>n" */
+export class JsonFileIndexerStore implements IndexerStore {
+    constructor(public readonly path: string) {}
+
+    async load() {
+        const json = await fs.readFile(this.path, { encoding: 'utf-8' }).catch((err) => {
+            if (err.code === 'ENOENT') return undefined
+            throw err
+        })
+        if (typeof json === 'undefined') return undefined
+        return JSON.parse(json, bigintReviver) as IndexerState
+    }
+
+    async save(state: IndexerState) {
+        const json = JSON.stringify(state, bigintReplacer)
+        await fs.writeFile(this.path, json, { encoding: 'utf-8' })
+    }
+}
+
+export interface ClaimSummary {
+    tokenId: bigint
+    whomst: string
+    value: bigint
+    isConsolation: boolean
+}
+
+/** Per-game history reconstructed from events */
+export interface GameSummary {
+    gameId: bigint
+    ticketsSold: bigint
+    /** Undefined if the game was skipped, or hasn't been drawn yet */
+    winningPick?: bigint[]
+    /** Undefined unless the lottery has a bonus ball, and the game was drawn */
+    winningBonusBall?: bigint
+    isDrawSkipped: boolean
+    /** Whether the game was drawn with prize tiers */
+    isTiered: boolean
+    /** Token ids of tickets that matched the winning pick, or won a prize tier */
+    winningTokenIds: bigint[]
+    /** Jackpot before the game was finalised */
+    jackpotBefore?: bigint
+    /** Jackpot carried into the next game */
+    jackpotAfter?: bigint
+    /**
+     * Prize pool reserved for this game's claimants, less the pots of prize
+     * tiers that were rolled over once tallied
+     */
+    prizePool?: bigint
+    claims: ClaimSummary[]
+    claimed: bigint
+    /** Unclaimed prize pool rolled over once the game's claim window closed */
+    swept: bigint
+    /** Prize pool that hasn't been claimed (yet) or swept */
+    unclaimed: bigint
+}
+
+export interface LooteryIndexerOptions {
+    lootery: string
+    provider: Provider
+    store?: IndexerStore
+    /** Block to start indexing from, e.g. the lottery's deployment block */
+    startBlock?: number
+    /** Max number of blocks per `getLogs` request */
+    batchSize?: number
+    /** Blocks behind head to stay, to avoid indexing blocks likely to reorg */
+    confirmations?: number
+    /** Number of checkpoints to retain for reorg detection */
+    maxCheckpoints?: number
+}
+
+/**
+ * Ingests Lootery events into a local store, resuming from the last indexed
+ * block and rewinding when a reorg is detected.
+ */
+export class LooteryIndexer {
+    public readonly lootery: string
+    private readonly provider: Provider
+    private readonly store: IndexerStore
+    private readonly startBlock: number
+    private readonly batchSize: number
+    private readonly confirmations: number
+    private readonly maxCheckpoints: number
+    private state?: IndexerState
+
+    constructor({
+        lootery,
+        provider,
+        store,
+        startBlock,
+        batchSize,
+        confirmations,
+        maxCheckpoints,
+    }: LooteryIndexerOptions) {
+        this.lootery = lootery
+        this.provider = provider
+        this.store = store ?? new MemoryIndexerStore()
+        this.startBlock = startBlock ?? 0
+        this.batchSize = batchSize ?? 2000
+        this.confirmations = confirmations ?? 0
+        this.maxCheckpoints = maxCheckpoints ?? 128
+    }
+
+    /**
+     * Index up to the latest confirmed block.
+     * @returns Number of new events ingested
+     */
+    async sync() {
+        const state = await this.loadState()
+        await this.handleReorg(state)
+
+        const head = (await this.provider.getBlockNumber()) - this.confirmations
+        let ingested = 0
+        while (state.lastIndexedBlock < head) {
+            const fromBlock = state.lastIndexedBlock + 1
+            const toBlock = Math.min(fromBlock + this.batchSize - 1, head)
+            const logs = await this.provider.getLogs({
+                address: this.lootery,
+                fromBlock,
+                toBlock,
+            })
+            const events = parseLooteryLogs(logs, this.lootery).map(toIndexedEvent)
+            for (const event of events) {
+                state.checkpoints[event.blockNumber] = event.blockHash
+            }
+            state.events.push(...events)
+            ingested += events.length
+
+            const block = await this.provider.getBlock(toBlock)
+            if (!block?.hash) throw new Error(`Block ${toBlock} not found`)
+            state.checkpoints[toBlock] = block.hash
+            state.lastIndexedBlock = toBlock
+            this.pruneCheckpoints(state)
+            await this.store.save(state)
+        }
+        return ingested
+    }
+
+    /** All indexed events, in chain order */
+    async getEvents(): Promise<IndexedEvent[]> {
+        return (await this.loadState()).events
+    }
+
+    /** Last block that has been indexed */
+    async getLastIndexedBlock() {
+        return (await this.loadState()).lastIndexedBlock
+    }
+
+    /** Summaries of every game seen so far, ordered by game id */
+    async getGameSummaries(): Promise<GameSummary[]> {
+        return summariseGames(await this.getEvents())
+    }
+
+    /**
+     * Summary of a single game
+     * @param gameId Game id
+     */
+    async getGameSummary(gameId: bigint): Promise<GameSummary | undefined> {
+        return (await this.getGameSummaries()).find((game) => game.gameId === gameId)
+    }
+
+    private async loadState() {
+        if (!this.state) {
+            this.state = (await this.store.load()) ?? {
+                lastIndexedBlock: this.startBlock - 1,
+                checkpoints: {},
+                events: [],
+            }
+        }
+        return this.state
+    }
+
+    /**
+     * If the last indexed block is no longer canonical, rewind to the latest
+     * checkpoint that still is, dropping every event after it.
+     */
+    private async handleReorg(state: IndexerState) {
+        const lastHash = state.checkpoints[state.lastIndexedBlock]
+        if (!lastHash) return
+        const lastBlock = await this.provider.getBlock(state.lastIndexedBlock)
+        if (lastBlock?.hash === lastHash) return
+
+        const checkpoints = Object.keys(state.checkpoints)
+            .map(Number)
+            .sort((a, b) => b - a)
+        let commonAncestor = this.startBlock - 1
+        for (const blockNumber of checkpoints) {
+            const block = await this.provider.getBlock(blockNumber)
+            if (block?.hash === state.checkpoints[blockNumber]) {
+                commonAncestor = blockNumber
+                break
+            }
+            delete state.checkpoints[blockNumber]
+        }
+        state.events = state.events.filter((event) => event.blockNumber <= commonAncestor)
+        state.lastIndexedBlock = commonAncestor
+        await this.store.save(state)
+    }
+
+    private pruneCheckpoints(state: IndexerState) {
+        const checkpoints = Object.keys(state.checkpoints)
+            .map(Number)
+            .sort((a, b) => b - a)
+        for (const blockNumber of checkpoints.slice(this.maxCheckpoints)) {
+            delete state.checkpoints[blockNumber]
+        }
+    }
+}
+
+function toIndexedEvent(event: LooteryEvent): IndexedEvent {
+    return {
+        name: event.name,
+        // Drop ethers' Result wrappers so the args can be persisted
+        args: JSON.parse(JSON.stringify(event.args, bigintReplacer), bigintReviver),
+        blockNumber: event.log.blockNumber,
+        blockHash: event.log.blockHash,
+        transactionHash: event.log.transactionHash,
+        logIndex: event.log.index,
+    } as IndexedEvent
+}
+
+/**
+ * Reconstruct per-game summaries from a list of events
+ * @param events Events, in chain order
+ */
+export function summariseGames(events: IndexedEvent[]): GameSummary[] {
+    const games = new Map<bigint, GameSummary>()
+    const picks = new Map<bigint, { gameId: bigint; pick: bigint[] }>()
+    /** Game id => prize tiers that the game was drawn with, and their pot */
+    const tieredGames = new Map<bigint, { tiers: PrizeTier[]; pot: bigint }>()
+    let prizeTiers: PrizeTier[] = []
+    let finalGameId: bigint | undefined
+    const getGame = (gameId: bigint) => {
+        let game = games.get(gameId)
+        if (!game) {
+            game = {
+                gameId,
+                ticketsSold: 0n,
+                isDrawSkipped: false,
+                isTiered: false,
+                winningTokenIds: [],
+                claims: [],
+                claimed: 0n,
+                swept: 0n,
+                unclaimed: 0n,
+            }
+            games.set(gameId, game)
+        }
+        return game
+    }
+
+    for (const event of events) {
+        switch (event.name) {
+            case 'TicketPurchased': {
+                const { gameId, tokenId, pick } = event.args
+                getGame(gameId).ticketsSold += 1n
+                // Empty picks don't participate in the draw
+                if (pick.length > 0) picks.set(tokenId, { gameId, pick: pick.map(BigInt) })
+                break
+            }
+            case 'GameFinalised':
+                getGame(event.args.gameId).winningPick = event.args.winningPick.map(BigInt)
+                break
+            case 'BonusBallDrawn':
+                getGame(event.args.gameId).winningBonusBall = event.args.bonusBall
+                break
+            case 'DrawSkipped':
+                getGame(event.args.gameId).isDrawSkipped = true
+                break
+            case 'PrizeTiersSet':
+                // Tuple fields, since nested structs are persisted as arrays
+                prizeTiers = event.args.tiers.map(([matches, bonusBall, shareBps]) => ({
+                    matches,
+                    bonusBall,
+                    shareBps,
+                }))
+                break
+            case 'ApocalypseModeActivated':
+                finalGameId = event.args.gameId
+                break
+            case 'JackpotRollover': {
+                const { gameId, unclaimedPayouts, currentJackpot } = event.args
+                const game = getGame(gameId)
+                game.jackpotBefore = currentJackpot
+                game.jackpotAfter = event.args.nextJackpot
+                game.prizePool = event.args.nextUnclaimedPayouts
+                // The final game is always winner-takes-all
+                if (prizeTiers.length > 0 && gameId !== finalGameId) {
+                    game.isTiered = true
+                    tieredGames.set(gameId, {
+                        tiers: prizeTiers,
+                        pot: unclaimedPayouts + currentJackpot,
+                    })
+                }
+                break
+            }
+            case 'PrizeTiersTallied': {
+                const { gameId, rolledOver } = event.args
+                const game = getGame(gameId)
+                game.prizePool = (game.prizePool ?? 0n) - rolledOver
+                // Once the final game has been drawn, unwon tiers are added to
+                // its payouts instead of the jackpot
+                const finalGame = finalGameId === undefined ? undefined : games.get(finalGameId)
+                if (finalGame?.prizePool !== undefined) finalGame.prizePool += rolledOver
+                break
+            }
+            case 'WinningsClaimed':
+            case 'ConsolationClaimed': {
+                const { tokenId, gameId, whomst, value } = event.args
+                const game = getGame(gameId)
+                game.claims.push({
+                    tokenId,
+                    whomst,
+                    value,
+                    isConsolation: event.name === 'ConsolationClaimed',
+                })
+                game.claimed += value
+                break
+            }
+            case 'UnclaimedPayoutsSwept':
+                getGame(event.args.gameId).swept = event.args.value
+                break
+        }
+    }
+
+    for (const game of games.values()) {
+        const { winningPick, winningBonusBall } = game
+        if (winningPick) {
+            const pickLength = winningPick.length
+            const tickets = [...picks]
+                .filter(([, { gameId }]) => gameId === game.gameId)
+                .map(([tokenId, { pick }]) => {
+                    const matches = pick
+                        .slice(0, pickLength)
+                        .filter((ball) => winningPick.includes(ball)).length
+                    // Tickets of a lottery with a bonus ball pick it after the main balls
+                    const isBonusBallMatched =
+                        winningBonusBall !== undefined && pick[pickLength] === winningBonusBall
+                    const isJackpot =
+                        matches === pickLength &&
+                        (winningBonusBall === undefined || isBonusBallMatched)
+                    return { tokenId, matches: BigInt(matches), isBonusBallMatched, isJackpot }
+                })
+            const tiered = tieredGames.get(game.gameId)
+            const reservation =
+                tiered &&
+                computeTierPots(
+                    tiered.pot,
+                    tiered.tiers,
+                    BigInt(tickets.filter(({ isJackpot }) => isJackpot).length),
+                )
+            for (const { tokenId, matches, isBonusBallMatched, isJackpot } of tickets) {
+                const isWinner = reservation
+                    ? findTierPot(reservation, matches, isBonusBallMatched) > 0n
+                    : isJackpot
+                if (isWinner) game.winningTokenIds.push(tokenId)
+            }
+        }
+        const prizePool = game.prizePool ?? 0n
+        const settled = game.claimed + game.swept
+        game.unclaimed = prizePool > settled ? prizePool - settled : 0n
+    }
+
+    return [...games.values()].sort((a, b) =>
+        a.gameId < b.gameId ? -1 : a.gameId > b.gameId ? 1 : 0,
+    )
+}
@@ -0,0 +1,338 @@
+import { Lootery, Lootery__factory } from '../typechain-types'
+import { ContractRunner, Signer, isError } from 'ethers'
+import { GameState } from './GameState'
+
+/** Distinct picks tallied per `tallyPrizeTiers` transaction */
+export const DEFAULT_TALLY_BATCH_SIZE = 500n
+
+/** Subscriptions entered per `enterSubscriptions` transaction */
+export const DEFAULT_SUBSCRIPTION_BATCH_SIZE = 20n
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/** Structured logger; every entry has a message plus arbitrary fields */
+export type KeeperLogger = (level: LogLevel, msg: string, fields?: Record<string, unknown>) => void
+
+/** Default logger: one JSON object per line */
+export const jsonLogger: KeeperLogger = (level, msg, fields = {}) => {
+    const line = JSON.stringify(
+        { time: new Date().toISOString(), level, msg, ...fields },
+        (_, value) => (typeof value === 'bigint' ? value.toString() : value),
+    )
+    if (level === 'error' || level === 'warn') {
+        console.error(line)
+    } else {
+        console.log(line)
+    }
+}
+
+export interface RetryOptions {
+    /** Number of retries after the first attempt */
+    retries: number
+    /** Delay before the first retry; doubles on each subsequent retry */
+    baseDelayMs: number
+    /** Upper bound for the delay between retries */
+    maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Run `fn`, retrying with exponential backoff if it throws.
+ * @param fn Function to run
+ * @param options Retry options
+ * @param onRetry Called with the error and attempt number before each retry
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    { retries, baseDelayMs, maxDelayMs }: RetryOptions = DEFAULT_RETRY_OPTIONS,
+    onRetry?: (err: unknown, attempt: number) => void,
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn()
+        } catch (err) {
+            if (attempt >= retries) throw err
+            onRetry?.(err, attempt + 1)
+            await sleep(Math.min(baseDelayMs * 2 ** attempt, maxDelayMs))
+        }
+    }
+}
+
+/** What the keeper decided to do with a lottery on a given tick */
+export type KeeperAction =
+    | { type: 'none'; reason: string }
+    | { type: 'draw' }
+    | { type: 'forceRedraw' }
+    | { type: 'tallyPrizeTiers'; gameId: bigint }
+    | { type: 'enterSubscriptions' }
+
+export interface KeeperTickResult {
+    lootery: string
+    action: KeeperAction
+    /** Hash of the sent tx; undefined in dry-run mode or if nothing was sent */
+    txHash?: string
+}
+
+export interface LooteryKeeperOptions {
+    /** Addresses of the lotteries to keep */
+    looteries: string[]
+    /** Signer that sends `draw`/`forceRedraw` transactions */
+    runner: ContractRunner
+    /** Only simulate transactions; never send them */
+    dryRun?: boolean
+    /**
+     * Seconds after a randomness request before calling `forceRedraw`;
+     * defaults to each lottery's `REDRAW_TIMEOUT`
+     */
+    redrawTimeout?: bigint
+    /** Distinct picks tallied per `tallyPrizeTiers` transaction */
+    tallyBatchSize?: bigint
+    /** Subscriptions entered per `enterSubscriptions` transaction */
+    subscriptionBatchSize?: bigint
+    retry?: RetryOptions
+    logger?: KeeperLogger
+}
+
+/**
+ * Keeper that progresses lotteries: calls `draw` once a game's period has
+ * elapsed, and `forceRedraw` when a randomness request has gone stale. Prize
+ * tiers of the last game are tallied (in batches) before anything else, since
+ * they can't be claimed until then, and subscriptions are entered (also in
+ * batches) before the draw.
+ */
+export class LooteryKeeper {
+    private readonly looteries: Lootery[]
+    private readonly dryRun: boolean
+    private readonly redrawTimeout?: bigint
+    private readonly tallyBatchSize: bigint
+    private readonly subscriptionBatchSize: bigint
+    private readonly retry: RetryOptions
+    private readonly log: KeeperLogger
+    private isRunning = false
+
+    constructor({
+        looteries,
+        runner,
+        dryRun,
+        redrawTimeout,
+        tallyBatchSize,
+        subscriptionBatchSize,
+        retry,
+        logger,
+    }: LooteryKeeperOptions) {
+        this.looteries = looteries.map((address) => Lootery__factory.connect(address, runner))
+        this.dryRun = Boolean(dryRun)
+        this.redrawTimeout = redrawTimeout
+        this.tallyBatchSize = tallyBatchSize ?? DEFAULT_TALLY_BATCH_SIZE
+        this.subscriptionBatchSize = subscriptionBatchSize ?? DEFAULT_SUBSCRIPTION_BATCH_SIZE
+        this.retry = retry ?? DEFAULT_RETRY_OPTIONS
+        this.log = logger ?? jsonLogger
+        if (!this.dryRun && typeof (runner as Signer).sendTransaction !== 'function') {
+            throw new Error('LooteryKeeper needs a signer unless running in dry-run mode')
+        }
+    }
+
+    /**
+     * Decide what should be done with a lottery right now. Decisions are
+     * confirmed with a static call, so a returned action won't revert unless
+     * state changes before it's mined.
+     * @param lootery Lottery to inspect
+     */
+    async getAction(lootery: Lootery): Promise<KeeperAction> {
+        const { id, state } = await lootery.currentGame()
+        const now = await this.getTimestamp(lootery)
+        switch (Number(state) as GameState) {
+            case GameState.Purchase: {
+                if (id > 0n) {
+                    const [isTieredGame, isTallied] = await Promise.all([
+                        lootery.isTieredGame(id - 1n),
+                        lootery.isPrizeTiersTallied(id - 1n),
+                    ])
+                    if (isTieredGame && !isTallied) {
+                        return { type: 'tallyPrizeTiers', gameId: id - 1n }
+                    }
+                }
+                // The game can't be drawn until every subscription is entered
+                if ((await lootery.numSubscriptionsToEnter()) > 0n) {
+                    return { type: 'enterSubscriptions' }
+                }
+                const [{ startedAt }, gamePeriod] = await Promise.all([
+                    lootery.gameData(id),
+                    lootery.gamePeriod(),
+                ])
+                const deadline = startedAt + gamePeriod
+                if (now < deadline) {
+                    return { type: 'none', reason: `game ${id} drawable at ${deadline}` }
+                }
+                // e.g. NoTicketsSold in apocalypse mode
+                const value = await this.quoteRequestPrice(lootery, { type: 'draw' })
+                const revertReason = await this.simulate(() => lootery.draw.staticCall({ value }))
+                if (revertReason) return { type: 'none', reason: `draw reverts: ${revertReason}` }
+                return { type: 'draw' }
+            }
+            case GameState.DrawPending: {
+                const [{ timestamp, isInFlight }, redrawTimeout] = await Promise.all([
+                    lootery.randomnessRequests(id),
+                    this.redrawTimeout ?? lootery.REDRAW_TIMEOUT(),
+                ])
+                if (isInFlight && now < timestamp + redrawTimeout) {
+                    return {
+                        type: 'none',
+                        reason: `randomness requested at ${timestamp}; waiting for fulfilment`,
+                    }
+                }
+                const value = await this.quoteRequestPrice(lootery, { type: 'forceRedraw' })
+                const revertReason = await this.simulate(() =>
+                    lootery.forceRedraw.staticCall({ value }),
+                )
+                if (revertReason) {
+                    return { type: 'none', reason: `forceRedraw reverts: ${revertReason}` }
+                }
+                return { type: 'forceRedraw' }
+            }
+            case GameState.Dead:
+                return { type: 'none', reason: 'lottery is dead' }
+            default:
+                return { type: 'none', reason: `unexpected state ${state}` }
+        }
+    }
+
+    /** Inspect every lottery once, sending transactions as necessary */
+    async tick(): Promise<KeeperTickResult[]> {
+        const results: KeeperTickResult[] = []
+        for (const lootery of this.looteries) {
+            const address = await lootery.getAddress()
+            try {
+                results.push(await this.keep(lootery))
+            } catch (err) {
+                this.log('error', 'Failed to keep lottery', {
+                    lootery: address,
+                    error: (err as Error).message ?? String(err),
+                })
+                results.push({ lootery: address, action: { type: 'none', reason: 'error' } })
+            }
+        }
+        return results
+    }
+
+    /**
+     * Tick every `intervalMs` until {stop} is called
+     * @param intervalMs Milliseconds between ticks
+     */
+    async run(intervalMs: number) {
+        this.isRunning = true
+        this.log('info', 'Keeper started', {
+            looteries: await Promise.all(this.looteries.map((lootery) => lootery.getAddress())),
+            dryRun: this.dryRun,
+            intervalMs,
+        })
+        while (this.isRunning) {
+            await this.tick()
+            if (this.isRunning) await sleep(intervalMs)
+        }
+        this.log('info', 'Keeper stopped')
+    }
+
+    stop() {
+        this.isRunning = false
+    }
+
+    private async keep(lootery: Lootery): Promise<KeeperTickResult> {
+        const address = await lootery.getAddress()
+        const action = await withRetry(
+            () => this.getAction(lootery),
+            this.retry,
+            (err, attempt) =>
+                this.log('warn', 'Retrying', {
+                    lootery: address,
+                    attempt,
+                    error: (err as Error).message,
+                }),
+        )
+        if (action.type === 'none') {
+            this.log('debug', 'Nothing to do', { lootery: address, reason: action.reason })
+            return { lootery: address, action }
+        }
+        if (this.dryRun) {
+            this.log('info', `Dry run: would call ${action.type}`, { lootery: address })
+            return { lootery: address, action }
+        }
+        const tx = await withRetry(
+            () => this.send(lootery, action),
+            this.retry,
+            (err, attempt) =>
+                this.log('warn', `Retrying ${action.type}`, {
+                    lootery: address,
+                    attempt,
+                    error: (err as Error).message,
+                }),
+        )
+        this.log('info', `Sent ${action.type}`, { lootery: address, txHash: tx.hash })
+        const receipt = await tx.wait()
+        this.log('info', `Confirmed ${action.type}`, {
+            lootery: address,
+            txHash: tx.hash,
+            blockNumber: receipt?.blockNumber,
+            status: receipt?.status,
+        })
+        return { lootery: address, action, txHash: tx.hash }
+    }
+
+    private async send(lootery: Lootery, action: Exclude<KeeperAction, { type: 'none' }>) {
+        switch (action.type) {
+            case 'draw':
+                return lootery.draw({ value: await this.quoteRequestPrice(lootery, action) })
+            case 'forceRedraw':
+                return lootery.forceRedraw({ value: await this.quoteRequestPrice(lootery, action) })
+            case 'tallyPrizeTiers':
+                return lootery.tallyPrizeTiers(action.gameId, this.tallyBatchSize)
+            case 'enterSubscriptions':
+                return lootery.enterSubscriptions(this.subscriptionBatchSize)
+        }
+    }
+
+    /**
+     * Quote the payment for a randomness request, so that the keeper pays for
+     * it rather than relying on the lottery's own balance. Nothing is paid for
+     * draws that are skipped because no tickets were sold.
+     * @returns Value to send with `draw` or `forceRedraw`
+     */
+    private async quoteRequestPrice(
+        lootery: Lootery,
+        action: Extract<KeeperAction, { type: 'draw' | 'forceRedraw' }>,
+    ) {
+        if (action.type === 'draw') {
+            const { id } = await lootery.currentGame()
+            const { ticketsSold } = await lootery.gameData(id)
+            if (ticketsSold === 0n) return 0n
+        }
+        return lootery.getRequestPrice()
+    }
+
+    /**
+     * @returns Revert reason, or undefined if the call succeeds. Errors that
+     *  aren't reverts (e.g. RPC failures) are rethrown so they can be retried.
+     */
+    private async simulate(fn: () => Promise<unknown>): Promise<string | undefined> {
+        try {
+            await fn()
+            return undefined
+        } catch (err) {
+            if (!isError(err, 'CALL_EXCEPTION')) throw err
+            return err.revert?.name ?? err.shortMessage
+        }
+    }
+
+    private async getTimestamp(lootery: Lootery) {
+        const block = await lootery.runner?.provider?.getBlock('latest')
+        if (!block) throw new Error('Unable to fetch latest block')
+        return BigInt(block.timestamp)
+    }
+}
@@ -0,0 +1,194 @@
+import { BigNumberish } from 'ethers'
+
+/**
+ * Base class for picks that would be rejected by `Lootery._pickTickets`.
+ * Subclasses are named after the corresponding custom errors in ILootery.
+ */
+export class PickError extends Error {}
+
+/** Mirrors `ILootery.InvalidPickLength(uint256 pickLength)` */
+export class InvalidPickLengthError extends PickError {
+    constructor(public readonly pickLength: bigint) {
+        super(`InvalidPickLength(${pickLength})`)
+        this.name = 'InvalidPickLength'
+    }
+}
+
+/** Mirrors `ILootery.UnsortedPick(uint8[] pick)` */
+export class UnsortedPickError extends PickError {
+    constructor(public readonly pick: bigint[]) {
+        super(`UnsortedPick([${pick.join(',')}])`)
+        this.name = 'UnsortedPick'
+    }
+}
+
+/** Mirrors `ILootery.InvalidBallValue(uint256 ballValue)` */
+export class InvalidBallValueError extends PickError {
+    constructor(public readonly ballValue: bigint) {
+        super(`InvalidBallValue(${ballValue})`)
+        this.name = 'InvalidBallValue'
+    }
+}
+
+/** Mirrors `ILootery.InvalidBonusBall(uint256 bonusBall)` */
+export class InvalidBonusBallError extends PickError {
+    constructor(public readonly bonusBall: bigint) {
+        super(`InvalidBonusBall(${bonusBall})`)
+        this.name = 'InvalidBonusBall'
+    }
+}
+
+export interface PickRules {
+    pickLength: BigNumberish
+    maxBallValue: BigNumberish
+    /** Maximum value of the bonus ball; 0 (or omitted) if there's none */
+    bonusBallMaxValue?: BigNumberish
+}
+
+/**
+ * Validate a pick with the same checks (and in the same order) as
+ * `Lootery._pickTickets`. An empty pick is valid; it mints a ticket that
+ * doesn't enter the draw.
+ * @param pick Balls, which must be ascendingly ordered with no duplicates,
+ *  followed by the bonus ball if the lottery has one
+ * @param rules Lottery's pick length, max ball value and max bonus ball value
+ * @returns The pick, as bigints
+ */
+export function validatePick(
+    pick: BigNumberish[],
+    { pickLength, maxBallValue, bonusBallMaxValue }: PickRules,
+) {
+    const balls = pick.map((ball) => BigInt(ball))
+    if (balls.length === 0) return balls
+    const maxBonusBall = BigInt(bonusBallMaxValue ?? 0)
+    const ticketPickLength = BigInt(pickLength) + (maxBonusBall > 0n ? 1n : 0n)
+    if (BigInt(balls.length) !== ticketPickLength) {
+        throw new InvalidPickLengthError(BigInt(balls.length))
+    }
+    // NB: 0 is never a valid ball, since the first ball must be > 0
+    let lastBall = 0n
+    for (const ball of balls.slice(0, Number(pickLength))) {
+        if (ball <= lastBall) throw new UnsortedPickError(balls)
+        if (ball > BigInt(maxBallValue)) throw new InvalidBallValueError(ball)
+        lastBall = ball
+    }
+    if (maxBonusBall > 0n) {
+        // The bonus ball is drawn from its own pool, so it may equal any ball
+        const bonusBall = balls[balls.length - 1]
+        if (bonusBall === 0n || bonusBall > maxBonusBall) throw new InvalidBonusBallError(bonusBall)
+    }
+    return balls
+}
+
+/**
+ * Check whether a pick would be accepted by `Lootery._pickTickets`
+ * @param pick Balls
+ * @param rules Lottery's pick length and max ball value
+ */
+export function isValidPick(pick: BigNumberish[], rules: PickRules) {
+    try {
+        validatePick(pick, rules)
+        return true
+    } catch (err) {
+        if (err instanceof PickError) return false
+        throw err
+    }
+}
+
+/**
+ * Normalise user input into a pick the contract accepts: balls are sorted
+ * ascendingly and duplicates are removed, then the result is validated. If
+ * the lottery has a bonus ball, the last ball is kept as the bonus ball.
+ * @param pick Balls, in any order, followed by the bonus ball if any
+ * @param rules Lottery's pick length, max ball value and max bonus ball value
+ */
+export function normalisePick(pick: BigNumberish[], rules: PickRules) {
+    const hasBonusBall = BigInt(rules.bonusBallMaxValue ?? 0) > 0n && pick.length > 0
+    const mainBalls = hasBonusBall ? pick.slice(0, -1) : pick
+    const balls = [...new Set(mainBalls.map((ball) => BigInt(ball)))].sort((a, b) =>
+        a < b ? -1 : a > b ? 1 : 0,
+    )
+    return validatePick(hasBonusBall ? [...balls, BigInt(pick[pick.length - 1])] : balls, rules)
+}
+
+/**
+ * Compute the identity of a set of balls; see {Pick-id}.
+ * NB: Does not check ordering of `pick`!
+ * @param pick Balls
+ */
+export function computePickId(pick: BigNumberish[]) {
+    return pick.reduce<bigint>((id, ball) => id | (1n << BigInt(ball)), 0n)
+}
+
+/**
+ * Compute the identity of a bonus ball, which is recorded above the main
+ * balls; see {Pick-bonusBallId}
+ * @param maxBallValue Maximum value of a main ball
+ * @param bonusBall Bonus ball
+ */
+export function computeBonusBallId(maxBallValue: BigNumberish, bonusBall: BigNumberish) {
+    return 1n << (BigInt(maxBallValue) + BigInt(bonusBall))
+}
+
+/**
+ * Compute the identity of a set of balls followed by a bonus ball, as
+ * recorded for tickets of a lottery with a bonus ball; see
+ * {Pick-idWithBonusBall}. NB: Does not check ordering of `pick`!
+ * @param pick Balls, followed by the bonus ball
+ * @param maxBallValue Maximum value of a main ball
+ */
+export function computePickIdWithBonusBall(pick: BigNumberish[], maxBallValue: BigNumberish) {
+    const bonusBall = pick[pick.length - 1]
+    return computePickId(pick.slice(0, -1)) | computeBonusBallId(maxBallValue, bonusBall)
+}
+
+/**
+ * Parse a pick identity back into an ordered pick; see {Pick-parse}.
+ * As on-chain, the result always has `pickLength` elements, and is padded
+ * with zeroes if fewer than `pickLength` bits are set.
+ * @param pickLength Number of balls in a pick
+ * @param pickId Bitvector representing the pick
+ */
+export function parsePickId(pickLength: BigNumberish, pickId: bigint) {
+    const length = Number(pickLength)
+    const pick: bigint[] = Array(length).fill(0n)
+    let p = 0
+    for (let i = 0n; i < 256n && p < length; i++) {
+        if ((pickId >> i) & 1n) {
+            pick[p++] = i
+        }
+    }
+    return pick
+}
+
+/**
+ * Count the balls that two picks have in common; see {Pick-countMatches}
+ * @param pickId Pick identity
+ * @param otherPickId Other pick identity
+ */
+export function countMatches(pickId: bigint, otherPickId: bigint) {
+    let matches = 0
+    for (let common = pickId & otherPickId; common !== 0n; common &= common - 1n) {
+        matches++
+    }
+    return matches
+}
+
+/**
+ * Count the main balls that two picks with bonus balls have in common, and
+ * whether their bonus balls match; see {Pick-countMatchesWithBonusBall}
+ * @param pickId Pick identity, including its bonus ball
+ * @param otherPickId Other pick identity, including its bonus ball
+ * @param maxBallValue Maximum value of a main ball
+ */
+export function countMatchesWithBonusBall(
+    pickId: bigint,
+    otherPickId: bigint,
+    maxBallValue: BigNumberish,
+) {
+    const mainBallsMask = (1n << (BigInt(maxBallValue) + 1n)) - 1n
+    return {
+        matches: countMatches(pickId & mainBallsMask, otherPickId),
+        isBonusBallMatched: (pickId & otherPickId) > mainBallsMask,
+    }
+}
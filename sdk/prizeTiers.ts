@@ -0,0 +1,127 @@
+import { BigNumberish } from 'ethers'
+
+/** Mirrors `ILootery.PrizeTier` */
+export interface PrizeTier {
+    /** Number of balls that a ticket must match */
+    matches: bigint
+    /** Whether a ticket must also match the bonus ball */
+    bonusBall: boolean
+    /** Share of the pot that is split between this tier's winners */
+    shareBps: bigint
+}
+
+/** Mirrors `ILootery.InvalidPrizeTiers()` */
+export class InvalidPrizeTiersError extends Error {
+    constructor(reason: string) {
+        super(`InvalidPrizeTiers(): ${reason}`)
+        this.name = 'InvalidPrizeTiers'
+    }
+}
+
+/** Rank of a tier: by matches, then by whether the bonus ball is required */
+const tierRank = ({ matches, bonusBall }: PrizeTier) => 2n * matches + (bonusBall ? 1n : 0n)
+
+/**
+ * Validate prize tiers with the same rules as `Lootery.setPrizeTiers`: the
+ * first tier is the jackpot, followed by strictly lower tiers, and shares
+ * don't exceed 100%. For the same matches, a tier that requires the bonus
+ * ball is higher than one that doesn't.
+ * @param tiers Prize tiers
+ * @param pickLength Lottery's pick length
+ * @param bonusBallMaxValue Lottery's max bonus ball value; 0 if there's none
+ * @returns The tiers, as bigints
+ */
+export function validatePrizeTiers(
+    tiers: { matches: BigNumberish; bonusBall?: boolean; shareBps: BigNumberish }[],
+    pickLength: BigNumberish,
+    bonusBallMaxValue: BigNumberish = 0,
+): PrizeTier[] {
+    const hasBonusBall = BigInt(bonusBallMaxValue) > 0n
+    const parsed = tiers.map(({ matches, bonusBall, shareBps }) => ({
+        matches: BigInt(matches),
+        bonusBall: Boolean(bonusBall),
+        shareBps: BigInt(shareBps),
+    }))
+    for (const [i, tier] of parsed.entries()) {
+        if (i === 0 && (tier.matches !== BigInt(pickLength) || tier.bonusBall !== hasBonusBall)) {
+            throw new InvalidPrizeTiersError('first tier must match every ball')
+        }
+        if (i > 0 && tierRank(tier) >= tierRank(parsed[i - 1])) {
+            throw new InvalidPrizeTiersError('tiers must be strictly decreasing')
+        }
+        if (tier.bonusBall && !hasBonusBall) {
+            throw new InvalidPrizeTiersError('lottery has no bonus ball')
+        }
+        if (tier.matches === 0n && !tier.bonusBall) {
+            throw new InvalidPrizeTiersError('tiers must match at least 1 ball')
+        }
+        if (tier.shareBps === 0n) throw new InvalidPrizeTiersError('tiers must have a share')
+    }
+    if (parsed.reduce((total, { shareBps }) => total + shareBps, 0n) > 10_000n) {
+        throw new InvalidPrizeTiersError('shares exceed 100%')
+    }
+    return parsed
+}
+
+export interface TierReservation {
+    /** # of matching balls => amount reserved for that tier's winners */
+    pots: Map<bigint, bigint>
+    /** As `pots`, for tiers that also require the bonus ball */
+    bonusPots: Map<bigint, bigint>
+    /** Total reserved for prize tiers, which becomes the unclaimed payouts */
+    reserved: bigint
+    /** Remainder of the pot, which is rolled over into the next jackpot */
+    rolledOver: bigint
+}
+
+/**
+ * Split the pot of a game that has just been drawn between its prize tiers,
+ * as `Lootery._setupNextGame` does. An unwon jackpot tier (always the first)
+ * is rolled over straight away; other tiers are rolled over once tallied,
+ * if unwon.
+ * @param pot Jackpot + unclaimed payouts at the draw
+ * @param tiers Prize tiers
+ * @param numJackpotWinners Number of tickets that matched every ball
+ */
+export function computeTierPots(
+    pot: bigint,
+    tiers: PrizeTier[],
+    numJackpotWinners: bigint,
+): TierReservation {
+    const pots = new Map<bigint, bigint>()
+    const bonusPots = new Map<bigint, bigint>()
+    let reserved = 0n
+    for (const [i, { matches, bonusBall, shareBps }] of tiers.entries()) {
+        if (i === 0 && numJackpotWinners === 0n) continue
+        const tierPot = (pot * shareBps) / 10_000n
+        const tierPots = bonusBall ? bonusPots : pots
+        tierPots.set(matches, tierPot)
+        reserved += tierPot
+    }
+    return { pots, bonusPots, reserved, rolledOver: pot - reserved }
+}
+
+/**
+ * Prize paid to each winner of a tier; any dust is rolled over
+ * @param payout Tier payout, as returned by `Lootery.tierPayouts`
+ */
+export function computeTierPrize({ pot, numWinners }: { pot: bigint; numWinners: bigint }) {
+    return numWinners === 0n ? 0n : pot / numWinners
+}
+
+/**
+ * Find the pot of the tier that a ticket is eligible for, as
+ * `Lootery._tierPayout` does: if it matched the bonus ball, the tier that
+ * requires the bonus ball is preferred. A pot of 0 means the ticket didn't win.
+ * @param reservation Tier pots, as reserved at the draw
+ * @param matches Number of main balls matched
+ * @param isBonusBallMatched Whether the bonus ball was matched
+ */
+export function findTierPot(
+    { pots, bonusPots }: Pick<TierReservation, 'pots' | 'bonusPots'>,
+    matches: bigint,
+    isBonusBallMatched: boolean,
+) {
+    const bonusPot = isBonusBallMatched ? (bonusPots.get(matches) ?? 0n) : 0n
+    return bonusPot > 0n ? bonusPot : (pots.get(matches) ?? 0n)
+}
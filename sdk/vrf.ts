@@ -0,0 +1,252 @@
+import {
+    ITypeAndVersion__factory,
+    LinkTokenInterface__factory,
+    Lootery__factory,
+    SubscriptionAPI,
+    SubscriptionAPI__factory,
+    VRFAdapter__factory,
+    VRFCoordinatorV2_5Mock__factory,
+} from '../typechain-types'
+import { AbiCoder, ContractRunner, ZeroAddress, getAddress } from 'ethers'
+import { GameState } from './GameState'
+
+/** Currency that a VRF subscription is funded with, and pays for requests in */
+export type VrfFundingCurrency = 'link' | 'native'
+
+/** The VRF consumer of a lottery, i.e. its `VRFAdapter` */
+export interface LooteryVrfConsumer {
+    lootery: string
+    /** `VRFAdapter` that requests randomness on behalf of the lottery */
+    consumer: string
+    /** Coordinator that the adapter requests randomness from */
+    coordinator: string
+    /** Subscription that pays for the adapter's requests */
+    subscriptionId: bigint
+}
+
+export interface LooteryVrfStatus extends LooteryVrfConsumer {
+    /** Whether the consumer is registered with the subscription, without which `draw` reverts */
+    isRegistered: boolean
+    /** Id of the lottery's in-flight randomness request, if it's waiting for one */
+    pendingRequestId?: bigint
+}
+
+export interface VrfSubscriptionStatus {
+    subscriptionId: bigint
+    owner: string
+    /** LINK balance */
+    balance: bigint
+    /** Native currency balance */
+    nativeBalance: bigint
+    /** Number of requests fulfilled */
+    requestCount: bigint
+    consumers: string[]
+    /** Lotteries that were asked about; see {getVrfSubscriptionStatus} */
+    looteries: LooteryVrfStatus[]
+}
+
+/**
+ * Connect to a VRF v2.5 coordinator, or the coordinator mock when testing locally
+ * @param coordinator Address of the coordinator
+ * @param runner Signer, or a provider for read-only use
+ */
+export function connectVrfCoordinator(coordinator: string, runner: ContractRunner) {
+    return SubscriptionAPI__factory.connect(coordinator, runner)
+}
+
+/**
+ * Get the VRF consumer of a lottery
+ * @param lootery Address of the lottery
+ * @param runner Provider
+ * @returns The lottery's `VRFAdapter`; undefined if the lottery is randomised
+ *  by some other provider, e.g. Anyrand
+ */
+export async function getLooteryVrfConsumer(
+    lootery: string,
+    runner: ContractRunner,
+): Promise<LooteryVrfConsumer | undefined> {
+    const consumer = await Lootery__factory.connect(lootery, runner).randomiser()
+    const [type] = await ITypeAndVersion__factory.connect(consumer, runner)
+        .typeAndVersion()
+        .then((typeAndVersion) => typeAndVersion.split(' '))
+    if (type !== 'VRFAdapter') return undefined
+    const adapter = VRFAdapter__factory.connect(consumer, runner)
+    const [coordinator, subscriptionId] = await Promise.all([
+        adapter.s_vrfCoordinator(),
+        adapter.subscriptionId(),
+    ])
+    return { lootery, consumer, coordinator, subscriptionId }
+}
+
+/**
+ * Create a subscription, owned by the coordinator's signer
+ * @param coordinator VRF coordinator, connected to a signer
+ * @returns Subscription id
+ */
+export async function createVrfSubscription(coordinator: SubscriptionAPI) {
+    const receipt = await coordinator.createSubscription().then((tx) => tx.wait())
+    const subscriptionCreatedEvent = receipt?.logs
+        .map((log) => coordinator.interface.parseLog(log))
+        .find((log) => log?.name === 'SubscriptionCreated')
+    if (!subscriptionCreatedEvent) throw new Error('Create VRF subscription failed')
+    return subscriptionCreatedEvent.args.subId as bigint
+}
+
+/**
+ * Fund a subscription. LINK is sent with `transferAndCall`, except to the
+ * coordinator mock, which has no LINK token and is funded out of thin air.
+ * @param coordinator VRF coordinator, connected to a signer
+ * @param subscriptionId Subscription to fund
+ * @param amount Amount of LINK or native currency, in wei
+ * @param currency Currency to fund the subscription with
+ */
+export async function fundVrfSubscription(
+    coordinator: SubscriptionAPI,
+    subscriptionId: bigint,
+    amount: bigint,
+    currency: VrfFundingCurrency,
+) {
+    if (currency === 'native') {
+        return coordinator
+            .fundSubscriptionWithNative(subscriptionId, { value: amount })
+            .then((tx) => tx.wait())
+    }
+    const link = await coordinator.LINK()
+    if (link === ZeroAddress) {
+        return VRFCoordinatorV2_5Mock__factory.connect(
+            await coordinator.getAddress(),
+            coordinator.runner,
+        )
+            .fundSubscription(subscriptionId, amount)
+            .then((tx) => tx.wait())
+    }
+    return LinkTokenInterface__factory.connect(link, coordinator.runner)
+        .transferAndCall(
+            await coordinator.getAddress(),
+            amount,
+            AbiCoder.defaultAbiCoder().encode(['uint256'], [subscriptionId]),
+        )
+        .then((tx) => tx.wait())
+}
+
+/**
+ * Register the VRF consumers of lotteries with a subscription, skipping
+ * consumers that are already registered
+ * @param coordinator VRF coordinator, connected to the subscription owner
+ * @param subscriptionId Subscription to register consumers with
+ * @param looteries Addresses of the lotteries
+ * @returns Consumers that were registered
+ */
+export async function addVrfConsumers(
+    coordinator: SubscriptionAPI,
+    subscriptionId: bigint,
+    looteries: string[],
+) {
+    const { consumers } = await coordinator.getSubscription(subscriptionId)
+    const added: LooteryVrfConsumer[] = []
+    for (const vrfConsumer of await getVrfConsumers(coordinator, subscriptionId, looteries)) {
+        if (consumers.includes(vrfConsumer.consumer)) continue
+        await coordinator.addConsumer(subscriptionId, vrfConsumer.consumer).then((tx) => tx.wait())
+        added.push(vrfConsumer)
+    }
+    return added
+}
+
+/**
+ * Deregister the VRF consumers of lotteries from a subscription, skipping
+ * consumers that aren't registered. Lotteries can't be drawn afterwards.
+ * @param coordinator VRF coordinator, connected to the subscription owner
+ * @param subscriptionId Subscription to deregister consumers from
+ * @param looteries Addresses of the lotteries
+ * @returns Consumers that were deregistered
+ */
+export async function removeVrfConsumers(
+    coordinator: SubscriptionAPI,
+    subscriptionId: bigint,
+    looteries: string[],
+) {
+    const { consumers } = await coordinator.getSubscription(subscriptionId)
+    const removed: LooteryVrfConsumer[] = []
+    for (const vrfConsumer of await getVrfConsumers(coordinator, subscriptionId, looteries)) {
+        if (!consumers.includes(vrfConsumer.consumer)) continue
+        await coordinator
+            .removeConsumer(subscriptionId, vrfConsumer.consumer)
+            .then((tx) => tx.wait())
+        removed.push(vrfConsumer)
+    }
+    return removed
+}
+
+/**
+ * Get the balances and consumers of a subscription, and whether the given
+ * lotteries can be drawn with it
+ * @param coordinator VRF coordinator
+ * @param subscriptionId Subscription id
+ * @param looteries Addresses of lotteries to check; lotteries that aren't
+ *  randomised by Chainlink VRF are left out
+ */
+export async function getVrfSubscriptionStatus(
+    coordinator: SubscriptionAPI,
+    subscriptionId: bigint,
+    looteries: string[] = [],
+): Promise<VrfSubscriptionStatus> {
+    const { balance, nativeBalance, reqCount, subOwner, consumers } =
+        await coordinator.getSubscription(subscriptionId)
+    const coordinatorAddress = getAddress(await coordinator.getAddress())
+    const statuses: LooteryVrfStatus[] = []
+    for (const lootery of looteries) {
+        const vrfConsumer = await getLooteryVrfConsumer(lootery, coordinator.runner!)
+        if (!vrfConsumer) continue
+        const isRegistered =
+            vrfConsumer.coordinator === coordinatorAddress &&
+            vrfConsumer.subscriptionId === subscriptionId &&
+            consumers.includes(vrfConsumer.consumer)
+        const contract = Lootery__factory.connect(lootery, coordinator.runner)
+        const { id, state } = await contract.currentGame()
+        const pendingRequestId =
+            Number(state) === GameState.DrawPending
+                ? await contract.randomnessRequests(id).then(({ requestId }) => requestId)
+                : undefined
+        statuses.push({ ...vrfConsumer, isRegistered, pendingRequestId })
+    }
+    return {
+        subscriptionId,
+        owner: subOwner,
+        balance,
+        nativeBalance,
+        requestCount: reqCount,
+        consumers: [...consumers],
+        looteries: statuses,
+    }
+}
+
+/**
+ * Get the VRF consumers of lotteries
+ * @throws if a lottery isn't randomised by this coordinator and subscription,
+ *  since registering its consumer wouldn't make it drawable
+ */
+async function getVrfConsumers(
+    coordinator: SubscriptionAPI,
+    subscriptionId: bigint,
+    looteries: string[],
+) {
+    const coordinatorAddress = getAddress(await coordinator.getAddress())
+    const vrfConsumers: LooteryVrfConsumer[] = []
+    for (const lootery of looteries) {
+        const vrfConsumer = await getLooteryVrfConsumer(lootery, coordinator.runner!)
+        if (!vrfConsumer) {
+            throw new Error(`Lottery ${lootery} is not randomised by Chainlink VRF`)
+        }
+        if (
+            vrfConsumer.coordinator !== coordinatorAddress ||
+            vrfConsumer.subscriptionId !== subscriptionId
+        ) {
+            throw new Error(
+                `Lottery ${lootery} requests randomness from subscription ` +
+                    `${vrfConsumer.subscriptionId} on coordinator ${vrfConsumer.coordinator}`,
+            )
+        }
+        vrfConsumers.push(vrfConsumer)
+    }
+    return vrfConsumers
+}
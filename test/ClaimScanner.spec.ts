@@ -0,0 +1,200 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { LooteryFactory, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployLooteryDependencies } from './helpers/fixtures'
+import { deployLotto } from './helpers/lotto'
+import { LooteryClient, TicketClaimStatus, chunkClaimsByGas } from '../sdk'
+
+describe('Claim scanner', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    const gamePeriod = 3600n
+    const winningTicket = [31n, 35n, 37n, 56n, 61n]
+    const losingTicket = [3n, 11n, 22n, 29n, 42n]
+    beforeEach(async () => {
+        ;({ deployer, bob, alice, testERC20, factory } =
+            await loadFixture(deployLooteryDependencies))
+    })
+
+    async function deploy() {
+        const lottoData = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod,
+            prizeToken: testERC20,
+        })
+        const client = LooteryClient.connect(await lottoData.lotto.getAddress(), bob)
+        await testERC20.mint(bob, parseEther('10'))
+        return { ...lottoData, client }
+    }
+
+    it('should classify pending, winning and losing tickets', async () => {
+        const { lotto, client, fastForwardAndDraw } = await deploy()
+        const {
+            tokenIds: [winner, loser],
+        } = await client.purchase([
+            { whomst: bob.address, pick: winningTicket },
+            { whomst: bob.address, pick: losingTicket },
+        ])
+        expect((await client.scanTickets(bob.address)).map((ticket) => ticket.status)).to.deep.eq([
+            TicketClaimStatus.PendingDraw,
+            TicketClaimStatus.PendingDraw,
+        ])
+
+        await fastForwardAndDraw(6942069420n)
+        const {
+            tokenIds: [pending],
+        } = await client.purchase([{ whomst: bob.address, pick: losingTicket }])
+        const unclaimedPayouts = await lotto.unclaimedPayouts()
+        const scanned = await client.scanTickets(bob.address)
+        expect(
+            scanned.map(({ tokenId, status, expectedPayout }) => [tokenId, status, expectedPayout]),
+        ).to.deep.eq([
+            [winner, TicketClaimStatus.WinningClaimable, unclaimedPayouts],
+            [loser, TicketClaimStatus.NoWin, 0n],
+            [pending, TicketClaimStatus.PendingDraw, 0n],
+        ])
+
+        await client.claimWinnings(winner)
+        const [claimed] = await client.scanTickets(bob.address)
+        expect(claimed.status).to.eq(TicketClaimStatus.WinningClaimed)
+        expect(claimed.expectedPayout).to.eq(0n)
+    })
+
+    it('should split expected payouts between winners', async () => {
+        const { lotto, client, fastForwardAndDraw } = await deploy()
+        await client.purchase([
+            { whomst: bob.address, pick: winningTicket },
+            { whomst: alice.address, pick: winningTicket },
+            { whomst: bob.address, pick: winningTicket },
+        ])
+        await fastForwardAndDraw(6942069420n)
+        const unclaimedPayouts = await lotto.unclaimedPayouts()
+        const scanned = await client.scanTickets(bob.address)
+        expect(scanned.map((ticket) => ticket.expectedPayout)).to.deep.eq([
+            unclaimedPayouts / 3n,
+            unclaimedPayouts / 3n,
+        ])
+
+        // Payout is computed from what remains after each claim, as on-chain
+        const results = await client.claimAll(bob.address)
+        expect(results.map((result) => result.value)).to.deep.eq([
+            unclaimedPayouts / 3n,
+            (unclaimedPayouts - unclaimedPayouts / 3n) / 2n,
+        ])
+    })
+
+    it('should claim everything in batches that fit the gas limit', async () => {
+        const { lotto, client, fastForwardAndDraw } = await deploy()
+        const { tokenIds } = await client.purchase([
+            { whomst: bob.address, pick: winningTicket },
+            { whomst: bob.address, pick: losingTicket },
+            { whomst: bob.address, pick: winningTicket },
+            { whomst: bob.address, pick: winningTicket },
+        ])
+        await fastForwardAndDraw(6942069420n)
+        const unclaimedPayouts = await lotto.unclaimedPayouts()
+        const winners = [tokenIds[0], tokenIds[2], tokenIds[3]]
+        // Only two claims fit in each transaction
+        const baseGas = await lotto.claimWinningsBatch.estimateGas([])
+        const claimGas = await lotto.claimWinningsBatch.estimateGas([winners[0]])
+        const gasLimit = baseGas + 2n * (claimGas - baseGas)
+        expect(await chunkClaimsByGas(lotto, winners, gasLimit)).to.deep.eq([
+            winners.slice(0, 2),
+            winners.slice(2),
+        ])
+
+        const balanceBefore = await testERC20.balanceOf(bob.address)
+        const results = await client.claimAllBatched(bob.address, { gasLimit })
+        expect(results.map((result) => result.tokenId)).to.deep.eq(winners)
+        expect(new Set(results.map((result) => result.tx.hash)).size).to.eq(2)
+        const totalClaimed = results.reduce((sum, result) => sum + result.value, 0n)
+        expect(totalClaimed).to.eq(unclaimedPayouts)
+        expect(await testERC20.balanceOf(bob.address)).to.eq(balanceBefore + totalClaimed)
+        expect((await client.scanTickets(bob.address)).map((ticket) => ticket.status)).to.deep.eq([
+            TicketClaimStatus.WinningClaimed,
+            TicketClaimStatus.NoWin,
+            TicketClaimStatus.WinningClaimed,
+            TicketClaimStatus.WinningClaimed,
+        ])
+    })
+
+    it('should mark tickets expired after the claim window', async () => {
+        const { client, fastForwardAndDraw } = await deploy()
+        await client.purchase([{ whomst: bob.address, pick: winningTicket }])
+        await fastForwardAndDraw(6942069420n)
+        // Skip a game
+        await time.increase(gamePeriod)
+        await client.draw()
+        const [expired] = await client.scanTickets(bob.address)
+        expect(expired.status).to.eq(TicketClaimStatus.Expired)
+        expect(expired.isWinner).to.eq(true)
+        expect(await client.claimAll(bob.address)).to.deep.eq([])
+    })
+
+    it('should keep last game tickets claimable while the next draw is pending', async () => {
+        const { client, fastForwardAndDraw } = await deploy()
+        await client.purchase([{ whomst: bob.address, pick: winningTicket }])
+        await fastForwardAndDraw(6942069420n)
+        await client.purchase([{ whomst: bob.address, pick: losingTicket }])
+        await time.increase(gamePeriod)
+        await client.draw()
+        const [lastGame, currentGame] = await client.scanTickets(bob.address)
+        expect(lastGame.status).to.eq(TicketClaimStatus.WinningClaimable)
+        expect(currentGame.status).to.eq(TicketClaimStatus.PendingDraw)
+    })
+
+    it('should classify and claim tickets across games within the claim window', async () => {
+        const { lotto, client, fastForwardAndDraw } = await deploy()
+        await lotto.setClaimWindow(2, 0)
+        const {
+            tokenIds: [first],
+        } = await client.purchase([{ whomst: bob.address, pick: winningTicket }])
+        await fastForwardAndDraw(6942069420n)
+        const {
+            tokenIds: [second],
+        } = await client.purchase([{ whomst: bob.address, pick: winningTicket }])
+        await fastForwardAndDraw(6942069420n)
+        expect(await client.getClaimWindow()).to.deep.eq({ numGames: 2n, duration: 0n })
+
+        const payouts = [await lotto.gameUnclaimedPayouts(0), await lotto.gameUnclaimedPayouts(1)]
+        const scanned = await client.scanTickets(bob.address)
+        expect(
+            scanned.map(({ tokenId, status, expectedPayout }) => [tokenId, status, expectedPayout]),
+        ).to.deep.eq([
+            [first, TicketClaimStatus.WinningClaimable, payouts[0]],
+            [second, TicketClaimStatus.WinningClaimable, payouts[1]],
+        ])
+        const results = await client.claimAll(bob.address)
+        expect(results.map((result) => result.value)).to.deep.eq(payouts)
+    })
+
+    it('should compute consolation payouts once the lottery is dead', async () => {
+        const { lotto, client, fastForwardAndDraw } = await deploy()
+        await client.purchase([
+            { whomst: bob.address, pick: losingTicket },
+            { whomst: bob.address, pick: losingTicket },
+            { whomst: alice.address, pick: losingTicket },
+        ])
+        await lotto.kill()
+        await fastForwardAndDraw(6942069420n)
+        const unclaimedPayouts = await lotto.unclaimedPayouts()
+        const scanned = await client.scanTickets(bob.address)
+        expect(scanned.map(({ status, expectedPayout }) => [status, expectedPayout])).to.deep.eq([
+            [TicketClaimStatus.ConsolationClaimable, unclaimedPayouts / 3n],
+            [TicketClaimStatus.ConsolationClaimable, unclaimedPayouts / 3n],
+        ])
+
+        const balanceBefore = await testERC20.balanceOf(bob.address)
+        const results = await client.claimAll(bob.address)
+        const totalClaimed = results.reduce((sum, result) => sum + result.value, 0n)
+        expect(await testERC20.balanceOf(bob.address)).to.eq(balanceBefore + totalClaimed)
+        // Consolation claims burn the ticket
+        expect(await client.getOwnedTokenIds(bob.address)).to.deep.eq([])
+    })
+})
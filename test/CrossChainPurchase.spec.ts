@@ -0,0 +1,201 @@
+import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs'
+import {
+    BurnMintERC677Helper,
+    MockFeeRouter__factory,
+    Sender,
+    Sender__factory,
+    type Lootery,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import {
+    CROSS_CHAIN_TICKET_PRICE as TICKET_PRICE,
+    deployCrossChainFixture,
+} from './helpers/fixtures'
+import {
+    DeliveryTimeoutError,
+    DestinationNotConfiguredError,
+    IncorrectPaymentAmountError,
+    InvalidBallValueError,
+    computePickId,
+    decodeTicketPayload,
+    encodeTicketPayload,
+    purchaseCrossChain,
+    quoteCrossChainPurchase,
+    sendCrossChainPurchase,
+    waitForCrossChainDelivery,
+} from '../sdk'
+
+describe('Cross-chain purchase', () => {
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let chainSelector: bigint
+    let ccipBnM: BurnMintERC677Helper
+    let sender: Sender
+    let lotto: Lootery
+    let link: string
+    beforeEach(async () => {
+        const fixture = await loadFixture(deployCrossChainFixture)
+        ;({ deployer, bob, alice, lotto, sender } = fixture)
+        ;({ chainSelector, link, ccipBnM } = fixture.ccip)
+        // 1 CCIP-BnM
+        await ccipBnM.drip(bob.address)
+    })
+
+    it('should round-trip the ticket payload', async () => {
+        const tickets = [
+            { whomst: bob.address, pick: [1n, 2n, 3n, 4n, 5n] },
+            { whomst: alice.address, pick: [] },
+        ]
+        expect(decodeTicketPayload(encodeTicketPayload(tickets))).to.deep.eq(tickets)
+    })
+
+    it('should reject invalid picks before sending', async () => {
+        const bobSender = sender.connect(bob)
+        await expect(
+            sendCrossChainPurchase(bobSender, {
+                destinationChainSelector: chainSelector,
+                receiver: await lotto.getAddress(),
+                tickets: [{ whomst: bob.address, pick: [1, 2, 3, 4, 70] }],
+                rules: { pickLength: 5, maxBallValue: 69 },
+            }),
+        ).to.be.rejectedWith(InvalidBallValueError)
+    })
+
+    it('should quote the cost of a purchase', async () => {
+        const receiver = await lotto.getAddress()
+        const tickets = [1n, 2n, 3n].map((ball) => ({
+            whomst: bob.address,
+            pick: [ball, 10n, 11n, 12n, 13n],
+        }))
+        const quote = await quoteCrossChainPurchase(sender, chainSelector, receiver, tickets)
+        expect(quote.paymentToken).to.eq(await ccipBnM.getAddress())
+        expect(quote.ticketPrice).to.eq(TICKET_PRICE)
+        expect(quote.ticketCost).to.eq(TICKET_PRICE * 3n)
+        expect(quote.feeToken).to.eq(ZeroAddress)
+        // The simulator charges no fees
+        expect(quote.ccipFee).to.eq(0n)
+    })
+
+    it('should refuse to quote a lottery that the Sender is not configured for', async () => {
+        const quote = quoteCrossChainPurchase(sender, chainSelector, bob.address, [
+            { whomst: bob.address, pick: [1, 2, 3, 4, 5] },
+        ])
+        await expect(quote).to.be.rejectedWith(DestinationNotConfiguredError)
+    })
+
+    it('should quote the fee for exactly the message that is sent', async () => {
+        // Unlike the simulator, this router's fee depends on the whole message
+        const router = await new MockFeeRouter__factory(deployer).deploy()
+        const feeSender = await new Sender__factory(deployer).deploy(router, ccipBnM)
+        await feeSender.setDestinationConfig(chainSelector, lotto, TICKET_PRICE, 0, 0)
+        const tickets = [
+            { whomst: bob.address, pick: [1n, 2n, 3n, 4n, 5n] },
+            { whomst: alice.address, pick: [6n, 7n, 8n, 9n, 10n] },
+        ]
+        const [ticketCost, fees] = await feeSender.getSendFees(
+            chainSelector,
+            lotto,
+            tickets,
+            ZeroAddress,
+        )
+        expect(ticketCost).to.eq(TICKET_PRICE * 2n)
+        expect(fees).to.be.greaterThan(0n)
+
+        await ccipBnM.connect(bob).approve(feeSender, ticketCost)
+        await expect(
+            feeSender
+                .connect(bob)
+                .sendMessage(chainSelector, lotto, tickets, ZeroAddress, { value: fees }),
+        )
+            .to.emit(feeSender, 'MessageSent')
+            .withArgs(
+                anyValue,
+                chainSelector,
+                await lotto.getAddress(),
+                bob.address,
+                [await ccipBnM.getAddress(), ticketCost],
+                fees,
+            )
+    })
+
+    it('should pay the CCIP fee in LINK', async () => {
+        const { sent } = await purchaseCrossChain(sender.connect(bob), lotto, {
+            destinationChainSelector: chainSelector,
+            tickets: [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }],
+            feeToken: link,
+        })
+        expect(sent.bridgedAmount).to.eq(TICKET_PRICE)
+        expect(sent.fees).to.eq(0n)
+    })
+
+    it('should purchase tickets cross-chain and report the minted token ids', async () => {
+        const picks = [
+            [1n, 2n, 3n, 4n, 5n],
+            [6n, 7n, 8n, 9n, 10n],
+        ]
+        const { sent, delivered } = await purchaseCrossChain(sender.connect(bob), lotto, {
+            destinationChainSelector: chainSelector,
+            tickets: picks.map((pick) => ({ whomst: alice.address, pick })),
+        })
+
+        expect(delivered.messageId).to.eq(sent.messageId)
+        expect(delivered.sourceChainSelector).to.eq(chainSelector)
+        expect(delivered.receivedAmount).to.eq(sent.bridgedAmount)
+        expect(delivered.tokenIds).to.deep.eq([1n, 2n])
+        for (const [i, tokenId] of delivered.tokenIds.entries()) {
+            const { gameId, pickId } = await lotto.purchasedTickets(tokenId)
+            expect(gameId).to.eq(0n)
+            expect(pickId).to.eq(computePickId(picks[i]))
+        }
+        expect(await ccipBnM.balanceOf(bob.address)).to.eq(parseEther('1') - TICKET_PRICE * 2n)
+    })
+
+    it('should refuse to send if the Sender underpays the destination ticket price', async () => {
+        await lotto.changeTicketPrice(TICKET_PRICE + 1n)
+        await expect(
+            purchaseCrossChain(sender.connect(bob), lotto, {
+                destinationChainSelector: chainSelector,
+                tickets: [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }],
+            }),
+        ).to.be.rejectedWith(IncorrectPaymentAmountError)
+    })
+
+    it('should purchase at the new price once the destination has pushed it', async () => {
+        await lotto.changeTicketPrice(TICKET_PRICE * 2n)
+        await lotto.syncTicketPrice(chainSelector, sender)
+        const { delivered } = await purchaseCrossChain(sender.connect(bob), lotto, {
+            destinationChainSelector: chainSelector,
+            tickets: [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }],
+        })
+        expect(delivered.receivedAmount).to.eq(TICKET_PRICE * 2n)
+        expect(delivered.tokenIds).to.deep.eq([1n])
+    })
+
+    it('should only report tickets minted by the tracked message', async () => {
+        const first = await purchaseCrossChain(sender.connect(bob), lotto, {
+            destinationChainSelector: chainSelector,
+            tickets: [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }],
+        })
+        const second = await purchaseCrossChain(sender.connect(bob), lotto, {
+            destinationChainSelector: chainSelector,
+            tickets: [{ whomst: bob.address, pick: [1, 2, 3, 4, 6] }],
+        })
+        const redelivered = await waitForCrossChainDelivery(lotto, first.sent.messageId)
+        expect(redelivered.tokenIds).to.deep.eq(first.delivered.tokenIds)
+        expect(second.delivered.tokenIds).to.deep.eq([2n])
+    })
+
+    it('should time out waiting for an unknown message', async () => {
+        await expect(
+            waitForCrossChainDelivery(lotto, ethers.id('unknown'), {
+                pollingIntervalMs: 10,
+                timeoutMs: 50,
+            }),
+        ).to.be.rejectedWith(DeliveryTimeoutError)
+    })
+})
@@ -0,0 +1,263 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { BurnMintERC677Helper, IERC721__factory, Sender, type Lootery } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs'
+import {
+    CROSS_CHAIN_TICKET_PRICE as TICKET_PRICE,
+    deployCrossChainFixture,
+} from './helpers/fixtures'
+import { computePickId } from './helpers/lotto'
+import { encodeTicketPayload } from '../sdk'
+
+describe('Lootery CCIP e2e', () => {
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let chainSelector: bigint
+    let ccipBnM: BurnMintERC677Helper
+    let sender: Sender
+    let lotto: Lootery
+    beforeEach(async () => {
+        const fixture = await loadFixture(deployCrossChainFixture)
+        ;({ deployer, bob, alice, lotto, sender } = fixture)
+        ;({ chainSelector, ccipBnM } = fixture.ccip)
+        await ccipBnM.drip(bob.address)
+        await ccipBnM.connect(bob).approve(sender, parseEther('1'))
+    })
+
+    /**
+     * Split of a cross-chain payment on the destination, which is the same
+     * as that of `Lootery.purchase` without a beneficiary
+     * @param ticketsCount Number of tickets
+     */
+    async function computeSplit(ticketsCount: bigint) {
+        const totalPrice = TICKET_PRICE * ticketsCount
+        const communityFeeShare = (totalPrice * (await lotto.communityFeeBps())) / 10000n
+        return {
+            totalPrice,
+            communityFeeShare,
+            jackpotShare: totalPrice - communityFeeShare,
+        }
+    }
+
+    it('should mint tickets and record the message on the destination', async () => {
+        const tickets = [
+            { whomst: alice.address, pick: [3n, 11n, 22n, 29n, 42n] },
+            { whomst: bob.address, pick: [1n, 2n, 3n, 4n, 5n] },
+        ]
+        const { totalPrice, jackpotShare } = await computeSplit(2n)
+        const jackpotBefore = await lotto.jackpot()
+
+        const tx = sender
+            .connect(bob)
+            .sendMessage(chainSelector, await lotto.getAddress(), tickets, ZeroAddress)
+        await expect(tx)
+            .to.emit(lotto, 'TicketPurchased')
+            .withArgs(0n, alice.address, 1n, tickets[0].pick)
+        await expect(tx)
+            .to.emit(lotto, 'TicketPurchased')
+            .withArgs(0n, bob.address, 2n, tickets[1].pick)
+        const receipt = await (await tx).wait()
+        const [messageSent] = await sender.queryFilter(
+            sender.filters.MessageSent(),
+            receipt!.blockNumber,
+        )
+        const { messageId } = messageSent.args
+        await expect(tx).to.emit(lotto, 'MessageReceived')
+
+        // Message is recorded
+        expect(await lotto.receivedMessages(0)).to.eq(messageId)
+        await expect(lotto.receivedMessages(1)).to.be.reverted
+        const detail = await lotto.messageDetail(messageId)
+        expect(detail.sourceChainSelector).to.eq(chainSelector)
+        expect(detail.sender).to.eq(await sender.getAddress())
+        expect(detail.token).to.eq(await ccipBnM.getAddress())
+        expect(detail.amount).to.eq(totalPrice)
+        expect(detail.encodedTicket).to.eq(encodeTicketPayload(tickets))
+
+        // Tickets are recorded and minted
+        expect((await lotto.gameData(0)).ticketsSold).to.eq(2n)
+        const ticket = IERC721__factory.connect(await lotto.ticket(), deployer)
+        for (const [i, { whomst, pick }] of tickets.entries()) {
+            const tokenId = BigInt(i + 1)
+            expect(await ticket.ownerOf(tokenId)).to.eq(whomst)
+            expect((await lotto.purchasedTickets(tokenId)).pickId).to.eq(computePickId(pick))
+        }
+
+        // Jackpot is backed by the bridged tokens
+        expect(await lotto.jackpot()).to.eq(jackpotBefore + jackpotShare)
+        expect(await ccipBnM.balanceOf(lotto)).to.eq(totalPrice)
+    })
+
+    it('should record every received message', async () => {
+        const messageIds = []
+        for (let i = 0; i < 3; i++) {
+            const tx = await sender
+                .connect(bob)
+                .sendMessage(
+                    chainSelector,
+                    await lotto.getAddress(),
+                    [{ whomst: bob.address, pick: [1, 2, 3, 4, 5 + i] }],
+                    ZeroAddress,
+                )
+            const receipt = await tx.wait()
+            const [messageSent] = await sender.queryFilter(
+                sender.filters.MessageSent(),
+                receipt!.blockNumber,
+            )
+            messageIds.push(messageSent.args.messageId)
+        }
+        for (const [i, messageId] of messageIds.entries()) {
+            expect(await lotto.receivedMessages(i)).to.eq(messageId)
+        }
+        expect(new Set(messageIds).size).to.eq(3)
+        expect((await lotto.gameData(0)).ticketsSold).to.eq(3n)
+    })
+
+    describe('Fee split', () => {
+        it('should forward the full price and split it on the destination', async () => {
+            const { totalPrice, communityFeeShare, jackpotShare } = await computeSplit(1n)
+
+            await expect(
+                sender
+                    .connect(bob)
+                    .sendMessage(
+                        chainSelector,
+                        await lotto.getAddress(),
+                        [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }],
+                        ZeroAddress,
+                    ),
+            )
+                .to.emit(lotto, 'BeneficiaryPaid')
+                .withArgs(0n, await lotto.getAddress(), communityFeeShare)
+
+            // Destination: the payment is split between jackpot and community fees
+            expect(await lotto.jackpot()).to.eq(jackpotShare)
+            expect(await lotto.accruedCommunityFees()).to.eq(communityFeeShare)
+            expect(await ccipBnM.balanceOf(lotto)).to.eq(totalPrice)
+            // Source: nothing is left in the Sender
+            expect(await ccipBnM.balanceOf(sender)).to.eq(0n)
+            expect(await ccipBnM.balanceOf(bob)).to.eq(parseEther('1') - totalPrice)
+        })
+
+        it('should split the payment like a same-chain purchase', async () => {
+            const { jackpotShare, communityFeeShare } = await computeSplit(1n)
+            await ccipBnM.drip(alice.address)
+            await ccipBnM.connect(alice).approve(lotto, TICKET_PRICE)
+            await lotto
+                .connect(alice)
+                .purchase([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }], ZeroAddress)
+            expect(await lotto.jackpot()).to.eq(jackpotShare)
+            expect(await lotto.accruedCommunityFees()).to.eq(communityFeeShare)
+
+            await sender
+                .connect(bob)
+                .sendMessage(
+                    chainSelector,
+                    await lotto.getAddress(),
+                    [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }],
+                    ZeroAddress,
+                )
+            expect(await lotto.jackpot()).to.eq(jackpotShare * 2n)
+            expect(await lotto.accruedCommunityFees()).to.eq(communityFeeShare * 2n)
+        })
+    })
+
+    describe('Sender configuration', () => {
+        const tickets = () => [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }]
+
+        it('should only allow the owner to configure destinations', async () => {
+            await expect(
+                sender.connect(bob).setDestinationConfig(chainSelector, lotto, 1n, 0, 0),
+            ).to.be.revertedWith('Only callable by owner')
+            await expect(
+                sender.connect(bob).removeDestination(chainSelector, lotto),
+            ).to.be.revertedWith('Only callable by owner')
+        })
+
+        it('should configure destinations, with default gas limits', async () => {
+            const lottoAddress = await lotto.getAddress()
+            await expect(sender.setDestinationConfig(chainSelector, lotto, 0n, 0, 0))
+                .to.be.revertedWithCustomError(sender, 'InvalidTicketPrice')
+                .withArgs(0n)
+
+            const baseGasLimit = await sender.BASE_GAS_LIMIT()
+            const gasLimitPerTicket = await sender.GAS_LIMIT_PER_TICKET()
+            await expect(sender.setDestinationConfig(chainSelector, lotto, 2n, 0, 0))
+                .to.emit(sender, 'DestinationConfigSet')
+                .withArgs(chainSelector, lottoAddress, 2n, baseGasLimit, gasLimitPerTicket)
+            expect(await sender.getGasLimit(chainSelector, lotto, 3n)).to.eq(
+                baseGasLimit + gasLimitPerTicket * 3n,
+            )
+
+            await sender.setDestinationConfig(chainSelector, lotto, 2n, 100_000n, 300_000n)
+            expect(await sender.destinationConfigs(chainSelector, lotto)).to.deep.eq([
+                2n,
+                100_000n,
+                300_000n,
+            ])
+            expect(await sender.getGasLimit(chainSelector, lotto, 3n)).to.eq(1_000_000n)
+        })
+
+        it('should not sell tickets for lotteries that are not configured', async () => {
+            const lottoAddress = await lotto.getAddress()
+            await expect(sender.removeDestination(chainSelector, lotto))
+                .to.emit(sender, 'DestinationRemoved')
+                .withArgs(chainSelector, lottoAddress)
+            await expect(
+                sender
+                    .connect(bob)
+                    .sendMessage(chainSelector, lottoAddress, tickets(), ZeroAddress),
+            )
+                .to.be.revertedWithCustomError(sender, 'DestinationNotConfigured')
+                .withArgs(chainSelector, lottoAddress)
+        })
+
+        it('should charge the configured price', async () => {
+            await sender.setDestinationConfig(chainSelector, lotto, TICKET_PRICE * 3n, 0, 0)
+            await expect(
+                sender
+                    .connect(bob)
+                    .sendMessage(chainSelector, await lotto.getAddress(), tickets(), ZeroAddress),
+            ).to.changeTokenBalances(ccipBnM, [bob, lotto], [-TICKET_PRICE * 3n, TICKET_PRICE * 3n])
+        })
+
+        it('should refund native currency paid in excess of the CCIP fee', async () => {
+            await expect(
+                sender
+                    .connect(bob)
+                    .sendMessage(chainSelector, await lotto.getAddress(), tickets(), ZeroAddress, {
+                        value: parseEther('1'),
+                    }),
+            ).to.changeEtherBalances([bob, sender], [0n, 0n])
+        })
+
+        it('should apply a ticket price pushed by the destination lottery', async () => {
+            const lottoAddress = await lotto.getAddress()
+            await lotto.changeTicketPrice(TICKET_PRICE * 2n)
+            await expect(
+                lotto.connect(bob).syncTicketPrice(chainSelector, sender),
+            ).to.be.revertedWith('Only callable by owner')
+            const tx = lotto.syncTicketPrice(chainSelector, sender)
+            await expect(tx)
+                .to.emit(lotto, 'TicketPriceSyncSent')
+                .withArgs(anyValue, chainSelector, await sender.getAddress(), TICKET_PRICE * 2n)
+            await expect(tx)
+                .to.emit(sender, 'TicketPriceSynced')
+                .withArgs(anyValue, chainSelector, lottoAddress, TICKET_PRICE * 2n)
+            const config = await sender.destinationConfigs(chainSelector, lotto)
+            expect(config.ticketPrice).to.eq(TICKET_PRICE * 2n)
+            expect(config.baseGasLimit).to.eq(await sender.BASE_GAS_LIMIT())
+
+            // Cross-chain buyers pay the new price
+            await expect(
+                sender
+                    .connect(bob)
+                    .sendMessage(chainSelector, lottoAddress, tickets(), ZeroAddress),
+            ).to.emit(lotto, 'TicketPurchased')
+            expect(await ccipBnM.balanceOf(lotto)).to.eq(TICKET_PRICE * 2n)
+        })
+    })
+})
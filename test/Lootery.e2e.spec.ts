@@ -1,21 +1,27 @@
-import { ethers } from 'hardhat'
 import { loadFixture, time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
 import {
     LooteryFactory,
-    LooteryFactory__factory,
+    Lootery,
     Lootery__factory,
     MockRandomiser,
-    MockRandomiser__factory,
-    MockERC20__factory,
     type MockERC20,
-    TicketSVGRenderer__factory,
-    TicketSVGRenderer,
+    Ticket__factory,
+    VRFAdapter__factory,
 } from '../typechain-types'
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
-import { Wallet, ZeroAddress, parseEther } from 'ethers'
+import { ContractTransactionReceipt, Wallet, ZeroAddress, id, parseEther } from 'ethers'
 import { expect } from 'chai'
-import { deployProxy } from './helpers/deployProxy'
-import { computePickId, deployLotto, purchaseTicket, slikpik } from './helpers/lotto'
+import { computePickId, purchaseTicket, slikpik } from './helpers/lotto'
+import {
+    createLottoFixture,
+    deployLooteryDependencies,
+    deployLottoFixture,
+} from './helpers/fixtures'
+import { RandomnessProvider, fulfilRandomness } from './helpers/randomness'
+
+const deployVrfLottoFixture = createLottoFixture({
+    randomnessProvider: RandomnessProvider.ChainlinkVRF,
+})
 
 describe('Lootery e2e', () => {
     let mockRandomiser: MockRandomiser
@@ -24,52 +30,65 @@ describe('Lootery e2e', () => {
     let deployer: SignerWithAddress
     let bob: SignerWithAddress
     let alice: SignerWithAddress
-    let beneficiary: SignerWithAddress
-    let ticketSVGRenderer: TicketSVGRenderer
     beforeEach(async () => {
-        ;[deployer, bob, alice, beneficiary] = await ethers.getSigners()
-        mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
-        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
-        const looteryImpl = await new Lootery__factory(deployer).deploy()
-        ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
-        factory = await deployProxy({
-            deployer,
-            implementation: LooteryFactory__factory,
-            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
-                await looteryImpl.getAddress(),
-                await mockRandomiser.getAddress(),
-                await ticketSVGRenderer.getAddress(),
-            ]),
-        })
+        ;({ deployer, bob, alice, testERC20, mockRandomiser, factory } =
+            await loadFixture(deployLooteryDependencies))
     })
 
+    /** Randomness config for lotteries randomised by Anyrand */
+    const anyrand = {
+        provider: RandomnessProvider.Anyrand,
+        subscriptionId: 0n,
+        keyHash: id('lootery.keyHash'),
+    }
+
     /**
      * Helper to create lotteries using the factory
      * @param args Lootery init args
-     * @returns Lootery instance
+     * @returns Lootery instance and its ticket NFT
      */
     async function createLotto(...args: Parameters<LooteryFactory['create']>) {
         const lottoAddress = await factory.computeNextAddress()
         await factory.create(...args)
-        return Lootery__factory.connect(lottoAddress, deployer)
+        const lotto = Lootery__factory.connect(lottoAddress, deployer)
+        return {
+            lotto,
+            ticket: Ticket__factory.connect(await lotto.ticket(), deployer),
+        }
+    }
+
+    /**
+     * Decode the game finalised by a randomness fulfilment
+     * @param lotto Lottery that was drawn
+     * @param receipt Fulfilment receipt
+     * @returns Game id and winning balls
+     */
+    async function parseGameFinalised(lotto: Lootery, receipt: ContractTransactionReceipt | null) {
+        const lottoAddress = await lotto.getAddress()
+        const gameFinalisedEvent = receipt?.logs
+            .filter((log) => log.address === lottoAddress)
+            .map((log) => lotto.interface.parseLog(log))
+            .find((log) => log?.name === 'GameFinalised')
+        if (!gameFinalisedEvent) throw new Error('Fulfilment did not finalise the game')
+        return gameFinalisedEvent.args as unknown as [bigint, bigint[]]
     }
 
     it('runs happy path', async () => {
         // Launch a lottery
         const gamePeriod = BigInt(1 * 60 * 60) // 1h
-        const lotto = await createLotto(
+        const { lotto, ticket } = await createLotto(
             'Lotto',
             'LOTTO',
             5,
             69,
+            0, // no bonus ball
             gamePeriod,
             parseEther('0.1'),
             5000, // 50%,
             testERC20,
             3600, // 1 hour
             parseEther('1'),
-						1,
-						"0x9e1344a1247c8a1785d0a4681a27152bffdb43666ae5bf7d14d24a5efd44bf71"
+            anyrand,
         )
 
         // Allow seeding jackpot
@@ -93,25 +112,19 @@ describe('Lootery e2e', () => {
             ZeroAddress,
         )
         // Bob receives NFT ticket
-        expect(await lotto.balanceOf(bob.address)).to.eq(1)
-        expect(await lotto.ownerOf(1)).to.eq(bob.address)
+        expect(await ticket.balanceOf(bob.address)).to.eq(1)
+        expect(await ticket.ownerOf(1)).to.eq(bob.address)
 
         // Draw
         await time.increase(gamePeriod)
         await setBalance(await lotto.getAddress(), parseEther('0.1'))
         await lotto.draw()
-        let { requestId } = await lotto.randomnessRequest()
-        expect(requestId).to.not.eq(0n)
+        let { isInFlight } = await lotto.randomnessRequests(0)
+        expect(isInFlight).to.eq(true)
 
         // Fulfill w/ mock randomiser (no winners)
-        let fulfilmentTx = await mockRandomiser
-            .fulfillRandomWords(requestId, [6942069421])
-            .then((tx) => tx.wait(1))
-        let [emittedGameId, emittedBalls] = lotto.interface.decodeEventLog(
-            'GameFinalised',
-            fulfilmentTx?.logs?.[0].data!,
-            fulfilmentTx?.logs?.[0].topics,
-        ) as unknown as [bigint, bigint[]]
+        let fulfilmentTx = await fulfilRandomness(lotto, 6942069421n)
+        let [emittedGameId, emittedBalls] = await parseGameFinalised(lotto, fulfilmentTx)
         expect(emittedGameId).to.eq(0)
         expect(emittedBalls).to.deep.eq([12n, 13n, 25n, 51n, 65n])
         expect(await lotto.gameData(emittedGameId).then((game) => game.winningPickId)).to.eq(
@@ -137,25 +150,19 @@ describe('Lootery e2e', () => {
             ZeroAddress,
         )
         // Bob receives NFT ticket
-        expect(await lotto.balanceOf(bob.address)).to.eq(2)
-        expect(await lotto.ownerOf(2)).to.eq(bob.address)
+        expect(await ticket.balanceOf(bob.address)).to.eq(2)
+        expect(await ticket.ownerOf(2)).to.eq(bob.address)
 
         // Draw again
         await time.increase(gamePeriod)
         await setBalance(await lotto.getAddress(), parseEther('0.1'))
         await lotto.draw()
-        ;({ requestId } = await lotto.randomnessRequest())
-        expect(requestId).to.not.eq(0n)
+        ;({ isInFlight } = await lotto.randomnessRequests(1))
+        expect(isInFlight).to.eq(true)
 
         // Fulfill w/ mock randomiser (Bob wins)
-        fulfilmentTx = await mockRandomiser
-            .fulfillRandomWords(requestId, [6942069420])
-            .then((tx) => tx.wait(1))
-        ;[emittedGameId, emittedBalls] = lotto.interface.decodeEventLog(
-            'GameFinalised',
-            fulfilmentTx?.logs?.[0].data!,
-            fulfilmentTx?.logs?.[0].topics,
-        ) as unknown as [bigint, bigint[]]
+        fulfilmentTx = await fulfilRandomness(lotto, 6942069420n)
+        ;[emittedGameId, emittedBalls] = await parseGameFinalised(lotto, fulfilmentTx)
         expect(emittedGameId).to.eq(1)
         expect(emittedBalls).to.deep.eq(winningTicket)
         expect(await lotto.gameData(emittedGameId).then((game) => game.winningPickId)).to.eq(
@@ -171,7 +178,7 @@ describe('Lootery e2e', () => {
             .withArgs(2, 1, bob.address, jackpot)
         expect(await testERC20.balanceOf(bob.address)).to.eq(balanceBefore + jackpot)
         // Postcondition 1: Bob is still the owner of the ticket NFT (not burnt)
-        expect(await lotto.ownerOf(2)).to.eq(bob.address)
+        expect(await ticket.ownerOf(2)).to.eq(bob.address)
         // Postcondition 2: Bob can no longer claim the winnings with the same ticket
         await expect(lotto.claimWinnings(2)).to.be.revertedWithCustomError(lotto, 'AlreadyClaimed')
 
@@ -185,19 +192,19 @@ describe('Lootery e2e', () => {
     it('distributes winnings evenly', async () => {
         // Launch a lottery
         const gamePeriod = BigInt(1 * 60 * 60) // 1h
-        const lotto = await createLotto(
+        const { lotto, ticket } = await createLotto(
             'Lotto',
             'LOTTO',
             5,
             69,
+            0, // no bonus ball
             gamePeriod,
             parseEther('0.1'),
             5000, // 50%,
             testERC20,
             3600, // 1 hour
             parseEther('1'),
-						1,
-						"0x9e1344a1247c8a1785d0a4681a27152bffdb43666ae5bf7d14d24a5efd44bf71"
+            anyrand,
         )
 
         // Allow seeding jackpot
@@ -232,25 +239,19 @@ describe('Lootery e2e', () => {
             ZeroAddress,
         )
         // Bob receives NFT ticket
-        expect(await lotto.balanceOf(bob.address)).to.eq(1)
-        expect(await lotto.ownerOf(1)).to.eq(bob.address)
+        expect(await ticket.balanceOf(bob.address)).to.eq(1)
+        expect(await ticket.ownerOf(1)).to.eq(bob.address)
 
         // Draw
         await time.increase(gamePeriod)
         await setBalance(await lotto.getAddress(), parseEther('0.1'))
         await lotto.draw()
-        let { requestId } = await lotto.randomnessRequest()
-        expect(requestId).to.not.eq(0n)
+        const { isInFlight } = await lotto.randomnessRequests(0)
+        expect(isInFlight).to.eq(true)
 
         // Fulfill w/ mock randomiser (Bob wins)
-        const fulfilmentTx = await mockRandomiser
-            .fulfillRandomWords(requestId, [6942069420])
-            .then((tx) => tx.wait(1))
-        const [emittedGameId, emittedBalls] = lotto.interface.decodeEventLog(
-            'GameFinalised',
-            fulfilmentTx?.logs?.[0].data!,
-            fulfilmentTx?.logs?.[0].topics,
-        ) as unknown as [bigint, bigint[]]
+        const fulfilmentTx = await fulfilRandomness(lotto, 6942069420n)
+        const [emittedGameId, emittedBalls] = await parseGameFinalised(lotto, fulfilmentTx)
         expect(emittedGameId).to.eq(0n)
         expect(emittedBalls).to.deep.eq(winningTicket)
         expect(await lotto.gameData(emittedGameId).then((game) => game.winningPickId)).to.eq(
@@ -281,15 +282,7 @@ describe('Lootery e2e', () => {
 
     it('should rollover jackpot to next round if noone has won', async () => {
         const gamePeriod = 1n * 60n * 60n
-        async function deploy() {
-            return deployLotto({
-                deployer,
-                factory,
-                gamePeriod,
-                prizeToken: testERC20,
-            })
-        }
-        const { lotto, fastForwardAndDraw } = await loadFixture(deploy)
+        const { lotto, fastForwardAndDraw, testERC20 } = await loadFixture(deployLottoFixture)
 
         await testERC20.mint(deployer, parseEther('10'))
         await testERC20.approve(lotto, parseEther('10'))
@@ -335,15 +328,7 @@ describe('Lootery e2e', () => {
 
     it('should run games continuously, as long as gamePeriod has elapsed', async () => {
         const gamePeriod = 1n * 60n * 60n
-        async function deploy() {
-            return deployLotto({
-                deployer,
-                factory,
-                gamePeriod,
-                prizeToken: testERC20,
-            })
-        }
-        const { lotto, fastForwardAndDraw } = await loadFixture(deploy)
+        const { lotto, fastForwardAndDraw, testERC20 } = await loadFixture(deployLottoFixture)
 
         // Buy some tickets
         await testERC20.mint(deployer, parseEther('10'))
@@ -364,15 +349,7 @@ describe('Lootery e2e', () => {
 
     it('should be able to force redraw if draw is pending for too long', async () => {
         const gamePeriod = 1n * 60n * 60n
-        async function deploy() {
-            return deployLotto({
-                deployer,
-                factory,
-                gamePeriod,
-                prizeToken: testERC20,
-            })
-        }
-        const { lotto, mockRandomiser } = await loadFixture(deploy)
+        const { lotto, mockRandomiser, testERC20 } = await loadFixture(deployLottoFixture)
 
         // Buy some tickets
         await testERC20.mint(deployer, parseEther('10'))
@@ -383,19 +360,24 @@ describe('Lootery e2e', () => {
         await time.increase(gamePeriod)
         await setBalance(await lotto.getAddress(), parseEther('0.1'))
         await lotto.draw()
-        const { requestId: requestId0 } = await lotto.randomnessRequest()
+        const { requestId: requestId0 } = await lotto.randomnessRequests(0)
         // We should not be able to call forceRedraw yet
         await expect(lotto.forceRedraw()).to.be.revertedWithCustomError(lotto, 'WaitLonger')
 
         // Fast forward, then try to forceRedraw
         await time.increase(61 * 60) // ~1h
         await expect(lotto.forceRedraw()).to.emit(lotto, 'RandomnessRequested')
-        const { requestId: requestId1 } = await lotto.randomnessRequest()
+        const { requestId: requestId1 } = await lotto.randomnessRequests(0)
         expect(requestId1).to.not.eq(requestId0)
 
         // If we try to call forceRedraw immediately again, it should revert again
         await expect(lotto.forceRedraw()).to.be.revertedWithCustomError(lotto, 'WaitLonger')
 
+        // The superseded request can no longer be fulfilled
+        await expect(mockRandomiser.fulfillRandomWords(requestId0, [6942069420n]))
+            .to.be.revertedWithCustomError(lotto, 'RequestIdMismatch')
+            .withArgs(requestId0, requestId1)
+
         // Make sure we can fulfill and continue the game as normal
         // Fulfill w/ mock randomiser
         await expect(mockRandomiser.fulfillRandomWords(requestId1, [6942069420n])).to.emit(
@@ -404,56 +386,35 @@ describe('Lootery e2e', () => {
         )
     })
 
-    // The gas refund has been removed, since it's hard to test and not future proof
-    it.skip('should refund gas to draw() keeper', async () => {
-        async function deploy() {
-            return deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 86400n,
-                prizeToken: testERC20,
-                seedJackpotDelay: 3600n /** 1h */,
-                shouldSkipSeedJackpot: true,
-                seedJackpotMinValue: parseEther('10'),
-            })
-        }
-        const { lotto } = await loadFixture(deploy)
-        await deployer.sendTransaction({
-            to: await lotto.getAddress(),
-            value: parseEther('100.0'),
-        })
-        // NB: This shouldn't work but this test is no longer needed
-        await lotto.purchase(
-            [
-                {
-                    whomst: bob.address,
-                    pick: [1, 2, 3, 4, 5],
-                },
-            ],
-            ZeroAddress,
-        )
+    it('should draw with Chainlink VRF', async () => {
+        const { lotto, vrfCoordinator, fastForwardAndDraw, testERC20 } =
+            await loadFixture(deployVrfLottoFixture)
+        const adapter = VRFAdapter__factory.connect(await lotto.randomiser(), deployer)
+        const subscriptionId = await adapter.subscriptionId()
+        // The adapter, rather than the lotto, consumes the subscription
+        const { consumers } = await vrfCoordinator.getSubscription(subscriptionId)
+        expect(consumers).to.deep.eq([await adapter.getAddress()])
+        // Requests are paid for by the subscription
+        expect(await lotto.getRequestPrice()).to.eq(0n)
+
+        await testERC20.mint(deployer, parseEther('10'))
+        await testERC20.approve(lotto, parseEther('10'))
+        const winningTicket = [31n, 35n, 37n, 56n, 61n]
+        const { tokenId } = await purchaseTicket(lotto, bob.address, winningTicket)
 
-        const balanceBefore = await ethers.provider.getBalance(deployer.address)
-        await time.increase(await lotto.gamePeriod())
-        const drawTx = await lotto.draw()
-        await drawTx.wait()
-        const balanceAfter = await ethers.provider.getBalance(deployer.address)
-        expect(balanceAfter).to.be.gt(balanceBefore)
-        await expect(drawTx).to.emit(lotto, 'GasRefundAttempted')
+        // Fulfilled by the VRF coordinator mock, with the chosen word
+        expect(await fastForwardAndDraw(6942069420n)).to.deep.eq(winningTicket)
+        expect(await lotto.currentGame().then((game) => game.id)).to.eq(1n)
+        const jackpot = await lotto.unclaimedPayouts()
+        await expect(lotto.claimWinnings(tokenId))
+            .to.emit(lotto, 'WinningsClaimed')
+            .withArgs(tokenId, 0, bob.address, jackpot)
     })
 
     describe('Regression', () => {
         it('mint tickets to correct purchasers', async () => {
-            async function deploy() {
-                return deployLotto({
-                    deployer,
-                    factory,
-                    gamePeriod: 1n * 60n * 60n,
-                    prizeToken: testERC20,
-                })
-            }
-
-            const { lotto } = await loadFixture(deploy)
+            const { lotto, testERC20 } = await loadFixture(deployLottoFixture)
+            const ticket = Ticket__factory.connect(await lotto.ticket(), deployer)
             const pickLength = await lotto.pickLength()
             const domain = await lotto.maxBallValue()
 
@@ -473,23 +434,15 @@ describe('Lootery e2e', () => {
             for (let i = 0; i < randomAddresses.length; i++) {
                 const whomst = randomAddresses[i]
                 // Fixed bug that minted the NFT to only the last address in the list
-                expect(purchaseTx)
-                    .to.emit(lotto, 'Transfer')
+                await expect(purchaseTx)
+                    .to.emit(ticket, 'Transfer')
                     .withArgs(ZeroAddress, whomst, i + 1)
             }
         })
 
         it('should prevent skipping draws if gamePeriod has not elapsed', async () => {
             const gamePeriod = 1n * 60n * 60n
-            async function deploy() {
-                return deployLotto({
-                    deployer,
-                    factory,
-                    gamePeriod,
-                    prizeToken: testERC20,
-                })
-            }
-            const { lotto } = await loadFixture(deploy)
+            const { lotto } = await loadFixture(deployLottoFixture)
 
             // Fund the contract so it can draw
             await deployer.sendTransaction({
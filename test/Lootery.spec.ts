@@ -1,28 +1,39 @@
 import { ethers } from 'hardhat'
 import * as hre from 'hardhat'
-import { time, setBalance, impersonateAccount } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    loadFixture,
+    time,
+    setBalance,
+    impersonateAccount,
+} from '@nomicfoundation/hardhat-network-helpers'
 import {
     MockRandomiser,
-    MockRandomiser__factory,
-    MockERC20__factory,
     type MockERC20,
+    MockERC20__factory,
     TicketSVGRenderer__factory,
-    TicketSVGRenderer,
-    ILootery,
-    LooteryHarness__factory,
     LooteryHarness,
-    ERC20,
+    LooteryFactory,
     RevertingETHReceiver__factory,
     MockERC721__factory,
-    LooteryFactory__factory,
-    LooteryFactory,
+    Ticket,
+    Ticket__factory,
 } from '../typechain-types'
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
 import { ZeroAddress, parseEther } from 'ethers'
 import { expect } from 'chai'
-import { deployProxy } from './helpers/deployProxy'
+import { anyValue } from '@nomicfoundation/hardhat-chai-matchers/withArgs'
 import { GameState } from './helpers/GameState'
-import { computePick, computePickId, deployLotto, shuffle, slikpik } from './helpers/lotto'
+import { computePick, computePickId, shuffle, slikpik } from './helpers/lotto'
+import {
+    deployLooteryDependencies,
+    deployLooteryHarness,
+    deployLooteryHarnessFixture,
+    deploySeededLooteryHarnessFixture,
+    looteryHarnessFixtures,
+    type LooteryDependencies,
+    type LooteryHarnessFixture,
+} from './helpers/fixtures'
+import { RandomnessProvider } from './helpers/randomness'
 import { getRandomValues } from 'node:crypto'
 
 const isCoverage = Boolean((hre as any).__SOLIDITY_COVERAGE_RUNNING)
@@ -39,6 +50,9 @@ function randomBigInt(bytes: number) {
     return BigInt(`0x${Buffer.from(getRandomValues(new Uint8Array(bytes))).toString('hex')}`)
 }
 
+/** Randomness backends that the draw, redraw and claim specs run against */
+const randomnessProviders = [RandomnessProvider.Anyrand, RandomnessProvider.ChainlinkVRF]
+
 const allStates = Object.values(GameState).filter(
     (key): key is number => typeof key === 'number',
 ) as GameState[]
@@ -50,52 +64,36 @@ describe('Lootery', () => {
     let bob: SignerWithAddress
     let alice: SignerWithAddress
     let beneficiary: SignerWithAddress
-    let ticketSVGRenderer: TicketSVGRenderer
-    let validConfig: ILootery.InitConfigStruct
     let lotto: LooteryHarness
+    let ticket: Ticket
     let factory: LooteryFactory
-    beforeEach(async () => {
-        ;[deployer, bob, alice, beneficiary] = await ethers.getSigners()
-        mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
-        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
-        ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
-        factory = factory = await deployProxy({
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+
+    /**
+     * Load a lottery fixture into the variables shared by all tests
+     * @param fixture Seeded or unseeded lottery, randomised by any backend
+     */
+    async function load(fixture: LooteryHarnessFixture) {
+        const loaded = await loadFixture(fixture)
+        ;({
             deployer,
-            implementation: LooteryFactory__factory,
-            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
-                await new LooteryHarness__factory(deployer)
-                    .deploy()
-                    .then((contract) => contract.getAddress()),
-                await mockRandomiser.getAddress(),
-                await ticketSVGRenderer.getAddress(),
-            ]),
-        })
-
-        validConfig = {
-            owner: deployer.address,
-            name: 'Lotto',
-            symbol: 'LOTTO',
-            pickLength: 5,
-            maxBallValue: 69,
-            gamePeriod: 60n * 60n,
-            ticketPrice: parseEther('0.1'),
-            communityFeeBps: 5000, // 50%
-            randomiser: await mockRandomiser.getAddress(),
-            prizeToken: await testERC20.getAddress(),
-            seedJackpotDelay: 3600,
-            seedJackpotMinValue: parseEther('1'),
-            ticketSVGRenderer: await ticketSVGRenderer.getAddress(),
-        }
-    })
+            bob,
+            alice,
+            beneficiary,
+            testERC20,
+            mockRandomiser,
+            factory,
+            lotto,
+            ticket,
+            fastForwardAndDraw,
+        } = loaded)
+        return loaded
+    }
 
     describe('#typeAndVersion', () => {
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
+
         it('should return the correct type and version', async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
             const [type, version] = await lotto
                 .typeAndVersion()
                 .then((version) => version.split(' '))
@@ -105,14 +103,9 @@ describe('Lootery', () => {
     })
 
     describe('#receive', () => {
-        it('should receive ETH', async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
+        it('should receive ETH', async () => {
             await expect(
                 deployer.sendTransaction({ to: await lotto.getAddress(), value: parseEther('1') }),
             )
@@ -121,162 +114,142 @@ describe('Lootery', () => {
         })
     })
 
-    describe('#init', () => {
+    describe('#constructor', () => {
+        /** Dependencies to deploy more lotteries with */
+        let dependencies: LooteryDependencies
         beforeEach(async () => {
-            ;({ lotto } = await deployUninitialisedLootery(deployer))
+            dependencies = await load(deployLooteryHarnessFixture)
         })
 
-        it('should initialise when given valid config', async () => {
-            expect((await lotto.currentGame()).state).to.equal(GameState.Uninitialised)
-            const initTx = await lotto.init(validConfig).then((tx) => tx.wait())
+        it('should start the first game when given valid config', async () => {
+            const { lotto, ticket } = await deployLooteryHarness(dependencies, {})
+            const deployBlock = await lotto
+                .deploymentTransaction()!
+                .wait()
+                .then((receipt) => receipt!.getBlock())
             // State is initialised
-            expect((await lotto.currentGame()).state).to.equal(GameState.Purchase)
-            // Game data is well formed
             const game = await lotto.currentGame()
+            expect(game.state).to.equal(GameState.Purchase)
             expect(game.id).to.equal(0)
+            // Game data is well formed
             const gameData = await lotto.gameData(game.id)
             expect(gameData.ticketsSold).to.equal(0)
             expect(gameData.winningPickId).to.equal(0)
-            expect(gameData.startedAt).to.eq(
-                await initTx!.getBlock().then((block) => block.timestamp),
-            )
-            expect(await lotto.callbackGasLimit()).to.not.equal(0)
-        })
-
-        it('should revert if called twice', async () => {
-            await lotto.init(validConfig)
-            await expect(lotto.init(validConfig)).to.be.revertedWithCustomError(
-                lotto,
-                'InvalidInitialization',
-            )
+            expect(gameData.startedAt).to.eq(deployBlock.timestamp)
+            // Lottery mints its own tickets
+            expect(await ticket.lootery()).to.eq(await lotto.getAddress())
+            expect(await ticket.name()).to.eq('Lotto')
+            expect(await ticket.symbol()).to.eq('LOTTO')
+            expect(await lotto.owner()).to.eq(deployer.address)
         })
 
         it('should revert if pickLength == 0', async () => {
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    pickLength: 0,
-                }),
-            )
+            await expect(deployLooteryHarness(dependencies, { pickLength: 0 }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidPickLength')
+                .withArgs(0)
         })
 
         it('should revert if pickLength > maxBallValue', async () => {
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    maxBallValue: 5,
-                    pickLength: 6,
-                }),
-            ).to.be.revertedWithCustomError(lotto, 'InvalidMaxBallValue')
+            await expect(deployLooteryHarness(dependencies, { maxBallValue: 5, pickLength: 6 }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidMaxBallValue')
+                .withArgs(5)
 
             // pickLength == maxBallValue is ok (even though every ticket would be a winner)
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    maxBallValue: 6,
-                    pickLength: 6,
-                }),
-            ).to.not.be.reverted
+            await expect(deployLooteryHarness(dependencies, { maxBallValue: 6, pickLength: 6 })).to
+                .not.be.reverted
         })
 
         it('should revert if pickLength > 32', async () => {
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    pickLength: 33,
-                }),
-            ).to.be.revertedWithCustomError(lotto, 'InvalidPickLength')
+            await expect(deployLooteryHarness(dependencies, { pickLength: 33 }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidPickLength')
+                .withArgs(33)
         })
 
         it('should revert if gamePeriod < 10 minutes', async () => {
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    gamePeriod: 9n * 60n,
-                }),
-            ).to.be.revertedWithCustomError(lotto, 'InvalidGamePeriod')
+            await expect(deployLooteryHarness(dependencies, { gamePeriod: 9n * 60n }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidGamePeriod')
+                .withArgs(9n * 60n)
         })
 
         it('should revert if ticketPrice is unspecified', async () => {
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    ticketPrice: 0,
-                }),
-            ).to.be.revertedWithCustomError(lotto, 'InvalidTicketPrice')
+            await expect(deployLooteryHarness(dependencies, { ticketPrice: 0 }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidTicketPrice')
+                .withArgs(0)
         })
 
         it('should revert if community fee + protocol fee > 100%', async () => {
             const protocolFeeBps = await lotto.PROTOCOL_FEE_BPS()
             await expect(
-                lotto.init({
-                    ...validConfig,
+                deployLooteryHarness(dependencies, {
                     communityFeeBps: 10000n - protocolFeeBps + 1n,
                 }),
             ).to.be.revertedWithCustomError(lotto, 'InvalidFeeShares')
             await expect(
-                lotto.init({
-                    ...validConfig,
-                    communityFeeBps: 10000n - protocolFeeBps,
-                }),
+                deployLooteryHarness(dependencies, { communityFeeBps: 10000n - protocolFeeBps }),
             ).to.not.be.reverted
         })
 
         it('should revert if randomiser is unspecified', async () => {
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    randomiser: ZeroAddress,
-                }),
-            ).to.be.revertedWithCustomError(lotto, 'InvalidRandomiser')
+            await expect(deployLooteryHarness(dependencies, { randomiser: ZeroAddress }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidRandomiser')
+                .withArgs(ZeroAddress)
         })
 
         it('should revert if prizeToken is unspecified', async () => {
-            await expect(
-                lotto.init({
-                    ...validConfig,
-                    prizeToken: ZeroAddress,
-                }),
-            ).to.be.revertedWithCustomError(lotto, 'InvalidPrizeToken')
+            await expect(deployLooteryHarness(dependencies, { prizeToken: ZeroAddress }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidPrizeToken')
+                .withArgs(ZeroAddress)
         })
 
         it('should revert if seed jackpot config is invalid', async () => {
             await expect(
-                lotto.init({
-                    ...validConfig,
-                    seedJackpotDelay: 0,
-                }),
+                deployLooteryHarness(dependencies, { seedJackpotDelay: 0 }),
             ).to.be.revertedWithCustomError(lotto, 'InvalidSeedJackpotConfig')
             await expect(
-                lotto.init({
-                    ...validConfig,
-                    seedJackpotMinValue: 0,
-                }),
+                deployLooteryHarness(dependencies, { seedJackpotMinValue: 0 }),
             ).to.be.revertedWithCustomError(lotto, 'InvalidSeedJackpotConfig')
             await expect(
-                lotto.init({
-                    ...validConfig,
-                    seedJackpotDelay: 0,
-                    seedJackpotMinValue: 0,
-                }),
+                deployLooteryHarness(dependencies, { seedJackpotDelay: 0, seedJackpotMinValue: 0 }),
             ).to.be.revertedWithCustomError(lotto, 'InvalidSeedJackpotConfig')
         })
+
+        it('should revert if the ticket SVG renderer is invalid', async () => {
+            await expect(deployLooteryHarness(dependencies, { ticketSVGRenderer: ZeroAddress }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidTicketSVGRenderer')
+                .withArgs(ZeroAddress)
+        })
+
+        it('should revert if the ticket NFT is not for the lottery', async () => {
+            await expect(deployLooteryHarness(dependencies, { ticket: ZeroAddress }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidTicket')
+                .withArgs(ZeroAddress)
+            const otherTicket = await new Ticket__factory(deployer).deploy(
+                'Lotto',
+                'LOTTO',
+                bob.address,
+            )
+            await expect(deployLooteryHarness(dependencies, { ticket: otherTicket }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidTicket')
+                .withArgs(await otherTicket.getAddress())
+        })
+
+        it('should revert if an extension is invalid', async () => {
+            await expect(deployLooteryHarness(dependencies, { drawExtension: ZeroAddress }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidExtension')
+                .withArgs(ZeroAddress)
+            await expect(deployLooteryHarness(dependencies, { purchaseExtension: bob.address }))
+                .to.be.revertedWithCustomError(lotto, 'InvalidExtension')
+                .withArgs(bob.address)
+        })
     })
 
     describe('#setBeneficiary, #beneficiaries', () => {
-        beforeEach(async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
         it('should revert if called by non-owner', async () => {
             await expect(
                 lotto.connect(bob).setBeneficiary(beneficiary.address, 'Beneficiary', true),
-            ).to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
+            ).to.be.revertedWith('Only callable by owner')
         })
 
         it('should revert if display name is empty', async () => {
@@ -359,8 +332,9 @@ describe('Lootery', () => {
     })
 
     describe('#seedJackpot', () => {
+        beforeEach(() => load(deployLooteryHarnessFixture))
+
         it('should revert if called in any state other than Purchase', async () => {
-            const { lotto } = await deployUninitialisedLootery(deployer)
             const allOtherStates = allStates.filter((state) => state !== GameState.Purchase)
             for (const state of allOtherStates) {
                 await lotto.setGameState(state)
@@ -371,13 +345,6 @@ describe('Lootery', () => {
         })
 
         it('should seed the jackpot', async () => {
-            const { lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-                shouldSkipSeedJackpot: true,
-            })
             expect(await lotto.jackpot()).to.equal(0)
 
             const seedJackpotMinValue = await lotto.seedJackpotMinValue()
@@ -397,13 +364,6 @@ describe('Lootery', () => {
         })
 
         it('should revert if seeding jackpot with an amount below the minimum (DoS vector)', async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-                shouldSkipSeedJackpot: true,
-            }))
             const seedJackpotMinValue = await lotto.seedJackpotMinValue()
             await expect(lotto.seedJackpot(seedJackpotMinValue - 1n)).to.be.revertedWithCustomError(
                 lotto,
@@ -412,13 +372,6 @@ describe('Lootery', () => {
         })
 
         it('should enforce seed jackpot cooldown', async () => {
-            const { lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-                shouldSkipSeedJackpot: true,
-            })
             const seedJackpotMinValue = await lotto.seedJackpotMinValue()
             await testERC20.mint(deployer.address, seedJackpotMinValue * 10n)
             await testERC20.approve(await lotto.getAddress(), seedJackpotMinValue * 10n)
@@ -440,18 +393,10 @@ describe('Lootery', () => {
     })
 
     describe('#_pickTickets', () => {
-        beforeEach(async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
         // NB: _pickTickets doesn't deal with payment interactions (i.e. ERC-20 transfers)
         it('should revert if called in any state other than Purchase', async () => {
-            const { lotto } = await deployUninitialisedLootery(deployer)
             const allOtherStates = allStates.filter((state) => state !== GameState.Purchase)
             for (const state of allOtherStates) {
                 await lotto.setGameState(state)
@@ -462,11 +407,9 @@ describe('Lootery', () => {
         })
 
         it('should mint valid tickets', async () => {
-            await lotto.setGameState(GameState.Purchase)
-
             const game = await lotto.currentGame()
             const gameData0 = await lotto.gameData(game.id)
-            const totalSupply0 = await lotto.totalSupply()
+            const totalSupply0 = await ticket.totalSupply()
 
             // Pick 3 tickets
             await expect(lotto.pickTickets([{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }]))
@@ -487,18 +430,17 @@ describe('Lootery', () => {
             expect(gameData.ticketsSold).to.equal(gameData0.ticketsSold + 3n)
             expect(gameData.startedAt).to.equal(gameData0.startedAt)
             expect(gameData.winningPickId).to.equal(gameData0.winningPickId)
-            expect(await lotto.totalSupply()).to.equal(totalSupply0 + 3n)
+            expect(await ticket.totalSupply()).to.equal(totalSupply0 + 3n)
 
             // NFTs minted
-            expect(await lotto.ownerOf(1n)).to.equal(bob.address)
-            expect(await lotto.ownerOf(2n)).to.equal(alice.address)
-            expect(await lotto.ownerOf(3n)).to.equal(bob.address)
+            expect(await ticket.ownerOf(1n)).to.equal(bob.address)
+            expect(await ticket.ownerOf(2n)).to.equal(alice.address)
+            expect(await ticket.ownerOf(3n)).to.equal(bob.address)
         })
 
         it('should allow an empty pick to mint dummy tickets', async () => {
             // A player should be able to purchase a ticket specifying an empty pick,
             // which means that they only wish to donate and not participate in the lottery.
-            await lotto.setGameState(GameState.Purchase)
             const purchaseTx = lotto.pickTickets([
                 { whomst: alice.address, pick: [] },
                 { whomst: bob.address, pick: [] },
@@ -509,12 +451,11 @@ describe('Lootery', () => {
             await expect(purchaseTx)
                 .to.emit(lotto, 'TicketPurchased')
                 .withArgs(0, bob.address, 2n, [])
-            expect(await lotto.ownerOf(1n)).to.equal(alice.address)
-            expect(await lotto.ownerOf(2n)).to.equal(bob.address)
+            expect(await ticket.ownerOf(1n)).to.equal(alice.address)
+            expect(await ticket.ownerOf(2n)).to.equal(bob.address)
         })
 
         it('should revert if ticket has invalid pick length', async () => {
-            await lotto.setGameState(GameState.Purchase)
             await expect(lotto.pickTickets([{ whomst: bob.address, pick: [1, 2, 3, 4, 5, 6] }]))
                 .to.be.revertedWithCustomError(lotto, 'InvalidPickLength')
                 .withArgs(6)
@@ -530,14 +471,12 @@ describe('Lootery', () => {
         })
 
         it('should revert if ticket has duplicate picks', async () => {
-            await lotto.setGameState(GameState.Purchase)
             await expect(lotto.pickTickets([{ whomst: bob.address, pick: [1, 1, 3, 4, 5] }]))
                 .to.be.revertedWithCustomError(lotto, 'UnsortedPick')
                 .withArgs([1, 1, 3, 4, 5])
         })
 
         it('should revert if pick has invalid numbers', async () => {
-            await lotto.setGameState(GameState.Purchase)
             // 0 is invalid
             // NB: The revert message is "UnsortedPick" because the `lastPick` is initialised as 0,
             // and the code asserts strict ordering i.e. `lastPick < picks[i]`
@@ -553,15 +492,8 @@ describe('Lootery', () => {
     })
 
     describe('#purchase', () => {
-        beforeEach(async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-                shouldSkipSeedJackpot: true /** make sure it's empty initially */,
-            }))
-        })
+        // Make sure the jackpot is empty initially
+        beforeEach(() => load(deployLooteryHarnessFixture))
 
         it('should revert if no tickets were specified', async () => {
             await expect(lotto.purchase([], beneficiary.address)).to.be.revertedWithCustomError(
@@ -587,6 +519,7 @@ describe('Lootery', () => {
             )
                 .to.emit(lotto, 'TicketPurchased')
                 .withArgs(0, alice.address, 1n, [1, 2, 3, 4, 5])
+            expect(await ticket.balanceOf(alice.address)).to.eq(2n)
 
             const totalPurchasePrice = ticketPrice * 2n
             const communityShare = (totalPurchasePrice * (await lotto.communityFeeBps())) / 10000n
@@ -694,193 +627,175 @@ describe('Lootery', () => {
         })
     })
 
-    describe('#draw', () => {
-        beforeEach(async () => {
-            ;({ lotto, mockRandomiser } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
-
-        it('should revert if called in any state other than Purchase', async () => {
-            const { lotto } = await deployUninitialisedLootery(deployer)
-            const allOtherStates = allStates.filter((state) => state !== GameState.Purchase)
-            for (const state of allOtherStates) {
-                await lotto.setGameState(state)
-                await expect(lotto.draw())
-                    .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
-                    .withArgs(state)
-            }
-        })
-
-        it('should revert if the game period has not elapsed', async () => {
-            // Immediately draw after deploying, game period is 1h -> game period has not elapsed
-            await expect(lotto.draw()).to.be.revertedWithCustomError(lotto, 'WaitLonger')
-            // Try again after 1h
-            await time.increase(3600n)
-            await expect(lotto.draw()).to.not.be.reverted
-        })
-
-        it('should revert if there are no tickets sold in current game, but apocalypse mode was triggered', async () => {
-            await lotto.kill()
-            await time.increase(3600n)
-
-            const { id } = await lotto.currentGame()
-            const { ticketsSold } = await lotto.gameData(id)
-            expect(ticketsSold).to.eq(0)
-            await expect(lotto.draw()).to.be.revertedWithCustomError(lotto, 'NoTicketsSold')
-        })
+    for (const randomnessProvider of randomnessProviders) {
+        describe(`#draw (${RandomnessProvider[randomnessProvider]})`, () => {
+            beforeEach(() =>
+                load(looteryHarnessFixtures[randomnessProvider].deploySeededLooteryHarnessFixture),
+            )
 
-        it('should skip draw if there are no tickets sold in current game', async () => {
-            await time.increase(3600n)
+            it('should revert if called in any state other than Purchase', async () => {
+                const allOtherStates = allStates.filter((state) => state !== GameState.Purchase)
+                for (const state of allOtherStates) {
+                    await lotto.setGameState(state)
+                    await expect(lotto.draw())
+                        .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+                        .withArgs(state)
+                }
+            })
 
-            await expect(lotto.draw()).to.emit(lotto, 'DrawSkipped').withArgs(0)
-        })
+            it('should revert if the game period has not elapsed', async () => {
+                // Immediately draw after deploying, game period is 1h -> game period has not elapsed
+                await expect(lotto.draw()).to.be.revertedWithCustomError(lotto, 'WaitLonger')
+                // Try again after 1h
+                await time.increase(3600n)
+                await expect(lotto.draw()).to.not.be.reverted
+            })
 
-        it('should request randomness if there are tickets sold in current game and there is ETH balance in contract', async () => {
-            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
-            await time.increase(3600n)
+            it('should revert if there are no tickets sold in current game, but apocalypse mode was triggered', async () => {
+                await lotto.kill()
+                await time.increase(3600n)
 
-            // Give contract some ETH balance
-            await setBalance(await lotto.getAddress(), parseEther('1'))
-            const drawTx = lotto.draw()
-            await expect(drawTx).to.emit(lotto, 'RandomnessRequested')
-            await expect(drawTx).to.not.emit(lotto, 'ExcessRefunded')
-            await expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
-        })
-
-        it('should revert if excess ETH cannot be refunded to caller', async () => {
-            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
-            await time.increase(3600n)
+                const { id } = await lotto.currentGame()
+                const { ticketsSold } = await lotto.gameData(id)
+                expect(ticketsSold).to.eq(0)
+                await expect(lotto.draw()).to.be.revertedWithCustomError(lotto, 'NoTicketsSold')
+            })
 
-            const _revertingReceiver = await new RevertingETHReceiver__factory(deployer).deploy()
-            await impersonateAccount(await _revertingReceiver.getAddress())
-            // This is now the owner, and will always revert upon receiving ETH
-            const revertingReceiver = await ethers.getSigner(await _revertingReceiver.getAddress())
-            await setBalance(revertingReceiver.address, parseEther('10'))
+            it('should skip draw if there are no tickets sold in current game', async () => {
+                await time.increase(3600n)
 
-            const payment = parseEther('1') // ought to be enough for any request
-            const drawTx = lotto.connect(revertingReceiver).draw({
-                value: payment,
+                await expect(lotto.draw()).to.emit(lotto, 'DrawSkipped').withArgs(0)
             })
-            await expect(drawTx).to.be.revertedWithCustomError(lotto, 'TransferFailure')
-            await expect((await lotto.currentGame()).state).to.eq(GameState.Purchase)
-        })
 
-        it('should revert if contract cannot refund excess ETH', async () => {
-            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
-            await time.increase(3600n)
+            it('should request randomness if there are tickets sold in current game and there is ETH balance in contract', async () => {
+                await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+                await time.increase(3600n)
 
-            const requestPrice = await mockRandomiser.getRequestPrice(
-                500_000 /** TODO: This will be configurable */,
-            )
-            const payment = parseEther('1') // ought to be enough for any request
-            const drawTx = lotto.draw({
-                value: payment,
+                // Give contract some ETH balance
+                await setBalance(await lotto.getAddress(), parseEther('1'))
+                const drawTx = lotto.draw()
+                await expect(drawTx).to.emit(lotto, 'RandomnessRequested')
+                await expect(drawTx).to.not.emit(lotto, 'ExcessRefunded')
+                expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
             })
-            await expect(drawTx).to.emit(lotto, 'RandomnessRequested')
-            await expect(drawTx)
-                .to.emit(lotto, 'ExcessRefunded')
-                .withArgs(deployer.address, payment - requestPrice)
-            await expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
-        })
 
-        it('should revert if contract does not have enough ETH balance to request randomness', async () => {
-            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
-            await time.increase(3600n)
-            // Zero the balance
-            await setBalance(await lotto.getAddress(), 0n)
-
-            await expect(lotto.draw()).to.be.revertedWithCustomError(
-                lotto,
-                'InsufficientOperationalFunds',
-            )
-        })
+            it('should revert if excess ETH cannot be refunded to caller', async () => {
+                await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+                await time.increase(3600n)
+
+                const _revertingReceiver = await new RevertingETHReceiver__factory(
+                    deployer,
+                ).deploy()
+                await impersonateAccount(await _revertingReceiver.getAddress())
+                // This account will always revert upon receiving ETH
+                const revertingReceiver = await ethers.getSigner(
+                    await _revertingReceiver.getAddress(),
+                )
+                await setBalance(revertingReceiver.address, parseEther('10'))
 
-        it('should revert if randomness requestId is too large', async () => {
-            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
-            await time.increase(3600n)
-            await mockRandomiser.setNextRequestId(2n ** 208n)
+                const payment = parseEther('1') // ought to be enough for any request
+                const drawTx = lotto.connect(revertingReceiver).draw({
+                    value: payment,
+                })
+                await expect(drawTx).to.be.revertedWithCustomError(lotto, 'TransferFailure')
+                expect((await lotto.currentGame()).state).to.eq(GameState.Purchase)
+            })
 
-            await expect(
-                lotto.draw({
-                    value: parseEther('1'),
-                }),
-            ).to.be.revertedWithCustomError(lotto, 'RequestIdOverflow')
-        })
-    })
+            it('should refund excess ETH to caller', async () => {
+                await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+                await time.increase(3600n)
 
-    describe('#forceRedraw', () => {
-        beforeEach(async () => {
-            ;({ lotto, mockRandomiser } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+                const requestPrice = await lotto.getRequestPrice()
+                const payment = parseEther('1') // ought to be enough for any request
+                const drawTx = lotto.draw({
+                    value: payment,
+                })
+                await expect(drawTx).to.emit(lotto, 'RandomnessRequested')
+                await expect(drawTx)
+                    .to.emit(lotto, 'ExcessRefunded')
+                    .withArgs(deployer.address, payment - requestPrice)
+                expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+            })
 
-        it('should revert if called in any state other than DrawPending', async () => {
-            const allOtherStates = allStates.filter((state) => state !== GameState.DrawPending)
-            for (const state of allOtherStates) {
-                await lotto.setGameState(state)
-                await expect(lotto.forceRedraw())
-                    .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
-                    .withArgs(state)
+            // VRF requests are paid for by the subscription, so they never need ETH
+            if (randomnessProvider === RandomnessProvider.Anyrand) {
+                it('should revert if contract does not have enough ETH balance to request randomness', async () => {
+                    await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+                    await time.increase(3600n)
+                    // Zero the balance
+                    await setBalance(await lotto.getAddress(), 0n)
+
+                    await expect(lotto.draw()).to.be.revertedWithCustomError(
+                        lotto,
+                        'InsufficientOperationalFunds',
+                    )
+                })
             }
         })
+    }
 
-        it('should revert if there is no randomness request in flight', async () => {
-            await lotto.setGameState(GameState.DrawPending)
-            await expect(lotto.forceRedraw()).to.be.revertedWithCustomError(
-                lotto,
-                'NoRandomnessRequestInFlight',
+    for (const randomnessProvider of randomnessProviders) {
+        describe(`#forceRedraw (${RandomnessProvider[randomnessProvider]})`, () => {
+            beforeEach(() =>
+                load(looteryHarnessFixtures[randomnessProvider].deploySeededLooteryHarnessFixture),
             )
-        })
 
-        it('should revert if the request is not old enough', async () => {
-            await lotto.setGameState(GameState.DrawPending)
-            const timestamp = await ethers.provider
-                .getBlock('latest')
-                .then((block) => block!.timestamp)
-            await lotto.setRandomnessRequest({
-                requestId: 1n,
-                timestamp,
+            it('should revert if called in any state other than DrawPending', async () => {
+                const allOtherStates = allStates.filter((state) => state !== GameState.DrawPending)
+                for (const state of allOtherStates) {
+                    await lotto.setGameState(state)
+                    await expect(lotto.forceRedraw())
+                        .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+                        .withArgs(state)
+                }
             })
-            await expect(lotto.forceRedraw()).to.be.revertedWithCustomError(lotto, 'WaitLonger')
-        })
 
-        it('should re-request randomness if the request is old enough', async () => {
-            await lotto.setGameState(GameState.DrawPending)
-            const timestamp = await ethers.provider
-                .getBlock('latest')
-                .then((block) => block!.timestamp)
-            await lotto.setRandomnessRequest({
-                requestId: 1n,
-                timestamp,
+            it('should revert if there is no randomness request in flight', async () => {
+                await lotto.setGameState(GameState.DrawPending)
+                await expect(lotto.forceRedraw()).to.be.revertedWithCustomError(
+                    lotto,
+                    'NoRandomnessRequestInFlight',
+                )
+            })
+
+            it('should revert if the request is not old enough', async () => {
+                await lotto.setGameState(GameState.DrawPending)
+                await lotto.setRandomnessRequest((await lotto.currentGame()).id, {
+                    requestId: 1n,
+                    timestamp: await time.latest(),
+                    isInFlight: true,
+                })
+                await expect(lotto.forceRedraw()).to.be.revertedWithCustomError(lotto, 'WaitLonger')
+            })
+
+            it('should re-request randomness if the request is old enough', async () => {
+                await lotto.setGameState(GameState.DrawPending)
+                await lotto.setRandomnessRequest((await lotto.currentGame()).id, {
+                    requestId: 1n,
+                    timestamp: await time.latest(),
+                    isInFlight: true,
+                })
+                await time.increase(61 * 60) // 61 mins
+                const requestPrice = await lotto.getRequestPrice()
+                await expect(
+                    lotto.forceRedraw({
+                        value: requestPrice * 2n,
+                    }),
+                )
+                    .to.emit(lotto, 'RandomnessRequested')
+                    .withArgs((await lotto.currentGame()).id, anyValue)
             })
-            await time.increase(61 * 60) // 61 mins
-            const requestPrice = await lotto.getRequestPrice()
-            await expect(
-                lotto.forceRedraw({
-                    value: requestPrice * 2n,
-                }),
-            ).to.emit(lotto, 'RandomnessRequested')
         })
-    })
+    }
 
     describe('#receiveRandomWords', () => {
         let reqId = 1n
-        beforeEach(async () => {
-            ;({ lotto, mockRandomiser } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
+
+        /** Register a request with Anyrand, as if the lottery's randomiser had made it */
+        async function setAnyrandRequest(requestId: bigint) {
+            await mockRandomiser.setRequest(requestId, await lotto.randomiser())
+        }
 
         it('should finalise game upon receiving random words and pick winning balls', async () => {
             // Mock the state
@@ -890,12 +805,11 @@ describe('Lootery', () => {
             expect(game.winningPickId).to.eq(0, 'ensure game has not been drawn')
             const seed = 69420n
             const rId = reqId++
-            await mockRandomiser.setRequest(rId, await lotto.getAddress())
-            await lotto.setRandomnessRequest({
+            await setAnyrandRequest(rId)
+            await lotto.setRandomnessRequest(gameId, {
                 requestId: rId,
-                timestamp: await ethers.provider
-                    .getBlock('latest')
-                    .then((block) => block!.timestamp),
+                timestamp: await time.latest(),
+                isInFlight: true,
             })
 
             // Expect the game to be finalised
@@ -907,11 +821,10 @@ describe('Lootery', () => {
         })
 
         it('should revert if called in any state other than DrawPending', async () => {
-            const { lotto } = await deployUninitialisedLootery(deployer)
             const allOtherStates = allStates.filter((state) => state !== GameState.DrawPending)
             for (const state of allOtherStates) {
                 await lotto.setGameState(state)
-                await mockRandomiser.setRequest(reqId, await lotto.getAddress())
+                await setAnyrandRequest(reqId)
                 await expect(mockRandomiser.fulfillRandomWords(reqId++, [69420n]))
                     .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
                     .withArgs(state)
@@ -929,7 +842,7 @@ describe('Lootery', () => {
             // Mock the state
             await lotto.setGameState(GameState.DrawPending)
             const rId = reqId++
-            await mockRandomiser.setRequest(rId, await lotto.getAddress())
+            await setAnyrandRequest(rId)
 
             await expect(mockRandomiser.fulfillRandomWords(rId, [])).to.be.revertedWithCustomError(
                 lotto,
@@ -937,36 +850,97 @@ describe('Lootery', () => {
             )
         })
 
+        it('should revert if no randomness request is in flight', async () => {
+            await lotto.setGameState(GameState.DrawPending)
+            const rId = reqId++
+            await setAnyrandRequest(rId)
+
+            await expect(
+                mockRandomiser.fulfillRandomWords(rId, [69420n]),
+            ).to.be.revertedWithCustomError(lotto, 'NoRandomnessRequestInFlight')
+        })
+
+        it('should finalise a game whose request id is 0', async () => {
+            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+            await time.increase(3600n)
+            await setBalance(await lotto.getAddress(), parseEther('1'))
+            await mockRandomiser.setNextRequestId(0n)
+            const gameId = (await lotto.currentGame()).id
+            await lotto.draw()
+            expect(await lotto.randomnessRequests(gameId)).to.deep.eq([
+                0n,
+                await time.latest(),
+                true,
+            ])
+
+            await expect(mockRandomiser.fulfillRandomWords(0n, [69420n]))
+                .to.emit(lotto, 'GameFinalised')
+                .withArgs(gameId, await lotto.computeWinningPick(69420n))
+            // The request stays on record, but can't be fulfilled again
+            expect(await lotto.randomnessRequests(gameId).then((req) => req.isInFlight)).to.eq(
+                false,
+            )
+        })
+
         it('should revert if requestId does not match', async () => {
             // Mock the state
             await lotto.setGameState(GameState.DrawPending)
+            const gameId = (await lotto.currentGame()).id
             const rId = reqId++
-            await mockRandomiser.setRequest(rId, await lotto.getAddress())
-            await lotto.setRandomnessRequest({
+            await setAnyrandRequest(rId)
+            await lotto.setRandomnessRequest(gameId, {
                 requestId: rId,
-                timestamp: await ethers.provider
-                    .getBlock('latest')
-                    .then((block) => block!.timestamp),
+                timestamp: await time.latest(),
+                isInFlight: true,
             })
             const wrongRequestId = rId + 1n
-            await mockRandomiser.setRequest(wrongRequestId, await lotto.getAddress())
+            await setAnyrandRequest(wrongRequestId)
 
             await expect(mockRandomiser.fulfillRandomWords(wrongRequestId, [69420n]))
                 .to.be.revertedWithCustomError(lotto, 'RequestIdMismatch')
                 .withArgs(wrongRequestId, rId)
         })
+
+        it('should reject a late fulfilment of a request superseded by forceRedraw', async () => {
+            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+            await time.increase(3600n)
+            await setBalance(await lotto.getAddress(), parseEther('1'))
+            const gameId = (await lotto.currentGame()).id
+            await lotto.draw()
+            const { requestId: requestId0 } = await lotto.randomnessRequests(gameId)
+
+            await time.increase(await lotto.REDRAW_TIMEOUT())
+            await expect(lotto.forceRedraw()).to.emit(lotto, 'RandomnessRequested')
+            const { requestId: requestId1 } = await lotto.randomnessRequests(gameId)
+
+            // The first request arrives late, and can't finalise the game
+            await expect(mockRandomiser.fulfillRandomWords(requestId0, [69420n]))
+                .to.be.revertedWithCustomError(lotto, 'RequestIdMismatch')
+                .withArgs(requestId0, requestId1)
+            expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+
+            await expect(mockRandomiser.fulfillRandomWords(requestId1, [69420n]))
+                .to.emit(lotto, 'GameFinalised')
+                .withArgs(gameId, await lotto.computeWinningPick(69420n))
+
+            // ...nor the next game, once it's drawn
+            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+            await time.increase(await lotto.gamePeriod())
+            await setBalance(await lotto.getAddress(), parseEther('1'))
+            await lotto.draw()
+            const { requestId: requestId2 } = await lotto.randomnessRequests(gameId + 1n)
+            await expect(mockRandomiser.fulfillRandomWords(requestId0, [69420n]))
+                .to.be.revertedWithCustomError(lotto, 'RequestIdMismatch')
+                .withArgs(requestId0, requestId2)
+            expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+        })
     })
 
     describe('#_setupNextGame', () => {
         /** initial `currentGame` storage var */
         let game0: { state: bigint; id: bigint }
         beforeEach(async () => {
-            ;({ lotto, mockRandomiser } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
+            await load(deploySeededLooteryHarnessFixture)
             game0 = await lotto.currentGame()
         })
 
@@ -1006,7 +980,6 @@ describe('Lootery', () => {
         describe('Jackpot accounting', () => {
             beforeEach(async () => {
                 await lotto.setJackpot(parseEther('60'))
-                await lotto.setUnclaimedPayouts(parseEther('40'))
             })
 
             describe('no winners', () => {
@@ -1015,20 +988,30 @@ describe('Lootery', () => {
 
                     await expect(lotto.setupNextGame())
                         .to.emit(lotto, 'JackpotRollover')
-                        .withArgs(0, parseEther('40'), parseEther('60'), parseEther('100'), 0)
+                        .withArgs(0, 0, parseEther('60'), parseEther('60'), 0)
+                    expect(await lotto.gameUnclaimedPayouts(0)).to.eq(parseEther('60'))
                 })
 
-                it('should rollover current jackpot and unclaimed payouts to next jackpot otherwise', async () => {
-                    // Both the current jackpot and unclaimed payouts are combined and then set as the next jackpot
+                it('should rollover current jackpot to next jackpot otherwise', async () => {
+                    await expect(lotto.setupNextGame())
+                        .to.emit(lotto, 'JackpotRollover')
+                        .withArgs(0, 0, parseEther('60'), 0, parseEther('60'))
+                })
+
+                it('should rollover unclaimed payouts of expired games to next jackpot', async () => {
+                    await lotto.setupNextGame()
+                    // Game 0 had winners, who haven't claimed yet
+                    await lotto.setGameUnclaimedPayouts(0, parseEther('40'))
                     // i.e. Unclaimed payouts are only available during the next game after a win
                     await expect(lotto.setupNextGame())
                         .to.emit(lotto, 'JackpotRollover')
-                        .withArgs(0, parseEther('40'), parseEther('60'), 0, parseEther('100'))
+                        .withArgs(1, parseEther('40'), parseEther('60'), 0, parseEther('100'))
+                    expect(await lotto.unclaimedPayouts()).to.eq(0n)
                 })
             })
 
             describe('winners > 0', () => {
-                it('should rollover current jackpot and unclaimed payouts to next game otherwise', async () => {
+                it('should reserve current jackpot for the winners', async () => {
                     // Get some tickets going
                     await lotto.pickTickets([
                         { whomst: alice.address, pick: [1, 2, 3, 4, 5] },
@@ -1046,198 +1029,183 @@ describe('Lootery', () => {
                     // Setup next game
                     await expect(lotto.setupNextGame())
                         .to.emit(lotto, 'JackpotRollover')
-                        .withArgs(0, parseEther('40'), parseEther('60'), parseEther('100'), 0)
+                        .withArgs(0, 0, parseEther('60'), parseEther('60'), 0)
+                    expect(await lotto.unclaimedPayouts()).to.eq(parseEther('60'))
                 })
             })
         })
     })
 
-    describe('#claimWinnings', () => {
-        let prizeToken: ERC20
-        let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
-        beforeEach(async () => {
-            ;({ lotto, fastForwardAndDraw, prizeToken } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
-
-        it('should revert if called in any state other than Purchase or Dead', async () => {
-            const allOtherStates = allStates.filter(
-                (state) => state !== GameState.Purchase && state !== GameState.Dead,
+    for (const randomnessProvider of randomnessProviders) {
+        describe(`#claimWinnings (${RandomnessProvider[randomnessProvider]})`, () => {
+            beforeEach(() =>
+                load(looteryHarnessFixtures[randomnessProvider].deploySeededLooteryHarnessFixture),
             )
-            for (const state of allOtherStates) {
-                await lotto.setGameState(state)
-                await expect(lotto.claimWinnings(1))
-                    .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
-                    .withArgs(state)
-            }
-        })
 
-        it('should not burn NFT after claiming a regular prize', async () => {
-            const receiver = ethers.Wallet.createRandom().address
-            // With seed=69420, the winning pick is [5,10,41,46,55]
-            const winningPick = Array.from(await lotto.computePick(36101364786398240n))
-            const tokenId = (await lotto.totalSupply()) + 1n
-            await expect(lotto.pickTickets([{ whomst: receiver, pick: winningPick }]))
-                .to.emit(lotto, 'Transfer')
-                .withArgs(ethers.ZeroAddress, receiver, tokenId)
-            const jackpot = await lotto.jackpot()
-            expect(jackpot).to.be.gt(0)
-            await fastForwardAndDraw(69420n)
-
-            expect(await lotto.ownerOf(tokenId)).to.eq(receiver)
-            // Claim winnings
-            const claimTx = lotto.claimWinnings(tokenId)
-            await expect(claimTx).to.emit(lotto, 'WinningsClaimed')
-            await expect(claimTx)
-                .to.emit(prizeToken, 'Transfer')
-                .withArgs(await lotto.getAddress(), receiver, jackpot)
-            // User still owns the NFT
-            expect(await lotto.ownerOf(tokenId)).to.eq(receiver)
-        })
-
-        it('should revert if trying to claim winnings for nonexistent token', async () => {
-            const tokenId = (await lotto.totalSupply()) + 1n
-
-            // Try to claim winnings
-            await expect(lotto.claimWinnings(tokenId))
-                .to.be.revertedWithCustomError(lotto, 'ERC721NonexistentToken')
-                .withArgs(tokenId)
-        })
-
-        it('should revert if claim window has been missed', async () => {
-            const tokenId = (await lotto.totalSupply()) + 1n
-            const winningPick = Array.from(await lotto.computePick(36101364786398240n))
-            await expect(lotto.pickTickets([{ whomst: alice.address, pick: winningPick }]))
-                .to.emit(lotto, 'Transfer')
-                .withArgs(ethers.ZeroAddress, alice.address, tokenId)
-            await fastForwardAndDraw(69420n)
-            // Don't claim & skip a game
-            // We need to pick at least 1 ticket otherwise the game will be skipped and no VRF
-            // request will be made
-            await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
-            await fastForwardAndDraw(99999n)
-
-            // Try to claim winnings from 2 games ago
-            await expect(lotto.claimWinnings(tokenId))
-                .to.be.revertedWithCustomError(lotto, 'ClaimWindowMissed')
-                .withArgs(tokenId)
-        })
-
-        describe('consolation payouts', () => {
-            for (let r = 0; r < runs; r++) {
-                it(`should payout a share of the pot if there are no winners in Dead state (${
-                    r + 1
-                }/${runs})`, async () => {
-                    ;({ lotto, fastForwardAndDraw, prizeToken } = await deployLotto({
-                        deployer,
-                        factory,
-                        gamePeriod: 3600n,
-                        prizeToken: testERC20,
-                        shouldSkipSeedJackpot: true,
-                    }))
-                    const pickLength = await lotto.pickLength()
-                    const maxBallValue = await lotto.maxBallValue()
-                    const jackpot = (await lotto.seedJackpotMinValue()) + randomBigInt(8)
-                    await testERC20.mint(deployer.address, jackpot)
-                    await testERC20.approve(await lotto.getAddress(), jackpot)
-                    await lotto.seedJackpot(jackpot)
-                    const tickets = Array.from(
-                        { length: Math.floor(Math.random() * 19) + 1 },
-                        () => ({
-                            whomst: ethers.Wallet.createRandom().address,
-                            pick: slikpik(pickLength, maxBallValue),
-                        }),
+            it('should not restrict claims to any state', async () => {
+                // Each game's payouts are reserved separately, so there's no need
+                for (const state of allStates) {
+                    await lotto.setGameState(state)
+                    await expect(lotto.claimWinnings(1)).to.not.be.revertedWithCustomError(
+                        lotto,
+                        'UnexpectedState',
                     )
-                    const pickTx = lotto.pickTickets(tickets)
-                    for (let i = 0; i < tickets.length; i++) {
-                        await expect(pickTx)
-                            .to.emit(lotto, 'Transfer')
-                            .withArgs(ethers.ZeroAddress, tickets[i].whomst, i + 1)
-                    }
-                    await lotto.kill() // trigger apocalypse mode
-                    await fastForwardAndDraw(69420n)
-
-                    // Claim each consolation prize for each ticket
-                    for (let i = 0; i < tickets.length; i++) {
-                        const balanceBefore = await prizeToken.balanceOf(tickets[i].whomst)
-                        // This is the *minimum* jackpot share for each ticket, i.e. it's the
-                        // rounded-down share.
-                        const minJackpotShare = jackpot / BigInt(tickets.length)
-                        const claimTx = lotto.claimWinnings(i + 1)
-                        await expect(claimTx)
-                            .to.emit(lotto, 'ConsolationClaimed')
-                            .withArgs(
-                                i + 1,
-                                0,
-                                tickets[i].whomst,
-                                (val: bigint) => val >= minJackpotShare,
-                            )
-                        expect(await prizeToken.balanceOf(tickets[i].whomst)).to.be.gte(
-                            balanceBefore + minJackpotShare,
+                }
+            })
+
+            it('should not burn NFT after claiming a regular prize', async () => {
+                const receiver = ethers.Wallet.createRandom().address
+                // With seed=69420, the winning pick is [5,10,41,46,55]
+                const winningPick = Array.from(await lotto.computePick(36101364786398240n))
+                const tokenId = (await ticket.totalMinted()) + 1n
+                await expect(lotto.pickTickets([{ whomst: receiver, pick: winningPick }]))
+                    .to.emit(ticket, 'Transfer')
+                    .withArgs(ZeroAddress, receiver, tokenId)
+                const jackpot = await lotto.jackpot()
+                expect(jackpot).to.be.gt(0)
+                await fastForwardAndDraw(69420n)
+
+                expect(await ticket.ownerOf(tokenId)).to.eq(receiver)
+                // Claim winnings
+                const claimTx = lotto.claimWinnings(tokenId)
+                await expect(claimTx).to.emit(lotto, 'WinningsClaimed')
+                await expect(claimTx)
+                    .to.emit(testERC20, 'Transfer')
+                    .withArgs(await lotto.getAddress(), receiver, jackpot)
+                // User still owns the NFT
+                expect(await ticket.ownerOf(tokenId)).to.eq(receiver)
+            })
+
+            it('should revert if trying to claim winnings for nonexistent token', async () => {
+                const tokenId = (await ticket.totalMinted()) + 1n
+
+                // Try to claim winnings
+                await expect(lotto.claimWinnings(tokenId))
+                    .to.be.revertedWithCustomError(lotto, 'ERC721NonexistentToken')
+                    .withArgs(tokenId)
+            })
+
+            it('should revert if claim window has been missed', async () => {
+                const tokenId = (await ticket.totalMinted()) + 1n
+                const winningPick = Array.from(await lotto.computePick(36101364786398240n))
+                await expect(lotto.pickTickets([{ whomst: alice.address, pick: winningPick }]))
+                    .to.emit(ticket, 'Transfer')
+                    .withArgs(ZeroAddress, alice.address, tokenId)
+                await fastForwardAndDraw(69420n)
+                // Don't claim & skip a game
+                // We need to pick at least 1 ticket otherwise the game will be skipped and no VRF
+                // request will be made
+                await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
+                await fastForwardAndDraw(99999n)
+
+                // Try to claim winnings from 2 games ago
+                await expect(lotto.claimWinnings(tokenId))
+                    .to.be.revertedWithCustomError(lotto, 'ClaimWindowMissed')
+                    .withArgs(tokenId)
+            })
+
+            describe('consolation payouts', () => {
+                for (let r = 0; r < runs; r++) {
+                    it(`should payout a share of the pot if there are no winners in Dead state (${
+                        r + 1
+                    }/${runs})`, async () => {
+                        const pickLength = await lotto.pickLength()
+                        const maxBallValue = await lotto.maxBallValue()
+                        // Top up the seeded jackpot by a random amount
+                        const seed = (await lotto.seedJackpotMinValue()) + randomBigInt(8)
+                        await testERC20.mint(deployer.address, seed)
+                        await testERC20.approve(await lotto.getAddress(), seed)
+                        await time.increase(await lotto.seedJackpotDelay())
+                        await lotto.seedJackpot(seed)
+                        const jackpot = await lotto.jackpot()
+                        const tickets = Array.from(
+                            { length: Math.floor(Math.random() * 19) + 1 },
+                            () => ({
+                                whomst: ethers.Wallet.createRandom().address,
+                                pick: slikpik(pickLength, maxBallValue),
+                            }),
                         )
-                    }
-                })
-            }
-        })
+                        const pickTx = lotto.pickTickets(tickets)
+                        for (let i = 0; i < tickets.length; i++) {
+                            await expect(pickTx)
+                                .to.emit(ticket, 'Transfer')
+                                .withArgs(ZeroAddress, tickets[i].whomst, i + 1)
+                        }
+                        await lotto.kill() // trigger apocalypse mode
+                        await fastForwardAndDraw(69420n)
+
+                        // Claim each consolation prize for each ticket
+                        for (let i = 0; i < tickets.length; i++) {
+                            const balanceBefore = await testERC20.balanceOf(tickets[i].whomst)
+                            // This is the *minimum* jackpot share for each ticket, i.e. it's the
+                            // rounded-down share.
+                            const minJackpotShare = jackpot / BigInt(tickets.length)
+                            const claimTx = lotto.claimWinnings(i + 1)
+                            await expect(claimTx)
+                                .to.emit(lotto, 'ConsolationClaimed')
+                                .withArgs(
+                                    i + 1,
+                                    0,
+                                    tickets[i].whomst,
+                                    (val: bigint) => val >= minJackpotShare,
+                                )
+                            expect(await testERC20.balanceOf(tickets[i].whomst)).to.be.gte(
+                                balanceBefore + minJackpotShare,
+                            )
+                        }
+                        // Consolation claims are nullified by burning the tickets
+                        expect(await ticket.totalSupply()).to.eq(0n)
+                        expect(await ticket.totalMinted()).to.eq(BigInt(tickets.length))
+                    })
+                }
+            })
 
-        // TODO: Check more cases (multiple winners, odd/even number of winners, odd/even jackpot value, etc)
-        it('should payout a share of the pot for winning ticket', async () => {
-            const jackpot = await lotto.jackpot()
-            expect(jackpot).to.eq(parseEther('10')) // `deployLootery` sets initial jackpot to 10 ETH
-            const winningPick = Array.from(await lotto.computePick(36101364786398240n))
-            // Alice has the only winning ticket
-            const tickets = [
-                { whomst: deployer.address, pick: [1n, 2n, 3n, 4n, 5n] },
-                { whomst: bob.address, pick: [2n, 3n, 4n, 5n, 6n] },
-                { whomst: alice.address, pick: winningPick },
-            ]
-            const pickTx = lotto.pickTickets(tickets)
-            for (let i = 0; i < tickets.length; i++) {
-                await expect(pickTx)
-                    .to.emit(lotto, 'Transfer')
-                    .withArgs(ethers.ZeroAddress, tickets[i].whomst, i + 1)
-            }
-            await fastForwardAndDraw(69420n)
-
-            // Alice claims her winnings (entire jackpot)
-            await expect(lotto.claimWinnings(3))
-                .to.emit(lotto, 'WinningsClaimed')
-                .withArgs(3, 0, alice.address, jackpot)
-            // Everyone else gets nothing
-            await expect(lotto.claimWinnings(1))
-                .to.be.revertedWithCustomError(lotto, 'NoWin')
-                .withArgs(computePickId(tickets[0].pick), 36101364786398240n)
-            await expect(lotto.claimWinnings(2))
-                .to.be.revertedWithCustomError(lotto, 'NoWin')
-                .withArgs(computePickId(tickets[1].pick), 36101364786398240n)
-            // Ensure none of the tokens were burnt
-            for (let i = 0; i < tickets.length; i++) {
-                await expect(lotto.ownerOf(i + 1)).to.not.eq(ZeroAddress)
-            }
+            // TODO: Check more cases (multiple winners, odd/even number of winners, odd/even jackpot value, etc)
+            it('should payout a share of the pot for winning ticket', async () => {
+                const jackpot = await lotto.jackpot()
+                expect(jackpot).to.eq(parseEther('10')) // The fixture seeds the jackpot with 10 ETH
+                const winningPick = Array.from(await lotto.computePick(36101364786398240n))
+                // Alice has the only winning ticket
+                const tickets = [
+                    { whomst: deployer.address, pick: [1n, 2n, 3n, 4n, 5n] },
+                    { whomst: bob.address, pick: [2n, 3n, 4n, 5n, 6n] },
+                    { whomst: alice.address, pick: winningPick },
+                ]
+                const pickTx = lotto.pickTickets(tickets)
+                for (let i = 0; i < tickets.length; i++) {
+                    await expect(pickTx)
+                        .to.emit(ticket, 'Transfer')
+                        .withArgs(ZeroAddress, tickets[i].whomst, i + 1)
+                }
+                await fastForwardAndDraw(69420n)
+
+                // Alice claims her winnings (entire jackpot)
+                await expect(lotto.claimWinnings(3))
+                    .to.emit(lotto, 'WinningsClaimed')
+                    .withArgs(3, 0, alice.address, jackpot)
+                // Everyone else gets nothing
+                await expect(lotto.claimWinnings(1))
+                    .to.be.revertedWithCustomError(lotto, 'NoWin')
+                    .withArgs(computePickId(tickets[0].pick), 36101364786398240n)
+                await expect(lotto.claimWinnings(2))
+                    .to.be.revertedWithCustomError(lotto, 'NoWin')
+                    .withArgs(computePickId(tickets[1].pick), 36101364786398240n)
+                // Ensure none of the tokens were burnt
+                expect(await ticket.totalSupply()).to.eq(BigInt(tickets.length))
+            })
         })
-    })
+    }
 
     describe('#withdrawAccruedFees', () => {
-        beforeEach(async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
         it('should revert if not called by owner', async () => {
-            await expect(lotto.connect(alice).withdrawAccruedFees())
-                .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
-                .withArgs(alice.address)
+            await expect(lotto.connect(alice).withdrawAccruedFees()).to.be.revertedWith(
+                'Only callable by owner',
+            )
         })
 
-        it('should withdra all accrued community fees', async () => {
+        it('should withdraw all accrued community fees', async () => {
             const balance = await testERC20.balanceOf(deployer.address)
             const fees = parseEther('10')
             await lotto.setAccruedCommunityFees(fees)
@@ -1250,19 +1218,10 @@ describe('Lootery', () => {
     })
 
     describe('#kill', () => {
-        beforeEach(async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
         it('should revert if not called by owner', async () => {
-            await expect(lotto.connect(alice).kill())
-                .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
-                .withArgs(alice.address)
+            await expect(lotto.connect(alice).kill()).to.be.revertedWith('Only callable by owner')
         })
 
         it('should revert if called in any state other than Purchase', async () => {
@@ -1276,7 +1235,7 @@ describe('Lootery', () => {
         })
 
         it('should queue apocalypse mode', async () => {
-            await lotto.kill()
+            await expect(lotto.kill()).to.emit(lotto, 'ApocalypseModeActivated').withArgs(0)
             expect(await lotto.isApocalypseMode()).to.eq(true)
         })
 
@@ -1287,30 +1246,24 @@ describe('Lootery', () => {
     })
 
     describe('#rescueETH', () => {
-        beforeEach(async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
         it('should revert if not called by owner', async () => {
-            await expect(lotto.connect(alice).rescueETH())
-                .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
-                .withArgs(alice.address)
+            await expect(lotto.connect(alice).rescueETH()).to.be.revertedWith(
+                'Only callable by owner',
+            )
         })
 
         it('should revert if ETH transfer fails', async () => {
             const opFunds = parseEther('10')
-            setBalance(await lotto.getAddress(), opFunds)
+            await setBalance(await lotto.getAddress(), opFunds)
             const _revertingReceiver = await new RevertingETHReceiver__factory(deployer).deploy()
-            await lotto.transferOwnership(await _revertingReceiver.getAddress())
             await impersonateAccount(await _revertingReceiver.getAddress())
-            // This is now the owner, and will always revert upon receiving ETH
             const revertingReceiver = await ethers.getSigner(await _revertingReceiver.getAddress())
-            setBalance(await revertingReceiver.getAddress(), parseEther('1'))
+            await setBalance(await revertingReceiver.getAddress(), parseEther('1'))
+            // This is now the owner, and will always revert upon receiving ETH
+            await lotto.transferOwnership(revertingReceiver.address)
+            await lotto.connect(revertingReceiver).acceptOwnership()
 
             // Rescue ETH
             const rescueTx = lotto.connect(revertingReceiver).rescueETH()
@@ -1319,38 +1272,24 @@ describe('Lootery', () => {
 
         it('should rescue ETH', async () => {
             const opFunds = parseEther('10')
-            setBalance(await lotto.getAddress(), opFunds)
-            const balance = await ethers.provider.getBalance(deployer.address)
+            await setBalance(await lotto.getAddress(), opFunds)
 
             // Rescue ETH
             const rescueTx = lotto.rescueETH()
             await expect(rescueTx)
                 .to.emit(lotto, 'OperationalFundsWithdrawn')
                 .withArgs(deployer.address, opFunds)
-            const receipt = await rescueTx.then((tx) => tx.wait())
-            const txGasFee = receipt!.cumulativeGasUsed * receipt!.gasPrice
-            expect(await ethers.provider.getBalance(deployer.address)).to.eq(
-                balance + opFunds - txGasFee,
-            )
+            await expect(rescueTx).to.changeEtherBalances([lotto, deployer], [-opFunds, opFunds])
         })
     })
 
     describe('#rescueTokens', () => {
-        let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
-        beforeEach(async () => {
-            ;({ lotto, mockRandomiser, fastForwardAndDraw } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-                shouldSkipSeedJackpot: true,
-            }))
-        })
+        beforeEach(() => load(deployLooteryHarnessFixture))
 
         it('should revert if not called by owner', async () => {
-            await expect(lotto.connect(alice).rescueTokens(await testERC20.getAddress()))
-                .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
-                .withArgs(alice.address)
+            await expect(
+                lotto.connect(alice).rescueTokens(await testERC20.getAddress()),
+            ).to.be.revertedWith('Only callable by owner')
         })
 
         it('should rescue tokens other than the prize token', async () => {
@@ -1386,13 +1325,9 @@ describe('Lootery', () => {
             do {
                 maxBallValue = Number(randomBigInt(1))
             } while (maxBallValue < pickLength)
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-                pickLength: BigInt(pickLength),
-                maxBallValue: BigInt(maxBallValue),
+            ;({ lotto } = await deployLooteryHarness(await loadFixture(deployLooteryDependencies), {
+                pickLength,
+                maxBallValue,
             }))
         })
 
@@ -1416,13 +1351,9 @@ describe('Lootery', () => {
             do {
                 maxBallValue = Number(randomBigInt(1))
             } while (maxBallValue < pickLength)
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-                pickLength: BigInt(pickLength),
-                maxBallValue: BigInt(maxBallValue),
+            ;({ lotto } = await deployLooteryHarness(await loadFixture(deployLooteryDependencies), {
+                pickLength,
+                maxBallValue,
             }))
         })
 
@@ -1441,23 +1372,18 @@ describe('Lootery', () => {
     })
 
     describe('#setTicketSVGRenderer', () => {
-        beforeEach(async () => {
-            ;({ lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            }))
-        })
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
         it('should revert if not called by owner', async () => {
-            await expect(lotto.connect(alice).setTicketSVGRenderer(await lotto.getAddress()))
-                .to.be.revertedWithCustomError(lotto, 'OwnableUnauthorizedAccount')
-                .withArgs(alice.address)
+            await expect(
+                lotto.connect(alice).setTicketSVGRenderer(await lotto.getAddress()),
+            ).to.be.revertedWith('Only callable by owner')
         })
 
         it('should revert if renderer is zero address', async () => {
-            await expect(lotto.setTicketSVGRenderer(ethers.ZeroAddress)).to.be.reverted
+            await expect(lotto.setTicketSVGRenderer(ZeroAddress))
+                .to.be.revertedWithCustomError(lotto, 'InvalidTicketSVGRenderer')
+                .withArgs(ZeroAddress)
         })
 
         it('should revert if renderer does not implement ITicketSVGRenderer', async () => {
@@ -1475,50 +1401,34 @@ describe('Lootery', () => {
 
         it('should set TicketSVGRenderer', async () => {
             const renderer = await new TicketSVGRenderer__factory(deployer).deploy()
-            await lotto.setTicketSVGRenderer(await renderer.getAddress())
+            await expect(lotto.setTicketSVGRenderer(await renderer.getAddress()))
+                .to.emit(lotto, 'TicketSVGRendererSet')
+                .withArgs(await renderer.getAddress())
             expect(await lotto.ticketSVGRenderer()).to.eq(await renderer.getAddress())
         })
     })
 
     describe('#isGameActive', () => {
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
+
         it('should return true if game is not dead', async () => {
-            const { lotto } = await deployUninitialisedLootery(deployer)
             for (const state of allStates.filter((state) => state !== GameState.Dead)) {
                 await lotto.setGameState(state)
                 expect(await lotto.isGameActive()).to.eq(true)
             }
+            await lotto.setGameState(GameState.Dead)
+            expect(await lotto.isGameActive()).to.eq(false)
         })
     })
 
-    describe('#tokenURI', () => {
-        it('should revert if token does not exist', async () => {
-            const { lotto } = await deployUninitialisedLootery(deployer)
-            await expect(lotto.tokenURI(1)).to.be.revertedWithCustomError(
-                lotto,
-                'ERC721NonexistentToken',
-            )
-        })
+    describe('#ticketTokenURI', () => {
+        beforeEach(() => load(deploySeededLooteryHarnessFixture))
 
-        it('should return tokenURI', async () => {
-            const { lotto } = await deployLotto({
-                deployer,
-                factory,
-                gamePeriod: 3600n,
-                prizeToken: testERC20,
-            })
+        it('should render the token URI of tickets', async () => {
             await lotto.pickTickets([{ whomst: alice.address, pick: [1, 2, 3, 4, 5] }])
-            const tokenUri = await lotto.tokenURI(1)
+            const tokenUri = await lotto.ticketTokenURI(1)
             expect(tokenUri.startsWith('data:application/json;base64,')).to.eq(true)
+            expect(await ticket.tokenURI(1)).to.eq(tokenUri)
         })
     })
 })
-
-async function deployUninitialisedLootery(deployer: SignerWithAddress) {
-    return {
-        lotto: await deployProxy({
-            deployer,
-            implementation: LooteryHarness__factory,
-            initData: '0x',
-        }),
-    }
-}
@@ -0,0 +1,205 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { LooteryFactory, type Lootery, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress } from 'ethers'
+import { expect } from 'chai'
+import { createLottoFixture } from './helpers/fixtures'
+import { deployLotto } from './helpers/lotto'
+import {
+    LooteryClient,
+    TicketClaimStatus,
+    classifyTickets,
+    computePickIdWithBonusBall,
+    computeTierPots,
+    computeTierPrize,
+    computeWinningBonusBall,
+} from '../sdk'
+
+const maxBallValue = 69n
+const bonusBallMaxValue = 26n
+const deployBonusBallLottoFixture = createLottoFixture({ maxBallValue, bonusBallMaxValue })
+
+describe('Lootery: bonus ball', () => {
+    const seed = 69420n
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let factory: LooteryFactory
+    let testERC20: MockERC20
+    let lotto: Lootery
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+    let winningPick: bigint[]
+    let winningBonusBall: bigint
+    beforeEach(async () => {
+        ;({ deployer, bob, alice, testERC20, factory, lotto, fastForwardAndDraw } =
+            await loadFixture(deployBonusBallLottoFixture))
+        winningPick = [...(await lotto.computeWinningPick(seed))]
+        winningBonusBall = await lotto.computeWinningBonusBall(seed)
+    })
+
+    /**
+     * A valid pick that matches exactly `matches` balls of `winningPick`,
+     * followed by a bonus ball that matches if `isBonusBallMatched`
+     */
+    function pickWithMatches(matches: number, isBonusBallMatched: boolean) {
+        const others = []
+        for (let ball = 1n; others.length < winningPick.length - matches; ball++) {
+            if (!winningPick.includes(ball)) others.push(ball)
+        }
+        const bonusBall = isBonusBallMatched
+            ? winningBonusBall
+            : (winningBonusBall % bonusBallMaxValue) + 1n
+        const balls = [...winningPick.slice(0, matches), ...others].sort((a, b) => Number(a - b))
+        return [...balls, bonusBall]
+    }
+
+    /** Buy tickets for `whomst` with the given picks */
+    async function buyTickets(whomst: string, picks: bigint[][]) {
+        const value = (await lotto.ticketPrice()) * BigInt(picks.length)
+        await testERC20.mint(deployer, value)
+        await testERC20.approve(lotto, value)
+        const tx = await lotto.purchase(
+            picks.map((pick) => ({ whomst, pick })),
+            ZeroAddress,
+        )
+        const receipt = await tx.wait()
+        return receipt!.logs
+            .map((log) => lotto.interface.parseLog(log))
+            .filter((log) => log?.name === 'TicketPurchased')
+            .map((log) => log!.args.tokenId as bigint)
+    }
+
+    it('should reject a bonus ball pool that overflows the pick id', async () => {
+        await expect(
+            deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken: testERC20,
+                maxBallValue: 250n,
+                bonusBallMaxValue: 6n,
+            }),
+        )
+            .to.be.revertedWithCustomError(lotto, 'InvalidBonusBallMaxValue')
+            .withArgs(6n)
+    })
+
+    it('should require a bonus ball in range when purchasing', async () => {
+        await testERC20.mint(deployer, await lotto.ticketPrice())
+        await testERC20.approve(lotto, await lotto.ticketPrice())
+        const pick = pickWithMatches(5, true)
+        await expect(
+            lotto.purchase([{ whomst: bob.address, pick: pick.slice(0, -1) }], ZeroAddress),
+        )
+            .to.be.revertedWithCustomError(lotto, 'InvalidPickLength')
+            .withArgs(5n)
+        for (const bonusBall of [0n, bonusBallMaxValue + 1n]) {
+            await expect(
+                lotto.purchase(
+                    [{ whomst: bob.address, pick: [...pick.slice(0, -1), bonusBall] }],
+                    ZeroAddress,
+                ),
+            )
+                .to.be.revertedWithCustomError(lotto, 'InvalidBonusBall')
+                .withArgs(bonusBall)
+        }
+
+        const [tokenId] = await buyTickets(bob.address, [pick])
+        const purchasedTicket = await lotto.purchasedTickets(tokenId)
+        expect(purchasedTicket.bonusBall).to.eq(winningBonusBall)
+        expect(purchasedTicket.pickId).to.eq(computePickIdWithBonusBall(pick, maxBallValue))
+    })
+
+    it('should draw the bonus ball from its own pool', async () => {
+        expect(winningBonusBall).to.eq(computeWinningBonusBall(bonusBallMaxValue, seed))
+        await buyTickets(bob.address, [pickWithMatches(1, false)])
+        // Only the main balls are emitted in GameFinalised
+        expect([...(await fastForwardAndDraw(seed))]).to.deep.eq(winningPick)
+        const [bonusBallDrawn] = await lotto.queryFilter(lotto.filters.BonusBallDrawn())
+        expect(bonusBallDrawn.args).to.deep.eq([0n, winningBonusBall])
+        expect(await lotto.winningBonusBalls(0)).to.eq(winningBonusBall)
+        expect((await lotto.gameData(0)).winningPickId).to.eq(
+            computePickIdWithBonusBall([...winningPick, winningBonusBall], maxBallValue),
+        )
+    })
+
+    it('should only pay the jackpot to tickets that match the bonus ball', async () => {
+        const [jackpotWinner, mainBallsOnly] = await buyTickets(bob.address, [
+            pickWithMatches(5, true),
+            pickWithMatches(5, false),
+        ])
+        await fastForwardAndDraw(seed)
+        const { winningPickId } = await lotto.gameData(0)
+        expect(await lotto.numWinnersInGame(0, winningPickId)).to.eq(1n)
+
+        const { pickId } = await lotto.purchasedTickets(mainBallsOnly)
+        expect(await lotto.countMatches(0, pickId)).to.eq(5n)
+        expect(await lotto.matchedBonusBall(0, pickId)).to.eq(false)
+        await expect(lotto.claimWinnings(mainBallsOnly))
+            .to.be.revertedWithCustomError(lotto, 'NoWin')
+            .withArgs(pickId, winningPickId)
+        await expect(lotto.claimWinnings(jackpotWinner)).to.emit(lotto, 'WinningsClaimed')
+    })
+
+    describe('Prize tiers', () => {
+        const tiers = [
+            { matches: 5n, bonusBall: true, shareBps: 5000n },
+            { matches: 5n, bonusBall: false, shareBps: 2000n },
+            { matches: 4n, bonusBall: true, shareBps: 1000n },
+        ]
+
+        it('should require the first tier to match the bonus ball', async () => {
+            await expect(
+                lotto.setPrizeTiers([{ matches: 5n, bonusBall: false, shareBps: 5000n }]),
+            ).to.be.revertedWithCustomError(lotto, 'InvalidPrizeTiers')
+        })
+
+        it('should pay tiers that require the bonus ball separately', async () => {
+            await lotto.setPrizeTiers(tiers)
+            const tokenIds = await buyTickets(alice.address, [
+                pickWithMatches(5, true),
+                pickWithMatches(5, false),
+                pickWithMatches(4, true),
+                pickWithMatches(4, false),
+            ])
+            const pot = (await lotto.jackpot()) + (await lotto.unclaimedPayouts())
+            await fastForwardAndDraw(seed)
+
+            const { pots, bonusPots, reserved } = computeTierPots(pot, tiers, 1n)
+            expect(await lotto.unclaimedPayouts()).to.eq(reserved)
+            expect((await lotto.bonusTierPayouts(0, 5)).pot).to.eq(bonusPots.get(5n))
+            expect((await lotto.tierPayouts(0, 5)).pot).to.eq(pots.get(5n))
+            expect((await lotto.bonusTierPayouts(0, 4)).pot).to.eq(bonusPots.get(4n))
+
+            await lotto.tallyPrizeTiers(0, 100)
+            const client = LooteryClient.connect(await lotto.getAddress(), alice)
+            const infos = await classifyTickets(client, tokenIds)
+            expect(
+                infos.map(({ matches, isBonusBallMatched }) => [matches, isBonusBallMatched]),
+            ).to.deep.eq([
+                [5, true],
+                [5, false],
+                [4, true],
+                [4, false],
+            ])
+            expect(infos.map((info) => info.status)).to.deep.eq([
+                TicketClaimStatus.WinningClaimable,
+                TicketClaimStatus.WinningClaimable,
+                TicketClaimStatus.WinningClaimable,
+                TicketClaimStatus.NoWin,
+            ])
+            for (const [tokenId, payout] of [
+                [tokenIds[0], await lotto.bonusTierPayouts(0, 5)],
+                [tokenIds[1], await lotto.tierPayouts(0, 5)],
+                [tokenIds[2], await lotto.bonusTierPayouts(0, 4)],
+            ] as const) {
+                expect(payout.numWinners).to.eq(1n)
+                await expect(lotto.claimWinnings(tokenId)).to.changeTokenBalance(
+                    testERC20,
+                    alice,
+                    computeTierPrize(payout),
+                )
+            }
+        })
+    })
+})
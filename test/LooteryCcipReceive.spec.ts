@@ -0,0 +1,335 @@
+import { ethers } from 'hardhat'
+import { loadFixture, time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
+import { type Lootery, type MockERC20, MockERC20__factory } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { AbiCoder, ZeroAddress, id, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { createLottoFixture } from './helpers/fixtures'
+import { purchaseTicket } from './helpers/lotto'
+import { fulfilRandomness } from './helpers/randomness'
+import { GameState } from './helpers/GameState'
+import { TicketOrder, encodeTicketPayload } from '../sdk'
+
+const deployUnseededLottoFixture = createLottoFixture({ shouldSkipSeedJackpot: true })
+
+describe('Lootery: CCIP receive', () => {
+    /** Arbitrary; the mocked router doesn't care */
+    const SOURCE_CHAIN_SELECTOR = 16015286601757825753n
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    /** The CCIP router, impersonated to deliver messages directly */
+    let router: SignerWithAddress
+    /** Sender contract on the source chain */
+    let ccipSender: string
+    let testERC20: MockERC20
+    let lotto: Lootery
+    let ticketPrice: bigint
+    let messageNonce: number
+    beforeEach(async () => {
+        const fixture = await loadFixture(deployUnseededLottoFixture)
+        ;({ deployer, bob, alice, testERC20, lotto } = fixture)
+        router = await ethers.getImpersonatedSigner(fixture.ccipRouter)
+        await setBalance(router.address, parseEther('1'))
+        ccipSender = ethers.Wallet.createRandom().address
+        messageNonce = 0
+        ticketPrice = await lotto.ticketPrice()
+        await lotto.setAllowlistedSender(SOURCE_CHAIN_SELECTOR, ccipSender, true)
+    })
+
+    /**
+     * Deliver a ticket message as the router would: transfer the tokens to
+     * the lottery, then call `ccipReceive`
+     */
+    async function receiveMessage({
+        tickets,
+        amount,
+        messageId = id(`message ${messageNonce++}`),
+        sender = ccipSender,
+        token,
+    }: {
+        tickets: TicketOrder[]
+        amount?: bigint
+        messageId?: string
+        sender?: string
+        token?: MockERC20
+    }) {
+        const value = amount ?? ticketPrice * BigInt(tickets.length)
+        const paymentToken = token ?? testERC20
+        await paymentToken.mint(lotto, value)
+        return lotto.connect(router).ccipReceive({
+            messageId,
+            sourceChainSelector: SOURCE_CHAIN_SELECTOR,
+            sender: AbiCoder.defaultAbiCoder().encode(['address'], [sender]),
+            data: encodeTicketPayload(tickets),
+            destTokenAmounts: [{ token: await paymentToken.getAddress(), amount: value }],
+        })
+    }
+
+    /** Sell a ticket, then request the draw so that the game is DrawPending */
+    async function startDraw() {
+        await testERC20.mint(bob, ticketPrice)
+        await testERC20.connect(bob).approve(lotto, ticketPrice)
+        await purchaseTicket(lotto.connect(bob), bob.address, [1, 2, 3, 4, 5])
+        await time.increase(3600n)
+        await setBalance(await lotto.getAddress(), parseEther('0.1'))
+        await lotto.draw()
+        expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+    }
+
+    describe('#setAllowlistedSender', () => {
+        it('should only allow the owner to allowlist senders', async () => {
+            await expect(
+                lotto.connect(bob).setAllowlistedSender(SOURCE_CHAIN_SELECTOR, bob.address, true),
+            ).to.be.revertedWith('Only callable by owner')
+        })
+
+        it('should not allowlist the zero address', async () => {
+            await expect(lotto.setAllowlistedSender(SOURCE_CHAIN_SELECTOR, ZeroAddress, true))
+                .to.be.revertedWithCustomError(lotto, 'InvalidAllowlistedSender')
+                .withArgs(ZeroAddress)
+        })
+
+        it('should allowlist and delist senders per source chain', async () => {
+            await expect(lotto.setAllowlistedSender(1n, bob.address, true))
+                .to.emit(lotto, 'AllowlistedSenderSet')
+                .withArgs(1n, bob.address, true)
+            expect(await lotto.isAllowlistedSender(1n, bob.address)).to.eq(true)
+            expect(await lotto.isAllowlistedSender(2n, bob.address)).to.eq(false)
+            await lotto.setAllowlistedSender(1n, bob.address, false)
+            expect(await lotto.isAllowlistedSender(1n, bob.address)).to.eq(false)
+        })
+    })
+
+    describe('#ccipReceive', () => {
+        it('should only accept messages from the router', async () => {
+            await expect(
+                lotto.connect(bob).ccipReceive({
+                    messageId: id('message'),
+                    sourceChainSelector: SOURCE_CHAIN_SELECTOR,
+                    sender: AbiCoder.defaultAbiCoder().encode(['address'], [ccipSender]),
+                    data: encodeTicketPayload([]),
+                    destTokenAmounts: [],
+                }),
+            )
+                .to.be.revertedWithCustomError(lotto, 'InvalidRouter')
+                .withArgs(bob.address)
+        })
+
+        it('should reject messages from senders that are not allowlisted', async () => {
+            const tickets = [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }]
+            await expect(receiveMessage({ tickets, sender: bob.address }))
+                .to.be.revertedWithCustomError(lotto, 'SenderNotAllowlisted')
+                .withArgs(SOURCE_CHAIN_SELECTOR, bob.address)
+            await lotto.setAllowlistedSender(SOURCE_CHAIN_SELECTOR, ccipSender, false)
+            await expect(receiveMessage({ tickets }))
+                .to.be.revertedWithCustomError(lotto, 'SenderNotAllowlisted')
+                .withArgs(SOURCE_CHAIN_SELECTOR, ccipSender)
+        })
+
+        it('should reject messages without tickets', async () => {
+            await expect(
+                receiveMessage({ tickets: [], amount: ticketPrice }),
+            ).to.be.revertedWithCustomError(lotto, 'NoTicketsSpecified')
+        })
+
+        it('should reject a message that was already received', async () => {
+            const tickets = [{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }]
+            await receiveMessage({ tickets, messageId: id('replayed') })
+            await expect(receiveMessage({ tickets, messageId: id('replayed') }))
+                .to.be.revertedWithCustomError(lotto, 'MessageAlreadyReceived')
+                .withArgs(id('replayed'))
+        })
+
+        it('should pick tickets and split the payment during purchase', async () => {
+            const tickets = [{ whomst: alice.address, pick: [1n, 2n, 3n, 4n, 5n] }]
+            const amount = ticketPrice + 1n
+            const communityFeeShare = (amount * (await lotto.communityFeeBps())) / 10000n
+            await expect(receiveMessage({ tickets, amount }))
+                .to.emit(lotto, 'TicketPurchased')
+                .withArgs(0n, alice.address, 1n, tickets[0].pick)
+            expect(await lotto.jackpot()).to.eq(amount - communityFeeShare)
+            expect(await lotto.accruedCommunityFees()).to.eq(communityFeeShare)
+            expect(await lotto.escrowedPayments()).to.eq(0n)
+        })
+    })
+
+    describe('Refund credits', () => {
+        // Recipients aren't known until signers are loaded
+        const getTickets = () => [
+            { whomst: alice.address, pick: [1n, 2n, 3n, 4n, 6n] },
+            { whomst: bob.address, pick: [1n, 2n, 3n, 4n, 7n] },
+        ]
+
+        it('should credit payment in anything but the prize token', async () => {
+            const notPrizeToken = await new MockERC20__factory(deployer).deploy(deployer.address)
+            const amount = ticketPrice * 2n + 1n
+            const messageId = id('wrong token')
+            await expect(
+                receiveMessage({ tickets: getTickets(), amount, messageId, token: notPrizeToken }),
+            )
+                .to.emit(lotto, 'RefundCredited')
+                .withArgs(messageId, alice.address, await notPrizeToken.getAddress(), amount / 2n)
+                .and.to.emit(lotto, 'RefundCredited')
+                .withArgs(
+                    messageId,
+                    bob.address,
+                    await notPrizeToken.getAddress(),
+                    amount - amount / 2n,
+                )
+                .and.not.to.emit(lotto, 'TicketPurchased')
+            expect(await lotto.refundCredits(alice, notPrizeToken)).to.eq(amount / 2n)
+            expect(await lotto.refundCredits(bob, notPrizeToken)).to.eq(amount - amount / 2n)
+            expect(await lotto.totalRefundCredits(notPrizeToken)).to.eq(amount)
+            expect((await lotto.messageDetail(messageId)).token).to.eq(
+                await notPrizeToken.getAddress(),
+            )
+
+            // Credits can't be rescued by the owner
+            await notPrizeToken.mint(lotto, 1n)
+            await lotto.rescueTokens(notPrizeToken)
+            expect(await notPrizeToken.balanceOf(deployer)).to.eq(1n)
+            expect(await notPrizeToken.balanceOf(lotto)).to.eq(amount)
+        })
+
+        it('should credit payment that does not cover the ticket price', async () => {
+            const amount = ticketPrice * 2n - 1n
+            await expect(receiveMessage({ tickets: getTickets(), amount }))
+                .to.emit(lotto, 'RefundCredited')
+                .and.not.to.emit(lotto, 'TicketPurchased')
+            expect(await lotto.refundCredits(alice, testERC20)).to.eq(amount / 2n)
+            expect(await lotto.refundCredits(bob, testERC20)).to.eq(amount - amount / 2n)
+            expect(await lotto.totalRefundCredits(testERC20)).to.eq(amount)
+            expect(await lotto.jackpot()).to.eq(0n)
+            expect(await lotto.accruedCommunityFees()).to.eq(0n)
+        })
+
+        it('should credit payment for invalid picks during purchase', async () => {
+            const tickets = [
+                { whomst: alice.address, pick: [1n, 2n, 3n, 4n, 6n] },
+                { whomst: bob.address, pick: [5n, 4n, 3n, 2n, 1n] },
+            ]
+            await expect(receiveMessage({ tickets }))
+                .to.emit(lotto, 'RefundCredited')
+                .and.not.to.emit(lotto, 'TicketPurchased')
+            expect(await lotto.totalRefundCredits(testERC20)).to.eq(ticketPrice * 2n)
+            expect((await lotto.gameData(0n)).ticketsSold).to.eq(0n)
+            expect(await lotto.jackpot()).to.eq(0n)
+        })
+
+        it('should credit rather than escrow payment for invalid picks', async () => {
+            await startDraw()
+            const messageId = id('invalid picks')
+            const tickets = [{ whomst: alice.address, pick: [1n, 2n, 3n, 4n] }]
+            await expect(receiveMessage({ tickets, messageId }))
+                .to.emit(lotto, 'RefundCredited')
+                .withArgs(messageId, alice.address, await testERC20.getAddress(), ticketPrice)
+                .and.not.to.emit(lotto, 'PurchaseEscrowed')
+            expect(await lotto.isEscrowed(messageId)).to.eq(false)
+            expect(await lotto.escrowedPayments()).to.eq(0n)
+            expect(await lotto.refundCredits(alice, testERC20)).to.eq(ticketPrice)
+        })
+
+        it('should let recipients withdraw their credit', async () => {
+            const amount = ticketPrice * 2n - 1n
+            await receiveMessage({ tickets: getTickets(), amount })
+
+            await expect(lotto.connect(alice).withdrawRefundCredit(testERC20))
+                .to.emit(lotto, 'RefundCreditWithdrawn')
+                .withArgs(alice.address, await testERC20.getAddress(), amount / 2n)
+            expect(await testERC20.balanceOf(alice)).to.eq(amount / 2n)
+            expect(await lotto.refundCredits(alice, testERC20)).to.eq(0n)
+            expect(await lotto.totalRefundCredits(testERC20)).to.eq(amount - amount / 2n)
+
+            await expect(lotto.connect(alice).withdrawRefundCredit(testERC20))
+                .to.be.revertedWithCustomError(lotto, 'NoRefundCredit')
+                .withArgs(alice.address, await testERC20.getAddress())
+        })
+    })
+
+    describe('Escrow', () => {
+        const picks = [
+            [1n, 2n, 3n, 4n, 6n],
+            [1n, 2n, 3n, 4n, 7n],
+        ]
+        // Recipients aren't known until signers are loaded
+        const getTickets = () => picks.map((pick, i) => ({ whomst: [alice, bob][i].address, pick }))
+
+        it('should escrow messages that arrive while a draw is pending', async () => {
+            await startDraw()
+            const jackpot = await lotto.jackpot()
+            const messageId = id('escrowed')
+            await expect(receiveMessage({ tickets: getTickets(), messageId }))
+                .to.emit(lotto, 'PurchaseEscrowed')
+                .withArgs(messageId, ticketPrice * 2n)
+                .and.not.to.emit(lotto, 'TicketPurchased')
+            expect(await lotto.isEscrowed(messageId)).to.eq(true)
+            expect(await lotto.escrowedPayments()).to.eq(ticketPrice * 2n)
+            expect(await lotto.jackpot()).to.eq(jackpot)
+
+            // Can't be executed until the next game starts
+            await expect(lotto.executeEscrowedPurchase(messageId))
+                .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+                .withArgs(GameState.DrawPending)
+        })
+
+        it('should execute escrowed messages in the next game', async () => {
+            await startDraw()
+            const messageId = id('escrowed')
+            await receiveMessage({ tickets: getTickets(), messageId })
+            await fulfilRandomness(lotto, 69420n)
+            expect((await lotto.currentGame()).state).to.eq(GameState.Purchase)
+
+            const jackpot = await lotto.jackpot()
+            const communityFeeShare = (ticketPrice * 2n * (await lotto.communityFeeBps())) / 10000n
+            await expect(lotto.connect(alice).executeEscrowedPurchase(messageId))
+                .to.emit(lotto, 'EscrowedPurchaseExecuted')
+                .withArgs(messageId)
+                .and.to.emit(lotto, 'TicketPurchased')
+                .withArgs(1n, alice.address, 2n, picks[0])
+            expect((await lotto.gameData(1n)).ticketsSold).to.eq(2n)
+            expect(await lotto.jackpot()).to.eq(jackpot + ticketPrice * 2n - communityFeeShare)
+            expect(await lotto.escrowedPayments()).to.eq(0n)
+            expect(await lotto.isEscrowed(messageId)).to.eq(false)
+
+            await expect(lotto.executeEscrowedPurchase(messageId))
+                .to.be.revertedWithCustomError(lotto, 'PurchaseNotEscrowed')
+                .withArgs(messageId)
+        })
+
+        it('should refund escrowed messages once the lottery is dead', async () => {
+            await lotto.kill()
+            await startDraw()
+            const messageId = id('escrowed')
+            const amount = ticketPrice * 2n + 1n
+            await receiveMessage({ tickets: getTickets(), messageId, amount })
+            await fulfilRandomness(lotto, 69420n)
+            expect((await lotto.currentGame()).state).to.eq(GameState.Dead)
+
+            await expect(lotto.executeEscrowedPurchase(messageId))
+                .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+                .withArgs(GameState.Dead)
+            const bobBalance = await testERC20.balanceOf(bob)
+            await expect(lotto.refundEscrowedPurchase(messageId))
+                .to.emit(lotto, 'EscrowedPurchaseRefunded')
+                .withArgs(messageId, amount)
+            // Split equally, with the remainder going to the last recipient
+            expect(await testERC20.balanceOf(alice)).to.eq(amount / 2n)
+            expect(await testERC20.balanceOf(bob)).to.eq(bobBalance + amount - amount / 2n)
+            expect(await lotto.escrowedPayments()).to.eq(0n)
+
+            await expect(lotto.refundEscrowedPurchase(messageId))
+                .to.be.revertedWithCustomError(lotto, 'PurchaseNotEscrowed')
+                .withArgs(messageId)
+        })
+
+        it('should not refund while the lottery is running', async () => {
+            await startDraw()
+            const messageId = id('escrowed')
+            await receiveMessage({ tickets: getTickets(), messageId })
+            await expect(lotto.refundEscrowedPurchase(messageId))
+                .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+                .withArgs(GameState.DrawPending)
+        })
+    })
+})
@@ -0,0 +1,122 @@
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { type Lootery, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress } from 'ethers'
+import { expect } from 'chai'
+import { deployLottoFixture } from './helpers/fixtures'
+import { computeTierPrize } from '../sdk'
+
+/** Mirrors `ILootery.ClaimStatus` */
+enum ClaimStatus {
+    Claimed,
+    NonexistentToken,
+    ClaimWindowMissed,
+    NoWin,
+    AlreadyClaimed,
+    PrizeTiersNotTallied,
+}
+
+describe('Lootery: batch claims', () => {
+    const seed = 6942069420n
+    const winningPick = [31n, 35n, 37n, 56n, 61n]
+    const losingPick = [3n, 11n, 22n, 29n, 42n]
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let testERC20: MockERC20
+    let lotto: Lootery
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+    beforeEach(async () => {
+        ;({ deployer, bob, alice, testERC20, lotto, fastForwardAndDraw } =
+            await loadFixture(deployLottoFixture))
+    })
+
+    /** Buy tickets, returning their token ids */
+    async function buyTickets(tickets: { whomst: string; pick: bigint[] }[]) {
+        const value = (await lotto.ticketPrice()) * BigInt(tickets.length)
+        await testERC20.mint(deployer, value)
+        await testERC20.approve(lotto, value)
+        const receipt = await lotto.purchase(tickets, ZeroAddress).then((tx) => tx.wait())
+        return receipt!.logs
+            .map((log) => lotto.interface.parseLog(log))
+            .filter((log) => log?.name === 'TicketPurchased')
+            .map((log) => log!.args.tokenId as bigint)
+    }
+
+    it('should claim winning tickets and skip the rest', async () => {
+        const [bobWinner, aliceWinner, bobSecondWinner, loser] = await buyTickets([
+            { whomst: bob.address, pick: winningPick },
+            { whomst: alice.address, pick: winningPick },
+            { whomst: bob.address, pick: winningPick },
+            { whomst: bob.address, pick: losingPick },
+        ])
+        await fastForwardAndDraw(seed)
+        const nonexistent = loser + 1n
+        const tokenIds = [bobWinner, aliceWinner, loser, nonexistent, bobSecondWinner]
+
+        // Each winner takes an equal share of what's left unclaimed
+        const prizePool = await lotto.unclaimedPayouts()
+        const firstShare = prizePool / 3n
+        const secondShare = (prizePool - firstShare) / 2n
+        const thirdShare = prizePool - firstShare - secondShare
+        const results = await lotto.claimWinningsBatch.staticCall(tokenIds)
+        expect(results.map(({ status, value }) => [status, value])).to.deep.eq([
+            [BigInt(ClaimStatus.Claimed), firstShare],
+            [BigInt(ClaimStatus.Claimed), secondShare],
+            [BigInt(ClaimStatus.NoWin), 0n],
+            [BigInt(ClaimStatus.NonexistentToken), 0n],
+            [BigInt(ClaimStatus.Claimed), thirdShare],
+        ])
+
+        const tx = lotto.claimWinningsBatch(tokenIds)
+        await expect(tx).to.changeTokenBalances(
+            testERC20,
+            [bob, alice],
+            [firstShare + thirdShare, secondShare],
+        )
+        await expect(tx)
+            .to.emit(lotto, 'WinningsClaimed')
+            .withArgs(bobSecondWinner, 0n, bob.address, thirdShare)
+        // Prizes are aggregated into one transfer per ticket holder
+        const receipt = await (await tx).wait()
+        const transfers = receipt!.logs
+            .map((log) => testERC20.interface.parseLog(log))
+            .filter((log) => log?.name === 'Transfer')
+        expect(transfers).to.have.length(2)
+
+        // Claiming again is skipped too
+        const claimedAgain = await lotto.claimWinningsBatch.staticCall([bobWinner])
+        expect(claimedAgain[0].status).to.eq(BigInt(ClaimStatus.AlreadyClaimed))
+        await expect(lotto.claimWinnings(bobWinner))
+            .to.be.revertedWithCustomError(lotto, 'AlreadyClaimed')
+            .withArgs(bobWinner)
+    })
+
+    it('should skip tickets whose claim window was missed', async () => {
+        const [winner] = await buyTickets([{ whomst: bob.address, pick: winningPick }])
+        await fastForwardAndDraw(seed)
+        await buyTickets([{ whomst: bob.address, pick: losingPick }])
+        await fastForwardAndDraw(seed)
+        const [result] = await lotto.claimWinningsBatch.staticCall([winner])
+        expect(result.status).to.eq(BigInt(ClaimStatus.ClaimWindowMissed))
+        await expect(lotto.claimWinningsBatch([winner])).to.not.emit(lotto, 'WinningsClaimed')
+    })
+
+    it('should skip prize tiers that have not been tallied', async () => {
+        await lotto.setPrizeTiers([
+            { matches: 5n, bonusBall: false, shareBps: 5000n },
+            { matches: 4n, bonusBall: false, shareBps: 2000n },
+        ])
+        const [fourBalls] = await buyTickets([
+            { whomst: bob.address, pick: [...winningPick.slice(0, 4), 62n] },
+        ])
+        await fastForwardAndDraw(seed)
+        let [result] = await lotto.claimWinningsBatch.staticCall([fourBalls])
+        expect(result.status).to.eq(BigInt(ClaimStatus.PrizeTiersNotTallied))
+
+        await lotto.tallyPrizeTiers(0, 100)
+        ;[result] = await lotto.claimWinningsBatch.staticCall([fourBalls])
+        expect(result.status).to.eq(BigInt(ClaimStatus.Claimed))
+        expect(result.value).to.eq(computeTierPrize(await lotto.tierPayouts(0, 4)))
+    })
+})
@@ -0,0 +1,150 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { type Lootery, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress } from 'ethers'
+import { expect } from 'chai'
+import { deployLottoFixture } from './helpers/fixtures'
+import { GameState } from './helpers/GameState'
+
+describe('Lootery: claim window', () => {
+    const seed = 6942069420n
+    const winningPick = [31n, 35n, 37n, 56n, 61n]
+    const losingPick = [3n, 11n, 22n, 29n, 42n]
+    const gamePeriod = 3600n
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let testERC20: MockERC20
+    let lotto: Lootery
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+    beforeEach(async () => {
+        ;({ deployer, bob, testERC20, lotto, fastForwardAndDraw } =
+            await loadFixture(deployLottoFixture))
+    })
+
+    /** Buy a ticket for bob, returning its token id */
+    async function buyTicket(pick: bigint[]) {
+        await testERC20.mint(deployer, await lotto.ticketPrice())
+        await testERC20.approve(lotto, await lotto.ticketPrice())
+        const receipt = await lotto
+            .purchase([{ whomst: bob.address, pick }], ZeroAddress)
+            .then((tx) => tx.wait())
+        const purchased = receipt!.logs
+            .map((log) => lotto.interface.parseLog(log))
+            .find((log) => log?.name === 'TicketPurchased')
+        return purchased!.args.tokenId as bigint
+    }
+
+    /** Draw a game without any tickets, which skips it */
+    async function skipGame() {
+        await time.increase(gamePeriod)
+        return lotto.draw()
+    }
+
+    describe('#setClaimWindow', () => {
+        it('should default to the last game', async () => {
+            expect(await lotto.claimWindowGames()).to.eq(1n)
+            expect(await lotto.claimWindowDuration()).to.eq(0n)
+        })
+
+        it('should only allow the owner to set the claim window', async () => {
+            await expect(lotto.connect(bob).setClaimWindow(3, 0)).to.be.revertedWith(
+                'Only callable by owner',
+            )
+        })
+
+        it('should require at least the last game to be claimable', async () => {
+            await expect(lotto.setClaimWindow(0, 86400))
+                .to.be.revertedWithCustomError(lotto, 'InvalidClaimWindow')
+                .withArgs(0n, 86400n)
+            await expect(lotto.setClaimWindow(3, 86400))
+                .to.emit(lotto, 'ClaimWindowSet')
+                .withArgs(3n, 86400n)
+        })
+    })
+
+    it('should keep payouts claimable for a number of games', async () => {
+        await lotto.setClaimWindow(2, 0)
+        const winner = await buyTicket(winningPick)
+        await fastForwardAndDraw(seed)
+        const payout = await lotto.gameUnclaimedPayouts(0)
+        expect(payout).to.be.gt(0n)
+
+        await skipGame()
+        expect(await lotto.isClaimWindowOpen(0)).to.eq(true)
+        // Payouts of the expired game are swept into the jackpot at the draw
+        const jackpot = await lotto.jackpot()
+        await expect(skipGame()).to.emit(lotto, 'UnclaimedPayoutsSwept').withArgs(0n, payout)
+        expect(await lotto.jackpot()).to.eq(jackpot + payout)
+        expect(await lotto.unclaimedPayouts()).to.eq(0n)
+        expect(await lotto.numSweptGames()).to.eq(1n)
+        await expect(lotto.claimWinnings(winner))
+            .to.be.revertedWithCustomError(lotto, 'ClaimWindowMissed')
+            .withArgs(winner)
+    })
+
+    it('should reserve payouts separately for each game', async () => {
+        await lotto.setClaimWindow(3, 0)
+        const first = await buyTicket(winningPick)
+        await fastForwardAndDraw(seed)
+        const second = await buyTicket(winningPick)
+        await fastForwardAndDraw(seed)
+        const [firstPayout, secondPayout] = [
+            await lotto.gameUnclaimedPayouts(0),
+            await lotto.gameUnclaimedPayouts(1),
+        ]
+        expect(await lotto.unclaimedPayouts()).to.eq(firstPayout + secondPayout)
+
+        await expect(lotto.claimWinnings(second))
+            .to.emit(lotto, 'WinningsClaimed')
+            .withArgs(second, 1n, bob.address, secondPayout)
+        await expect(lotto.claimWinnings(first))
+            .to.emit(lotto, 'WinningsClaimed')
+            .withArgs(first, 0n, bob.address, firstPayout)
+        expect(await lotto.unclaimedPayouts()).to.eq(0n)
+    })
+
+    it('should keep payouts claimable for a duration after the draw', async () => {
+        await lotto.setClaimWindow(1, 86400)
+        const winner = await buyTicket(winningPick)
+        await fastForwardAndDraw(seed)
+        const payout = await lotto.gameUnclaimedPayouts(0)
+        await skipGame()
+        expect(await lotto.isClaimWindowOpen(0)).to.eq(true)
+
+        await time.increase(86400)
+        expect(await lotto.isClaimWindowOpen(0)).to.eq(false)
+        const jackpot = await lotto.jackpot()
+        await expect(lotto.sweepExpiredPayouts())
+            .to.emit(lotto, 'UnclaimedPayoutsSwept')
+            .withArgs(0n, payout)
+        expect(await lotto.jackpot()).to.eq(jackpot + payout)
+        await expect(lotto.claimWinnings(winner)).to.be.revertedWithCustomError(
+            lotto,
+            'ClaimWindowMissed',
+        )
+    })
+
+    it('should allow claims while the next draw is pending', async () => {
+        const winner = await buyTicket(winningPick)
+        await fastForwardAndDraw(seed)
+        await buyTicket(losingPick)
+        await time.increase(gamePeriod)
+        await lotto.draw()
+        expect((await lotto.currentGame()).state).to.eq(GameState.DrawPending)
+        await expect(lotto.claimWinnings(winner)).to.emit(lotto, 'WinningsClaimed')
+    })
+
+    it('should stop claim windows from closing once the lottery is dead', async () => {
+        await lotto.setClaimWindow(1, 86400)
+        const winner = await buyTicket(winningPick)
+        await fastForwardAndDraw(seed)
+        await lotto.kill()
+        await buyTicket(losingPick)
+        await fastForwardAndDraw(seed)
+        expect((await lotto.currentGame()).state).to.eq(GameState.Dead)
+
+        await time.increase(86400 * 2)
+        expect(await lotto.isClaimWindowOpen(0)).to.eq(true)
+        await expect(lotto.claimWinnings(winner)).to.emit(lotto, 'WinningsClaimed')
+    })
+})
@@ -0,0 +1,140 @@
+import { ethers } from 'hardhat'
+import { loadFixture, setBalance, time } from '@nomicfoundation/hardhat-network-helpers'
+import { LooteryFactory, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployLooteryDependencies } from './helpers/fixtures'
+import { deployLotto } from './helpers/lotto'
+import {
+    LooteryClient,
+    GameState,
+    filterLooteryEvents,
+    InvalidBallValueError,
+    InvalidPickLengthError,
+    UnsortedPickError,
+} from '../sdk'
+
+describe('LooteryClient', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    beforeEach(async () => {
+        ;({ deployer, bob, alice, testERC20, factory } =
+            await loadFixture(deployLooteryDependencies))
+    })
+
+    it('should read the current game', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+        const game = await client.getCurrentGame()
+        expect(game.id).to.eq(0n)
+        expect(game.state).to.eq(GameState.Purchase)
+        expect(game.ticketsSold).to.eq(0n)
+        expect(game.drawableAt).to.eq(game.startedAt + 3600n)
+        expect(game.jackpot).to.eq(parseEther('10'))
+        expect(game.ticketPrice).to.eq(await lotto.ticketPrice())
+    })
+
+    it('should approve prize token and purchase tickets', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+        await testERC20.mint(bob, parseEther('0.2'))
+
+        const { tokenIds, events } = await client.purchase([
+            { whomst: bob.address, pick: [1, 2, 3, 4, 5] },
+            { whomst: alice.address, pick: [] },
+        ])
+        expect(tokenIds).to.deep.eq([1n, 2n])
+        const purchases = filterLooteryEvents(events, 'TicketPurchased')
+        expect(purchases.map((event) => event.args.whomst)).to.deep.eq([bob.address, alice.address])
+        expect(purchases[0].args.pick).to.deep.eq([1n, 2n, 3n, 4n, 5n])
+        expect(await testERC20.allowance(bob, lotto)).to.eq(0n)
+    })
+
+    it('should reject invalid picks before sending a tx', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+        await expect(
+            client.purchase([{ whomst: bob.address, pick: [1, 2, 3, 4] }]),
+        ).to.be.rejectedWith(InvalidPickLengthError)
+        await expect(
+            client.purchase([{ whomst: bob.address, pick: [2, 1, 3, 4, 5] }]),
+        ).to.be.rejectedWith(UnsortedPickError)
+        await expect(
+            client.purchase([{ whomst: bob.address, pick: [1, 2, 3, 4, 70] }]),
+        ).to.be.rejectedWith(InvalidBallValueError)
+        expect(await lotto.currentGame().then((game) => game.id)).to.eq(0n)
+    })
+
+    it('should pay for the randomness request when drawing', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+        await testERC20.mint(bob, parseEther('0.1'))
+        await client.purchase([{ whomst: bob.address, pick: [1, 2, 3, 4, 5] }])
+
+        // The lottery can't pay for the request itself
+        await setBalance(await lotto.getAddress(), 0n)
+        await time.increase(3600n)
+        await client.draw()
+        expect((await client.getCurrentGame()).state).to.eq(GameState.DrawPending)
+        expect(await ethers.provider.getBalance(lotto)).to.eq(0n)
+    })
+
+    it('should claim all winning tickets for an owner', async () => {
+        const gamePeriod = 3600n
+        const { lotto, fastForwardAndDraw } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod,
+            prizeToken: testERC20,
+        })
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+        await testERC20.mint(bob, parseEther('0.3'))
+
+        const winningTicket = [31n, 35n, 37n, 56n, 61n]
+        const losingTicket = [3n, 11n, 22n, 29n, 42n]
+        const { tokenIds } = await client.purchase([
+            { whomst: bob.address, pick: winningTicket },
+            { whomst: bob.address, pick: winningTicket },
+            { whomst: bob.address, pick: losingTicket },
+        ])
+        expect(await client.getOwnedTokenIds(bob.address)).to.deep.eq(tokenIds)
+
+        await fastForwardAndDraw(6942069420n)
+        const unclaimedPayouts = await lotto.unclaimedPayouts()
+
+        // Alice claims on behalf of Bob; winnings still go to Bob
+        const claims = await LooteryClient.connect(await lotto.getAddress(), alice).claimAll(
+            bob.address,
+        )
+        expect(claims.map((claim) => claim.tokenId)).to.deep.eq(tokenIds.slice(0, 2))
+        expect(claims.map((claim) => claim.value)).to.deep.eq([
+            unclaimedPayouts / 2n,
+            unclaimedPayouts / 2n,
+        ])
+        expect(await testERC20.balanceOf(bob.address)).to.eq(unclaimedPayouts)
+    })
+})
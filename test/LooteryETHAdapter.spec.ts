@@ -1,44 +1,24 @@
-import { ethers } from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
 import {
     LooteryFactory,
-    LooteryFactory__factory,
     Lootery__factory,
-    MockRandomiser,
-    MockRandomiser__factory,
-    MockERC20__factory,
     type MockERC20,
     WETH9__factory,
     LooteryETHAdapter__factory,
-    TicketSVGRenderer__factory,
-    TicketSVGRenderer,
 } from '../typechain-types'
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
-import { ZeroAddress, parseEther } from 'ethers'
+import { ZeroAddress, id, parseEther } from 'ethers'
 import { expect } from 'chai'
-import { deployProxy } from './helpers/deployProxy'
+import { deployLooteryDependencies } from './helpers/fixtures'
+import { RandomnessProvider } from './helpers/randomness'
 
 describe('Lootery ETH Adapter', () => {
-    let mockRandomiser: MockRandomiser
     let testERC20: MockERC20
     let factory: LooteryFactory
     let deployer: SignerWithAddress
     let bob: SignerWithAddress
-    let ticketSVGRenderer: TicketSVGRenderer
     beforeEach(async () => {
-        ;[deployer, bob] = await ethers.getSigners()
-        mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
-        testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
-        const looteryImpl = await new Lootery__factory(deployer).deploy()
-        ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
-        factory = await deployProxy({
-            deployer,
-            implementation: LooteryFactory__factory,
-            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
-                await looteryImpl.getAddress(),
-                await mockRandomiser.getAddress(),
-                await ticketSVGRenderer.getAddress(),
-            ]),
-        })
+        ;({ deployer, bob, testERC20, factory } = await loadFixture(deployLooteryDependencies))
     })
 
     /**
@@ -59,12 +39,18 @@ describe('Lootery ETH Adapter', () => {
             'LOTTO',
             5,
             69,
+            0, // no bonus ball
             69420,
             parseEther('0.1'),
             5000, // 50%,
             weth9,
             3600, // 1 hour
             parseEther('1'),
+            {
+                provider: RandomnessProvider.Anyrand,
+                subscriptionId: 0n,
+                keyHash: id('lootery.keyHash'),
+            },
         )
         const looteryETHAdapter = await new LooteryETHAdapter__factory(deployer).deploy(weth9)
 
@@ -102,12 +88,18 @@ describe('Lootery ETH Adapter', () => {
             'LOTTO',
             5,
             69,
+            0, // no bonus ball
             69420,
             parseEther('0.1'),
             5000, // 50%,
             weth9,
             3600, // 1 hour
             parseEther('1'),
+            {
+                provider: RandomnessProvider.Anyrand,
+                subscriptionId: 0n,
+                keyHash: id('lootery.keyHash'),
+            },
         )
         const looteryETHAdapter = await new LooteryETHAdapter__factory(deployer).deploy(weth9)
 
@@ -1,41 +1,91 @@
 import { ethers } from 'hardhat'
 import {
-    Lootery,
+    LooteryBlueprint,
+    LooteryBlueprint__factory,
     LooteryFactory,
     LooteryFactory__factory,
     Lootery__factory,
-    MockRandomiser,
-    MockRandomiser__factory,
     TicketSVGRenderer__factory,
     TicketSVGRenderer,
+    MockRandomiser,
+    MockRandomiser__factory,
+    VRFCoordinatorV2_5Mock,
+    AnyrandAdapter__factory,
+    VRFAdapter__factory,
+    LooteryDrawExtension,
+    LooteryPurchaseExtension,
+    LooteryFactoryV1_6_0,
+    LooteryFactoryV1_6_0__factory,
 } from '../typechain-types'
 import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
 import { expect } from 'chai'
+import { ZeroAddress, id } from 'ethers'
 import { deployProxy } from './helpers/deployProxy'
+import { RandomnessProvider, deployVrfCoordinatorMock } from './helpers/randomness'
+import { deployLooteryExtensions } from './helpers/fixtures'
 
 describe('LooteryFactory', () => {
-    let mockRandomiser: MockRandomiser
     let factory: LooteryFactory
     let deployer: SignerWithAddress
     let bob: SignerWithAddress
+    let ccipRouter: string
+    let mockRandomiser: MockRandomiser
+    let vrfCoordinator: VRFCoordinatorV2_5Mock
     let ticketSVGRenderer: TicketSVGRenderer
-    let looteryImpl: Lootery
+    let looteryBlueprint: LooteryBlueprint
+    let looteryDrawExtension: LooteryDrawExtension
+    let looteryPurchaseExtension: LooteryPurchaseExtension
     beforeEach(async () => {
         ;[deployer, bob] = await ethers.getSigners()
+        ccipRouter = ethers.Wallet.createRandom().address
         mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
-        looteryImpl = await new Lootery__factory(deployer).deploy()
+        vrfCoordinator = await deployVrfCoordinatorMock(deployer)
+        looteryBlueprint = await new LooteryBlueprint__factory(deployer).deploy()
+        ;({ looteryDrawExtension, looteryPurchaseExtension } =
+            await deployLooteryExtensions(deployer))
         ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
         factory = await deployProxy({
             deployer,
             implementation: LooteryFactory__factory,
             initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
-                await looteryImpl.getAddress(),
+                await looteryBlueprint.getAddress(),
+                await looteryDrawExtension.getAddress(),
+                await looteryPurchaseExtension.getAddress(),
                 await mockRandomiser.getAddress(),
+                await vrfCoordinator.getAddress(),
+                ccipRouter,
                 await ticketSVGRenderer.getAddress(),
             ]),
         })
     })
 
+    async function create(
+        signer: SignerWithAddress,
+        pickLength = 5,
+        provider = RandomnessProvider.Anyrand,
+    ) {
+        return factory
+            .connect(signer)
+            .create(
+                'Test Lootery',
+                'TEST',
+                pickLength,
+                16,
+                0,
+                3600,
+                1,
+                5000,
+                ethers.Wallet.createRandom().address,
+                60,
+                1,
+                {
+                    provider,
+                    subscriptionId: 1,
+                    keyHash: id('lootery.keyHash'),
+                },
+            )
+    }
+
     it('should return the correct type and version', async () => {
         const [type, version] = await factory.typeAndVersion().then((version) => version.split(' '))
         expect(type).to.equal('LooteryFactory')
@@ -45,8 +95,12 @@ describe('LooteryFactory', () => {
     it('should revert on double-initialisation', async () => {
         await expect(
             factory.init(
-                await looteryImpl.getAddress(),
+                await looteryBlueprint.getAddress(),
+                await looteryDrawExtension.getAddress(),
+                await looteryPurchaseExtension.getAddress(),
                 await mockRandomiser.getAddress(),
+                await vrfCoordinator.getAddress(),
+                ccipRouter,
                 await ticketSVGRenderer.getAddress(),
             ),
         ).to.be.revertedWithCustomError(factory, 'InvalidInitialization')
@@ -74,28 +128,202 @@ describe('LooteryFactory', () => {
             .withArgs(await newFactoryImpl.getAddress())
     })
 
+    it('should keep its state when upgraded from 1.6.0', async () => {
+        const oldFactory: LooteryFactoryV1_6_0 = await deployProxy({
+            deployer,
+            implementation: LooteryFactoryV1_6_0__factory,
+            initData: LooteryFactoryV1_6_0__factory.createInterface().encodeFunctionData('init', [
+                await looteryBlueprint.getAddress(),
+                await mockRandomiser.getAddress(),
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        await oldFactory.setFeeRecipient(deployer.address)
+        for (let i = 0; i < 3; i++) {
+            await oldFactory.launch()
+        }
+
+        await oldFactory.upgradeToAndCall(
+            await new LooteryFactory__factory(deployer).deploy().then((impl) => impl.getAddress()),
+            '0x',
+        )
+        factory = LooteryFactory__factory.connect(await oldFactory.getAddress(), deployer)
+        expect(await factory.typeAndVersion()).to.eq('LooteryFactory 1.8.0')
+        expect(await factory.getLooteryMasterCopy()).to.eq(await looteryBlueprint.getAddress())
+        expect(await factory.getRandomiser()).to.eq(await mockRandomiser.getAddress())
+        expect(await factory.getTicketSVGRenderer()).to.eq(await ticketSVGRenderer.getAddress())
+        expect(await factory.getFeeRecipient()).to.eq(deployer.address)
+        // The registry, CCIP router and VRF coordinator were added in 1.8.0,
+        // and start out empty
+        expect(await factory.getLooteryCount()).to.eq(0n)
+        expect(await factory.getCcipRouter()).to.eq(ZeroAddress)
+        expect(await factory.getVrfCoordinator()).to.eq(ZeroAddress)
+        expect(await factory.getLooteryExtensions()).to.deep.eq([ZeroAddress, ZeroAddress])
+
+        // The nonce still tracks the factory's account nonce, once lotteries
+        // can be launched with the extensions of the current blueprint
+        await factory.setLooteryExtensions(looteryDrawExtension, looteryPurchaseExtension)
+        const computedAddress = await factory.computeNextAddress()
+        await expect(create(bob))
+            .to.emit(factory, 'LooteryLaunched')
+            .withArgs(
+                computedAddress,
+                await looteryBlueprint.getAddress(),
+                bob.address,
+                'Test Lootery',
+            )
+        expect(await factory.getLooteryCount()).to.eq(1n)
+        expect(await factory.getLooteriesByDeployer(bob.address)).to.deep.eq([computedAddress])
+        // No CCIP router is configured yet, so the lottery doesn't have one either
+        expect(await Lootery__factory.connect(computedAddress, deployer).getRouter()).to.eq(
+            ZeroAddress,
+        )
+    })
+
     it('should set lootery master copy', async () => {
         const oldLooteryMasterCopy = await factory.getLooteryMasterCopy()
-        expect(oldLooteryMasterCopy).to.eq(await looteryImpl.getAddress())
+        expect(oldLooteryMasterCopy).to.eq(await looteryBlueprint.getAddress())
+
+        const newLooteryMasterCopy = await new LooteryBlueprint__factory(deployer).deploy()
+        await expect(
+            factory.connect(bob).setLooteryMasterCopy(await newLooteryMasterCopy.getAddress()),
+        ).to.be.revertedWithCustomError(factory, 'AccessControlUnauthorizedAccount')
+        await factory.setLooteryMasterCopy(await newLooteryMasterCopy.getAddress())
+        expect(await factory.getLooteryMasterCopy()).to.eq(await newLooteryMasterCopy.getAddress())
+    })
+
+    it('should only accept blueprints as lootery master copy', async () => {
+        const notBlueprints = [ZeroAddress, bob.address, await ticketSVGRenderer.getAddress()]
+        for (const notBlueprint of notBlueprints) {
+            await expect(factory.setLooteryMasterCopy(notBlueprint))
+                .to.be.revertedWithCustomError(factory, 'InvalidLooteryMasterCopy')
+                .withArgs(notBlueprint)
+        }
+    })
 
-        const newLooterMasterCopy = await new Lootery__factory(deployer).deploy()
+    it('should set lootery extensions', async () => {
+        expect(await factory.getLooteryExtensions()).to.deep.eq([
+            await looteryDrawExtension.getAddress(),
+            await looteryPurchaseExtension.getAddress(),
+        ])
+
+        const newExtensions = await deployLooteryExtensions(deployer)
         await expect(
-            factory.connect(bob).setLooteryMasterCopy(await newLooterMasterCopy.getAddress()),
+            factory
+                .connect(bob)
+                .setLooteryExtensions(
+                    newExtensions.looteryDrawExtension,
+                    newExtensions.looteryPurchaseExtension,
+                ),
         ).to.be.revertedWithCustomError(factory, 'AccessControlUnauthorizedAccount')
-        await factory.setLooteryMasterCopy(await newLooterMasterCopy.getAddress())
-        expect(await factory.getLooteryMasterCopy()).to.eq(await newLooterMasterCopy.getAddress())
+        await expect(
+            factory.setLooteryExtensions(
+                newExtensions.looteryDrawExtension,
+                newExtensions.looteryPurchaseExtension,
+            ),
+        )
+            .to.emit(factory, 'LooteryExtensionsUpdated')
+            .withArgs(
+                await looteryDrawExtension.getAddress(),
+                await looteryPurchaseExtension.getAddress(),
+                await newExtensions.looteryDrawExtension.getAddress(),
+                await newExtensions.looteryPurchaseExtension.getAddress(),
+            )
+        expect(await factory.getLooteryExtensions()).to.deep.eq([
+            await newExtensions.looteryDrawExtension.getAddress(),
+            await newExtensions.looteryPurchaseExtension.getAddress(),
+        ])
+    })
+
+    it('should only accept contracts as lootery extensions', async () => {
+        await expect(factory.setLooteryExtensions(ZeroAddress, looteryPurchaseExtension))
+            .to.be.revertedWithCustomError(factory, 'InvalidLooteryExtension')
+            .withArgs(ZeroAddress)
+        await expect(factory.setLooteryExtensions(looteryDrawExtension, bob.address))
+            .to.be.revertedWithCustomError(factory, 'InvalidLooteryExtension')
+            .withArgs(bob.address)
     })
 
     it('should set randomiser', async () => {
-        const oldRandomiser = await factory.getRandomiser()
-        expect(oldRandomiser).to.eq(await mockRandomiser.getAddress())
+        expect(await factory.getRandomiser()).to.eq(await mockRandomiser.getAddress())
 
-        const newRandomiser = await new MockRandomiser__factory(deployer).deploy()
+        const newRandomiser = ethers.Wallet.createRandom().address
         await expect(
-            factory.connect(bob).setRandomiser(await newRandomiser.getAddress()),
+            factory.connect(bob).setRandomiser(newRandomiser),
         ).to.be.revertedWithCustomError(factory, 'AccessControlUnauthorizedAccount')
-        await factory.setRandomiser(await newRandomiser.getAddress())
-        expect(await factory.getRandomiser()).to.eq(await newRandomiser.getAddress())
+        await expect(factory.setRandomiser(newRandomiser))
+            .to.emit(factory, 'RandomiserUpdated')
+            .withArgs(await mockRandomiser.getAddress(), newRandomiser)
+        expect(await factory.getRandomiser()).to.eq(newRandomiser)
+    })
+
+    it('should set VRF coordinator', async () => {
+        expect(await factory.getVrfCoordinator()).to.eq(await vrfCoordinator.getAddress())
+
+        const newVrfCoordinator = ethers.Wallet.createRandom().address
+        await expect(
+            factory.connect(bob).setVrfCoordinator(newVrfCoordinator),
+        ).to.be.revertedWithCustomError(factory, 'AccessControlUnauthorizedAccount')
+        await expect(factory.setVrfCoordinator(newVrfCoordinator))
+            .to.emit(factory, 'VrfCoordinatorUpdated')
+            .withArgs(await vrfCoordinator.getAddress(), newVrfCoordinator)
+        expect(await factory.getVrfCoordinator()).to.eq(newVrfCoordinator)
+    })
+
+    it('should set CCIP router', async () => {
+        expect(await factory.getCcipRouter()).to.eq(ccipRouter)
+
+        const newCcipRouter = ethers.Wallet.createRandom().address
+        await expect(
+            factory.connect(bob).setCcipRouter(newCcipRouter),
+        ).to.be.revertedWithCustomError(factory, 'AccessControlUnauthorizedAccount')
+        await expect(factory.setCcipRouter(newCcipRouter))
+            .to.emit(factory, 'CcipRouterUpdated')
+            .withArgs(ccipRouter, newCcipRouter)
+        expect(await factory.getCcipRouter()).to.eq(newCcipRouter)
+        // CCIP may be disabled, e.g. on chains that it isn't available on
+        await expect(factory.setCcipRouter(ZeroAddress))
+            .to.emit(factory, 'CcipRouterUpdated')
+            .withArgs(newCcipRouter, ZeroAddress)
+        expect(await factory.getCcipRouter()).to.eq(ZeroAddress)
+    })
+
+    it('should launch lotteries without CCIP', async () => {
+        const factoryWithoutCcip: LooteryFactory = await deployProxy({
+            deployer,
+            implementation: LooteryFactory__factory,
+            initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                await looteryBlueprint.getAddress(),
+                await looteryDrawExtension.getAddress(),
+                await looteryPurchaseExtension.getAddress(),
+                await mockRandomiser.getAddress(),
+                ZeroAddress,
+                ZeroAddress,
+                await ticketSVGRenderer.getAddress(),
+            ]),
+        })
+        expect(await factoryWithoutCcip.getCcipRouter()).to.eq(ZeroAddress)
+        factory = factoryWithoutCcip
+        const lottoAddress = await factory.computeNextAddress()
+        await create(bob)
+        const lotto = Lootery__factory.connect(lottoAddress, bob)
+        expect(await lotto.getRouter()).to.eq(ZeroAddress)
+        // Nothing can be delivered or sent via CCIP
+        await expect(
+            lotto.ccipReceive({
+                messageId: id('message'),
+                sourceChainSelector: 1n,
+                sender: '0x',
+                data: '0x',
+                destTokenAmounts: [],
+            }),
+        )
+            .to.be.revertedWithCustomError(lotto, 'InvalidRouter')
+            .withArgs(bob.address)
+        await expect(lotto.getTicketPriceSyncFee(1n, bob.address)).to.be.revertedWithCustomError(
+            lotto,
+            'CcipUnavailable',
+        )
     })
 
     it('should set ticketSVGRenderer', async () => {
@@ -111,28 +339,85 @@ describe('LooteryFactory', () => {
     })
 
     it('should create a lotto at the computed address', async () => {
-        const computedAddress = await factory.computeNextAddress()
-        await expect(
-            factory.create(
-                'Test Lootery',
-                'TEST',
-                5,
-                16,
-                3600,
-                1,
-                5000,
-                ethers.Wallet.createRandom().address,
-                60,
-                1,
-            ),
-        )
-            .to.emit(factory, 'LooteryLaunched')
-            .withArgs(
-                computedAddress,
-                await factory.getLooteryMasterCopy(),
-                deployer.address,
-                'Test Lootery',
-            )
+        for (let i = 0; i < 3; i++) {
+            const computedAddress = await factory.computeNextAddress()
+            await expect(create(deployer))
+                .to.emit(factory, 'LooteryLaunched')
+                .withArgs(
+                    computedAddress,
+                    await factory.getLooteryMasterCopy(),
+                    deployer.address,
+                    'Test Lootery',
+                )
+        }
+    })
+
+    it('should configure the lotto and hand ownership to the deployer', async () => {
+        const lottoAddress = await factory.computeNextAddress()
+        await create(bob)
+        const lotto = Lootery__factory.connect(lottoAddress, bob)
+        expect(await lotto.owner()).to.eq(bob.address)
+        expect(await lotto.getRouter()).to.eq(ccipRouter)
+        expect(await lotto.pickLength()).to.eq(5n)
+    })
+
+    it('should give the lotto an Anyrand adapter', async () => {
+        const lottoAddress = await factory.computeNextAddress()
+        await create(bob, 5, RandomnessProvider.Anyrand)
+        const lotto = Lootery__factory.connect(lottoAddress, bob)
+        const adapter = AnyrandAdapter__factory.connect(await lotto.randomiser(), bob)
+        expect(await adapter.typeAndVersion()).to.match(/^AnyrandAdapter /)
+        expect(await adapter.consumer()).to.eq(lottoAddress)
+        expect(await adapter.anyrand()).to.eq(await mockRandomiser.getAddress())
+        expect(await lotto.getRequestPrice()).to.eq(await mockRandomiser.requestPrice())
+    })
+
+    it('should give the lotto a Chainlink VRF adapter', async () => {
+        const lottoAddress = await factory.computeNextAddress()
+        await create(bob, 5, RandomnessProvider.ChainlinkVRF)
+        const lotto = Lootery__factory.connect(lottoAddress, bob)
+        const adapter = VRFAdapter__factory.connect(await lotto.randomiser(), bob)
+        expect(await adapter.typeAndVersion()).to.match(/^VRFAdapter /)
+        expect(await adapter.consumer()).to.eq(lottoAddress)
+        expect(await adapter.s_vrfCoordinator()).to.eq(await vrfCoordinator.getAddress())
+        expect(await adapter.subscriptionId()).to.eq(1n)
+        expect(await adapter.keyHash()).to.eq(id('lootery.keyHash'))
+        expect(await lotto.getRequestPrice()).to.eq(0n)
+    })
+
+    it('should revert if the randomness provider is not configured', async () => {
+        await factory.setRandomiser(ZeroAddress)
+        await expect(create(deployer, 5, RandomnessProvider.Anyrand))
+            .to.be.revertedWithCustomError(factory, 'RandomnessProviderNotConfigured')
+            .withArgs(RandomnessProvider.Anyrand)
+        await factory.setVrfCoordinator(ZeroAddress)
+        await expect(create(deployer, 5, RandomnessProvider.ChainlinkVRF))
+            .to.be.revertedWithCustomError(factory, 'RandomnessProviderNotConfigured')
+            .withArgs(RandomnessProvider.ChainlinkVRF)
+    })
+
+    it('should keep a registry of launched lottos', async () => {
+        const bobLottos = []
+        for (let i = 0; i < 2; i++) {
+            bobLottos.push(await factory.computeNextAddress())
+            await create(bob)
+        }
+        const deployerLotto = await factory.computeNextAddress()
+        await create(deployer)
+
+        expect(await factory.getLooteryCount()).to.eq(3n)
+        expect(await factory.getLooteriesByDeployer(bob.address)).to.deep.eq(bobLottos)
+        expect(await factory.getLooteriesByDeployer(deployer.address)).to.deep.eq([deployerLotto])
+        expect(await factory.isLootery(deployerLotto)).to.eq(true)
+        expect(await factory.isLootery(await looteryBlueprint.getAddress())).to.eq(false)
+    })
+
+    it('should bubble up lotto constructor errors', async () => {
+        const lottoInterface = Lootery__factory.connect(ZeroAddress, deployer)
+        await expect(create(deployer, 0))
+            .to.be.revertedWithCustomError(lottoInterface, 'InvalidPickLength')
+            .withArgs(0)
+        expect(await factory.getLooteryCount()).to.eq(0n)
     })
 
     it('should set protocol fee recipient', async () => {
@@ -140,7 +425,9 @@ describe('LooteryFactory', () => {
             factory.connect(bob).setFeeRecipient(bob.address),
         ).to.be.revertedWithCustomError(factory, 'AccessControlUnauthorizedAccount')
 
-        await factory.setFeeRecipient(bob.address)
+        await expect(factory.setFeeRecipient(bob.address))
+            .to.emit(factory, 'FeeRecipientSet')
+            .withArgs(ZeroAddress, bob.address)
         expect(await factory.getFeeRecipient()).to.eq(bob.address)
     })
 })
@@ -0,0 +1,178 @@
+import { ethers } from 'hardhat'
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import { MockERC20Permit__factory, type Lootery, type MockERC20Permit } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { TypedDataEncoder, ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { createLottoFixture } from './helpers/fixtures'
+import {
+    LocalRelayer,
+    LooteryClient,
+    PURCHASE_ORDER_TYPES,
+    getEip712Domain,
+    getSignatureDeadline,
+    signPermit,
+    signPurchaseOrder,
+} from '../sdk'
+
+// Permits need a prize token that implements EIP-2612
+const deployPermitLottoFixture = createLottoFixture({
+    prizeToken: ({ deployer }) => new MockERC20Permit__factory(deployer).deploy(),
+})
+
+describe('Lootery: gasless purchases', () => {
+    const pick = [3n, 11n, 22n, 29n, 42n]
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let prizeToken: MockERC20Permit
+    let lotto: Lootery
+    let ticketPrice: bigint
+    beforeEach(async () => {
+        const fixture = await loadFixture(deployPermitLottoFixture)
+        ;({ bob, alice, lotto } = fixture)
+        prizeToken = fixture.prizeToken as MockERC20Permit
+        ticketPrice = await lotto.ticketPrice()
+        await prizeToken.mint(bob, parseEther('10'))
+    })
+
+    /** Sign a permit for the lottery to spend `signer`'s prize tokens */
+    async function signLotteryPermit(signer: SignerWithAddress, value: bigint, deadline: bigint) {
+        return signPermit(
+            signer,
+            await prizeToken.getAddress(),
+            await lotto.getAddress(),
+            value,
+            deadline,
+        )
+    }
+
+    describe('#purchaseWithPermit', () => {
+        it('should purchase without a prior approval', async () => {
+            const deadline = await getSignatureDeadline(bob)
+            const { v, r, s } = await signLotteryPermit(bob, ticketPrice, deadline)
+            const tickets = [{ whomst: alice.address, pick }]
+            const tx = lotto
+                .connect(bob)
+                .purchaseWithPermit(tickets, ZeroAddress, deadline, v, r, s)
+            await expect(tx).to.changeTokenBalance(prizeToken, bob, -ticketPrice)
+            await expect(tx).to.emit(lotto, 'TicketPurchased').withArgs(0n, alice.address, 1n, pick)
+            expect(await prizeToken.allowance(bob, lotto)).to.eq(0n)
+        })
+
+        it('should still purchase if the permit was front-run', async () => {
+            const deadline = await getSignatureDeadline(bob)
+            const { v, r, s } = await signLotteryPermit(bob, ticketPrice, deadline)
+            await prizeToken.connect(alice).permit(bob, lotto, ticketPrice, deadline, v, r, s)
+            const tickets = [{ whomst: bob.address, pick }]
+            await expect(
+                lotto.connect(bob).purchaseWithPermit(tickets, ZeroAddress, deadline, v, r, s),
+            ).to.emit(lotto, 'TicketPurchased')
+        })
+
+        it('should revert without a valid permit or allowance', async () => {
+            const deadline = await getSignatureDeadline(alice)
+            // Signed by someone other than the payer
+            const { v, r, s } = await signLotteryPermit(alice, ticketPrice, deadline)
+            const tickets = [{ whomst: bob.address, pick }]
+            await expect(
+                lotto.connect(bob).purchaseWithPermit(tickets, ZeroAddress, deadline, v, r, s),
+            ).to.be.revertedWithCustomError(prizeToken, 'ERC20InsufficientAllowance')
+        })
+    })
+
+    describe('#purchaseBySig', () => {
+        beforeEach(async () => {
+            await prizeToken.connect(bob).approve(lotto, parseEther('10'))
+        })
+
+        it('should compute the EIP-712 digest of an order', async () => {
+            const { order } = await signPurchaseOrder(lotto, bob, {
+                tickets: [
+                    { whomst: alice.address, pick },
+                    { whomst: bob.address, pick: [] },
+                ],
+                deadline: await getSignatureDeadline(bob),
+            })
+            const domain = await getEip712Domain(await lotto.getAddress(), bob)
+            expect(domain.name).to.eq('Lootery')
+            expect(await lotto.hashPurchaseOrder(order)).to.eq(
+                TypedDataEncoder.hash(domain, PURCHASE_ORDER_TYPES, order),
+            )
+        })
+
+        it('should purchase on behalf of the signer', async () => {
+            const { order, signature } = await signPurchaseOrder(lotto, bob, {
+                tickets: [{ whomst: alice.address, pick }],
+                deadline: await getSignatureDeadline(bob),
+            })
+            // Alice relays the order, but bob pays for it
+            const tx = lotto.connect(alice).purchaseBySig(order, signature)
+            await expect(tx).to.changeTokenBalances(prizeToken, [bob, alice], [-ticketPrice, 0n])
+            await expect(tx).to.emit(lotto, 'TicketPurchased').withArgs(0n, alice.address, 1n, pick)
+            expect(await lotto.nonces(bob)).to.eq(1n)
+
+            // Orders can't be replayed
+            await expect(lotto.connect(alice).purchaseBySig(order, signature))
+                .to.be.revertedWithCustomError(lotto, 'InvalidAccountNonce')
+                .withArgs(bob.address, 1n)
+        })
+
+        it('should reject expired orders', async () => {
+            const deadline = await getSignatureDeadline(bob, 60n)
+            const { order, signature } = await signPurchaseOrder(lotto, bob, {
+                tickets: [{ whomst: bob.address, pick }],
+                deadline,
+            })
+            await time.increase(61)
+            await expect(lotto.connect(alice).purchaseBySig(order, signature))
+                .to.be.revertedWithCustomError(lotto, 'PurchaseOrderExpired')
+                .withArgs(deadline)
+        })
+
+        it('should reject orders that were not signed by the payer', async () => {
+            const { order, signature } = await signPurchaseOrder(lotto, bob, {
+                tickets: [{ whomst: bob.address, pick }],
+                deadline: await getSignatureDeadline(bob),
+            })
+            const tampered = { ...order, tickets: [{ whomst: alice.address, pick }] }
+            await expect(lotto.connect(alice).purchaseBySig(tampered, signature))
+                .to.be.revertedWithCustomError(lotto, 'InvalidPurchaseOrderSignature')
+                .withArgs(bob.address)
+            const forged = await signPurchaseOrder(lotto, alice, {
+                tickets: [{ whomst: alice.address, pick }],
+                deadline: await getSignatureDeadline(alice),
+                nonce: 0n,
+            })
+            const forgedOrder = { ...forged.order, payer: bob.address }
+            await expect(lotto.connect(alice).purchaseBySig(forgedOrder, forged.signature))
+                .to.be.revertedWithCustomError(lotto, 'InvalidPurchaseOrderSignature')
+                .withArgs(bob.address)
+        })
+    })
+
+    describe('LooteryClient', () => {
+        it('should purchase with a permit', async () => {
+            const client = LooteryClient.connect(await lotto.getAddress(), bob)
+            const { tokenIds } = await client.purchaseWithPermit([
+                { whomst: bob.address, pick },
+                { whomst: alice.address, pick },
+            ])
+            expect(tokenIds).to.deep.eq([1n, 2n])
+            expect(await prizeToken.balanceOf(bob)).to.eq(parseEther('10') - ticketPrice * 2n)
+        })
+
+        it('should purchase via a relayer for a payer without native currency', async () => {
+            const payer = ethers.Wallet.createRandom().connect(ethers.provider)
+            await prizeToken.mint(payer, ticketPrice)
+            const client = LooteryClient.connect(await lotto.getAddress(), payer)
+            const signedPurchase = await client.signPurchase([{ whomst: payer.address, pick }])
+            expect(signedPurchase.permit?.value).to.eq(ticketPrice)
+
+            const { tokenIds } = await new LocalRelayer(alice).relay(signedPurchase)
+            expect(tokenIds).to.deep.eq([1n])
+            expect(await prizeToken.balanceOf(payer)).to.eq(0n)
+            expect(await ethers.provider.getBalance(payer)).to.eq(0n)
+            expect(await lotto.nonces(payer)).to.eq(1n)
+        })
+    })
+})
@@ -0,0 +1,174 @@
+import { ethers } from 'hardhat'
+import { loadFixture, mine, takeSnapshot, time } from '@nomicfoundation/hardhat-network-helpers'
+import { LooteryFactory, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { deployLooteryDependencies } from './helpers/fixtures'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { JsonFileIndexerStore, LooteryIndexer, MemoryIndexerStore } from '../sdk/indexer'
+import { computeTierPots } from '../sdk/prizeTiers'
+
+describe('LooteryIndexer', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    const gamePeriod = 3600n
+    const winningTicket = [31n, 35n, 37n, 56n, 61n]
+    const losingTicket = [3n, 11n, 22n, 29n, 42n]
+    beforeEach(async () => {
+        ;({ deployer, bob, alice, testERC20, factory } =
+            await loadFixture(deployLooteryDependencies))
+    })
+
+    async function deploy() {
+        const startBlock = await ethers.provider.getBlockNumber()
+        const lottoData = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod,
+            prizeToken: testERC20,
+        })
+        await testERC20.mint(deployer, parseEther('10'))
+        await testERC20.approve(lottoData.lotto, parseEther('10'))
+        return { ...lottoData, startBlock }
+    }
+
+    it('should summarise games', async () => {
+        const { lotto, fastForwardAndDraw, startBlock } = await deploy()
+        // Game 0: no winners
+        await purchaseTicket(lotto, bob.address, losingTicket)
+        await fastForwardAndDraw(6942069421n)
+        // Game 1: Bob and Alice win, only Bob claims
+        const { tokenId: bobTokenId } = await purchaseTicket(lotto, bob.address, winningTicket)
+        const { tokenId: aliceTokenId } = await purchaseTicket(lotto, alice.address, winningTicket)
+        await purchaseTicket(lotto, alice.address, losingTicket)
+        await fastForwardAndDraw(6942069420n)
+        const prizePool = await lotto.unclaimedPayouts()
+        await lotto.claimWinnings(bobTokenId)
+        // Game 2: skipped, which closes game 1's claim window and sweeps
+        // Alice's unclaimed prize
+        await time.increase(gamePeriod)
+        await lotto.draw()
+
+        const indexer = new LooteryIndexer({
+            lootery: await lotto.getAddress(),
+            provider: ethers.provider,
+            startBlock,
+            batchSize: 3,
+        })
+        await indexer.sync()
+        const [game0, game1, game2] = await indexer.getGameSummaries()
+
+        expect(game0.ticketsSold).to.eq(1n)
+        expect(game0.winningPick).to.deep.eq([12n, 13n, 25n, 51n, 65n])
+        expect(game0.winningTokenIds).to.deep.eq([])
+        expect(game0.prizePool).to.eq(0n)
+        expect(game0.jackpotAfter).to.eq(parseEther('10.05'))
+
+        expect(game1.ticketsSold).to.eq(3n)
+        expect(game1.winningPick).to.deep.eq(winningTicket)
+        expect(game1.winningTokenIds).to.deep.eq([bobTokenId, aliceTokenId])
+        expect(game1.jackpotBefore).to.eq(parseEther('10.2'))
+        expect(game1.jackpotAfter).to.eq(0n)
+        expect(game1.prizePool).to.eq(prizePool)
+        expect(game1.claims.map((claim) => claim.tokenId)).to.deep.eq([bobTokenId])
+        expect(game1.claimed).to.eq(prizePool / 2n)
+        expect(game1.swept).to.eq(prizePool - prizePool / 2n)
+        expect(game1.unclaimed).to.eq(0n)
+
+        expect(game2.isDrawSkipped).to.eq(true)
+        expect(game2.ticketsSold).to.eq(0n)
+        expect(game2.winningPick).to.eq(undefined)
+    })
+
+    it('should summarise games with prize tiers', async () => {
+        const { lotto, fastForwardAndDraw, startBlock } = await deploy()
+        const tiers = [
+            { matches: 5n, bonusBall: false, shareBps: 5000n },
+            { matches: 4n, bonusBall: false, shareBps: 3000n },
+            { matches: 3n, bonusBall: false, shareBps: 1000n },
+        ]
+        await lotto.setPrizeTiers(tiers)
+        // Matches 3 balls of the winning pick
+        const { tokenId } = await purchaseTicket(lotto, bob.address, [1n, 2n, 31n, 35n, 37n])
+        await purchaseTicket(lotto, alice.address, losingTicket)
+        const pot = (await lotto.jackpot()) + (await lotto.unclaimedPayouts())
+        await fastForwardAndDraw(6942069420n)
+        await lotto.tallyPrizeTiers(0, 100)
+        await lotto.claimWinnings(tokenId)
+
+        const indexer = new LooteryIndexer({
+            lootery: await lotto.getAddress(),
+            provider: ethers.provider,
+            startBlock,
+        })
+        await indexer.sync()
+        const [game0] = await indexer.getGameSummaries()
+        const { pots } = computeTierPots(pot, tiers, 0n)
+        expect(game0.isTiered).to.eq(true)
+        expect(game0.winningTokenIds).to.deep.eq([tokenId])
+        // The unwon 4-ball tier was rolled over once tallied
+        expect(game0.prizePool).to.eq(pots.get(3n))
+        expect(game0.claimed).to.eq(pots.get(3n))
+        expect(game0.unclaimed).to.eq(0n)
+    })
+
+    it('should resume from the last indexed block', async () => {
+        const { lotto, startBlock } = await deploy()
+        const storePath = path.join(
+            await fs.mkdtemp(path.join(os.tmpdir(), 'lootery-indexer-')),
+            'store.json',
+        )
+        const createIndexer = async () =>
+            new LooteryIndexer({
+                lootery: await lotto.getAddress(),
+                provider: ethers.provider,
+                store: new JsonFileIndexerStore(storePath),
+                startBlock,
+            })
+
+        await purchaseTicket(lotto, bob.address, losingTicket)
+        expect(await (await createIndexer()).sync()).to.be.greaterThan(0)
+        const lastIndexedBlock = await ethers.provider.getBlockNumber()
+
+        await purchaseTicket(lotto, alice.address, winningTicket)
+        const indexer = await createIndexer()
+        expect(await indexer.getLastIndexedBlock()).to.eq(lastIndexedBlock)
+        expect(await indexer.sync()).to.eq(1)
+        const [game0] = await indexer.getGameSummaries()
+        expect(game0.ticketsSold).to.eq(2n)
+        await fs.rm(path.dirname(storePath), { recursive: true })
+    })
+
+    it('should rewind events from reorged blocks', async () => {
+        const { lotto, startBlock } = await deploy()
+        const store = new MemoryIndexerStore()
+        const indexer = new LooteryIndexer({
+            lootery: await lotto.getAddress(),
+            provider: ethers.provider,
+            store,
+            startBlock,
+        })
+        await purchaseTicket(lotto, bob.address, losingTicket)
+        await indexer.sync()
+
+        const snapshot = await takeSnapshot()
+        await purchaseTicket(lotto, bob.address, winningTicket)
+        await indexer.sync()
+        expect(await indexer.getGameSummary(0n).then((game) => game?.ticketsSold)).to.eq(2n)
+
+        // Replace the purchase block with a different chain of empty blocks
+        await snapshot.restore()
+        await time.increase(60)
+        await mine(3)
+        await indexer.sync()
+        expect(await indexer.getGameSummary(0n).then((game) => game?.ticketsSold)).to.eq(1n)
+        expect(await indexer.getLastIndexedBlock()).to.eq(await ethers.provider.getBlockNumber())
+    })
+})
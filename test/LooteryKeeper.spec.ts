@@ -0,0 +1,237 @@
+import { ethers } from 'hardhat'
+import { loadFixture, setBalance, time } from '@nomicfoundation/hardhat-network-helpers'
+import { LooteryFactory, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployLooteryDependencies } from './helpers/fixtures'
+import { GameState } from './helpers/GameState'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { KeeperLogger, LooteryKeeper, withRetry } from '../sdk/keeper'
+
+describe('LooteryKeeper', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let keeperSigner: SignerWithAddress
+    let bob: SignerWithAddress
+    const gamePeriod = 3600n
+    const logs: Parameters<KeeperLogger>[] = []
+    const logger: KeeperLogger = (...args) => logs.push(args)
+    beforeEach(async () => {
+        ;[deployer, keeperSigner, bob] = await ethers.getSigners()
+        logs.length = 0
+        ;({ testERC20, factory } = await loadFixture(deployLooteryDependencies))
+    })
+
+    async function deployWithTicket() {
+        const lottoData = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod,
+            prizeToken: testERC20,
+        })
+        await testERC20.mint(deployer, parseEther('0.1'))
+        await testERC20.approve(lottoData.lotto, parseEther('0.1'))
+        await purchaseTicket(lottoData.lotto, bob.address, [1n, 2n, 3n, 4n, 5n])
+        return lottoData
+    }
+
+    it('should wait until the game period has elapsed', async () => {
+        const { lotto } = await deployWithTicket()
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            logger,
+        })
+        const [result] = await keeper.tick()
+        expect(result.action.type).to.eq('none')
+        expect(result.txHash).to.eq(undefined)
+        expect(await lotto.currentGame().then((game) => game.state)).to.eq(GameState.Purchase)
+    })
+
+    it('should draw once the game period has elapsed', async () => {
+        const { lotto } = await deployWithTicket()
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            logger,
+        })
+        await time.increase(gamePeriod)
+        const [result] = await keeper.tick()
+        expect(result.action.type).to.eq('draw')
+        expect(result.txHash).to.be.a('string')
+        expect(await lotto.currentGame().then((game) => game.state)).to.eq(GameState.DrawPending)
+
+        // Randomness request is fresh; nothing to do
+        const [pending] = await keeper.tick()
+        expect(pending.action.type).to.eq('none')
+    })
+
+    it('should skip games where no tickets were sold', async () => {
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod,
+            prizeToken: testERC20,
+        })
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            logger,
+        })
+        await time.increase(gamePeriod)
+        await keeper.tick()
+        expect(await lotto.currentGame()).to.deep.eq([GameState.Purchase, 1n])
+    })
+
+    it('should force a redraw when randomness request is stale', async () => {
+        const { lotto } = await deployWithTicket()
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            logger,
+        })
+        await time.increase(gamePeriod)
+        await keeper.tick()
+        const { requestId } = await lotto.randomnessRequests(0)
+
+        // Waits for the lottery's own redraw timeout by default
+        await time.increase((await lotto.REDRAW_TIMEOUT()) - 2n)
+        const [waiting] = await keeper.tick()
+        expect(waiting.action.type).to.eq('none')
+        await time.increase(2n)
+        const [result] = await keeper.tick()
+        expect(result.action.type).to.eq('forceRedraw')
+        expect(await lotto.randomnessRequests(0).then((req) => req.requestId)).to.not.eq(requestId)
+    })
+
+    it('should pay for randomness requests', async () => {
+        const { lotto } = await deployWithTicket()
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            logger,
+        })
+        await setBalance(await lotto.getAddress(), 0n)
+        await time.increase(gamePeriod)
+        const requestPrice = await lotto.getRequestPrice()
+        const balance = await ethers.provider.getBalance(keeperSigner)
+        const [result] = await keeper.tick()
+        expect(result.action.type).to.eq('draw')
+        const receipt = await ethers.provider.getTransactionReceipt(result.txHash!)
+        expect(await ethers.provider.getBalance(keeperSigner)).to.eq(
+            balance - requestPrice - receipt!.fee,
+        )
+        expect(await ethers.provider.getBalance(lotto)).to.eq(0n)
+        expect(await lotto.currentGame().then((game) => game.state)).to.eq(GameState.DrawPending)
+    })
+
+    it('should not send transactions in dry-run mode', async () => {
+        const { lotto } = await deployWithTicket()
+        // Dry run works with a read-only provider
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: ethers.provider,
+            dryRun: true,
+            logger,
+        })
+        await time.increase(gamePeriod)
+        const [result] = await keeper.tick()
+        expect(result.action.type).to.eq('draw')
+        expect(result.txHash).to.eq(undefined)
+        expect(await lotto.currentGame().then((game) => game.state)).to.eq(GameState.Purchase)
+        expect(logs.some(([, msg]) => msg === 'Dry run: would call draw')).to.eq(true)
+    })
+
+    it('should tally prize tiers of the last game', async () => {
+        const { lotto, fastForwardAndDraw } = await deployWithTicket()
+        await lotto.setPrizeTiers([
+            { matches: 5n, bonusBall: false, shareBps: 5000n },
+            { matches: 3n, bonusBall: false, shareBps: 2000n },
+        ])
+        await fastForwardAndDraw(6942069420n)
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            tallyBatchSize: 1n,
+            logger,
+        })
+        const [result] = await keeper.tick()
+        expect(result.action).to.deep.eq({ type: 'tallyPrizeTiers', gameId: 0n })
+        expect(result.txHash).to.be.a('string')
+        expect(await lotto.isPrizeTiersTallied(0)).to.eq(true)
+
+        const [next] = await keeper.tick()
+        expect(next.action.type).to.eq('none')
+    })
+
+    it('should enter subscriptions before drawing', async () => {
+        const { lotto, fastForwardAndDraw } = await deployWithTicket()
+        await testERC20.mint(bob, parseEther('1'))
+        await testERC20.connect(bob).approve(lotto, parseEther('1'))
+        for (let i = 0; i < 3; i++) {
+            await lotto.connect(bob).subscribe(bob.address, [1n, 2n, 3n, 4n, 5n], 2n)
+        }
+        await fastForwardAndDraw(6942069420n)
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            subscriptionBatchSize: 2n,
+            logger,
+        })
+        await time.increase(gamePeriod)
+        for (const numRemaining of [1n, 0n]) {
+            const [result] = await keeper.tick()
+            expect(result.action.type).to.eq('enterSubscriptions')
+            expect(await lotto.numSubscriptionsToEnter()).to.eq(numRemaining)
+        }
+        expect((await lotto.gameData(1)).ticketsSold).to.eq(3n)
+        const [result] = await keeper.tick()
+        expect(result.action.type).to.eq('draw')
+    })
+
+    it('should not take action on dead lotteries', async () => {
+        const { lotto, fastForwardAndDraw } = await deployWithTicket()
+        await lotto.kill()
+        await fastForwardAndDraw(6942069420n)
+        expect(await lotto.currentGame().then((game) => game.state)).to.eq(GameState.Dead)
+        const keeper = new LooteryKeeper({
+            looteries: [await lotto.getAddress()],
+            runner: keeperSigner,
+            logger,
+        })
+        await time.increase(gamePeriod)
+        const [result] = await keeper.tick()
+        expect(result.action).to.deep.eq({ type: 'none', reason: 'lottery is dead' })
+    })
+
+    describe('#withRetry', () => {
+        it('should retry with backoff until success', async () => {
+            let attempts = 0
+            const result = await withRetry(
+                async () => {
+                    if (++attempts < 3) throw new Error('flaky')
+                    return 'ok'
+                },
+                { retries: 3, baseDelayMs: 1, maxDelayMs: 1 },
+            )
+            expect(result).to.eq('ok')
+            expect(attempts).to.eq(3)
+        })
+
+        it('should give up after exhausting retries', async () => {
+            let attempts = 0
+            await expect(
+                withRetry(
+                    async () => {
+                        attempts++
+                        throw new Error('down')
+                    },
+                    { retries: 2, baseDelayMs: 1, maxDelayMs: 1 },
+                ),
+            ).to.be.rejectedWith('down')
+            expect(attempts).to.eq(3)
+        })
+    })
+})
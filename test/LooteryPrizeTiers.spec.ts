@@ -0,0 +1,318 @@
+import { loadFixture, setBalance, time } from '@nomicfoundation/hardhat-network-helpers'
+import { type Lootery, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { MaxUint256, ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployLottoFixture } from './helpers/fixtures'
+import { fulfilRandomness } from './helpers/randomness'
+import { GameState } from './helpers/GameState'
+import {
+    InvalidPrizeTiersError,
+    LooteryClient,
+    TicketClaimStatus,
+    classifyTickets,
+    computePickId,
+    computeTierPots,
+    computeTierPrize,
+    countMatches,
+    validatePrizeTiers,
+} from '../sdk'
+
+describe('Lootery: prize tiers', () => {
+    const seed = 69420n
+    const tiers = [
+        { matches: 5n, bonusBall: false, shareBps: 5000n },
+        { matches: 4n, bonusBall: false, shareBps: 3000n },
+        { matches: 3n, bonusBall: false, shareBps: 1000n },
+    ]
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let testERC20: MockERC20
+    let lotto: Lootery
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+    let winningPick: bigint[]
+    beforeEach(async () => {
+        ;({ deployer, bob, alice, testERC20, lotto, fastForwardAndDraw } =
+            await loadFixture(deployLottoFixture))
+        winningPick = [...(await lotto.computeWinningPick(seed))]
+    })
+
+    /** A valid pick that matches exactly `matches` balls of `winningPick` */
+    function pickWithMatches(matches: number) {
+        const others = []
+        for (let ball = 1n; others.length < winningPick.length - matches; ball++) {
+            if (!winningPick.includes(ball)) others.push(ball)
+        }
+        return [...winningPick.slice(0, matches), ...others].sort((a, b) => Number(a - b))
+    }
+
+    /** Buy tickets for `whomst`, with picks matching each number of balls */
+    async function buyTickets(whomst: string, matchesPerTicket: number[]) {
+        const value = (await lotto.ticketPrice()) * BigInt(matchesPerTicket.length)
+        await testERC20.mint(deployer, value)
+        await testERC20.approve(lotto, value)
+        const tx = await lotto.purchase(
+            matchesPerTicket.map((matches) => ({ whomst, pick: pickWithMatches(matches) })),
+            ZeroAddress,
+        )
+        const receipt = await tx.wait()
+        return receipt!.logs
+            .map((log) => lotto.interface.parseLog(log))
+            .filter((log) => log?.name === 'TicketPurchased')
+            .map((log) => log!.args.tokenId as bigint)
+    }
+
+    describe('#setPrizeTiers', () => {
+        it('should only allow the owner to set prize tiers', async () => {
+            await expect(lotto.connect(bob).setPrizeTiers(tiers)).to.be.revertedWith(
+                'Only callable by owner',
+            )
+        })
+
+        it('should set and clear prize tiers', async () => {
+            await expect(lotto.setPrizeTiers(tiers)).to.emit(lotto, 'PrizeTiersSet')
+            expect(await lotto.getPrizeTiers()).to.deep.eq(
+                tiers.map(({ matches, bonusBall, shareBps }) => [matches, bonusBall, shareBps]),
+            )
+            await lotto.setPrizeTiers([])
+            expect(await lotto.getPrizeTiers()).to.deep.eq([])
+        })
+
+        for (const [reason, invalidTiers] of [
+            [
+                'does not start with the jackpot',
+                [{ matches: 4n, bonusBall: false, shareBps: 5000n }],
+            ],
+            [
+                'is not strictly decreasing',
+                [
+                    { matches: 5n, bonusBall: false, shareBps: 5000n },
+                    { matches: 5n, bonusBall: false, shareBps: 1000n },
+                ],
+            ],
+            [
+                'has a tier without matches',
+                [
+                    { matches: 5n, bonusBall: false, shareBps: 5000n },
+                    { matches: 0n, bonusBall: false, shareBps: 1000n },
+                ],
+            ],
+            [
+                'has a tier without a share',
+                [
+                    { matches: 5n, bonusBall: false, shareBps: 5000n },
+                    { matches: 4n, bonusBall: false, shareBps: 0n },
+                ],
+            ],
+            [
+                'requires a bonus ball that the lottery has no pool for',
+                [
+                    { matches: 5n, bonusBall: false, shareBps: 5000n },
+                    { matches: 4n, bonusBall: true, shareBps: 1000n },
+                ],
+            ],
+            [
+                'shares more than 100%',
+                [
+                    { matches: 5n, bonusBall: false, shareBps: 9000n },
+                    { matches: 4n, bonusBall: false, shareBps: 1001n },
+                ],
+            ],
+        ] as const) {
+            it(`should reject tiers that ${reason}`, async () => {
+                await expect(lotto.setPrizeTiers([...invalidTiers])).to.be.revertedWithCustomError(
+                    lotto,
+                    'InvalidPrizeTiers',
+                )
+                expect(() => validatePrizeTiers([...invalidTiers], 5)).to.throw(
+                    InvalidPrizeTiersError,
+                )
+            })
+        }
+    })
+
+    describe('Payouts', () => {
+        beforeEach(async () => {
+            await lotto.setPrizeTiers(tiers)
+        })
+
+        it('should reserve each tier share of the pot at the draw', async () => {
+            await buyTickets(bob.address, [5, 4, 4, 3, 1])
+            const pot = (await lotto.jackpot()) + (await lotto.unclaimedPayouts())
+            await fastForwardAndDraw(seed)
+
+            const { pots, reserved, rolledOver } = computeTierPots(pot, tiers, 1n)
+            expect(await lotto.isTieredGame(0)).to.eq(true)
+            expect(await lotto.unclaimedPayouts()).to.eq(reserved)
+            expect(await lotto.jackpot()).to.eq(rolledOver)
+            for (const [matches, tierPot] of pots) {
+                expect((await lotto.tierPayouts(0, matches)).pot).to.eq(tierPot)
+            }
+            // Jackpot winners are counted at the draw
+            expect((await lotto.tierPayouts(0, 5)).numWinners).to.eq(1n)
+            expect((await lotto.tierPayouts(0, 4)).numWinners).to.eq(0n)
+        })
+
+        it('should pay each tier once tallied', async () => {
+            const [jackpotWinner, ...otherTokenIds] = await buyTickets(bob.address, [5, 4, 4, 3, 2])
+            const [fourA, fourB, three, two] = otherTokenIds
+            await fastForwardAndDraw(seed)
+            for (const [tokenId, matches] of [
+                [jackpotWinner, 5],
+                [fourA, 4],
+                [three, 3],
+                [two, 2],
+            ] as const) {
+                const { pickId } = await lotto.purchasedTickets(tokenId)
+                expect(await lotto.countMatches(0, pickId)).to.eq(matches)
+                expect(countMatches(pickId, computePickId(winningPick))).to.eq(matches)
+            }
+
+            // The jackpot tier can be claimed straight away
+            const jackpotPayout = await lotto.tierPayouts(0, 5)
+            await expect(lotto.claimWinnings(jackpotWinner))
+                .to.emit(lotto, 'WinningsClaimed')
+                .withArgs(jackpotWinner, 0n, bob.address, jackpotPayout.pot)
+            await expect(lotto.claimWinnings(jackpotWinner))
+                .to.be.revertedWithCustomError(lotto, 'AlreadyClaimed')
+                .withArgs(jackpotWinner)
+            // ...but other tiers must be tallied first
+            await expect(lotto.claimWinnings(fourA))
+                .to.be.revertedWithCustomError(lotto, 'PrizeTiersNotTallied')
+                .withArgs(0n)
+
+            // Both 4-ball tickets have the same pick
+            expect(await lotto.numDistinctPicks(0)).to.eq(4n)
+            expect(await lotto.tallyPrizeTiers.staticCall(0, 3)).to.eq(false)
+            await lotto.tallyPrizeTiers(0, 3)
+            expect(await lotto.numTalliedPicks(0)).to.eq(3n)
+            await expect(lotto.tallyPrizeTiers(0, 100))
+                .to.emit(lotto, 'PrizeTiersTallied')
+                .withArgs(0n, 0n)
+            await expect(lotto.tallyPrizeTiers(0, 100))
+                .to.be.revertedWithCustomError(lotto, 'PrizeTiersAlreadyTallied')
+                .withArgs(0n)
+
+            const fourPayout = await lotto.tierPayouts(0, 4)
+            expect(fourPayout.numWinners).to.eq(2n)
+            const threePayout = await lotto.tierPayouts(0, 3)
+            expect(threePayout.numWinners).to.eq(1n)
+            for (const [tokenId, payout] of [
+                [fourA, fourPayout],
+                [fourB, fourPayout],
+                [three, threePayout],
+            ] as const) {
+                await expect(lotto.claimWinnings(tokenId)).to.changeTokenBalance(
+                    testERC20,
+                    bob,
+                    computeTierPrize(payout),
+                )
+            }
+            const { winningPickId } = await lotto.gameData(0)
+            await expect(lotto.claimWinnings(two))
+                .to.be.revertedWithCustomError(lotto, 'NoWin')
+                .withArgs((await lotto.purchasedTickets(two)).pickId, winningPickId)
+        })
+
+        it('should roll over tiers without winners', async () => {
+            await buyTickets(bob.address, [3, 1])
+            const jackpotBefore = await lotto.jackpot()
+            const pot = jackpotBefore + (await lotto.unclaimedPayouts())
+            await fastForwardAndDraw(seed)
+
+            // The jackpot tier is rolled over straight away...
+            const { pots, rolledOver } = computeTierPots(pot, tiers, 0n)
+            expect(pots.has(5n)).to.eq(false)
+            expect(await lotto.jackpot()).to.eq(rolledOver)
+            // ...and the other unwon tiers once tallied
+            await expect(lotto.tallyPrizeTiers(0, 100))
+                .to.emit(lotto, 'PrizeTiersTallied')
+                .withArgs(0n, pots.get(4n))
+            expect(await lotto.jackpot()).to.eq(rolledOver + pots.get(4n)!)
+            expect(await lotto.unclaimedPayouts()).to.eq(pots.get(3n))
+            expect((await lotto.tierPayouts(0, 4)).pot).to.eq(0n)
+        })
+
+        it('should only tally tiered games while they can be claimed', async () => {
+            await buyTickets(bob.address, [3])
+            await lotto.setPrizeTiers([])
+            await fastForwardAndDraw(seed)
+            await expect(lotto.tallyPrizeTiers(0, 100))
+                .to.be.revertedWithCustomError(lotto, 'NoPrizeTiers')
+                .withArgs(0n)
+
+            await lotto.setPrizeTiers(tiers)
+            await buyTickets(bob.address, [3])
+            await fastForwardAndDraw(seed)
+            await buyTickets(bob.address, [3])
+            await fastForwardAndDraw(seed)
+            await expect(lotto.tallyPrizeTiers(1, 100))
+                .to.be.revertedWithCustomError(lotto, 'TallyWindowMissed')
+                .withArgs(1n)
+        })
+
+        it('should tally tiers once the lottery is dead', async () => {
+            await lotto.setClaimWindow(2, 0)
+            const [three] = await buyTickets(bob.address, [3, 1])
+            const pot = (await lotto.jackpot()) + (await lotto.unclaimedPayouts())
+            await fastForwardAndDraw(seed)
+            const { pots } = computeTierPots(pot, tiers, 0n)
+
+            // Final game
+            await lotto.kill()
+            await buyTickets(alice.address, [1])
+            await time.increase(await lotto.gamePeriod())
+            await setBalance(await lotto.getAddress(), parseEther('0.1'))
+            await lotto.draw()
+            await expect(lotto.tallyPrizeTiers(0, 1))
+                .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+                .withArgs(GameState.DrawPending)
+            await fulfilRandomness(lotto, seed)
+            expect((await lotto.currentGame()).state).to.eq(GameState.Dead)
+
+            // Unwon tiers are added to the final game's payouts, since there's
+            // no jackpot anymore
+            const jackpot = await lotto.jackpot()
+            const finalGamePayouts = await lotto.gameUnclaimedPayouts(1)
+            await lotto.tallyPrizeTiers(0, 1)
+            // A batch past the end of the picks is clamped rather than overflowing
+            await expect(lotto.tallyPrizeTiers(0, MaxUint256))
+                .to.emit(lotto, 'PrizeTiersTallied')
+                .withArgs(0n, pots.get(4n))
+            expect(await lotto.jackpot()).to.eq(jackpot)
+            expect(await lotto.gameUnclaimedPayouts(1)).to.eq(finalGamePayouts + pots.get(4n)!)
+            await expect(lotto.claimWinnings(three)).to.changeTokenBalance(
+                testERC20,
+                bob,
+                pots.get(3n),
+            )
+        })
+
+        it('should classify tier winners in the claim scanner', async () => {
+            const tokenIds = await buyTickets(alice.address, [4, 3, 1])
+            await fastForwardAndDraw(seed)
+            const client = LooteryClient.connect(await lotto.getAddress(), alice)
+
+            let infos = await classifyTickets(client, tokenIds)
+            expect(infos.map((info) => info.matches)).to.deep.eq([4, 3, 1])
+            expect(infos.map((info) => info.status)).to.deep.eq([
+                TicketClaimStatus.PendingTally,
+                TicketClaimStatus.PendingTally,
+                TicketClaimStatus.NoWin,
+            ])
+
+            await lotto.tallyPrizeTiers(0, 100)
+            infos = await classifyTickets(client, tokenIds)
+            expect(infos[0].status).to.eq(TicketClaimStatus.WinningClaimable)
+            await expect(lotto.claimWinnings(tokenIds[0])).to.changeTokenBalance(
+                testERC20,
+                alice,
+                infos[0].expectedPayout,
+            )
+            infos = await classifyTickets(client, tokenIds)
+            expect(infos[0].status).to.eq(TicketClaimStatus.WinningClaimed)
+            expect(infos[1].status).to.eq(TicketClaimStatus.WinningClaimable)
+        })
+    })
+})
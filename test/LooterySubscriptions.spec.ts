@@ -0,0 +1,310 @@
+import { loadFixture, time } from '@nomicfoundation/hardhat-network-helpers'
+import {
+    IERC721__factory,
+    ToggleableERC721Receiver__factory,
+    type Lootery,
+    type LooteryFactory,
+    type MockERC20,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployLottoFixture } from './helpers/fixtures'
+import { GameState } from './helpers/GameState'
+import { deployLotto } from './helpers/lotto'
+import { RandomnessProvider } from './helpers/randomness'
+import { LooteryClient } from '../sdk'
+
+describe('Lootery: subscriptions', () => {
+    const seed = 6942069420n
+    const pick = [3n, 11n, 22n, 29n, 42n]
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let lotto: Lootery
+    let ticketPrice: bigint
+    let fastForwardAndDraw: (randomness: bigint) => Promise<bigint[]>
+    beforeEach(async () => {
+        ;({ deployer, bob, alice, testERC20, factory, lotto, fastForwardAndDraw } =
+            await loadFixture(deployLottoFixture))
+        ticketPrice = await lotto.ticketPrice()
+        await testERC20.mint(bob, parseEther('100'))
+        await testERC20.connect(bob).approve(lotto, parseEther('100'))
+    })
+
+    /** Token ids of the tickets picked in a game, by subscriptions or otherwise */
+    async function getGameTokenIds(gameId: bigint) {
+        const purchased = await lotto.queryFilter(lotto.filters.TicketPurchased(gameId))
+        return purchased.map((event) => event.args.tokenId)
+    }
+
+    async function ownerOf(tokenId: bigint) {
+        return IERC721__factory.connect(await lotto.ticket(), deployer).ownerOf(tokenId)
+    }
+
+    it('should validate subscriptions', async () => {
+        await expect(lotto.connect(bob).subscribe(alice.address, pick, 0))
+            .to.be.revertedWithCustomError(lotto, 'InvalidSubscriptionLength')
+            .withArgs(0n)
+        await expect(lotto.connect(bob).subscribe(alice.address, [], 3))
+            .to.be.revertedWithCustomError(lotto, 'InvalidPickLength')
+            .withArgs(0n)
+        await expect(
+            lotto.connect(bob).subscribe(alice.address, [...pick].reverse(), 3),
+        ).to.be.revertedWithCustomError(lotto, 'UnsortedPick')
+    })
+
+    it('should enter the current game and prepay the rest', async () => {
+        const jackpot = await lotto.jackpot()
+        const tx = lotto.connect(bob).subscribe(alice.address, pick, 3)
+        await expect(tx).to.changeTokenBalances(
+            testERC20,
+            [bob, lotto],
+            [-ticketPrice * 3n, ticketPrice * 3n],
+        )
+        await expect(tx)
+            .to.emit(lotto, 'SubscriptionCreated')
+            .withArgs(1n, bob.address, alice.address, 3n)
+        await expect(tx).to.emit(lotto, 'SubscriptionEntered').withArgs(1n, 0n, 2n)
+        await expect(tx).to.emit(lotto, 'TicketPurchased').withArgs(0n, alice.address, 1n, pick)
+
+        // Only the current game's ticket contributes to the jackpot & fees
+        const communityFeeShare = (ticketPrice * (await lotto.communityFeeBps())) / 10000n
+        expect(await lotto.jackpot()).to.eq(jackpot + ticketPrice - communityFeeShare)
+        expect(await lotto.accruedCommunityFees()).to.eq(communityFeeShare)
+        expect(await lotto.subscriptionDeposits()).to.eq(ticketPrice * 2n)
+        expect(await lotto.activeSubscriptionIds()).to.deep.eq([1n])
+        const subscription = await lotto.getSubscription(1)
+        expect(subscription.subscriber).to.eq(bob.address)
+        expect(subscription.whomst).to.eq(alice.address)
+        expect(subscription.pick).to.deep.eq(pick)
+        expect(subscription.pricePerGame).to.eq(ticketPrice)
+        expect(subscription.gamesRemaining).to.eq(2n)
+    })
+
+    it('should enter each game once it is set up', async () => {
+        await lotto.connect(bob).subscribe(alice.address, pick, 3)
+        // Price changes don't affect what was prepaid
+        await lotto.changeTicketPrice(ticketPrice * 2n)
+
+        for (const gameId of [1n, 2n]) {
+            await fastForwardAndDraw(seed)
+            // Nothing is entered as part of the draw
+            expect(await getGameTokenIds(gameId)).to.deep.eq([])
+            expect(await lotto.numSubscriptionsToEnter()).to.eq(1n)
+            const jackpot = await lotto.jackpot()
+            await expect(lotto.connect(alice).enterSubscriptions(10))
+                .to.emit(lotto, 'SubscriptionEntered')
+                .withArgs(1n, gameId, 3n - gameId - 1n)
+            expect(await lotto.numSubscriptionsToEnter()).to.eq(0n)
+            expect(await getGameTokenIds(gameId)).to.have.length(1)
+            expect((await lotto.gameData(gameId)).ticketsSold).to.eq(1n)
+            expect((await lotto.getSubscription(1)).gamesRemaining).to.eq(3n - gameId - 1n)
+            const communityFeeShare = (ticketPrice * (await lotto.communityFeeBps())) / 10000n
+            expect(await lotto.jackpot()).to.eq(jackpot + ticketPrice - communityFeeShare)
+        }
+        const [tokenId] = await getGameTokenIds(2n)
+        expect(await ownerOf(tokenId)).to.eq(alice.address)
+        expect(await lotto.subscriptionDeposits()).to.eq(0n)
+        expect(await lotto.activeSubscriptionIds()).to.deep.eq([])
+        expect(await lotto.numActiveSubscriptions(bob.address)).to.eq(0n)
+
+        // Subscription has ended
+        await fastForwardAndDraw(seed)
+        expect(await lotto.numSubscriptionsToEnter()).to.eq(0n)
+        await expect(lotto.connect(bob).cancelSubscription(1))
+            .to.be.revertedWithCustomError(lotto, 'SubscriptionInactive')
+            .withArgs(1n)
+    })
+
+    it('should not draw a game until every subscription is entered', async () => {
+        for (let i = 0; i < 3; i++) {
+            await lotto.connect(bob).subscribe(alice.address, pick, 3)
+        }
+        await fastForwardAndDraw(seed)
+        await lotto.enterSubscriptions(1)
+        await time.increase(await lotto.gamePeriod())
+        await expect(lotto.draw())
+            .to.be.revertedWithCustomError(lotto, 'SubscriptionsNotEntered')
+            .withArgs(2n)
+
+        // Every subscription pays for the game that it's entered into
+        await lotto.enterSubscriptions(10)
+        await fastForwardAndDraw(seed)
+        expect(await getGameTokenIds(1n)).to.have.length(3)
+        expect((await lotto.gameData(1n)).ticketsSold).to.eq(3n)
+        for (const subscriptionId of [1n, 2n, 3n]) {
+            expect((await lotto.getSubscription(subscriptionId)).gamesRemaining).to.eq(1n)
+        }
+        expect(await lotto.subscriptionDeposits()).to.eq(ticketPrice * 3n)
+    })
+
+    it('should refund unused games when cancelled', async () => {
+        await lotto.connect(bob).subscribe(alice.address, pick, 4)
+        await fastForwardAndDraw(seed)
+        await lotto.enterSubscriptions(10)
+        await expect(lotto.connect(alice).cancelSubscription(1))
+            .to.be.revertedWithCustomError(lotto, 'NotSubscriber')
+            .withArgs(1n, alice.address)
+
+        const tx = lotto.connect(bob).cancelSubscription(1)
+        await expect(tx).to.changeTokenBalance(testERC20, bob, ticketPrice * 2n)
+        await expect(tx)
+            .to.emit(lotto, 'SubscriptionCancelled')
+            .withArgs(1n, ticketPrice * 2n)
+        expect(await lotto.subscriptionDeposits()).to.eq(0n)
+        expect(await lotto.activeSubscriptionIds()).to.deep.eq([])
+        expect(await lotto.numActiveSubscriptions(bob.address)).to.eq(0n)
+
+        // Cancelled subscriptions are skipped, and removed
+        await fastForwardAndDraw(seed)
+        await lotto.enterSubscriptions(10)
+        expect(await getGameTokenIds(2n)).to.deep.eq([])
+        expect(await lotto.numSubscriptionsToEnter()).to.eq(0n)
+    })
+
+    it('should stop entering games once the lottery is dead', async () => {
+        await lotto.connect(bob).subscribe(alice.address, pick, 3)
+        await lotto.kill()
+        await fastForwardAndDraw(seed)
+        await expect(lotto.enterSubscriptions(10))
+            .to.be.revertedWithCustomError(lotto, 'UnexpectedState')
+            .withArgs(GameState.Dead)
+        expect((await lotto.getSubscription(1)).gamesRemaining).to.eq(2n)
+        await expect(lotto.connect(bob).cancelSubscription(1)).to.changeTokenBalance(
+            testERC20,
+            bob,
+            ticketPrice * 2n,
+        )
+    })
+
+    it('should enter subscriptions in batches', async () => {
+        for (let i = 0; i < 4; i++) {
+            await lotto.connect(bob).subscribe(alice.address, pick, 2)
+        }
+        await fastForwardAndDraw(seed)
+        expect(await lotto.numSubscriptionsToEnter()).to.eq(4n)
+        await lotto.connect(bob).cancelSubscription(2)
+        expect(await lotto.activeSubscriptionIds()).to.deep.eq([1n, 3n, 4n])
+
+        expect(await lotto.enterSubscriptions.staticCall(2)).to.eq(2n)
+        await lotto.enterSubscriptions(2)
+        expect(await lotto.numSubscriptionsToEnter()).to.eq(2n)
+        // A new subscription enters the current game straight away, so it
+        // mustn't be entered again by the rest of the batch
+        await lotto.connect(bob).subscribe(alice.address, pick, 2)
+        await lotto.enterSubscriptions(10)
+        expect(await lotto.numSubscriptionsToEnter()).to.eq(0n)
+        expect((await lotto.gameData(1)).ticketsSold).to.eq(4n)
+        for (const subscriptionId of [1n, 3n, 4n]) {
+            expect((await lotto.getSubscription(subscriptionId)).gamesRemaining).to.eq(0n)
+        }
+        expect((await lotto.getSubscription(5n)).gamesRemaining).to.eq(1n)
+        expect(await lotto.activeSubscriptionIds()).to.deep.eq([5n])
+        expect(await lotto.numActiveSubscriptions(bob.address)).to.eq(1n)
+        await expect(lotto.enterSubscription(5n))
+            .to.be.revertedWithCustomError(lotto, 'CallerNotSelf')
+            .withArgs(deployer.address)
+    })
+
+    for (const [mode, reason] of [
+        [1n, 'rejected'],
+        [2n, 'ran out of gas'],
+    ] as const) {
+        it(`should suspend subscriptions whose ticket was ${reason}`, async () => {
+            const receiver = await new ToggleableERC721Receiver__factory(deployer).deploy()
+            await lotto.connect(bob).subscribe(receiver, pick, 3)
+            await lotto.connect(bob).subscribe(alice.address, pick, 3)
+            await fastForwardAndDraw(seed)
+            await receiver.setMode(mode)
+
+            // Other subscriptions are still entered
+            const tx = lotto.enterSubscriptions(10)
+            await expect(tx).to.emit(lotto, 'SubscriptionSuspended').withArgs(1n, 1n)
+            await expect(tx).to.emit(lotto, 'SubscriptionEntered').withArgs(2n, 1n, 1n)
+            expect(await getGameTokenIds(1n)).to.have.length(1)
+            expect(await lotto.activeSubscriptionIds()).to.deep.eq([2n])
+            expect(await lotto.numActiveSubscriptions(bob.address)).to.eq(1n)
+
+            // The suspended subscription's deposit can still be recovered
+            await expect(lotto.connect(bob).cancelSubscription(1)).to.changeTokenBalance(
+                testERC20,
+                bob,
+                ticketPrice * 2n,
+            )
+            expect(await lotto.numActiveSubscriptions(bob.address)).to.eq(1n)
+        })
+    }
+
+    it('should cap active subscriptions per subscriber', async () => {
+        const max = await lotto.MAX_ACTIVE_SUBSCRIPTIONS_PER_SUBSCRIBER()
+        for (let i = 0n; i < max; i++) {
+            await lotto.connect(bob).subscribe(alice.address, pick, 2)
+        }
+        await expect(
+            lotto.connect(bob).subscribe(alice.address, pick, 2),
+        ).to.be.revertedWithCustomError(lotto, 'TooManySubscriptions')
+        // Single games aren't active subscriptions, and other subscribers
+        // aren't affected
+        await lotto.connect(bob).subscribe(alice.address, pick, 1)
+        await testERC20.mint(alice, ticketPrice * 2n)
+        await testERC20.connect(alice).approve(lotto, ticketPrice * 2n)
+        await lotto.connect(alice).subscribe(alice.address, pick, 2)
+    })
+
+    it('should draw through VRF regardless of how many subscriptions there are', async () => {
+        const vrfLotto = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+            randomnessProvider: RandomnessProvider.ChainlinkVRF,
+        })
+        await testERC20.connect(bob).approve(vrfLotto.lotto, parseEther('100'))
+        const max = await vrfLotto.lotto.MAX_ACTIVE_SUBSCRIPTIONS_PER_SUBSCRIBER()
+        for (let i = 0n; i < max; i++) {
+            await vrfLotto.lotto.connect(bob).subscribe(alice.address, pick, 2)
+        }
+        // Fulfilment must fit within the adapter's callback gas limit, which
+        // `fastForwardAndDraw` checks by expecting the game to be finalised
+        await vrfLotto.fastForwardAndDraw(seed)
+        expect(await vrfLotto.lotto.numSubscriptionsToEnter()).to.eq(max)
+        while ((await vrfLotto.lotto.numSubscriptionsToEnter()) > 0n) {
+            await vrfLotto.lotto.enterSubscriptions(20)
+        }
+        expect((await vrfLotto.lotto.gameData(1)).ticketsSold).to.eq(max)
+    })
+
+    it('should manage subscriptions from the client', async () => {
+        const client = LooteryClient.connect(await lotto.getAddress(), bob)
+        const { subscriptionId, tokenId } = await client.subscribe(
+            { whomst: alice.address, pick },
+            3n,
+        )
+        await client.subscribe({ whomst: bob.address, pick }, 1n)
+        await fastForwardAndDraw(seed)
+        await lotto.enterSubscriptions(10)
+        expect(await ownerOf(tokenId)).to.eq(alice.address)
+
+        const subscriptions = await client.getSubscriptions(bob.address)
+        expect(
+            subscriptions.map((subscription) => [
+                subscription.subscriptionId,
+                subscription.gamesRemaining,
+                subscription.refundable,
+            ]),
+        ).to.deep.eq([
+            [subscriptionId, 1n, ticketPrice],
+            [subscriptionId + 1n, 0n, 0n],
+        ])
+
+        const { refund } = await client.cancelSubscription(subscriptionId)
+        expect(refund).to.eq(ticketPrice)
+        expect((await client.getSubscription(subscriptionId)).refundable).to.eq(0n)
+        await expect(client.getSubscription(subscriptionId + 2n)).to.be.rejectedWith(
+            'does not exist',
+        )
+    })
+})
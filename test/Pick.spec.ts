@@ -0,0 +1,282 @@
+import { ethers } from 'hardhat'
+import * as hre from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { PickConsumer, PickConsumer__factory, LooteryHarness } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { getRandomValues } from 'node:crypto'
+import { deployLooteryHarnessFixture } from './helpers/fixtures'
+import {
+    InvalidBallValueError,
+    InvalidBonusBallError,
+    InvalidPickLengthError,
+    PickError,
+    UnsortedPickError,
+    computePickId,
+    computePickIdWithBonusBall,
+    countMatches,
+    countMatchesWithBonusBall,
+    isValidPick,
+    normalisePick,
+    parsePickId,
+    validatePick,
+} from '../sdk/pick'
+
+const isCoverage = Boolean((hre as any).__SOLIDITY_COVERAGE_RUNNING)
+const runs = isCoverage ? 10 : 100
+
+function randomInt(maxExclusive: number) {
+    return getRandomValues(new Uint32Array(1))[0] % maxExclusive
+}
+
+function randomBigInt(bytes: number) {
+    return BigInt(`0x${Buffer.from(getRandomValues(new Uint8Array(bytes))).toString('hex')}`)
+}
+
+/** Random valid pick: `pickLength` distinct balls in [1, maxBallValue], sorted */
+function randomPick(pickLength: number, maxBallValue: number) {
+    const balls = new Set<bigint>()
+    while (balls.size < pickLength) {
+        balls.add(BigInt(1 + randomInt(maxBallValue)))
+    }
+    return [...balls].sort((a, b) => Number(a - b))
+}
+
+describe('Pick', () => {
+    let deployer: SignerWithAddress
+    let pickConsumer: PickConsumer
+    beforeEach(async () => {
+        ;[deployer] = await ethers.getSigners()
+        pickConsumer = await new PickConsumer__factory(deployer).deploy()
+    })
+
+    describe('#validatePick', () => {
+        const rules = { pickLength: 5, maxBallValue: 69 }
+
+        it('should accept a valid pick', () => {
+            expect(validatePick([1, 2, 3, 4, 69], rules)).to.deep.eq([1n, 2n, 3n, 4n, 69n])
+        })
+
+        it('should accept an empty pick', () => {
+            expect(validatePick([], rules)).to.deep.eq([])
+        })
+
+        it('should reject picks with the wrong length', () => {
+            expect(() => validatePick([1, 2, 3, 4], rules)).to.throw(InvalidPickLengthError)
+            expect(() => validatePick([1, 2, 3, 4, 5, 6], rules)).to.throw(InvalidPickLengthError)
+        })
+
+        it('should reject unsorted or duplicate picks', () => {
+            expect(() => validatePick([2, 1, 3, 4, 5], rules)).to.throw(UnsortedPickError)
+            expect(() => validatePick([1, 1, 3, 4, 5], rules)).to.throw(UnsortedPickError)
+            // 0 is never a valid ball
+            expect(() => validatePick([0, 1, 3, 4, 5], rules)).to.throw(UnsortedPickError)
+        })
+
+        it('should reject balls greater than maxBallValue', () => {
+            expect(() => validatePick([1, 2, 3, 4, 70], rules)).to.throw(InvalidBallValueError)
+        })
+
+        it('should report validity without throwing', () => {
+            expect(isValidPick([1, 2, 3, 4, 5], rules)).to.eq(true)
+            expect(isValidPick([5, 4, 3, 2, 1], rules)).to.eq(false)
+        })
+
+        it('should validate the bonus ball from its own pool', () => {
+            const bonusRules = { ...rules, bonusBallMaxValue: 10 }
+            // The bonus ball may equal one of the main balls
+            expect(validatePick([1, 2, 3, 4, 5, 3], bonusRules)).to.deep.eq([
+                1n,
+                2n,
+                3n,
+                4n,
+                5n,
+                3n,
+            ])
+            expect(() => validatePick([1, 2, 3, 4, 5], bonusRules)).to.throw(InvalidPickLengthError)
+            expect(() => validatePick([1, 2, 3, 4, 5, 0], bonusRules)).to.throw(
+                InvalidBonusBallError,
+            )
+            expect(() => validatePick([1, 2, 3, 4, 5, 11], bonusRules)).to.throw(
+                InvalidBonusBallError,
+            )
+        })
+    })
+
+    describe('#normalisePick', () => {
+        it('should sort and dedupe', () => {
+            expect(
+                normalisePick([42, 3, 3, 69, 11, 7], { pickLength: 5, maxBallValue: 69 }),
+            ).to.deep.eq([3n, 7n, 11n, 42n, 69n])
+        })
+
+        it('should still reject picks that are too short after deduping', () => {
+            expect(() =>
+                normalisePick([1, 1, 2, 3, 4], { pickLength: 5, maxBallValue: 69 }),
+            ).to.throw(InvalidPickLengthError)
+        })
+
+        it('should keep the last ball as the bonus ball', () => {
+            expect(
+                normalisePick([42, 3, 69, 11, 7, 3], {
+                    pickLength: 5,
+                    maxBallValue: 69,
+                    bonusBallMaxValue: 10,
+                }),
+            ).to.deep.eq([3n, 7n, 11n, 42n, 69n, 3n])
+        })
+    })
+
+    describe('#computePickId', () => {
+        for (let i = 0; i < runs; i++) {
+            const pickLength = 1 + randomInt(32)
+            const maxBallValue = pickLength + randomInt(256 - pickLength)
+            const pick = randomPick(pickLength, maxBallValue)
+            it(`should match Pick.id for [${pick}]`, async () => {
+                expect(computePickId(pick)).to.eq(await pickConsumer.id(pick))
+            })
+        }
+    })
+
+    describe('#parsePickId', () => {
+        for (let i = 0; i < runs; i++) {
+            const pickLength = 1 + randomInt(32)
+            const maxBallValue = pickLength + randomInt(256 - pickLength)
+            const pick = randomPick(pickLength, maxBallValue)
+            it(`should round-trip pick ids with Pick.parse for [${pick}]`, async () => {
+                const pickId = computePickId(pick)
+                expect(parsePickId(pickLength, pickId)).to.deep.eq(pick)
+                expect(await pickConsumer.parse(pickLength, pickId)).to.deep.eq(pick)
+            })
+        }
+
+        for (let i = 0; i < runs; i++) {
+            const pickLength = randomInt(33)
+            const pickId = randomBigInt(32) >> BigInt(randomInt(256))
+            it(`should match Pick.parse for arbitrary pick ids (${pickLength}, ${pickId})`, async () => {
+                expect(parsePickId(pickLength, pickId)).to.deep.eq(
+                    await pickConsumer.parse(pickLength, pickId),
+                )
+            })
+        }
+    })
+
+    describe('#countMatches', () => {
+        for (let i = 0; i < runs; i++) {
+            const pickLength = 1 + randomInt(32)
+            const maxBallValue = pickLength + randomInt(256 - pickLength)
+            const pick = randomPick(pickLength, maxBallValue)
+            const other = randomPick(pickLength, maxBallValue)
+            it(`should match Pick.countMatches for [${pick}] and [${other}]`, async () => {
+                const expected = pick.filter((ball) => other.includes(ball)).length
+                const [pickId, otherPickId] = [computePickId(pick), computePickId(other)]
+                expect(countMatches(pickId, otherPickId)).to.eq(expected)
+                expect(await pickConsumer.countMatches(pickId, otherPickId)).to.eq(expected)
+            })
+        }
+    })
+
+    describe('#computePickIdWithBonusBall', () => {
+        for (let i = 0; i < runs; i++) {
+            const pickLength = 1 + randomInt(32)
+            const maxBallValue = pickLength + randomInt(128 - pickLength)
+            const bonusBall = BigInt(1 + randomInt(255 - maxBallValue))
+            const pick = [...randomPick(pickLength, maxBallValue), bonusBall]
+            it(`should match Pick.idWithBonusBall for [${pick}]`, async () => {
+                expect(computePickIdWithBonusBall(pick, maxBallValue)).to.eq(
+                    await pickConsumer.idWithBonusBall(pick, maxBallValue),
+                )
+            })
+        }
+    })
+
+    describe('#countMatchesWithBonusBall', () => {
+        for (let i = 0; i < runs; i++) {
+            const pickLength = 1 + randomInt(32)
+            const maxBallValue = pickLength + randomInt(128 - pickLength)
+            const bonusBallMaxValue = 1 + randomInt(4)
+            const pick = [
+                ...randomPick(pickLength, maxBallValue),
+                BigInt(1 + randomInt(bonusBallMaxValue)),
+            ]
+            const other = [
+                ...randomPick(pickLength, maxBallValue),
+                BigInt(1 + randomInt(bonusBallMaxValue)),
+            ]
+            it(`should match Pick.countMatchesWithBonusBall for [${pick}] and [${other}]`, async () => {
+                const matches = pick
+                    .slice(0, -1)
+                    .filter((ball) => other.slice(0, -1).includes(ball)).length
+                const isBonusBallMatched = pick[pickLength] === other[pickLength]
+                const [pickId, otherPickId] = [
+                    computePickIdWithBonusBall(pick, maxBallValue),
+                    computePickIdWithBonusBall(other, maxBallValue),
+                ]
+                expect(countMatchesWithBonusBall(pickId, otherPickId, maxBallValue)).to.deep.eq({
+                    matches,
+                    isBonusBallMatched,
+                })
+                expect(
+                    await pickConsumer.countMatchesWithBonusBall(pickId, otherPickId, maxBallValue),
+                ).to.deep.eq([BigInt(matches), isBonusBallMatched])
+            })
+        }
+    })
+
+    describe('Lootery agreement', () => {
+        let lotto: LooteryHarness
+        beforeEach(async () => {
+            const fixture = await loadFixture(deployLooteryHarnessFixture)
+            const { testERC20 } = fixture
+            lotto = fixture.lotto
+            await testERC20.mint(deployer, parseEther('1000'))
+            await testERC20.approve(lotto, parseEther('1000'))
+        })
+
+        /** Random pick that is valid, or invalid in exactly one way */
+        function randomCandidatePick(pickLength: number, maxBallValue: number) {
+            const pick = randomPick(pickLength, maxBallValue)
+            switch (randomInt(5)) {
+                case 0:
+                    return pick
+                case 1:
+                    // Wrong length
+                    return randomInt(2) ? pick.slice(1) : [...pick, BigInt(maxBallValue)]
+                case 2:
+                    // Unsorted
+                    return pick.slice().reverse()
+                case 3:
+                    // Duplicate
+                    return [pick[0], ...pick.slice(0, -1)]
+                default:
+                    // Out of range
+                    return [...pick.slice(0, -1), BigInt(maxBallValue + 1)]
+            }
+        }
+
+        for (let i = 0; i < runs; i++) {
+            it(`should reject exactly the picks that purchase rejects (run ${i})`, async () => {
+                const pickLength = Number(await lotto.pickLength())
+                const maxBallValue = Number(await lotto.maxBallValue())
+                const pick = randomCandidatePick(pickLength, maxBallValue)
+                const purchase = lotto.purchase.staticCall(
+                    [{ whomst: deployer.address, pick }],
+                    ZeroAddress,
+                )
+                let pickError: PickError | undefined
+                try {
+                    validatePick(pick, { pickLength, maxBallValue })
+                } catch (err) {
+                    pickError = err as PickError
+                }
+                if (pickError) {
+                    await expect(purchase).to.be.revertedWithCustomError(lotto, pickError.name)
+                } else {
+                    await expect(purchase).to.not.be.reverted
+                    expect(await lotto.computePick(computePickId(pick))).to.deep.eq(pick)
+                }
+            })
+        }
+    })
+})
@@ -0,0 +1,155 @@
+import { ethers } from 'hardhat'
+import {
+    LooteryBlueprint__factory,
+    LooteryFactory__factory,
+    MockERC20__factory,
+    MockRandomiser__factory,
+    TicketSVGRenderer__factory,
+    Ticket__factory,
+    type Ticket,
+} from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { ZeroAddress, ZeroHash, id, parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployProxy } from './helpers/deployProxy'
+import { deployLotto } from './helpers/lotto'
+import { deployLooteryExtensions } from './helpers/fixtures'
+
+describe('Ticket', () => {
+    const MINTER_ROLE = id('MINTER')
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let alice: SignerWithAddress
+    let ticket: Ticket
+    beforeEach(async () => {
+        ;[deployer, bob, alice] = await ethers.getSigners()
+        // Deployer stands in for the lottery
+        ticket = await new Ticket__factory(deployer).deploy('Lootery Ticket', 'LOTTO', deployer)
+    })
+
+    describe('mint authorisation', () => {
+        it('should only let the lottery mint and burn', async () => {
+            expect(await ticket.hasRole(MINTER_ROLE, deployer)).to.eq(true)
+            await expect(ticket.connect(bob).mintBatch([bob.address]))
+                .to.be.revertedWithCustomError(ticket, 'AccessControlUnauthorizedAccount')
+                .withArgs(bob.address, MINTER_ROLE)
+            await ticket.mintBatch([bob.address])
+            await expect(ticket.connect(bob).burn(1))
+                .to.be.revertedWithCustomError(ticket, 'AccessControlUnauthorizedAccount')
+                .withArgs(bob.address, MINTER_ROLE)
+        })
+
+        it('should not let anyone grant the minter role', async () => {
+            // Nobody holds the admin role, not even the lottery
+            await expect(ticket.grantRole(MINTER_ROLE, bob))
+                .to.be.revertedWithCustomError(ticket, 'AccessControlUnauthorizedAccount')
+                .withArgs(deployer.address, ZeroHash)
+        })
+
+        it('should burn without the holder approving it', async () => {
+            await ticket.mintBatch([bob.address])
+            await expect(ticket.burn(1))
+                .to.emit(ticket, 'Transfer')
+                .withArgs(bob.address, ZeroAddress, 1n)
+        })
+    })
+
+    describe('supply accounting', () => {
+        it('should mint batches with sequential token ids', async () => {
+            expect(await ticket.mintBatch.staticCall([bob.address, alice.address])).to.eq(1n)
+            await ticket.mintBatch([bob.address, alice.address])
+            expect(await ticket.mintBatch.staticCall([alice.address])).to.eq(3n)
+            await ticket.mintBatch([alice.address])
+            expect(await ticket.ownerOf(1)).to.eq(bob.address)
+            expect(await ticket.ownerOf(2)).to.eq(alice.address)
+            expect(await ticket.ownerOf(3)).to.eq(alice.address)
+            expect(await ticket.balanceOf(alice)).to.eq(2n)
+            expect(await ticket.totalSupply()).to.eq(3n)
+            expect(await ticket.totalMinted()).to.eq(3n)
+        })
+
+        it('should not reuse the token ids of burnt tickets', async () => {
+            await ticket.mintBatch([bob.address, alice.address])
+            await ticket.burn(2)
+            expect(await ticket.totalSupply()).to.eq(1n)
+            expect(await ticket.totalMinted()).to.eq(2n)
+            await expect(ticket.ownerOf(2))
+                .to.be.revertedWithCustomError(ticket, 'ERC721NonexistentToken')
+                .withArgs(2n)
+            await expect(ticket.burn(2))
+                .to.be.revertedWithCustomError(ticket, 'ERC721NonexistentToken')
+                .withArgs(2n)
+
+            await ticket.mintBatch([alice.address])
+            expect(await ticket.ownerOf(3)).to.eq(alice.address)
+            expect(await ticket.totalSupply()).to.eq(2n)
+        })
+
+        it('should mint nothing for an empty batch', async () => {
+            await ticket.mintBatch([])
+            expect(await ticket.totalSupply()).to.eq(0n)
+            expect(await ticket.totalMinted()).to.eq(0n)
+        })
+    })
+
+    describe('with a lottery', () => {
+        it('should be minted by the lottery and rendered by its renderer', async () => {
+            const prizeToken = await new MockERC20__factory(deployer).deploy(deployer)
+            const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+            const { looteryDrawExtension, looteryPurchaseExtension } =
+                await deployLooteryExtensions(deployer)
+            const factory = await deployProxy({
+                deployer,
+                implementation: LooteryFactory__factory,
+                initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+                    await new LooteryBlueprint__factory(deployer)
+                        .deploy()
+                        .then((contract) => contract.getAddress()),
+                    await looteryDrawExtension.getAddress(),
+                    await looteryPurchaseExtension.getAddress(),
+                    await new MockRandomiser__factory(deployer)
+                        .deploy()
+                        .then((contract) => contract.getAddress()),
+                    ZeroAddress /** VRF coordinator */,
+                    ethers.Wallet.createRandom().address /** CCIP router */,
+                    await ticketSVGRenderer.getAddress(),
+                ]),
+            })
+            const { lotto } = await deployLotto({
+                deployer,
+                factory,
+                gamePeriod: 3600n,
+                prizeToken,
+            })
+            const lottoTicket = Ticket__factory.connect(await lotto.ticket(), deployer)
+            expect(await lottoTicket.lootery()).to.eq(await lotto.getAddress())
+            expect(await lottoTicket.hasRole(MINTER_ROLE, lotto)).to.eq(true)
+
+            const pick = [3n, 11n, 22n, 29n, 42n]
+            await prizeToken.mint(bob, parseEther('10'))
+            await prizeToken.connect(bob).approve(lotto, parseEther('10'))
+            await lotto.connect(bob).purchase(
+                [
+                    { whomst: bob.address, pick },
+                    { whomst: alice.address, pick },
+                ],
+                ZeroAddress,
+            )
+            expect(await lottoTicket.ownerOf(2)).to.eq(alice.address)
+            expect(await lottoTicket.totalSupply()).to.eq(2n)
+            expect(await lottoTicket.tokenURI(2)).to.eq(
+                await ticketSVGRenderer.renderTokenURI(
+                    await lottoTicket.name(),
+                    2n,
+                    await lotto.maxBallValue(),
+                    pick,
+                    0n,
+                    0n,
+                ),
+            )
+            await expect(lottoTicket.tokenURI(3))
+                .to.be.revertedWithCustomError(lottoTicket, 'ERC721NonexistentToken')
+                .withArgs(3n)
+        })
+    })
+})
@@ -22,8 +22,8 @@ describe('TicketSVG', () => {
         ).to.eq(true)
         // ITicketSVGRenderer
         const ticketSvgInterface = [
-            'renderSVG(string,uint8,uint8[])',
-            'renderTokenURI(string,uint256,uint8,uint8[])',
+            'renderSVG(string,uint8,uint8[],uint8,uint8)',
+            'renderTokenURI(string,uint256,uint8,uint8[],uint8,uint8)',
         ]
         expect(await ticketSVGRenderer.supportsInterface(getInterfaceId(ticketSvgInterface))).to.eq(
             true,
@@ -38,14 +38,14 @@ describe('TicketSVG', () => {
         it('should render a ticket for numPick=1', async () => {
             const maxValue = 5
             const picks = [5]
-            const svg = await ticketSVGRenderer.renderSVG('The Lootery', maxValue, picks)
+            const svg = await ticketSVGRenderer.renderSVG('The Lootery', maxValue, picks, 0, 0)
             console.log('picks:', picks)
             console.log(`data:image/svg+xml;base64,${btoa(svg)}`)
         })
 
         it('should render a ticket for empty pick (dummy ticket)', async () => {
             const maxValue = 5
-            const svg = await ticketSVGRenderer.renderSVG('The Lootery', maxValue, [])
+            const svg = await ticketSVGRenderer.renderSVG('The Lootery', maxValue, [], 0, 0)
             console.log(`data:image/svg+xml;base64,${btoa(svg)}`)
         })
 
@@ -56,10 +56,26 @@ describe('TicketSVG', () => {
                 .fill(0)
                 .map((_, i) => 1n + shuffle(BigInt(i), BigInt(maxValue), 6942069420n, 12n))
                 .sort((a, b) => Number(a - b))
-            const svg = await ticketSVGRenderer.renderSVG('The Lootery', maxValue, picks)
+            const svg = await ticketSVGRenderer.renderSVG('The Lootery', maxValue, picks, 0, 0)
             console.log('picks:', picks)
             console.log(`data:image/svg+xml;base64,${btoa(svg)}`)
         })
+
+        it('should render a ticket with a bonus ball', async () => {
+            const maxValue = 26
+            const picks = [3, 7, 12, 19, 24]
+            const bonusBall = 4
+            const svg = await ticketSVGRenderer.renderSVG(
+                'The Lootery',
+                maxValue,
+                picks,
+                10,
+                bonusBall,
+            )
+            expect(svg).to.contain('BONUS BALL')
+            console.log('picks:', picks, 'bonus ball:', bonusBall)
+            console.log(`data:image/svg+xml;base64,${btoa(svg)}`)
+        })
     })
 
     describe('#renderTokenURI', () => {
@@ -75,6 +91,8 @@ describe('TicketSVG', () => {
                 0,
                 maxValue,
                 picks,
+                0,
+                0,
             )
             expect(tokenURI).to.match(/^data:application\/json;base64,.+$/)
         })
@@ -0,0 +1,120 @@
+import { loadFixture, setBalance, time } from '@nomicfoundation/hardhat-network-helpers'
+import { LooteryFactory, SubscriptionAPI, type MockERC20 } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { parseEther } from 'ethers'
+import { expect } from 'chai'
+import { deployLooteryDependencies } from './helpers/fixtures'
+import { deployLotto, purchaseTicket } from './helpers/lotto'
+import { RandomnessProvider, fulfilRandomness } from './helpers/randomness'
+import {
+    addVrfConsumers,
+    connectVrfCoordinator,
+    createVrfSubscription,
+    fundVrfSubscription,
+    getLooteryVrfConsumer,
+    getVrfSubscriptionStatus,
+    removeVrfConsumers,
+} from '../sdk/vrf'
+
+describe('VRF subscription management', () => {
+    let testERC20: MockERC20
+    let factory: LooteryFactory
+    let deployer: SignerWithAddress
+    let bob: SignerWithAddress
+    let coordinator: SubscriptionAPI
+    beforeEach(async () => {
+        const dependencies = await loadFixture(deployLooteryDependencies)
+        ;({ deployer, bob, testERC20, factory } = dependencies)
+        coordinator = connectVrfCoordinator(
+            await dependencies.vrfCoordinator.getAddress(),
+            deployer,
+        )
+    })
+
+    /** Launch a VRF-randomised lottery with a ticket sold, on a new subscription */
+    async function deploy() {
+        const subscriptionId = await createVrfSubscription(coordinator)
+        await fundVrfSubscription(coordinator, subscriptionId, parseEther('100'), 'link')
+        const { lotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+            randomnessProvider: RandomnessProvider.ChainlinkVRF,
+            subscriptionId,
+        })
+        await testERC20.mint(deployer, parseEther('0.1'))
+        await testERC20.approve(lotto, parseEther('0.1'))
+        await purchaseTicket(lotto, bob.address, [1n, 2n, 3n, 4n, 5n])
+        return { lotto, subscriptionId }
+    }
+
+    it('should create and fund subscriptions', async () => {
+        const subscriptionId = await createVrfSubscription(coordinator)
+        await fundVrfSubscription(coordinator, subscriptionId, parseEther('10'), 'link')
+        await fundVrfSubscription(coordinator, subscriptionId, parseEther('1'), 'native')
+
+        const status = await getVrfSubscriptionStatus(coordinator, subscriptionId)
+        expect(status.owner).to.eq(deployer.address)
+        expect(status.balance).to.eq(parseEther('10'))
+        expect(status.nativeBalance).to.eq(parseEther('1'))
+        expect(status.consumers).to.deep.eq([])
+    })
+
+    it('should discover consumers from lotteries', async () => {
+        const { lotto, subscriptionId } = await deploy()
+        expect(await getLooteryVrfConsumer(await lotto.getAddress(), deployer)).to.deep.eq({
+            lootery: await lotto.getAddress(),
+            consumer: await lotto.randomiser(),
+            coordinator: await coordinator.getAddress(),
+            subscriptionId,
+        })
+
+        // Lotteries randomised by Anyrand have no VRF consumer
+        const { lotto: anyrandLotto } = await deployLotto({
+            deployer,
+            factory,
+            gamePeriod: 3600n,
+            prizeToken: testERC20,
+        })
+        const anyrandLottoAddress = await anyrandLotto.getAddress()
+        expect(await getLooteryVrfConsumer(anyrandLottoAddress, deployer)).to.eq(undefined)
+        await expect(
+            addVrfConsumers(coordinator, subscriptionId, [anyrandLottoAddress]),
+        ).to.be.rejectedWith(/not randomised by Chainlink VRF/)
+    })
+
+    it('should add and remove consumers, and report lotteries that cannot draw', async () => {
+        const { lotto, subscriptionId } = await deploy()
+        const lottoAddress = await lotto.getAddress()
+        const consumer = await lotto.randomiser()
+
+        // Unregistered lotteries can't draw
+        const removed = await removeVrfConsumers(coordinator, subscriptionId, [lottoAddress])
+        expect(removed.map(({ consumer }) => consumer)).to.deep.eq([consumer])
+        let status = await getVrfSubscriptionStatus(coordinator, subscriptionId, [lottoAddress])
+        expect(status.consumers).to.deep.eq([])
+        expect(status.looteries).to.have.length(1)
+        expect(status.looteries[0].isRegistered).to.eq(false)
+        await time.increase(await lotto.gamePeriod())
+        await setBalance(lottoAddress, parseEther('0.1'))
+        await expect(lotto.draw()).to.be.reverted
+
+        // Registering is idempotent
+        const added = await addVrfConsumers(coordinator, subscriptionId, [lottoAddress])
+        expect(added.map(({ consumer }) => consumer)).to.deep.eq([consumer])
+        expect(await addVrfConsumers(coordinator, subscriptionId, [lottoAddress])).to.deep.eq([])
+        status = await getVrfSubscriptionStatus(coordinator, subscriptionId, [lottoAddress])
+        expect(status.consumers).to.deep.eq([consumer])
+        expect(status.looteries[0].isRegistered).to.eq(true)
+
+        // Pending requests are reported until they're fulfilled
+        await lotto.draw()
+        const { requestId } = await lotto.randomnessRequests(0)
+        status = await getVrfSubscriptionStatus(coordinator, subscriptionId, [lottoAddress])
+        expect(status.looteries[0].pendingRequestId).to.eq(requestId)
+        await fulfilRandomness(lotto, 6942069420n)
+        status = await getVrfSubscriptionStatus(coordinator, subscriptionId, [lottoAddress])
+        expect(status.looteries[0].pendingRequestId).to.eq(undefined)
+    })
+})
@@ -0,0 +1,105 @@
+import { ethers } from 'hardhat'
+import * as hre from 'hardhat'
+import { loadFixture } from '@nomicfoundation/hardhat-network-helpers'
+import { MockERC20__factory, PickConsumer, PickConsumer__factory } from '../typechain-types'
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { expect } from 'chai'
+import { getRandomValues } from 'node:crypto'
+import { deployLotto } from './helpers/lotto'
+import { deployLooteryDependencies } from './helpers/fixtures'
+import { computeWinningBonusBall, computeWinningPick } from '../sdk/draw'
+
+const isCoverage = Boolean((hre as any).__SOLIDITY_COVERAGE_RUNNING)
+const CUSTOM_RUNS = process.env.RUNS
+const customRunsOrDefault =
+    typeof CUSTOM_RUNS !== 'undefined' &&
+    !Number.isNaN(Number(CUSTOM_RUNS)) &&
+    Number.isFinite(Number(CUSTOM_RUNS))
+        ? Number(CUSTOM_RUNS)
+        : 100
+const runs = isCoverage ? 10 : customRunsOrDefault
+
+function randomInt(maxExclusive: number) {
+    return getRandomValues(new Uint32Array(1))[0] % maxExclusive
+}
+
+function randomBigInt(bytes: number) {
+    return BigInt(`0x${Buffer.from(getRandomValues(new Uint8Array(bytes))).toString('hex')}`)
+}
+
+describe('computeWinningPick', () => {
+    let deployer: SignerWithAddress
+    let pickConsumer: PickConsumer
+    beforeEach(async () => {
+        ;[deployer] = await ethers.getSigners()
+        pickConsumer = await new PickConsumer__factory(deployer).deploy()
+    })
+
+    it('should match known draws', async () => {
+        // Same draws as in Lootery e2e
+        expect(computeWinningPick(5, 69, 6942069420n)).to.deep.eq([31n, 35n, 37n, 56n, 61n])
+        expect(computeWinningPick(5, 69, 6942069421n)).to.deep.eq([12n, 13n, 25n, 51n, 65n])
+    })
+
+    it('should draw every ball when pickLength == maxBallValue', async () => {
+        const seed = randomBigInt(32)
+        expect(computeWinningPick(8, 8, seed)).to.deep.eq([1n, 2n, 3n, 4n, 5n, 6n, 7n, 8n])
+        expect(await pickConsumer.draw(8, 8, seed)).to.deep.eq([1n, 2n, 3n, 4n, 5n, 6n, 7n, 8n])
+    })
+
+    describe('differential: Pick.draw', () => {
+        for (let i = 0; i < runs; i++) {
+            const pickLength = 1 + randomInt(32)
+            const maxBallValue = pickLength + randomInt(256 - pickLength)
+            const seed = randomBigInt(32)
+            it(`should match Pick.draw(${pickLength}, ${maxBallValue}, ${seed})`, async () => {
+                expect(computeWinningPick(pickLength, maxBallValue, seed)).to.deep.eq(
+                    await pickConsumer.draw(pickLength, maxBallValue, seed),
+                )
+            })
+        }
+    })
+
+    describe('differential: Pick.drawBonusBall', () => {
+        it('should not draw a bonus ball without a pool', async () => {
+            expect(computeWinningBonusBall(0, randomBigInt(32))).to.eq(0n)
+        })
+
+        for (let i = 0; i < runs; i++) {
+            const bonusBallMaxValue = 1 + randomInt(255)
+            const seed = randomBigInt(32)
+            it(`should match Pick.drawBonusBall(${bonusBallMaxValue}, ${seed})`, async () => {
+                expect(computeWinningBonusBall(bonusBallMaxValue, seed)).to.eq(
+                    await pickConsumer.drawBonusBall(bonusBallMaxValue, seed),
+                )
+            })
+        }
+    })
+
+    describe('differential: Lootery.computeWinningPick', () => {
+        for (const [pickLength, maxBallValue] of [
+            [5n, 69n],
+            [6n, 49n],
+            [3n, 10n],
+        ]) {
+            it(`should match a ${pickLength}/${maxBallValue} lottery`, async () => {
+                const { factory } = await loadFixture(deployLooteryDependencies)
+                const { lotto } = await deployLotto({
+                    deployer,
+                    factory,
+                    gamePeriod: 3600n,
+                    prizeToken: await new MockERC20__factory(deployer).deploy(deployer),
+                    pickLength,
+                    maxBallValue,
+                    shouldSkipSeedJackpot: true,
+                })
+                for (let i = 0; i < runs; i++) {
+                    const seed = randomBigInt(32)
+                    expect(computeWinningPick(pickLength, maxBallValue, seed)).to.deep.eq(
+                        await lotto.computeWinningPick(seed),
+                    )
+                }
+            })
+        }
+    })
+})
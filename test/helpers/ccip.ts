@@ -0,0 +1,23 @@
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import { BurnMintERC677Helper__factory, CCIPLocalSimulator__factory } from '../../typechain-types'
+
+/**
+ * Deploy the chainlink-local CCIP simulator. Its router delivers messages to
+ * the receiver on the same chain, in the same tx as `ccipSend`, and charges
+ * no fees.
+ * @param deployer Deployer of the simulator
+ */
+export async function deployCcipSimulator(deployer: SignerWithAddress) {
+    const simulator = await new CCIPLocalSimulator__factory(deployer).deploy()
+    const { chainSelector_, sourceRouter_, linkToken_, ccipBnM_ } = await simulator.configuration()
+    return {
+        simulator,
+        /** Selector of the simulated chain, which is both source and destination */
+        chainSelector: chainSelector_,
+        router: sourceRouter_,
+        /** LINK, which the router accepts as a fee token */
+        link: linkToken_,
+        /** Test token that the router supports; `drip` mints 1e18 to anyone */
+        ccipBnM: BurnMintERC677Helper__factory.connect(ccipBnM_, deployer),
+    }
+}
@@ -0,0 +1,289 @@
+import { ethers } from 'hardhat'
+import { Signer, ZeroAddress, getCreateAddress, id, parseEther } from 'ethers'
+import {
+    AnyrandAdapter__factory,
+    LooteryBlueprint__factory,
+    LooteryDrawExtension__factory,
+    LooteryFactory,
+    LooteryFactory__factory,
+    LooteryHarness__factory,
+    LooteryPurchaseExtension__factory,
+    Lootery__factory,
+    MockERC20,
+    MockERC20Permit,
+    MockERC20__factory,
+    MockRandomiser__factory,
+    Sender__factory,
+    TicketSVGRenderer__factory,
+    Ticket__factory,
+    VRFAdapter__factory,
+} from '../../typechain-types'
+import { ILootery } from '../../typechain-types/contracts/Lootery'
+import { deployProxy } from './deployProxy'
+import { deployCcipSimulator } from './ccip'
+import { RandomnessProvider, createVrfSubscription, deployVrfCoordinatorMock } from './randomness'
+import { deployLotto, fastForwardAndDraw } from './lotto'
+
+/**
+ * Deploy the extensions that `Lootery` delegates part of its functions to,
+ * which are shared by every lottery of the same version
+ * @param deployer Deployer of the extensions
+ */
+export async function deployLooteryExtensions(deployer: Signer) {
+    return {
+        looteryDrawExtension: await new LooteryDrawExtension__factory(deployer).deploy(),
+        looteryPurchaseExtension: await new LooteryPurchaseExtension__factory(deployer).deploy(),
+    }
+}
+
+/**
+ * Deploy everything that lotteries depend on: a prize token, stand-ins for
+ * Anyrand, the VRF coordinator and the CCIP router, a ticket renderer, the
+ * lottery extensions, and a factory that launches lotteries with all of them. Load this with
+ * `loadFixture`, so that it's deployed once and reverted to for every test.
+ */
+export async function deployLooteryDependencies() {
+    const [deployer, bob, alice, beneficiary] = await ethers.getSigners()
+    const testERC20 = await new MockERC20__factory(deployer).deploy(deployer)
+    const mockRandomiser = await new MockRandomiser__factory(deployer).deploy()
+    const vrfCoordinator = await deployVrfCoordinatorMock(deployer)
+    const ccip = await deployCcipSimulator(deployer)
+    const ccipRouter = ccip.router
+    const ticketSVGRenderer = await new TicketSVGRenderer__factory(deployer).deploy()
+    const { looteryDrawExtension, looteryPurchaseExtension } =
+        await deployLooteryExtensions(deployer)
+    const factory: LooteryFactory = await deployProxy({
+        deployer,
+        implementation: LooteryFactory__factory,
+        initData: LooteryFactory__factory.createInterface().encodeFunctionData('init', [
+            await new LooteryBlueprint__factory(deployer)
+                .deploy()
+                .then((contract) => contract.getAddress()),
+            await looteryDrawExtension.getAddress(),
+            await looteryPurchaseExtension.getAddress(),
+            await mockRandomiser.getAddress(),
+            await vrfCoordinator.getAddress(),
+            ccipRouter,
+            await ticketSVGRenderer.getAddress(),
+        ]),
+    })
+    return {
+        deployer,
+        bob,
+        alice,
+        beneficiary,
+        testERC20,
+        mockRandomiser,
+        vrfCoordinator,
+        ccipRouter,
+        /** CCIP simulator whose router the factory is configured with */
+        ccip,
+        ticketSVGRenderer,
+        looteryDrawExtension,
+        looteryPurchaseExtension,
+        factory,
+    }
+}
+
+export type LooteryDependencies = Awaited<ReturnType<typeof deployLooteryDependencies>>
+
+/**
+ * Config that a lottery can be deployed with, same as the defaults of
+ * `deployLotto`. The randomiser and the ticket NFT are left unset, since
+ * they're bound to the lottery that they serve.
+ * @param dependencies See {deployLooteryDependencies}
+ */
+export async function getValidConfig({
+    deployer,
+    testERC20,
+    ccipRouter,
+    ticketSVGRenderer,
+    looteryDrawExtension,
+    looteryPurchaseExtension,
+    factory,
+}: LooteryDependencies): Promise<ILootery.InitConfigStruct> {
+    return {
+        owner: deployer.address,
+        name: 'Lotto',
+        symbol: 'LOTTO',
+        pickLength: 5,
+        maxBallValue: 69,
+        gamePeriod: 60n * 60n,
+        ticketPrice: parseEther('0.1'),
+        communityFeeBps: 5000, // 50%
+        randomiser: ZeroAddress,
+        prizeToken: await testERC20.getAddress(),
+        seedJackpotDelay: 3600,
+        seedJackpotMinValue: parseEther('1'),
+        ticketSVGRenderer: await ticketSVGRenderer.getAddress(),
+        ccipRouter,
+        bonusBallMaxValue: 0,
+        ticket: ZeroAddress,
+        drawExtension: await looteryDrawExtension.getAddress(),
+        purchaseExtension: await looteryPurchaseExtension.getAddress(),
+        factory: await factory.getAddress(),
+    }
+}
+
+/**
+ * Deploy a `LooteryHarness` with its constructor rather than through the
+ * factory, along with its ticket NFT, randomised by Anyrand (i.e. `mockRandomiser`) or by VRF (i.e.
+ * `vrfCoordinator`, with a funded subscription created for the lottery).
+ * @param dependencies See {deployLooteryDependencies}
+ * @param config Overrides of the valid config; see {getValidConfig}
+ * @param randomnessProvider Backend of the lottery's randomness adapter
+ */
+export async function deployLooteryHarness(
+    dependencies: LooteryDependencies,
+    config: Partial<ILootery.InitConfigStruct> = {},
+    randomnessProvider = RandomnessProvider.Anyrand,
+) {
+    const { deployer, mockRandomiser, vrfCoordinator } = dependencies
+    const subscriptionId =
+        randomnessProvider === RandomnessProvider.ChainlinkVRF
+            ? await createVrfSubscription(vrfCoordinator)
+            : 0n
+    // The adapter and the ticket NFT are bound to the lottery, so they're
+    // deployed first with the lottery's address precomputed
+    const lottoAddress = getCreateAddress({
+        from: deployer.address,
+        nonce: (await deployer.getNonce()) + 2,
+    })
+    const randomiser =
+        randomnessProvider === RandomnessProvider.ChainlinkVRF
+            ? await new VRFAdapter__factory(deployer).deploy(
+                  vrfCoordinator,
+                  subscriptionId,
+                  id('lootery.keyHash'),
+                  lottoAddress,
+              )
+            : await new AnyrandAdapter__factory(deployer).deploy(mockRandomiser, lottoAddress)
+    const validConfig = await getValidConfig(dependencies)
+    const ticket = await new Ticket__factory(deployer).deploy(
+        config.name ?? validConfig.name,
+        config.symbol ?? validConfig.symbol,
+        lottoAddress,
+    )
+    const lotto = await new LooteryHarness__factory(deployer).deploy({
+        ...validConfig,
+        randomiser: await randomiser.getAddress(),
+        ticket: await ticket.getAddress(),
+        ...config,
+    })
+    if (randomnessProvider === RandomnessProvider.ChainlinkVRF) {
+        await vrfCoordinator.addConsumer(subscriptionId, randomiser)
+    }
+    return { lotto, ticket }
+}
+
+/**
+ * Create the `LooteryHarness` fixtures for a randomness backend. Fixtures are
+ * told apart by identity in `loadFixture`, so use the ones created once in
+ * {looteryHarnessFixtures} rather than calling this per test.
+ * @param randomnessProvider Backend of the lottery's randomness adapter
+ */
+function createLooteryHarnessFixtures(randomnessProvider: RandomnessProvider) {
+    /** A `LooteryHarness` with the valid config and an empty jackpot */
+    async function deployLooteryHarnessFixture() {
+        const dependencies = await deployLooteryDependencies()
+        const { lotto, ticket } = await deployLooteryHarness(dependencies, {}, randomnessProvider)
+        const lootery = Lootery__factory.connect(await lotto.getAddress(), dependencies.deployer)
+        return {
+            ...dependencies,
+            randomnessProvider,
+            lotto,
+            ticket,
+            fastForwardAndDraw: (randomness: bigint) => fastForwardAndDraw(lootery, randomness),
+        }
+    }
+
+    /** A `LooteryHarness` with the valid config and a jackpot seeded with 10 ETH */
+    async function deploySeededLooteryHarnessFixture() {
+        const fixture = await deployLooteryHarnessFixture()
+        const { deployer, testERC20, lotto } = fixture
+        await testERC20.mint(deployer, parseEther('10'))
+        await testERC20.approve(lotto, parseEther('10'))
+        await lotto.seedJackpot(parseEther('10'))
+        return fixture
+    }
+
+    return { deployLooteryHarnessFixture, deploySeededLooteryHarnessFixture }
+}
+
+export type LooteryHarnessFixture = ReturnType<
+    typeof createLooteryHarnessFixtures
+>['deployLooteryHarnessFixture']
+
+/** `LooteryHarness` fixtures for each randomness backend */
+export const looteryHarnessFixtures = {
+    [RandomnessProvider.Anyrand]: createLooteryHarnessFixtures(RandomnessProvider.Anyrand),
+    [RandomnessProvider.ChainlinkVRF]: createLooteryHarnessFixtures(
+        RandomnessProvider.ChainlinkVRF,
+    ),
+}
+
+export const { deployLooteryHarnessFixture, deploySeededLooteryHarnessFixture } =
+    looteryHarnessFixtures[RandomnessProvider.Anyrand]
+
+/** Options of `deployLotto` for {createLottoFixture} */
+export type LottoFixtureOptions = Omit<
+    Parameters<typeof deployLotto>[0],
+    'deployer' | 'factory' | 'gamePeriod' | 'prizeToken'
+> & {
+    /** seconds; default: 1h */
+    gamePeriod?: bigint
+    /** default: `testERC20` */
+    prizeToken?: (dependencies: LooteryDependencies) => Promise<MockERC20 | MockERC20Permit>
+}
+
+/**
+ * Create a fixture that launches a lottery through the factory with
+ * `deployLotto`. Fixtures are told apart by identity in `loadFixture`, so
+ * create each one once, outside of any test.
+ * @param options Options of `deployLotto`
+ */
+export function createLottoFixture({
+    gamePeriod = 60n * 60n,
+    prizeToken,
+    ...options
+}: LottoFixtureOptions = {}) {
+    return async function deployLottoFixture() {
+        const dependencies = await deployLooteryDependencies()
+        const { deployer, factory, testERC20 } = dependencies
+        const deployed = await deployLotto({
+            ...options,
+            deployer,
+            factory,
+            gamePeriod,
+            prizeToken: prizeToken ? await prizeToken(dependencies) : testERC20,
+        })
+        return { ...dependencies, ...deployed }
+    }
+}
+
+/** A lottery launched with the defaults of `deployLotto`, with a seeded jackpot */
+export const deployLottoFixture = createLottoFixture()
+
+/** Price per ticket that {deployCrossChainFixture} configures, in CCIP-BnM */
+export const CROSS_CHAIN_TICKET_PRICE = 10n ** 6n
+
+const deployCcipBnMLottoFixture = createLottoFixture({
+    shouldSkipSeedJackpot: true,
+    prizeToken: async ({ deployer, ccip }) =>
+        MockERC20__factory.connect(await ccip.ccipBnM.getAddress(), deployer),
+})
+
+/**
+ * A lottery with an empty jackpot that sells tickets for CCIP-BnM, both
+ * directly and through a `Sender` on the CCIP simulator's chain, at
+ * {CROSS_CHAIN_TICKET_PRICE}
+ */
+export async function deployCrossChainFixture() {
+    const fixture = await deployCcipBnMLottoFixture()
+    const { deployer, lotto, ccip } = fixture
+    await lotto.changeTicketPrice(CROSS_CHAIN_TICKET_PRICE)
+    const sender = await new Sender__factory(deployer).deploy(ccip.router, ccip.ccipBnM)
+    await sender.setDestinationConfig(ccip.chainSelector, lotto, CROSS_CHAIN_TICKET_PRICE, 0, 0)
+    await lotto.setAllowlistedSender(ccip.chainSelector, sender, true)
+    return { ...fixture, sender }
+}
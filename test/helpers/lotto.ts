@@ -4,21 +4,23 @@ import {
     Lootery__factory,
     MockRandomiser__factory,
     MockERC20,
+    MockERC20Permit,
     LooteryFactory,
-    LooteryHarness__factory,
+    VRFCoordinatorV2_5Mock__factory,
 } from '../../typechain-types'
-import { encrypt } from '@kevincharm/gfc-fpe'
+import { shuffle } from '../../sdk/draw'
 import { time, setBalance } from '@nomicfoundation/hardhat-network-helpers'
 import {
     parseEther,
     hexlify,
-    ethers,
     ZeroAddress,
     LogDescription,
     BigNumberish,
     TransactionResponse,
+    id,
 } from 'ethers'
 import crypto from 'node:crypto'
+import { RandomnessProvider, createVrfSubscription, fulfilRandomness } from './randomness'
 
 export function computePick(pickId: bigint): bigint[] {
     if (pickId & 1n) throw new Error('0 is not a valid ball value')
@@ -31,9 +33,8 @@ export function computePick(pickId: bigint): bigint[] {
     return pick
 }
 
-export function computePickId(picks: bigint[]) {
-    return picks.reduce((id, pick) => id | (1n << pick), 0n)
-}
+export { computePickId } from '../../sdk/pick'
+export { shuffle }
 
 export async function deployLotto({
     deployer,
@@ -42,22 +43,42 @@ export async function deployLotto({
     prizeToken,
     pickLength,
     maxBallValue,
+    bonusBallMaxValue,
     seedJackpotDelay,
     shouldSkipSeedJackpot,
     seedJackpotMinValue,
+    randomnessProvider,
+    subscriptionId,
+    keyHash,
 }: {
     deployer: SignerWithAddress
     factory: LooteryFactory
     /** seconds */
     gamePeriod: bigint
-    prizeToken: MockERC20
+    prizeToken: MockERC20 | MockERC20Permit
     pickLength?: bigint
     maxBallValue?: bigint
+    /** default: no bonus ball */
+    bonusBallMaxValue?: bigint
     /** seconds */
     seedJackpotDelay?: bigint
     shouldSkipSeedJackpot?: boolean
     seedJackpotMinValue?: bigint
+    /** default: Anyrand */
+    randomnessProvider?: RandomnessProvider
+    /** VRF subscription id; a funded subscription is created on the mock coordinator if omitted */
+    subscriptionId?: bigint
+    /** VRF gas lane key hash */
+    keyHash?: string
 }) {
+    const provider = randomnessProvider ?? RandomnessProvider.Anyrand
+    const vrfCoordinator = VRFCoordinatorV2_5Mock__factory.connect(
+        await factory.getVrfCoordinator(),
+        deployer,
+    )
+    if (provider === RandomnessProvider.ChainlinkVRF && typeof subscriptionId === 'undefined') {
+        subscriptionId = await createVrfSubscription(vrfCoordinator)
+    }
     const createTx = await factory
         .connect(deployer)
         .create(
@@ -65,20 +86,29 @@ export async function deployLotto({
             'LOTTO',
             pickLength || 5,
             maxBallValue || 69,
+            bonusBallMaxValue || 0,
             gamePeriod,
             parseEther('0.1'),
             5000,
             await prizeToken.getAddress(),
             typeof seedJackpotDelay === 'undefined' ? 3600 : seedJackpotDelay /** default to 1h */,
             typeof seedJackpotMinValue === 'undefined' ? parseEther('1') : seedJackpotMinValue,
+            {
+                provider,
+                subscriptionId: subscriptionId || 0n,
+                keyHash: keyHash || id('lootery.keyHash'),
+            },
         )
         .then((tx) => tx.wait())
     const looteryLaunchedEvent = createTx?.logs
         .map((log) => factory.interface.parseLog(log))
         .find((log) => log?.name === 'LooteryLaunched')
     if (!looteryLaunchedEvent) throw new Error('Create lotto via factory failed')
-    const lotto = LooteryHarness__factory.connect(looteryLaunchedEvent.args[0], deployer)
-    const mockRandomiser = MockRandomiser__factory.connect(await lotto.randomiser(), deployer)
+    const lotto = Lootery__factory.connect(looteryLaunchedEvent.args[0], deployer)
+    const mockRandomiser = MockRandomiser__factory.connect(await factory.getRandomiser(), deployer)
+    if (provider === RandomnessProvider.ChainlinkVRF) {
+        await vrfCoordinator.addConsumer(subscriptionId!, await lotto.randomiser())
+    }
 
     if (!shouldSkipSeedJackpot) {
         // Seed initial jackpot with 10 ETH
@@ -87,47 +117,40 @@ export async function deployLotto({
         await lotto.seedJackpot(parseEther('10'))
     }
 
-    const fastForwardAndDraw = async (randomness: bigint) => {
-        // Draw
-        await time.increase(gamePeriod)
-        await setBalance(await lotto.getAddress(), parseEther('0.1'))
-        await lotto.draw()
-        const { requestId } = await lotto.randomnessRequest()
-
-        // Fulfill w/ mock randomiser
-        const fulfilmentTx = await mockRandomiser
-            .fulfillRandomWords(requestId, [randomness])
-            .then((tx) => tx.wait(1))
-        const [, emittedBalls] = lotto.interface.decodeEventLog(
-            'GameFinalised',
-            fulfilmentTx?.logs?.[0].data!,
-            fulfilmentTx?.logs?.[0].topics,
-        ) as unknown as [bigint, bigint[]]
-        return emittedBalls
-    }
-
     return {
         lotto,
         mockRandomiser,
-        fastForwardAndDraw,
+        vrfCoordinator,
+        fastForwardAndDraw: (randomness: bigint) => fastForwardAndDraw(lotto, randomness),
         prizeToken,
     }
 }
 
-const roundFn = (R: bigint, i: bigint, seed: bigint, domain: bigint) => {
-    return BigInt(
-        ethers.solidityPackedKeccak256(
-            ['uint256', 'uint256', 'uint256', 'uint256'],
-            [R, i, seed, domain],
-        ),
-    )
-}
+/**
+ * Fast forward to the end of the current game, then draw and fulfil it
+ * @param lotto Lottery contract, connected to a signer
+ * @param randomness Random word to fulfil the draw with
+ * @returns Winning balls
+ */
+export async function fastForwardAndDraw(lotto: Lootery, randomness: bigint) {
+    // Draw
+    await time.increase(await lotto.gamePeriod())
+    await setBalance(await lotto.getAddress(), parseEther('0.1'))
+    await lotto.draw()
 
-export function shuffle(i: bigint, domain: bigint, seed: bigint, rounds: bigint) {
-    return encrypt(i, domain, seed, rounds, roundFn)
+    // Fulfill w/ whichever mock backs the lotto's randomness adapter
+    const fulfilmentTx = await fulfilRandomness(lotto, randomness)
+    const lottoAddress = await lotto.getAddress()
+    const gameFinalisedEvent = fulfilmentTx?.logs
+        .filter((log) => log.address === lottoAddress)
+        .map((log) => lotto.interface.parseLog(log))
+        .find((log) => log?.name === 'GameFinalised')
+    if (!gameFinalisedEvent) throw new Error('Fulfilment did not finalise the game')
+    const [, emittedBalls] = gameFinalisedEvent.args as unknown as [bigint, bigint[]]
+    return emittedBalls
 }
 
-export function slikpik(pickLength: bigint, domain: bigint) {
+export function slikpik(pickLength: bigint, domain: bigint, bonusBallMaxValue = 0n) {
     const seed = BigInt(hexlify(crypto.getRandomValues(new Uint8Array(32))))
 
     const picks: bigint[] = []
@@ -136,6 +159,10 @@ export function slikpik(pickLength: bigint, domain: bigint) {
         picks.push(pick)
     }
     picks.sort((a, b) => Number(a - b))
+    // Bonus ball is picked from its own pool, after the main balls
+    if (bonusBallMaxValue > 0n) {
+        picks.push(1n + shuffle(0n, bonusBallMaxValue, seed, 12n))
+    }
     return picks
 }
 
@@ -148,8 +175,9 @@ export function slikpik(pickLength: bigint, domain: bigint) {
 export async function buySlikpik(connectedLotto: Lootery, whomst: string, beneficiary?: string) {
     const pickLength = await connectedLotto.pickLength()
     const domain = await connectedLotto.maxBallValue()
+    const bonusBallMaxValue = await connectedLotto.bonusBallMaxValue()
     // Generate shuffled pick
-    const pick = slikpik(pickLength, domain)
+    const pick = slikpik(pickLength, domain, bonusBallMaxValue)
     const tx = await connectedLotto
         .purchase(
             [
@@ -0,0 +1,77 @@
+import { SignerWithAddress } from '@nomicfoundation/hardhat-ethers/signers'
+import {
+    AnyrandAdapter__factory,
+    ITypeAndVersion__factory,
+    Lootery,
+    MockRandomiser__factory,
+    VRFAdapter__factory,
+    VRFCoordinatorV2_5Mock,
+    VRFCoordinatorV2_5Mock__factory,
+} from '../../typechain-types'
+import { parseEther, parseUnits } from 'ethers'
+import {
+    connectVrfCoordinator,
+    createVrfSubscription as createSubscription,
+    fundVrfSubscription,
+} from '../../sdk/vrf'
+
+export { RandomnessProvider } from '../../sdk/RandomnessProvider'
+
+/**
+ * Deploy a VRF v2.5 coordinator mock
+ * @param deployer Deployer of the mock
+ */
+export async function deployVrfCoordinatorMock(deployer: SignerWithAddress) {
+    return new VRFCoordinatorV2_5Mock__factory(deployer).deploy(
+        parseEther('0.1') /** base fee */,
+        parseUnits('1', 'gwei') /** gas price */,
+        parseUnits('4', 15) /** wei per unit LINK */,
+    )
+}
+
+/**
+ * Create and fund a subscription on a VRF coordinator mock
+ * @param coordinator VRF coordinator mock
+ * @returns Subscription id
+ */
+export async function createVrfSubscription(coordinator: VRFCoordinatorV2_5Mock) {
+    const subscriptions = connectVrfCoordinator(await coordinator.getAddress(), coordinator.runner!)
+    const subscriptionId = await createSubscription(subscriptions)
+    await fundVrfSubscription(subscriptions, subscriptionId, parseEther('100'), 'link')
+    return subscriptionId
+}
+
+/**
+ * Fulfil the pending randomness request of a lotto with a single random word,
+ * via whichever mock backs its randomness adapter
+ * @param lotto Lottery contract, connected to a signer
+ * @param randomness Random word
+ */
+export async function fulfilRandomness(lotto: Lootery, randomness: bigint) {
+    const runner = lotto.runner!
+    const adapterAddress = await lotto.randomiser()
+    const { id } = await lotto.currentGame()
+    const { requestId } = await lotto.randomnessRequests(id)
+    const [type] = await ITypeAndVersion__factory.connect(adapterAddress, runner)
+        .typeAndVersion()
+        .then((typeAndVersion) => typeAndVersion.split(' '))
+    switch (type) {
+        case 'AnyrandAdapter': {
+            const anyrand = await AnyrandAdapter__factory.connect(adapterAddress, runner).anyrand()
+            return MockRandomiser__factory.connect(anyrand, runner)
+                .fulfillRandomWords(requestId, [randomness])
+                .then((tx) => tx.wait())
+        }
+        case 'VRFAdapter': {
+            const coordinator = await VRFAdapter__factory.connect(
+                adapterAddress,
+                runner,
+            ).s_vrfCoordinator()
+            return VRFCoordinatorV2_5Mock__factory.connect(coordinator, runner)
+                .fulfillRandomWordsWithOverride(requestId, adapterAddress, [randomness])
+                .then((tx) => tx.wait())
+        }
+        default:
+            throw new Error(`Unknown randomness adapter: ${type}`)
+    }
+}
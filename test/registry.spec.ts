@@ -0,0 +1,39 @@
+import { expect } from 'chai'
+import {
+    MissingConfigError,
+    UnknownChainError,
+    compareVersions,
+    getChainConfig,
+    getDeployedAddresses,
+    parseModuleVersion,
+    requireChainConfig,
+} from '../scripts/registry'
+
+describe('registry', () => {
+    it('should return chain config for known chains', () => {
+        expect(getChainConfig(534352n).name).to.eq('scroll')
+        expect(requireChainConfig(84532, 'vrf').subscriptionId).to.eq(
+            52583392386139978788287834954922830646012130925743222032793193524782781572502n,
+        )
+    })
+
+    it('should fail clearly on unknown chains', async () => {
+        expect(() => getChainConfig(31337n)).to.throw(UnknownChainError, /Unknown chain 31337/)
+        await expect(getDeployedAddresses(31337n)).to.be.rejectedWith(UnknownChainError)
+    })
+
+    it('should fail clearly on missing config', () => {
+        expect(() => requireChainConfig(100, 'ccipRouter')).to.throw(
+            MissingConfigError,
+            /no ccipRouter configured/,
+        )
+    })
+
+    it('should parse versions from module ids', () => {
+        expect(parseModuleVersion('LooteryImplV1_8_0#Lootery')).to.eq('1.8.0')
+        expect(parseModuleVersion('LooteryFactoryImplV1_10_2')).to.eq('1.10.2')
+        expect(parseModuleVersion('LooteryFactory#ERC1967Proxy')).to.eq(undefined)
+        expect(compareVersions('1.10.0', '1.9.0')).to.be.greaterThan(0)
+        expect(compareVersions('1.8.0', '1.8.0')).to.eq(0)
+    })
+})
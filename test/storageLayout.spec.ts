@@ -0,0 +1,147 @@
+import hre from 'hardhat'
+import { expect } from 'chai'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import {
+    compareStorageLayouts,
+    getStorageLayout,
+    readStorageLayoutBaseline,
+    type StorageLayout,
+} from '../scripts/storageLayout'
+
+describe('storage layout', () => {
+    const types = {
+        t_uint256: { label: 'uint256', numberOfBytes: '32' },
+        t_address: { label: 'address', numberOfBytes: '20' },
+        t_uint64: { label: 'uint64', numberOfBytes: '8' },
+    }
+    const prev: StorageLayout = {
+        storage: [
+            { label: 'jackpot', offset: 0, slot: '0', type: 't_uint256' },
+            { label: 'prizeToken', offset: 0, slot: '1', type: 't_address' },
+        ],
+        types,
+    }
+
+    it('should accept appended variables', () => {
+        const next: StorageLayout = {
+            storage: [
+                ...prev.storage,
+                { label: 'gamePeriod', offset: 20, slot: '1', type: 't_uint64' },
+            ],
+            types,
+        }
+        expect(compareStorageLayouts(prev, next)).to.deep.eq([])
+    })
+
+    it('should reject removed, reordered and retyped variables', () => {
+        expect(
+            compareStorageLayouts(prev, { storage: prev.storage.slice(0, 1), types }),
+        ).to.deep.eq(['prizeToken (slot 1, offset 0) was removed'])
+        expect(
+            compareStorageLayouts(prev, {
+                storage: [prev.storage[0], { ...prev.storage[1], type: 't_uint64' }],
+                types,
+            }),
+        ).to.deep.eq(['prizeToken (slot 1, offset 0) changed type from address to uint64'])
+        expect(
+            compareStorageLayouts(prev, {
+                storage: [
+                    { ...prev.storage[1], slot: '0' },
+                    { ...prev.storage[0], slot: '1' },
+                ],
+                types,
+            }),
+        ).to.have.length.greaterThan(0)
+    })
+
+    it('should check members of namespaced storage', () => {
+        const members = [
+            { label: 'looteryMasterCopy', offset: 0, slot: '0', type: 't_address' },
+            { label: 'nonce', offset: 0, slot: '1', type: 't_uint256' },
+            { label: 'ccipRouter', offset: 0, slot: '2', type: 't_address' },
+        ]
+        const namespaced: StorageLayout = {
+            storage: [],
+            types,
+            namespaces: { 'lootery.storage.LooteryFactory': members },
+        }
+        const withMembers = (next: StorageLayout['storage']) => ({
+            storage: [],
+            types,
+            namespaces: { 'lootery.storage.LooteryFactory': next },
+        })
+
+        // Appending is fine
+        expect(
+            compareStorageLayouts(
+                namespaced,
+                withMembers([
+                    ...members,
+                    { label: 'randomiser', offset: 0, slot: '3', type: 't_address' },
+                ]),
+            ),
+        ).to.deep.eq([])
+        // Inserting moves every member after it
+        expect(
+            compareStorageLayouts(
+                namespaced,
+                withMembers([
+                    ...members.slice(0, 2),
+                    { label: 'randomiser', offset: 0, slot: '2', type: 't_address' },
+                    { ...members[2], slot: '3' },
+                ]),
+            ),
+        ).to.deep.eq([
+            'namespace lootery.storage.LooteryFactory: ccipRouter (slot 2, offset 0) was renamed to randomiser',
+        ])
+        expect(
+            compareStorageLayouts(namespaced, withMembers([members[1], members[0], members[2]])),
+        ).to.have.length.greaterThan(0)
+        expect(compareStorageLayouts(namespaced, { storage: [], types })).to.deep.eq([
+            'namespace lootery.storage.LooteryFactory was removed',
+        ])
+    })
+
+    it('should read layouts from the build output', async () => {
+        const layout = await getStorageLayout(hre, 'Lootery')
+        expect(compareStorageLayouts(layout, layout)).to.deep.eq([])
+        expect(layout.storage.map((entry) => entry.label)).to.include('jackpot')
+    })
+
+    it('should read namespaced layouts from the build output', async () => {
+        const layout = await getStorageLayout(hre, 'LooteryFactory')
+        // Everything is namespaced; there are no plain state variables
+        expect(layout.storage).to.deep.eq([])
+        expect(Object.keys(layout.namespaces ?? {})).to.have.members([
+            'lootery.storage.LooteryFactory',
+            'openzeppelin.storage.AccessControl',
+            'openzeppelin.storage.Initializable',
+        ])
+        const members = layout.namespaces!['lootery.storage.LooteryFactory']
+        expect(members.map((member) => member.label)).to.include.members([
+            'looteryMasterCopy',
+            'looteryCount',
+            'isLootery',
+        ])
+        // Member types are resolved
+        for (const member of members) {
+            expect(layout.types?.[member.type]).to.not.eq(undefined)
+        }
+        expect(compareStorageLayouts(layout, layout)).to.deep.eq([])
+    })
+
+    it('should be compatible with the factory deployed on each chain', async () => {
+        const layout = await getStorageLayout(hre, 'LooteryFactory')
+        // Baselines are kept per chain, alongside the plugin's own layouts
+        const chainIds = (
+            await fs.readdir(path.resolve(hre.config.paths.root, '.storage-layouts'))
+        ).filter((entry) => /^\d+$/.test(entry))
+        expect(chainIds).to.not.be.empty
+        for (const chainId of chainIds) {
+            const baseline = await readStorageLayoutBaseline(hre, BigInt(chainId), 'LooteryFactory')
+            expect(baseline, `baseline of chain ${chainId}`).to.not.eq(undefined)
+            expect(compareStorageLayouts(baseline!, layout), `chain ${chainId}`).to.deep.eq([])
+        }
+    })
+})